@@ -0,0 +1,69 @@
+"use client";
+
+import { use, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { organization, useSession } from "@/lib/auth/client";
+
+/**
+ * Invitation links (see InviteMemberForm). Signed-out users sign in or create an account
+ * first and come back here; accepting makes the organization the active one.
+ */
+export default function AcceptInvitePage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const router = useRouter();
+  const { data: authSession, isPending } = useSession();
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isPending && !authSession) {
+      router.replace(`/login?next=${encodeURIComponent(`/accept-invite/${id}`)}`);
+    }
+  }, [authSession, isPending, id, router]);
+
+  const handleAccept = async () => {
+    setLoading(true);
+    setError(null);
+
+    const { error: acceptError } = await organization.acceptInvitation({ invitationId: id });
+    if (acceptError) {
+      setError(acceptError.message || "This invitation is no longer valid");
+      setLoading(false);
+      return;
+    }
+
+    // The login page asks for a Case.dev API key when there is none yet
+    router.push("/login");
+  };
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center bg-background px-6 py-12">
+      <div className="w-full max-w-md rounded-xl border border-border bg-card p-8 text-center shadow-lg">
+        <h1
+          className="mb-2 text-3xl font-light tracking-tight text-foreground"
+          style={{ fontFamily: "'Spectral', serif" }}
+        >
+          Join your firm
+        </h1>
+        {authSession ? (
+          <>
+            <p className="mb-6 text-sm text-muted-foreground">
+              Accept the invitation as {authSession.user.email} to join the organization.
+            </p>
+            {error && (
+              <p className="mb-4 text-sm text-destructive" role="alert">
+                {error}
+              </p>
+            )}
+            <Button onClick={handleAccept} className="w-full" disabled={loading}>
+              {loading ? "Joining..." : "Accept Invitation"}
+            </Button>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        )}
+      </div>
+    </main>
+  );
+}
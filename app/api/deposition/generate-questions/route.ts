@@ -1,7 +1,58 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-import { chatCompletion } from '@/lib/case-dev/api';
-import type { DepositionQuestion, TestimonyGap, Contradiction } from '@/lib/types/deposition';
+import { addUsage, createUsageTotals, isLLMAuthError, measureUsage, streamChatCompletion } from '@/lib/llm';
+import type { CallUsage, ChatCompletionChunk, ChatMessage, UsageTotals } from '@/lib/llm';
+import type { FallbackReason } from '@/lib/types/testimony';
+import type { DepositionQuestion, TestimonyGap, Contradiction, TranscriptIndex } from '@/lib/types/deposition';
+import {
+  chunkDocuments,
+  dedupeBy,
+  fitsSinglePass,
+  interleave,
+  mapChunks,
+  renderDocuments,
+  takeWithinBudget,
+  MERGE_TOKEN_BUDGET,
+} from '@/lib/chunking';
+import type { PromptDocument } from '@/lib/chunking';
+import { createArrayItemParser } from '@/lib/json-stream';
+import { createGenerationStream } from '@/lib/question-stream';
+import { API_KEY_REJECTED_MESSAGE, apiKeyRejectedResponse, getLLMCredentials } from '@/lib/auth/api-key-session';
+import { requireAccess } from '@/lib/auth/access';
+import { checkUsageLimits, hasBudgetLeft, recordUsage, resolveUsageScope } from '@/lib/usage';
+import {
+  analysisResultSchema,
+  completeStructured,
+  depositionQuestionSchema,
+  repairStructuredOutput,
+} from '@/lib/llm/structured-output';
+import type { AnalysisResultOutput } from '@/lib/llm/structured-output';
+import {
+  parseTranscript,
+  parseCitation,
+  findCitation,
+  formatCitation,
+  isCitationInIndex,
+  formatTranscriptForPrompt,
+} from '@/lib/transcript-parser';
+
+// Map-reduce runs over many chunks; allow long-running requests where the platform supports it
+export const maxDuration = 300;
+
+// Questions requested from each chunk
+const QUESTIONS_PER_CHUNK = 8;
+
+interface DepositionAnalysis {
+  gaps: TestimonyGap[];
+  contradictions: Contradiction[];
+  questions: DepositionQuestion[];
+  analysis: {
+    keyThemes: string[];
+    timelineEvents: Array<{ date: string; event: string; source: string }>;
+    witnesses: string[];
+    keyExhibits: string[];
+  };
+}
 
 // Dynamic system prompt
 function getDepositionAnalysisPrompt(deponentName: string): string {
@@ -29,6 +80,12 @@ CRITICAL REQUIREMENTS:
 - DO NOT include generic questions like "state your name"
 - Every question should probe specific document content
 
+TRANSCRIPT CITATIONS:
+- Transcripts are shown with [page:line] prefixes on every line, e.g. "[12:4] Q. Where were you?"
+- Cite transcript testimony in page:line form: "12:4" for one line, "12:4-9" within a page, "12:4-13:2" across pages
+- Use "pageReference" on questions and "page" on contradiction sources ONLY for transcripts shown with [page:line] prefixes
+- Contradiction excerpts must be quoted verbatim from the document (without the [page:line] prefixes)
+
 ANALYSIS OBJECTIVES:
 1. Identify GAPS - missing or incomplete information in documents
 2. Detect CONTRADICTIONS - inconsistencies between documents
@@ -46,8 +103,8 @@ Return JSON object with this structure:
   }],
   "contradictions": [{
     "description": "Contradiction with quotes",
-    "source1": {"document": "Name", "excerpt": "Quote"},
-    "source2": {"document": "Name", "excerpt": "Quote"},
+    "source1": {"document": "Name", "excerpt": "Verbatim quote", "page": "12:4-13:2"},
+    "source2": {"document": "Name", "excerpt": "Verbatim quote", "page": "31:7-12"},
     "severity": "minor|moderate|significant",
     "suggestedQuestions": ["Question"]
   }],
@@ -63,6 +120,7 @@ Return JSON object with this structure:
     "category": "gap|contradiction|timeline|foundation|impeachment|follow_up|general",
     "priority": "high|medium|low",
     "documentReference": "Document name",
+    "pageReference": "12:4-13:2",
     "rationale": "Why this matters",
     "followUpQuestions": ["Follow-up 1", "Follow-up 2"]
   }]
@@ -71,6 +129,99 @@ Return JSON object with this structure:
 IMPORTANT: Return ONLY the JSON object. No markdown, no code blocks.`;
 }
 
+// Match a model-supplied document name to a parsed transcript
+function findTranscriptIndex(
+  indexes: Map<string, TranscriptIndex>,
+  documentName?: string
+): TranscriptIndex | undefined {
+  if (!documentName) return undefined;
+
+  const exact = indexes.get(documentName);
+  if (exact) return exact;
+
+  const lowerName = documentName.toLowerCase();
+  for (const [name, index] of indexes) {
+    const lowerIndexName = name.toLowerCase();
+    if (lowerName.includes(lowerIndexName) || lowerIndexName.includes(lowerName)) return index;
+  }
+  return undefined;
+}
+
+// Keep a page:line reference only if it points at lines that exist in the transcript
+function validateCitation(index: TranscriptIndex | undefined, reference?: string): string | undefined {
+  if (!index || !reference) return undefined;
+  const citation = parseCitation(reference);
+  return citation && isCitationInIndex(index, citation) ? formatCitation(citation) : undefined;
+}
+
+// Ground citations in the parsed transcripts - excerpts are located in the text rather than trusted
+function groundCitations(
+  result: { questions: DepositionQuestion[]; contradictions: Contradiction[] },
+  indexes: Map<string, TranscriptIndex>
+): void {
+  for (const contradiction of result.contradictions) {
+    for (const source of [contradiction.source1, contradiction.source2]) {
+      if (!source) continue;
+      const index = findTranscriptIndex(indexes, source.document);
+      const located = index && source.excerpt ? findCitation(index, source.excerpt) : null;
+      source.page = located ? formatCitation(located) : validateCitation(index, source.page);
+    }
+  }
+
+  for (const question of result.questions) {
+    question.pageReference = validateCitation(
+      findTranscriptIndex(indexes, question.documentReference),
+      question.pageReference
+    );
+  }
+}
+
+// Assign ids to a validated analysis
+function withIds(output: AnalysisResultOutput): DepositionAnalysis {
+  return {
+    gaps: output.gaps.map((gap) => ({ ...gap, id: uuidv4() })),
+    contradictions: output.contradictions.map((contradiction) => ({ ...contradiction, id: uuidv4() })),
+    questions: output.questions.map((question) => ({ ...question, id: uuidv4() })),
+    analysis: output.analysis,
+  };
+}
+
+const PRIORITY_RANK: Record<DepositionQuestion['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+// Deterministic merge of per-chunk analyses: used as merge-pass input and as its fallback
+function combineAnalyses(partials: DepositionAnalysis[]): DepositionAnalysis {
+  const all = <T,>(pick: (p: DepositionAnalysis) => T[] | undefined) => partials.map((p) => pick(p) || []);
+  const unique = (values: string[]) => dedupeBy(values, (v) => v);
+
+  return {
+    gaps: dedupeBy(interleave(all((p) => p.gaps), Infinity), (g) => g.description),
+    contradictions: dedupeBy(interleave(all((p) => p.contradictions), Infinity), (c) => c.description),
+    questions: dedupeBy(interleave(all((p) => p.questions), Infinity), (q) => q.question)
+      .sort((a, b) => (PRIORITY_RANK[a.priority] ?? 1) - (PRIORITY_RANK[b.priority] ?? 1)),
+    analysis: {
+      keyThemes: unique(all((p) => p.analysis?.keyThemes).flat()),
+      timelineEvents: dedupeBy(all((p) => p.analysis?.timelineEvents).flat(), (e) => `${e.date} ${e.event}`),
+      witnesses: unique(all((p) => p.analysis?.witnesses).flat()),
+      keyExhibits: unique(all((p) => p.analysis?.keyExhibits).flat()),
+    },
+  };
+}
+
+// Trim a combined analysis so the merge prompt stays within budget
+function trimForMerge(combined: DepositionAnalysis): DepositionAnalysis {
+  return {
+    gaps: takeWithinBudget(combined.gaps, MERGE_TOKEN_BUDGET * 0.2),
+    contradictions: takeWithinBudget(combined.contradictions, MERGE_TOKEN_BUDGET * 0.25),
+    questions: takeWithinBudget(combined.questions, MERGE_TOKEN_BUDGET * 0.4),
+    analysis: {
+      keyThemes: combined.analysis.keyThemes.slice(0, 30),
+      timelineEvents: takeWithinBudget(combined.analysis.timelineEvents, MERGE_TOKEN_BUDGET * 0.1),
+      witnesses: combined.analysis.witnesses.slice(0, 30),
+      keyExhibits: combined.analysis.keyExhibits.slice(0, 30),
+    },
+  };
+}
+
 // Extract document details
 function extractDocumentDetails(documents: Array<{ name: string; content?: string; type?: string }>) {
   const names = new Set<string>();
@@ -245,40 +396,117 @@ function generateFallbackAnalysis(deponentName: string, documents: Array<{ name:
   return { gaps, contradictions, questions, analysis };
 }
 
-// POST /api/deposition/generate-questions
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { deponentName, caseName, documents } = body;
+interface GenerationRequest {
+  deponentName: string;
+  caseName: string;
+  documents: Array<{ name: string; content?: string; type?: string }>;
+}
 
-    if (!deponentName || !caseName) {
-      return NextResponse.json(
-        { error: 'deponentName and caseName are required' },
-        { status: 400 }
-      );
+type GenerationResult = DepositionAnalysis & {
+  cost: number;
+  tokens: number;
+  charsProcessed: number;
+  usedFallback: boolean;
+  fallbackReason?: FallbackReason;
+  chunkCount: number;
+};
+
+interface GenerationHooks {
+  apiKey?: string;
+  signal?: AbortSignal;
+  /** Receives the usage of every model call, also when generation is cancelled */
+  usage?: UsageTotals;
+  /** False once the request's usage reaches a budget; checked before each model call of the map-reduce */
+  withinBudget?: () => boolean;
+  onStatus?: (message: string) => void;
+  onQuestion?: (question: DepositionQuestion) => void;
+}
+
+async function generateAnalysis(
+  { deponentName, caseName, documents }: GenerationRequest,
+  { apiKey, signal, usage = createUsageTotals(), withinBudget = () => true, onStatus, onQuestion }: GenerationHooks = {}
+): Promise<GenerationResult> {
+  // Prepare document context - transcripts are rendered with page:line prefixes for citation
+  const transcriptIndexes = new Map<string, TranscriptIndex>();
+  const promptDocuments: PromptDocument[] = documents.map((doc) => {
+    const content = doc.content || '[Content not available]';
+    const typeLabel = (doc.type || 'DOCUMENT').replace('_', ' ').toUpperCase();
+    // Transcript content keeps the PDF's page breaks (lib/document-ingestion.ts)
+    const transcript = doc.content ? parseTranscript(doc.content) : null;
+
+    if (transcript) {
+      transcriptIndexes.set(doc.name, transcript);
+      return {
+        name: doc.name,
+        header: `${typeLabel}: ${doc.name} (pages ${transcript.firstPage}-${transcript.lastPage}, cite as page:line)`,
+        text: formatTranscriptForPrompt(transcript),
+      };
     }
+    return { name: doc.name, header: `${typeLabel}: ${doc.name}`, text: content };
+  });
 
-    if (!documents || documents.length === 0) {
-      return NextResponse.json(
-        { error: 'No documents provided' },
-        { status: 400 }
-      );
+  const systemPrompt = getDepositionAnalysisPrompt(deponentName);
+
+  let result: DepositionAnalysis | null = null;
+  let fallbackReason: FallbackReason | undefined;
+  let chunkCount = 1;
+
+  // Usage is tracked across every call, repairs included
+  const structuredOptions = {
+    apiKey,
+    temperature: 0.7,
+    signal,
+    onUsage: (call: CallUsage) => addUsage(usage, call),
+  };
+
+  const messagesFor = (user: string): ChatMessage[] => [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: user },
+  ];
+
+  // Final passes stream: each question is emitted as soon as its JSON object closes.
+  // The full response is then validated (and repaired if needed); null when it stays unusable.
+  const completeAnalysis = async (user: string): Promise<DepositionAnalysis | null> => {
+    const messages = messagesFor(user);
+    const parser = createArrayItemParser('questions');
+    let content = '';
+    let reported: ChatCompletionChunk['usage'];
+
+    // Partial replies count too when the stream is cancelled
+    try {
+      for await (const chunk of streamChatCompletion(messages, { ...structuredOptions, max_tokens: 8000 })) {
+        content += chunk.content;
+        if (chunk.usage) reported = chunk.usage;
+        for (const item of parser.push(chunk.content)) {
+          const parsed = depositionQuestionSchema.safeParse(item);
+          if (!parsed.success) continue;
+          const question: DepositionQuestion = { ...parsed.data, id: uuidv4() };
+          question.pageReference = validateCitation(
+            findTranscriptIndex(transcriptIndexes, question.documentReference),
+            question.pageReference
+          );
+          onQuestion?.(question);
+        }
+      }
+    } finally {
+      addUsage(usage, measureUsage(messages, content, reported));
     }
 
-    // Prepare document context
-    const documentContext = documents
-      .map((doc: { name: string; content?: string; type?: string }) => {
-        const content = doc.content || '[Content not available]';
-        const typeLabel = (doc.type || 'DOCUMENT').replace('_', ' ').toUpperCase();
-        return `=== ${typeLabel}: ${doc.name} ===\n${content}\n=== END DOCUMENT ===`;
-      })
-      .join('\n\n');
+    const validated = await repairStructuredOutput(analysisResultSchema, messages, content, {
+      ...structuredOptions,
+      max_tokens: 8000,
+    });
+    return validated ? withIds(validated) : null;
+  };
 
-    const userPrompt = `Case: ${caseName}
+  try {
+    if (fitsSinglePass(promptDocuments)) {
+      onStatus?.('Analyzing documents...');
+      const userPrompt = `Case: ${caseName}
 Deponent (Witness Name): ${deponentName}
 
 DOCUMENTS TO ANALYZE:
-${documentContext}
+${renderDocuments(promptDocuments)}
 
 Based on these documents, perform comprehensive analysis and generate 15-20 strategic deposition questions.
 
@@ -287,107 +515,184 @@ Every question MUST reference specific facts, dates, names, or details from the
 
 CRITICAL: Return ONLY a valid JSON object. No markdown formatting, no code blocks.`;
 
-    let result: {
-      gaps: TestimonyGap[];
-      contradictions: Contradiction[];
-      questions: DepositionQuestion[];
-      analysis: {
-        keyThemes: string[];
-        timelineEvents: Array<{ date: string; event: string; source: string }>;
-        witnesses: string[];
-        keyExhibits: string[];
-      };
-    };
-    let usedFallback = false;
-    let cost = 0;
-    let charsProcessed = 0;
+      result = await completeAnalysis(userPrompt);
+      if (!result) fallbackReason = 'invalid_output';
+    } else {
+      // Map: analyze each chunk of the record on its own
+      const chunks = chunkDocuments(promptDocuments);
+      chunkCount = chunks.length;
+      let analyzed = 0;
+      let invalidExcerpts = 0;
+      let authError: unknown;
+      onStatus?.(`Analyzing ${chunks.length} document excerpts...`);
+
+      const partials = await mapChunks(chunks, async (chunk) => {
+        const validated = await completeStructured(
+          analysisResultSchema,
+          messagesFor(`Case: ${caseName}
+Deponent (Witness Name): ${deponentName}
 
-    try {
-      const response = await chatCompletion(
-        [
-          { role: 'system', content: getDepositionAnalysisPrompt(deponentName) },
-          { role: 'user', content: userPrompt },
-        ],
-        {
-          model: 'casemark/casemark-core-1',
-          temperature: 0.7,
-          max_tokens: 8000,
-        }
-      );
+The case documents are too long to review at once. This is EXCERPT ${chunk.index + 1} OF ${chunks.length}; other excerpts are analyzed separately and merged later.
 
-      const content = response.choices?.[0]?.message?.content || '';
+${chunk.text}
 
-      // Calculate characters processed (cost tracking disabled in OSS version)
-      charsProcessed = (getDepositionAnalysisPrompt(deponentName) + userPrompt + content).length;
-      cost = 0;
+Analyze ONLY this excerpt and generate up to ${QUESTIONS_PER_CHUNK} strategic deposition questions grounded in it.
+Report contradictions only when both sides appear in this excerpt, quoting them verbatim.
 
-      if (content) {
-        try {
-          // Try to parse JSON response
-          let cleaned = content.trim();
-          cleaned = cleaned.replace(/^\uFEFF/, '');
-          cleaned = cleaned.replace(/^```(?:json)?\s*\n?/i, '');
-          cleaned = cleaned.replace(/\n?```\s*$/i, '');
-          cleaned = cleaned.trim();
-
-          const parsed = JSON.parse(cleaned);
-          
-          // Add IDs to questions, gaps, contradictions
-          if (parsed.questions) {
-            parsed.questions = parsed.questions.map((q: any) => ({
-              ...q,
-              id: q.id || uuidv4()
-            }));
-          }
-          if (parsed.gaps) {
-            parsed.gaps = parsed.gaps.map((g: any) => ({
-              ...g,
-              id: g.id || uuidv4()
-            }));
-          }
-          if (parsed.contradictions) {
-            parsed.contradictions = parsed.contradictions.map((c: any) => ({
-              ...c,
-              id: c.id || uuidv4()
-            }));
+CRITICAL: ALL questions MUST be directed TO ${deponentName}. Use "you" and "your".
+
+CRITICAL: Return ONLY a valid JSON object. No markdown formatting, no code blocks.`),
+          { ...structuredOptions, max_tokens: 4000 }
+        ).catch((error) => {
+          if (isLLMAuthError(error)) authError = error;
+          throw error;
+        });
+        onStatus?.(`Analyzed ${++analyzed} of ${chunks.length} document excerpts`);
+        if (!validated) invalidExcerpts++;
+        return validated ? withIds(validated) : null;
+      }, withinBudget);
+      signal?.throwIfAborted();
+      if (authError) throw authError;
+
+      const usable = partials.filter((p): p is DepositionAnalysis => !!p);
+      if (usable.length === 0) {
+        fallbackReason = invalidExcerpts > 0 ? 'invalid_output' : 'api_error';
+      } else {
+        const combined = combineAnalyses(usable);
+
+        // Reduce: dedupe, find cross-excerpt contradictions, and rank the questions.
+        // Skipped once the budget is used up, as the excerpts not yet analyzed were.
+        const budgetReached = !withinBudget();
+        if (!budgetReached) {
+          onStatus?.('Merging excerpt analyses...');
+          try {
+            result = await completeAnalysis(
+              `Case: ${caseName}
+Deponent (Witness Name): ${deponentName}
+
+The case documents were analyzed in ${chunks.length} excerpts. These are the COMBINED PARTIAL ANALYSES:
+${JSON.stringify(trimForMerge(combined))}
+
+Merge them into one final analysis:
+- Remove duplicate or overlapping gaps, and drop gaps that another excerpt's material fills
+- Keep contradictions with their verbatim excerpts and page citations unchanged; add contradictions BETWEEN excerpts that the combined material reveals
+- Merge key themes, witnesses and exhibits; order timeline events chronologically
+- Select the 15-20 strongest questions, merging near-duplicates, with the highest-priority questions first
+
+CRITICAL: ALL questions MUST be directed TO ${deponentName}. Use "you" and "your".
+
+CRITICAL: Return ONLY a valid JSON object. No markdown formatting, no code blocks.`
+            );
+          } catch (mergeError) {
+            signal?.throwIfAborted();
+            if (isLLMAuthError(mergeError)) throw mergeError;
+            console.error('Merge pass failed:', mergeError instanceof Error ? mergeError.message : mergeError);
           }
+        }
 
-          result = parsed;
-        } catch (parseError) {
-          console.error('Failed to parse LLM response, using fallback');
-          result = generateFallbackAnalysis(deponentName, documents);
-          usedFallback = true;
+        if (!result) {
+          result = { ...combined, questions: combined.questions.slice(0, 20) };
+          if (budgetReached) fallbackReason = 'budget_exceeded';
         }
-      } else {
-        result = generateFallbackAnalysis(deponentName, documents);
-        usedFallback = true;
       }
-    } catch (apiError) {
-      console.error('LLM API error:', apiError);
-      result = generateFallbackAnalysis(deponentName, documents);
-      usedFallback = true;
     }
+  } catch (apiError) {
+    signal?.throwIfAborted();
+    // A rejected key is not a model failure: the user has to sign in again
+    if (isLLMAuthError(apiError)) throw apiError;
+    console.error('LLM API error:', apiError);
+    fallbackReason = 'api_error';
+  }
 
-    // Ensure result has all required fields
-    if (!result.gaps) result.gaps = [];
-    if (!result.contradictions) result.contradictions = [];
-    if (!result.questions) result.questions = [];
-    if (!result.analysis) {
-      result.analysis = {
-        keyThemes: [],
-        timelineEvents: [],
-        witnesses: [],
-        keyExhibits: []
-      };
+  // Nothing usable from the model: answer with the templated analysis, and say why
+  const usedFallback = !result;
+  if (!result) {
+    result = generateFallbackAnalysis(deponentName, documents);
+    fallbackReason ??= 'invalid_output';
+  }
+
+  groundCitations(result, transcriptIndexes);
+
+  return {
+    ...result,
+    cost: usage.cost, // Cost in dollars
+    tokens: usage.promptTokens + usage.completionTokens,
+    charsProcessed: usage.chars,
+    usedFallback,
+    fallbackReason,
+    chunkCount,
+  };
+}
+
+// POST /api/deposition/generate-questions
+// With { stream: true } the response is NDJSON: status updates, each question as it is
+// generated, then a final "done" event with the same payload as the JSON response.
+export async function POST(request: NextRequest) {
+  const access = await requireAccess(request, 'depositionAnalysis');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const body = await request.json();
+    const { deponentName, caseName, documents, stream } = body;
+
+    if (!deponentName || !caseName) {
+      return NextResponse.json(
+        { error: 'deponentName and caseName are required' },
+        { status: 400 }
+      );
     }
 
-    return NextResponse.json({
-      ...result,
-      cost,
-      charsProcessed,
-      usedFallback,
-    });
+    if (!documents || documents.length === 0) {
+      return NextResponse.json(
+        { error: 'No documents provided' },
+        { status: 400 }
+      );
+    }
+
+    const credentials = getLLMCredentials(request);
+    if (!credentials) {
+      return apiKeyRejectedResponse();
+    }
+
+    const usageScope = await resolveUsageScope(access, 'deposition/generate-questions', body.caseId);
+    if (usageScope instanceof NextResponse) return usageScope;
+    const limited = checkUsageLimits(usageScope);
+    if (limited) return limited;
+    const usage = createUsageTotals();
+    const withinBudget = () => hasBudgetLeft(usageScope, usage);
+
+    const params: GenerationRequest = { deponentName, caseName, documents };
+
+    if (stream) {
+      return createGenerationStream<DepositionQuestion, GenerationResult>(async (send) => {
+        try {
+          const result = await generateAnalysis(params, {
+            ...credentials,
+            signal: request.signal,
+            usage,
+            withinBudget,
+            onStatus: (message) => send({ type: 'status', message }),
+            onQuestion: (question) => send({ type: 'question', question }),
+          });
+          send({ type: 'done', result });
+        } catch (error) {
+          if (!isLLMAuthError(error)) throw error;
+          send({ type: 'error', error: API_KEY_REJECTED_MESSAGE, status: 401 });
+        } finally {
+          recordUsage(usageScope, usage);
+        }
+      });
+    }
+
+    try {
+      return NextResponse.json(await generateAnalysis(params, { ...credentials, usage, withinBudget }));
+    } finally {
+      recordUsage(usageScope, usage);
+    }
   } catch (error) {
+    if (isLLMAuthError(error)) {
+      return apiKeyRejectedResponse();
+    }
     console.error('Error generating deposition analysis:', error);
     return NextResponse.json(
       { error: 'Failed to generate analysis' },
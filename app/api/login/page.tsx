@@ -55,7 +55,7 @@ export default function LoginPage() {
         return;
       }
 
-      // Store API key in localStorage
+      // The server keeps the key in an httpOnly cookie; remember the masked hint
       setApiKey(apiKey);
 
       // Redirect to home page
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { clearApiKeyCookie } from '@/lib/auth/api-key-session';
+
+// POST /api/logout - Forget the signed-in user's API key
+export async function POST() {
+  const response = NextResponse.json({ success: true });
+  clearApiKeyCookie(response);
+  return response;
+}
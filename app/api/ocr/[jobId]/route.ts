@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOCRProvider, normalizeOCRResult } from '@/lib/ocr/providers';
+import { isOCRJobOwner } from '@/lib/ocr/jobs';
+import { requireAccess } from '@/lib/auth/access';
+
+interface RouteContext {
+  params: Promise<{ jobId: string }>;
+}
+
+// GET /api/ocr/[jobId] - Poll an OCR job submitted by the same member
+export async function GET(request: NextRequest, context: RouteContext) {
+  const access = await requireAccess(request, 'documentUpload');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const { jobId } = await context.params;
+    // Unknown jobs and other members' jobs look the same
+    if (!isOCRJobOwner(jobId, access)) {
+      return NextResponse.json({ error: 'OCR job not found' }, { status: 404 });
+    }
+    const result = await getOCRProvider().getStatus(jobId);
+
+    return NextResponse.json({
+      ...normalizeOCRResult(result),
+      jobId,
+    });
+  } catch (error) {
+    console.error('Error polling OCR job:', error);
+    return NextResponse.json(
+      { error: 'Failed to get OCR status' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import { member, setUpRouteTests, signInAs, throughMiddleware } from '@/test/routes';
+import { POST } from './route';
+import { GET } from './[jobId]/route';
+
+vi.mock('@/lib/auth/access', () => import('@/test/routes'));
+
+// A stand-in local OCR server: jobs finish on the second status poll
+function startLocalOCRServer() {
+  const polls = new Map<string, number>();
+  const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input);
+    if (url === 'http://ocr.test/ocr/process' && init?.method === 'POST') {
+      const file = (init.body as FormData).get('file') as File;
+      polls.set('job-1', 0);
+      return Response.json({ id: 'job-1', status: 'processing', filename: file.name });
+    }
+    const status = url.match(/^http:\/\/ocr\.test\/ocr\/status\/(.+)$/);
+    if (status && polls.has(status[1])) {
+      const count = (polls.get(status[1]) ?? 0) + 1;
+      polls.set(status[1], count);
+      return Response.json(
+        count < 2
+          ? { id: status[1], status: 'processing' }
+          : {
+              id: status[1],
+              status: 'completed',
+              text: 'Page two\nPage one',
+              pages: [
+                { page_number: 2, text: 'Page two', confidence: 80 },
+                { page_number: 1, text: 'Page one', confidence: 95 },
+              ],
+            }
+      );
+    }
+    return new Response('Not found', { status: 404 });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function upload(content = '%PDF-1.4'): NextRequest {
+  const formData = new FormData();
+  formData.append('file', new File([content], 'scan.pdf', { type: 'application/pdf' }));
+  return new NextRequest('http://localhost/api/ocr', { method: 'POST', body: formData });
+}
+
+function submit(): Promise<Response> {
+  return POST(upload());
+}
+
+function poll(jobId: string): Promise<Response> {
+  return GET(new NextRequest(`http://localhost/api/ocr/${jobId}`), { params: Promise.resolve({ jobId }) });
+}
+
+setUpRouteTests({ OCR_PROVIDER: 'local', LOCAL_OCR_URL: 'http://ocr.test/' });
+
+describe('/api/ocr with a local OCR server', () => {
+  it('submits the document and polls the job until it completes', async () => {
+    const server = startLocalOCRServer();
+
+    const submitted = await submit();
+    expect(submitted.status).toBe(200);
+    expect(await submitted.json()).toMatchObject({ jobId: 'job-1', status: 'processing', provider: 'local' });
+    expect(server).toHaveBeenCalledWith('http://ocr.test/ocr/process', expect.objectContaining({ method: 'POST' }));
+
+    expect(await (await poll('job-1')).json()).toMatchObject({ status: 'processing' });
+    const completed = await (await poll('job-1')).json();
+    expect(completed.status).toBe('completed');
+    // Normalized: pages in order, confidences from percentages to 0-1
+    expect(completed.pages).toEqual([
+      { page_number: 1, text: 'Page one', confidence: 0.95 },
+      { page_number: 2, text: 'Page two', confidence: 0.8 },
+    ]);
+  });
+
+  it("does not return another member's job", async () => {
+    const server = startLocalOCRServer();
+    await submit();
+
+    signInAs(member('user-2'));
+    const response = await poll('job-1');
+    expect(response.status).toBe(404);
+    expect(server).toHaveBeenCalledTimes(1);
+  });
+
+  it('turns away requests without access before calling the provider', async () => {
+    const server = startLocalOCRServer();
+    signInAs(null);
+
+    expect((await submit()).status).toBe(401);
+    expect((await poll('job-1')).status).toBe(401);
+    expect(server).not.toHaveBeenCalled();
+  });
+
+  it('passes a scan over 10MB on to the provider whole', async () => {
+    const server = startLocalOCRServer();
+    const scan = '%PDF-1.4\n' + ' '.repeat(12 * 1024 * 1024);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const response = await POST(await throughMiddleware(upload(scan)));
+    expect(response.status).toBe(200);
+    const sent = (server.mock.calls[0][1]!.body as FormData).get('file') as File;
+    expect(sent.size).toBe(scan.length);
+  });
+
+  it('reports provider failures as a bad gateway', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('OCR engine crashed', { status: 500 })));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await submit();
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'Failed to start OCR for this document' });
+  });
+});
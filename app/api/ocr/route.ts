@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOCRProvider, normalizeOCRResult } from '@/lib/ocr/providers';
+import { recordOCRJob } from '@/lib/ocr/jobs';
+import { requireAccess } from '@/lib/auth/access';
+import { MAX_PDF_BYTES } from '@/lib/upload-limits';
+
+// POST /api/ocr - Submit a scanned document for OCR
+// Returns the result directly when the provider finishes synchronously,
+// otherwise a job id to poll at /api/ocr/[jobId]; only the submitter may poll it
+export async function POST(request: NextRequest) {
+  const access = await requireAccess(request, 'documentUpload');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const language = formData.get('language');
+
+    if (!(file instanceof Blob)) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_PDF_BYTES) {
+      return NextResponse.json(
+        { error: 'Document is too large for OCR (max 100MB)' },
+        { status: 413 }
+      );
+    }
+
+    const fileName = file instanceof File ? file.name : 'document.pdf';
+    const provider = getOCRProvider();
+    const result = await provider.submit(file, fileName, {
+      language: typeof language === 'string' ? language : undefined,
+    });
+    if (result.id) recordOCRJob(result.id, access);
+
+    return NextResponse.json({
+      ...normalizeOCRResult(result),
+      jobId: result.id,
+      provider: provider.name,
+    });
+  } catch (error) {
+    console.error('Error submitting OCR job:', error);
+    return NextResponse.json(
+      { error: 'Failed to start OCR for this document' },
+      { status: 502 }
+    );
+  }
+}
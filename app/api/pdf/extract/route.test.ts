@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { setUpRouteTests, throughMiddleware } from '@/test/routes';
+import { POST } from './route';
+
+vi.mock('@/lib/auth/access', () => import('@/test/routes'));
+
+const MB = 1024 * 1024;
+
+// A one-page PDF reading `text`, padded to `size` bytes with a stream nothing refers to
+function paddedPDF(text: string, size: number): string {
+  const content = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  const padding = Math.max(0, size - 1024);
+  objects.push(`<< /Length ${padding} >>\nstream\n${' '.repeat(padding)}\nendstream`);
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return pdf;
+}
+
+function upload(pdf: string): Request {
+  const formData = new FormData();
+  formData.append('file', new File([pdf], 'exhibits.pdf', { type: 'application/pdf' }));
+  return new NextRequest('http://localhost/api/pdf/extract', { method: 'POST', body: formData });
+}
+
+setUpRouteTests();
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('/api/pdf/extract behind the middleware', () => {
+  it('extracts a PDF over 10MB', async () => {
+    const pdf = paddedPDF('Exhibit 12 signed March 5', 12 * MB);
+    expect(pdf.length).toBeGreaterThan(10 * MB);
+
+    const response = await POST(await throughMiddleware(upload(pdf)));
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.pageCount).toBe(1);
+    expect(data.pages[0].text).toContain('Exhibit 12 signed March 5');
+  });
+
+  it("gets the PDF cut off under Next's default 10MB limit", async () => {
+    const pdf = paddedPDF('Exhibit 12 signed March 5', 12 * MB);
+
+    const response = await POST(await throughMiddleware(upload(pdf), 10 * MB));
+    expect(response.status).toBe(422);
+  });
+});
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractPDFPagesOnServer } from '@/lib/pdf-server';
+import { requireAccess } from '@/lib/auth/access';
+import { MAX_PDF_BYTES } from '@/lib/upload-limits';
+
+// PDF.js needs Node APIs; never run this on the edge runtime
+export const runtime = 'nodejs';
+
+// POST /api/pdf/extract - Extract the text layer of a PDF on the server
+// Fallback for large PDFs (or browsers where the PDF.js worker cannot load).
+// Pages without a text layer come back as 'blank' so the client can route them through OCR.
+export async function POST(request: NextRequest) {
+  const access = await requireAccess(request, 'documentUpload');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof Blob)) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_PDF_BYTES) {
+      return NextResponse.json(
+        { error: 'PDF is too large to process (max 100MB)' },
+        { status: 413 }
+      );
+    }
+
+    const pages = await extractPDFPagesOnServer(new Uint8Array(await file.arrayBuffer()));
+
+    return NextResponse.json({
+      pages,
+      pageCount: pages.length,
+    });
+  } catch (error) {
+    console.error('Error extracting PDF text:', error);
+    return NextResponse.json(
+      { error: 'Failed to extract text from PDF' },
+      { status: 422 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { notFoundResponse, readJSONBody, resolveStorageRequest, storageErrorResponse } from '@/lib/persistence/http';
+import type { StorageRouteContext } from '@/lib/persistence/http';
+
+export const runtime = 'nodejs';
+
+type RouteContext = StorageRouteContext<{ store: string; id: string; documentId: string }>;
+
+// PATCH /api/storage/[store]/[id]/documents/[documentId] - Update one document
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const { store, id, documentId } = await context.params;
+  const resolved = await resolveStorageRequest(request, store, 'write');
+  if (resolved instanceof NextResponse) return resolved;
+
+  try {
+    const updates = await readJSONBody(request);
+    if (typeof updates !== 'object' || updates === null || Array.isArray(updates)) {
+      return NextResponse.json({ error: 'Document updates are required' }, { status: 400 });
+    }
+
+    const stored = await resolved.repository.patchDocument(resolved.store, id, documentId, updates);
+    return stored ? NextResponse.json(stored) : notFoundResponse('Document');
+  } catch (error) {
+    return storageErrorResponse(error, 'update document');
+  }
+}
+
+// DELETE /api/storage/[store]/[id]/documents/[documentId] - Remove a document from a session
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { store, id, documentId } = await context.params;
+  const resolved = await resolveStorageRequest(request, store, 'write');
+  if (resolved instanceof NextResponse) return resolved;
+
+  try {
+    const stored = await resolved.repository.deleteDocument(resolved.store, id, documentId);
+    return stored ? NextResponse.json(stored) : notFoundResponse();
+  } catch (error) {
+    return storageErrorResponse(error, 'delete document');
+  }
+}
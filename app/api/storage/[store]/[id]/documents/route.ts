@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  isDocumentBody,
+  notFoundResponse,
+  readJSONBody,
+  resolveStorageRequest,
+  storageErrorResponse,
+} from '@/lib/persistence/http';
+import type { StorageRouteContext } from '@/lib/persistence/http';
+
+export const runtime = 'nodejs';
+
+type RouteContext = StorageRouteContext<{ store: string; id: string }>;
+
+// POST /api/storage/[store]/[id]/documents - Append a document to a session
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { store, id } = await context.params;
+  const resolved = await resolveStorageRequest(request, store, 'write');
+  if (resolved instanceof NextResponse) return resolved;
+
+  try {
+    const document = await readJSONBody(request);
+    if (!isDocumentBody(document)) {
+      return NextResponse.json({ error: 'A document with an id is required' }, { status: 400 });
+    }
+
+    const stored = await resolved.repository.insertDocument(resolved.store, id, document);
+    return stored ? NextResponse.json(stored) : notFoundResponse();
+  } catch (error) {
+    return storageErrorResponse(error, 'add document');
+  }
+}
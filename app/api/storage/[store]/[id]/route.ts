@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  isSessionBody,
+  notFoundResponse,
+  readJSONBody,
+  resolveStorageRequest,
+  storageErrorResponse,
+} from '@/lib/persistence/http';
+import type { StorageRouteContext } from '@/lib/persistence/http';
+
+export const runtime = 'nodejs';
+
+type RouteContext = StorageRouteContext<{ store: string; id: string }>;
+
+// GET /api/storage/[store]/[id] - A session with its documents (?content=false leaves out their text)
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { store, id } = await context.params;
+  const resolved = await resolveStorageRequest(request, store, 'read');
+  if (resolved instanceof NextResponse) return resolved;
+
+  try {
+    const includeContent = request.nextUrl.searchParams.get('content') !== 'false';
+    const stored = await resolved.repository.getSession(resolved.store, id, includeContent);
+    return stored ? NextResponse.json(stored) : notFoundResponse();
+  } catch (error) {
+    return storageErrorResponse(error, 'read session');
+  }
+}
+
+// PUT /api/storage/[store]/[id] - Replace a session and its documents
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const { store, id } = await context.params;
+  const resolved = await resolveStorageRequest(request, store, 'write');
+  if (resolved instanceof NextResponse) return resolved;
+
+  try {
+    const session = await readJSONBody(request);
+    if (!isSessionBody(session) || session.id !== id) {
+      return NextResponse.json({ error: 'A session with this id, createdAt and documents is required' }, { status: 400 });
+    }
+
+    await resolved.repository.replaceSession(resolved.store, session);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return storageErrorResponse(error, 'replace session');
+  }
+}
+
+// PATCH /api/storage/[store]/[id] - Update a session's fields ({ record, revision, touch })
+// 409 when the session changed since `revision` was read
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const { store, id } = await context.params;
+  const resolved = await resolveStorageRequest(request, store, 'update');
+  if (resolved instanceof NextResponse) return resolved;
+
+  try {
+    const { record, revision, touch = true } = (await readJSONBody(request)) as {
+      record?: Record<string, unknown> | null;
+      revision?: unknown;
+      touch?: unknown;
+    };
+    if (typeof record !== 'object' || record === null || typeof revision !== 'number') {
+      return NextResponse.json({ error: 'record and revision are required' }, { status: 400 });
+    }
+
+    const stored = await resolved.repository.updateRecord(resolved.store, id, record, {
+      revision,
+      touch: touch !== false,
+    });
+    return stored ? NextResponse.json(stored) : notFoundResponse();
+  } catch (error) {
+    return storageErrorResponse(error, 'update session');
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSessionBody, readJSONBody, resolveStorageRequest, storageErrorResponse } from '@/lib/persistence/http';
+import type { StorageRouteContext } from '@/lib/persistence/http';
+
+export const runtime = 'nodejs';
+
+type RouteContext = StorageRouteContext<{ store: string }>;
+
+// GET /api/storage/[store] - Every session in a store, newest first, without document text
+export async function GET(request: NextRequest, context: RouteContext) {
+  const resolved = await resolveStorageRequest(request, (await context.params).store, 'read');
+  if (resolved instanceof NextResponse) return resolved;
+
+  try {
+    return NextResponse.json({ sessions: await resolved.repository.listSessions(resolved.store) });
+  } catch (error) {
+    return storageErrorResponse(error, 'list sessions');
+  }
+}
+
+// POST /api/storage/[store] - Save a session with its documents
+export async function POST(request: NextRequest, context: RouteContext) {
+  const resolved = await resolveStorageRequest(request, (await context.params).store, 'write');
+  if (resolved instanceof NextResponse) return resolved;
+
+  try {
+    const session = await readJSONBody(request);
+    if (!isSessionBody(session)) {
+      return NextResponse.json({ error: 'A session with id, createdAt and documents is required' }, { status: 400 });
+    }
+
+    await resolved.repository.putSession(resolved.store, session);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return storageErrorResponse(error, 'save session');
+  }
+}
+
+// DELETE /api/storage/[store] - Delete sessions with their documents ({ ids })
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const resolved = await resolveStorageRequest(request, (await context.params).store, 'write');
+  if (resolved instanceof NextResponse) return resolved;
+
+  try {
+    const { ids } = (await readJSONBody(request)) as { ids?: unknown };
+    if (!Array.isArray(ids) || !ids.every((id) => typeof id === 'string')) {
+      return NextResponse.json({ error: 'ids must be an array of session ids' }, { status: 400 });
+    }
+
+    return NextResponse.json({ deleted: await resolved.repository.deleteSessions(resolved.store, ids) });
+  } catch (error) {
+    return storageErrorResponse(error, 'delete sessions');
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSessionBody, readJSONBody, resolveStorageRequest, storageErrorResponse } from '@/lib/persistence/http';
+import type { Case } from '@/lib/types/case';
+
+export const runtime = 'nodejs';
+
+// POST /api/storage/cases/match - The case with this case's name and case number, saving
+// this one when there is none
+export async function POST(request: NextRequest) {
+  const resolved = await resolveStorageRequest(request, 'cases', 'write');
+  if (resolved instanceof NextResponse) return resolved;
+
+  try {
+    const candidate = await readJSONBody(request);
+    if (!isSessionBody(candidate) || typeof (candidate as { name?: unknown }).name !== 'string') {
+      return NextResponse.json({ error: 'A case with id, name, createdAt and documents is required' }, { status: 400 });
+    }
+
+    return NextResponse.json(await resolved.repository.findOrCreateCase(candidate as Case));
+  } catch (error) {
+    return storageErrorResponse(error, 'save case');
+  }
+}
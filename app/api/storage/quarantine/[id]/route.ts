@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeStorageRequest, storageErrorResponse } from '@/lib/persistence/http';
+import type { StorageRouteContext } from '@/lib/persistence/http';
+
+export const runtime = 'nodejs';
+
+// DELETE /api/storage/quarantine/[id] - Permanently delete a quarantined record and its documents
+export async function DELETE(request: NextRequest, context: StorageRouteContext<{ id: string }>) {
+  const authorized = await authorizeStorageRequest(request, { document: ['delete'] });
+  if (authorized instanceof NextResponse) return authorized;
+
+  try {
+    await authorized.repository.discardQuarantinedRecord((await context.params).id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return storageErrorResponse(error, 'discard quarantined record');
+  }
+}
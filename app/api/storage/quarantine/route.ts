@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeStorageRequest, storageErrorResponse } from '@/lib/persistence/http';
+
+export const runtime = 'nodejs';
+
+// GET /api/storage/quarantine - The organization's saved records that could not be migrated to the current schema
+export async function GET(request: NextRequest) {
+  const authorized = await authorizeStorageRequest(request, { matter: ['read'] });
+  if (authorized instanceof NextResponse) return authorized;
+
+  try {
+    return NextResponse.json({ records: await authorized.repository.getQuarantinedRecords() });
+  } catch (error) {
+    return storageErrorResponse(error, 'list quarantined records');
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeStorageRequest, storageErrorResponse } from '@/lib/persistence/http';
+
+export const runtime = 'nodejs';
+
+// GET /api/storage - Which server backend holds sessions, and the space it uses
+export async function GET(request: NextRequest) {
+  const authorized = await authorizeStorageRequest(request, { matter: ['read'] });
+  if (authorized instanceof NextResponse) return authorized;
+
+  try {
+    const { backend } = authorized;
+    return NextResponse.json({ backend: backend.name, used: await backend.estimateSize() });
+  } catch (error) {
+    return storageErrorResponse(error, 'read storage usage');
+  }
+}
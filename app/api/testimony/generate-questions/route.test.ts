@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import { getLLMProvider } from '@/lib/llm';
+import { member, setUpRouteTests, signInAs } from '@/test/routes';
+import { POST } from './route';
+
+vi.mock('@/lib/auth/access', () => import('@/test/routes'));
+
+// Enough for several excerpts of the map-reduce path
+const longRecord = Array.from(
+  { length: 4000 },
+  (_, i) => `Line ${i + 1}: Dana Whitfield reviewed invoice ${i + 1} for the supply contract before signing.`
+).join('\n');
+
+function generate(stream: boolean, content = 'Dana Whitfield signed the supply contract on March 5, 2021.'): Promise<Response> {
+  return POST(
+    new NextRequest('http://localhost/api/testimony/generate-questions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        witnessName: 'Dana Whitfield',
+        caseName: 'Acme v. Widget',
+        caseId: 'case-1',
+        documents: [{ name: 'contract.txt', content }],
+        stream,
+      }),
+    })
+  );
+}
+
+setUpRouteTests({ LLM_PROVIDER: 'mock', USAGE_DATABASE_PATH: ':memory:' });
+
+describe('/api/testimony/generate-questions with the mock provider', () => {
+  it('generates questions without an API key', async () => {
+    const response = await generate(false);
+    expect(response.status).toBe(200);
+
+    const data = await response.json();
+    expect(data.usedFallback).toBe(false);
+    expect(data.questions.length).toBeGreaterThan(0);
+    expect(data.questions[0]).toMatchObject({ question: expect.any(String), category: expect.any(String) });
+    expect(data.tokens).toBeGreaterThan(0);
+  });
+
+  it('streams each question, then the result', async () => {
+    const response = await generate(true);
+    const events = (await response.text())
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+
+    const done = events[events.length - 1];
+    expect(done.type).toBe('done');
+    expect(events.filter((event) => event.type === 'question')).toHaveLength(done.result.questions.length);
+  });
+
+  it('stops analyzing excerpts once the monthly budget is used up', async () => {
+    vi.stubEnv('BUDGET_USER_MONTHLY_TOKENS', '1000');
+    // A member of its own, with no usage in the ledger yet
+    signInAs(member('user-budget'));
+    const calls = vi.spyOn(getLLMProvider(), 'chatCompletion');
+
+    const response = await generate(false, longRecord);
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.chunkCount).toBeGreaterThan(3);
+    expect(data.fallbackReason).toBe('budget_exceeded');
+    // Only the excerpts already started when the budget ran out; no merge pass
+    expect(calls.mock.calls.length).toBeLessThan(data.chunkCount);
+  });
+});
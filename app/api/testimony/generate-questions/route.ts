@@ -1,7 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-import { chatCompletion, estimateTokens } from '@/lib/case-dev/api';
-import type { CrossExamQuestion } from '@/lib/types/testimony';
+import { addUsage, createUsageTotals, isLLMAuthError, measureUsage, streamChatCompletion } from '@/lib/llm';
+import type { CallUsage, ChatCompletionChunk, ChatMessage, UsageTotals } from '@/lib/llm';
+import type { CrossExamQuestion, FallbackReason } from '@/lib/types/testimony';
+import {
+  chunkDocuments,
+  dedupeBy,
+  fitsSinglePass,
+  interleave,
+  mapChunks,
+  renderDocuments,
+  takeWithinBudget,
+} from '@/lib/chunking';
+import type { PromptDocument } from '@/lib/chunking';
+import { createArrayItemParser } from '@/lib/json-stream';
+import { createGenerationStream } from '@/lib/question-stream';
+import { API_KEY_REJECTED_MESSAGE, apiKeyRejectedResponse, getLLMCredentials } from '@/lib/auth/api-key-session';
+import { requireAccess } from '@/lib/auth/access';
+import { checkUsageLimits, hasBudgetLeft, recordUsage, resolveUsageScope } from '@/lib/usage';
+import {
+  completeStructured,
+  crossExamQuestionListSchema,
+  crossExamQuestionSchema,
+  crossExamQuestionSetSchema,
+  repairStructuredOutput,
+} from '@/lib/llm/structured-output';
+import type { CrossExamQuestionOutput } from '@/lib/llm/structured-output';
+
+// Map-reduce runs over many chunks; allow long-running requests where the platform supports it
+export const maxDuration = 300;
+
+// Questions requested from each chunk, and candidates carried into the merge pass
+const QUESTIONS_PER_CHUNK = 8;
+const MAX_MERGE_CANDIDATES = 80;
 
 // Dynamic system prompt that includes the actual witness name
 function getQuestionGenerationPrompt(witnessName: string): string {
@@ -85,55 +116,34 @@ IMPORTANT:
 - Remember: ${witnessName} is the ONLY person being questioned. All questions and follow-ups must be directed to ${witnessName}.`;
 }
 
-// Robust JSON parsing with multiple fallback strategies
-function parseJSONResponse(content: string): unknown[] | null {
-  // Strategy 1: Direct parse
-  try {
-    const parsed = JSON.parse(content);
-    if (Array.isArray(parsed)) return parsed;
-  } catch {
-    // Continue
-  }
+// Map step: questions drawn from one excerpt of a larger document set
+function getChunkQuestionPrompt(witnessName: string): string {
+  return `You are an experienced trial attorney preparing cross-examination questions for ${witnessName}. You are reviewing ONE EXCERPT of a larger set of case documents; other excerpts are reviewed separately and the results are merged later.
 
-  // Strategy 2: Clean and parse
-  try {
-    let cleaned = content.trim();
-    cleaned = cleaned.replace(/^\uFEFF/, '');
-    cleaned = cleaned.replace(/^```(?:json)?\s*\n?/i, '');
-    cleaned = cleaned.replace(/\n?```\s*$/i, '');
-    cleaned = cleaned.trim();
-
-    const parsed = JSON.parse(cleaned);
-    if (Array.isArray(parsed)) return parsed;
-  } catch {
-    // Continue
-  }
+THE WITNESS YOU ARE PREPARING QUESTIONS FOR IS: ${witnessName}
+The excerpt may contain testimony or statements from OTHER people. Those are evidence ${witnessName} may be asked about - never direct questions to those other people.
 
-  // Strategy 3: Extract JSON array using regex
-  try {
-    const arrayMatch = content.match(/\[\s*\{[\s\S]*\}\s*\]/);
-    if (arrayMatch) {
-      const parsed = JSON.parse(arrayMatch[0]);
-      if (Array.isArray(parsed)) return parsed;
-    }
-  } catch {
-    // Continue
-  }
+Generate up to ${QUESTIONS_PER_CHUNK} DOCUMENT-SPECIFIC cross-examination questions grounded in this excerpt only:
+- Reference specific facts, names, dates, times, locations, and statements from the excerpt
+- Focus on timeline details, credibility, inconsistencies, foundation, and impeachment opportunities
+- Direct every question and follow-up to ${witnessName} using "you" and "your"
+- Do NOT include general cross-examination questions (preparation, compensation, memory, relationships); those are added during the merge
+- If the excerpt has nothing worth questioning ${witnessName} about, return an empty array
 
-  // Strategy 4: Find first [ and last ]
-  try {
-    const firstBracket = content.indexOf('[');
-    const lastBracket = content.lastIndexOf(']');
-    if (firstBracket !== -1 && lastBracket !== -1 && lastBracket > firstBracket) {
-      const jsonStr = content.substring(firstBracket, lastBracket + 1);
-      const parsed = JSON.parse(jsonStr);
-      if (Array.isArray(parsed)) return parsed;
-    }
-  } catch {
-    // Continue
+Return a JSON array in this format:
+[
+  {
+    "question": "Question directed to ${witnessName}...",
+    "category": "timeline|credibility|inconsistency|foundation|impeachment",
+    "difficulty": "easy|medium|hard",
+    "suggestedApproach": "How ${witnessName} should approach answering",
+    "weakPoint": "What vulnerability this exposes based on the excerpt",
+    "followUpQuestions": ["Follow-up question addressed to ${witnessName}"],
+    "documentReference": "Which document/section this relates to"
   }
+]
 
-  return null;
+Return ONLY the JSON array. No markdown, no code blocks, no explanatory text.`;
 }
 
 // Generate fallback questions
@@ -345,21 +355,233 @@ function generateFallbackQuestions(witnessName: string, documents: Array<{ name:
   ];
 }
 
-function validateCategory(category: string): CrossExamQuestion['category'] {
-  const valid = ['timeline', 'credibility', 'inconsistency', 'foundation', 'impeachment', 'general'];
-  return valid.includes(category) ? category as CrossExamQuestion['category'] : 'general';
+// Assign ids to validated model output
+function toCrossExamQuestions(questions: CrossExamQuestionOutput[]): CrossExamQuestion[] {
+  return questions.map((question) => ({ ...question, id: uuidv4() }));
+}
+
+interface GenerationRequest {
+  witnessName: string;
+  caseName: string;
+  documents: Array<{ name: string; content?: string }>;
 }
 
-function validateDifficulty(difficulty: string): CrossExamQuestion['difficulty'] {
-  const valid = ['easy', 'medium', 'hard'];
-  return valid.includes(difficulty) ? difficulty as CrossExamQuestion['difficulty'] : 'medium';
+interface GenerationResult {
+  questions: CrossExamQuestion[];
+  cost: number;
+  tokens: number;
+  charsProcessed: number;
+  usedFallback: boolean;
+  fallbackReason?: FallbackReason;
+  chunkCount: number;
+}
+
+interface GenerationHooks {
+  apiKey?: string;
+  signal?: AbortSignal;
+  /** Receives the usage of every model call, also when generation is cancelled */
+  usage?: UsageTotals;
+  /** False once the request's usage reaches a budget; checked before each model call of the map-reduce */
+  withinBudget?: () => boolean;
+  onStatus?: (message: string) => void;
+  onQuestion?: (question: CrossExamQuestion) => void;
+}
+
+async function generateQuestions(
+  { witnessName, caseName, documents }: GenerationRequest,
+  { apiKey, signal, usage = createUsageTotals(), withinBudget = () => true, onStatus, onQuestion }: GenerationHooks = {}
+): Promise<GenerationResult> {
+  const promptDocuments: PromptDocument[] = documents.map((doc) => ({
+    name: doc.name,
+    header: `DOCUMENT: ${doc.name}`,
+    text: doc.content || '[Content not available]',
+  }));
+
+  const systemPrompt = getQuestionGenerationPrompt(witnessName);
+
+  let questions: CrossExamQuestion[] = [];
+  let fallbackReason: FallbackReason | undefined;
+  let chunkCount = 1;
+
+  // Usage is tracked across every call, repairs included
+  const structuredOptions = {
+    apiKey,
+    temperature: 0.7,
+    signal,
+    onUsage: (call: CallUsage) => addUsage(usage, call),
+  };
+
+  // Final passes stream: each question is emitted as soon as its JSON object closes.
+  // The full response is then validated (and repaired if needed); null when it stays unusable.
+  const completeQuestions = async (user: string): Promise<CrossExamQuestion[] | null> => {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: user },
+    ];
+    const parser = createArrayItemParser();
+    let streamedCount = 0;
+    let content = '';
+    let reported: ChatCompletionChunk['usage'];
+
+    // Partial replies count too when the stream is cancelled
+    try {
+      for await (const chunk of streamChatCompletion(messages, { ...structuredOptions, max_tokens: 8000 })) {
+        content += chunk.content;
+        if (chunk.usage) reported = chunk.usage;
+        for (const item of parser.push(chunk.content)) {
+          const parsed = crossExamQuestionSchema.safeParse(item);
+          if (!parsed.success || streamedCount >= 20) continue;
+          streamedCount++;
+          onQuestion?.({ ...parsed.data, id: uuidv4() });
+        }
+      }
+    } finally {
+      addUsage(usage, measureUsage(messages, content, reported));
+    }
+
+    const validated = await repairStructuredOutput(crossExamQuestionSetSchema, messages, content, {
+      ...structuredOptions,
+      max_tokens: 8000,
+    });
+    return validated ? toCrossExamQuestions(validated.slice(0, 20)) : null;
+  };
+
+  try {
+    if (fitsSinglePass(promptDocuments)) {
+      onStatus?.('Generating questions...');
+      const generated = await completeQuestions(`Case: ${caseName}
+Witness Name: ${witnessName}
+
+DOCUMENTS TO ANALYZE:
+${renderDocuments(promptDocuments)}
+
+Generate exactly 20 cross-examination questions for the witness ${witnessName}.
+Return ONLY a valid JSON array. No markdown formatting.`);
+      if (generated) {
+        questions = generated;
+      } else {
+        fallbackReason = 'invalid_output';
+      }
+    } else {
+      // Map: draft questions from each chunk of the record
+      const chunks = chunkDocuments(promptDocuments);
+      chunkCount = chunks.length;
+      let analyzed = 0;
+      let authError: unknown;
+      onStatus?.(`Analyzing ${chunks.length} document excerpts...`);
+
+      const chunkQuestions = await mapChunks(chunks, async (chunk) => {
+        const drafted = await completeStructured(
+          crossExamQuestionListSchema,
+          [
+            { role: 'system', content: getChunkQuestionPrompt(witnessName) },
+            {
+              role: 'user',
+              content: `Case: ${caseName}
+Witness Name: ${witnessName}
+
+EXCERPT ${chunk.index + 1} OF ${chunks.length}:
+${chunk.text}
+
+Return ONLY a valid JSON array. No markdown formatting.`,
+            },
+          ],
+          { ...structuredOptions, max_tokens: 4000 }
+        ).catch((error) => {
+          if (isLLMAuthError(error)) authError = error;
+          throw error;
+        });
+        onStatus?.(`Analyzed ${++analyzed} of ${chunks.length} document excerpts`);
+        return toCrossExamQuestions((drafted || []).slice(0, QUESTIONS_PER_CHUNK));
+      }, withinBudget);
+      signal?.throwIfAborted();
+      if (authError) throw authError;
+
+      const candidates = takeWithinBudget(
+        dedupeBy(
+          interleave(chunkQuestions.filter((list): list is CrossExamQuestion[] => !!list), MAX_MERGE_CANDIDATES),
+          (q) => q.question
+        )
+      );
+
+      if (candidates.length === 0) {
+        // Failed requests come back as null; unusable or empty excerpts as []
+        fallbackReason = chunkQuestions.every((list) => list === null) ? 'api_error' : 'invalid_output';
+      } else {
+        // Reduce: merge near-duplicates, rank, and add the general questions.
+        // Skipped once the budget is used up, as the excerpts not yet analyzed were.
+        let merged: CrossExamQuestion[] | null = null;
+        const budgetReached = !withinBudget();
+        if (!budgetReached) {
+          onStatus?.('Merging and ranking questions...');
+          try {
+            merged = await completeQuestions(`Case: ${caseName}
+Witness Name: ${witnessName}
+
+The case documents were too long to review at once, so they were reviewed in ${chunks.length} excerpts.
+These CANDIDATE QUESTIONS were drafted from those excerpts:
+${JSON.stringify(candidates.map((q) => ({ ...q, id: undefined })))}
+
+Produce the final set of exactly 20 cross-examination questions for ${witnessName}:
+- Select the 15 strongest document-specific questions from the candidates, merging near-duplicates (combine their follow-ups)
+- Rank them with the questions opposing counsel is most likely to ask and that are most damaging first
+- Keep each question's documentReference
+- Add the 5 required general questions with category "general"
+
+Return ONLY a valid JSON array. No markdown formatting.`);
+          } catch (mergeError) {
+            signal?.throwIfAborted();
+            if (isLLMAuthError(mergeError)) throw mergeError;
+            console.error('Merge pass failed:', mergeError instanceof Error ? mergeError.message : mergeError);
+          }
+        }
+
+        if (merged) {
+          questions = merged;
+        } else {
+          // Merge failed or skipped: keep the chunk questions in order and append the standard general questions
+          const general = generateFallbackQuestions(witnessName, documents).filter((q) => q.category === 'general');
+          questions = [...candidates.filter((q) => q.category !== 'general').slice(0, 15), ...general];
+          fallbackReason = budgetReached ? 'budget_exceeded' : 'merge_failed';
+        }
+      }
+    }
+  } catch (apiError) {
+    signal?.throwIfAborted();
+    // A rejected key is not a model failure: the user has to sign in again
+    if (isLLMAuthError(apiError)) throw apiError;
+    console.error('LLM API error:', apiError instanceof Error ? apiError.message : apiError);
+    fallbackReason = 'api_error';
+  }
+
+  // Nothing usable from the model: answer with the templated questions, and say why
+  const usedFallback = questions.length === 0;
+  if (usedFallback) {
+    questions = generateFallbackQuestions(witnessName, documents);
+    fallbackReason ??= 'invalid_output';
+  }
+
+  return {
+    questions,
+    cost: usage.cost, // Cost in dollars
+    tokens: usage.promptTokens + usage.completionTokens,
+    charsProcessed: usage.chars,
+    usedFallback,
+    fallbackReason,
+    chunkCount,
+  };
 }
 
 // POST /api/testimony/generate-questions - Generate cross-exam questions
+// With { stream: true } the response is NDJSON: status updates, each question as it is
+// generated, then a final "done" event with the same payload as the JSON response.
 export async function POST(request: NextRequest) {
+  const access = await requireAccess(request, 'testimonyQuestions');
+  if (access instanceof NextResponse) return access;
+
   try {
     const body = await request.json();
-    const { witnessName, caseName, documents } = body;
+    const { witnessName, caseName, documents, stream } = body;
 
     if (!witnessName || !caseName) {
       return NextResponse.json(
@@ -375,88 +597,50 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Build document context
-    const documentContext = documents
-      .map((doc: { name: string; content?: string }) => {
-        const content = doc.content || '[Content not available]';
-        return `=== DOCUMENT: ${doc.name} ===\n${content}\n=== END DOCUMENT ===`;
-      })
-      .join('\n\n');
-
-    const userPrompt = `Case: ${caseName}
-Witness Name: ${witnessName}
-
-DOCUMENTS TO ANALYZE:
-${documentContext}
-
-Generate exactly 20 cross-examination questions for the witness ${witnessName}.
-Return ONLY a valid JSON array. No markdown formatting.`;
-
-    const systemPrompt = getQuestionGenerationPrompt(witnessName);
-
-    let questions: CrossExamQuestion[] = [];
-    let usedFallback = false;
-    let cost = 0;
-    let charsProcessed = 0;
-
-    try {
-      const response = await chatCompletion(
-        [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        {
-          model: 'casemark/casemark-core-1',
-          temperature: 0.7,
-          max_tokens: 8000,
-        }
-      );
+    const credentials = getLLMCredentials(request);
+    if (!credentials) {
+      return apiKeyRejectedResponse();
+    }
 
-      const content = response.choices?.[0]?.message?.content || '';
-
-      // Calculate characters processed (cost tracking disabled in OSS version)
-      charsProcessed = (systemPrompt + userPrompt + (content || '')).length;
-      cost = 0;
-
-      if (content) {
-        const questionsData = parseJSONResponse(content);
-
-        if (questionsData && questionsData.length > 0) {
-          questions = questionsData.slice(0, 20).map((q: unknown) => {
-            const qObj = q as Record<string, unknown>;
-            return {
-              id: uuidv4(),
-              question: String(qObj.question || 'Question not available'),
-              category: validateCategory(String(qObj.category || 'general')),
-              difficulty: validateDifficulty(String(qObj.difficulty || 'medium')),
-              suggestedApproach: qObj.suggestedApproach ? String(qObj.suggestedApproach) : undefined,
-              weakPoint: qObj.weakPoint ? String(qObj.weakPoint) : undefined,
-              followUpQuestions: Array.isArray(qObj.followUpQuestions)
-                ? qObj.followUpQuestions.map((f: unknown) => String(f))
-                : undefined,
-              documentReference: qObj.documentReference ? String(qObj.documentReference) : undefined,
-            };
+    const usageScope = await resolveUsageScope(access, 'testimony/generate-questions', body.caseId);
+    if (usageScope instanceof NextResponse) return usageScope;
+    const limited = checkUsageLimits(usageScope);
+    if (limited) return limited;
+    const usage = createUsageTotals();
+    const withinBudget = () => hasBudgetLeft(usageScope, usage);
+
+    const params: GenerationRequest = { witnessName, caseName, documents };
+
+    if (stream) {
+      return createGenerationStream<CrossExamQuestion, GenerationResult>(async (send) => {
+        try {
+          const result = await generateQuestions(params, {
+            ...credentials,
+            signal: request.signal,
+            usage,
+            withinBudget,
+            onStatus: (message) => send({ type: 'status', message }),
+            onQuestion: (question) => send({ type: 'question', question }),
           });
+          send({ type: 'done', result });
+        } catch (error) {
+          if (!isLLMAuthError(error)) throw error;
+          send({ type: 'error', error: API_KEY_REJECTED_MESSAGE, status: 401 });
+        } finally {
+          recordUsage(usageScope, usage);
         }
-      }
-    } catch (apiError) {
-      console.error('LLM API error:', apiError instanceof Error ? apiError.message : apiError);
-      usedFallback = true;
+      });
     }
 
-    // Use fallback if no questions generated
-    if (questions.length === 0) {
-      questions = generateFallbackQuestions(witnessName, documents);
-      usedFallback = true;
+    try {
+      return NextResponse.json(await generateQuestions(params, { ...credentials, usage, withinBudget }));
+    } finally {
+      recordUsage(usageScope, usage);
     }
-
-    return NextResponse.json({
-      questions,
-      cost, // Cost in dollars
-      charsProcessed,
-      usedFallback,
-    });
   } catch (error) {
+    if (isLLMAuthError(error)) {
+      return apiKeyRejectedResponse();
+    }
     console.error('Error generating questions:', error);
     return NextResponse.json(
       { error: 'Failed to generate questions' },
@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess } from '@/lib/auth/access';
 
 // POST /api/testimony/ocr - Process a document (client-side extraction, server validates)
-// Note: This endpoint name is historical - it no longer uses OCR
-// Text extraction happens client-side using PDF.js for PDFs and File.text() for text files
+// Note: This endpoint name is historical - OCR itself runs through /api/ocr
+// Text extraction happens client-side using PDF.js for PDFs and File.text() for text files,
+// with scanned pages sent to /api/ocr before the text reaches this endpoint
 export async function POST(request: NextRequest) {
+  const access = await requireAccess(request, 'documentUpload');
+  if (access instanceof NextResponse) return access;
+
   try {
     const body = await request.json();
     const { text, pageCount, fileName } = body;
@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getLLMProvider, LLMAPIError } from '@/lib/llm';
+import { member, setUpRouteTests, signInAs } from '@/test/routes';
+import { POST } from './route';
+
+vi.mock('@/lib/auth/access', () => import('@/test/routes'));
+
+function answer(): Promise<Response> {
+  return POST(
+    new NextRequest('http://localhost/api/testimony/practice', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        witnessName: 'Dana Whitfield',
+        caseName: 'Acme v. Widget',
+        caseId: 'case-1',
+        documents: [],
+        question: 'Did you sign the contract?',
+        witnessResponse: 'I think so. I always sign everything.',
+      }),
+    })
+  );
+}
+
+setUpRouteTests({ USAGE_DATABASE_PATH: ':memory:' });
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('/api/testimony/practice when the examiner is not asked', () => {
+  it('returns the answer flags with a missing API key', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'case-dev');
+
+    const response = await answer();
+    expect(response.status).toBe(401);
+    const data = await response.json();
+    expect(data.error).toBeTruthy();
+    expect(data.answerFlags.map((flag: { kind: string }) => flag.kind)).toEqual(['guessing', 'absolute']);
+  });
+
+  it('returns the answer flags when the provider rejects the API key', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+    vi.spyOn(getLLMProvider(), 'chatCompletion').mockRejectedValue(new LLMAPIError('Invalid API key', 401));
+
+    const response = await answer();
+    expect(response.status).toBe(401);
+    expect((await response.json()).answerFlags.map((flag: { kind: string }) => flag.kind)).toEqual([
+      'guessing',
+      'absolute',
+    ]);
+  });
+
+  it('returns the answer flags over a rate limit', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+    vi.stubEnv('RATE_LIMIT_USER_PER_MINUTE', '1');
+    // The limiter outlives each test; a member of its own starts with no requests counted
+    signInAs(member('user-2'));
+
+    expect((await answer()).status).toBe(200);
+    const limited = await answer();
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBeTruthy();
+    expect((await limited.json()).answerFlags).toHaveLength(2);
+  });
+});
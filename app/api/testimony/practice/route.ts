@@ -1,32 +1,172 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { chatCompletion } from '@/lib/case-dev/api';
+import { addUsage, createUsageTotals, isLLMAuthError } from '@/lib/llm';
+import type { ChatMessage } from '@/lib/llm';
+import type { AIExaminerResponse, AnswerFlag, ExaminerProfile, FallbackReason } from '@/lib/types/testimony';
+import { DEFAULT_EXAMINER_PROFILE } from '@/lib/types/testimony';
+import { aiExaminerResponseSchema, completeStructured } from '@/lib/llm/structured-output';
+import { apiKeyRejectedResponse, getLLMCredentials } from '@/lib/auth/api-key-session';
+import { requireAccess } from '@/lib/auth/access';
+import { checkUsageLimits, recordUsage, resolveUsageScope } from '@/lib/usage';
+import { analyzeAnswer, summarizeAnswerFlags } from '@/lib/answer-analysis';
 
-const AI_EXAMINER_PROMPT = `You are an experienced opposing counsel conducting a cross-examination. Your role is to:
+// How each examiner profile questions the witness (display metadata is in lib/types/testimony)
+interface ExaminerPersona {
+  /** Who the model plays */
+  role: string;
+  /** What the examiner probes for */
+  lookFor: string[];
+  tone: string;
+  pacing: string;
+  temperature: number;
+}
+
+const EXAMINER_PERSONAS: Record<ExaminerProfile, ExaminerPersona> = {
+  direct: {
+    role: "the witness's own counsel rehearsing direct examination",
+    lookFor: [
+      'Answers that do not tell the story clearly in the witness\'s own words',
+      'Facts from the documents the witness leaves out or gets wrong',
+      'Jargon, rambling or speculation that would confuse a jury',
+      'Testimony that opens the door to damaging cross-examination',
+    ],
+    tone: 'Supportive and encouraging. Ask open, non-leading questions (who, what, when, why, describe, explain).',
+    pacing: 'Unhurried. Let each topic develop before moving on; follow-ups invite the witness to explain more.',
+    temperature: 0.5,
+  },
+  friendly_cross: {
+    role: 'courteous opposing counsel conducting a low-key cross-examination',
+    lookFor: [
+      'Gaps in knowledge or memory about specific events mentioned in documents',
+      'Concessions the witness can be led into agreeing with',
+      'Minor inconsistencies with the documents',
+    ],
+    tone: 'Polite and conversational, building rapport. Questions are leading but gentle.',
+    pacing: 'Relaxed. One follow-up per point, then move on.',
+    temperature: 0.6,
+  },
+  hostile_cross: {
+    role: 'an experienced, aggressive opposing counsel conducting a cross-examination',
+    lookFor: [
+      'Vague or evasive answers that don\'t address specific facts from the documents',
+      'Inconsistencies with the documents or prior statements',
+      'Opportunities to impeach credibility based on document details',
+      'Gaps in knowledge or memory about specific events mentioned in documents',
+      'Emotional reactions that could be exploited',
+    ],
+    tone: 'Firm, skeptical and controlling, but professional. Only short, leading yes-or-no questions.',
+    pacing: 'Rapid. Press every evasive or incomplete answer until the witness commits or concedes.',
+    temperature: 0.7,
+  },
+  daubert: {
+    role: 'opposing counsel challenging an expert witness at a Daubert hearing',
+    lookFor: [
+      'Qualifications that do not fit the specific opinion offered',
+      'Methodology that is untested, not peer reviewed or lacks a known error rate',
+      'Departures from the standards of the expert\'s field',
+      'Opinions that do not fit the facts in the documents, or rest on assumptions',
+      'Reliance on incomplete data or on counsel\'s summaries',
+    ],
+    tone: 'Precise and technical. Questions pin down the basis for each opinion, one step at a time.',
+    pacing: 'Methodical. Keep following one line of reasoning until its weak link is exposed.',
+    temperature: 0.5,
+  },
+  judge: {
+    role: 'the trial judge, interjecting from the bench during the testimony',
+    lookFor: [
+      'Non-responsive answers that do not answer the question asked',
+      'Ambiguous answers the jury could misunderstand',
+      'Speculation, hearsay or testimony beyond the witness\'s personal knowledge',
+      'Argumentative or disrespectful answers',
+    ],
+    tone: 'Neutral, brief and authoritative. Clarify, instruct the witness to answer the question, or ask the one thing the jury needs.',
+    pacing: 'Sparing. Interject once on what matters, then let counsel continue.',
+    temperature: 0.4,
+  },
+};
+
+function buildExaminerPrompt(persona: ExaminerPersona): string {
+  return `You are ${persona.role}. Your role is to:
 
 1. Evaluate the witness's response to the question
 2. Identify any weaknesses, inconsistencies, or areas to probe further based on the case documents
-3. Provide a realistic follow-up question that opposing counsel might ask - this MUST relate to the specific facts in the documents
+3. Provide a realistic next question you would ask - this MUST relate to the specific facts in the documents. When the examination so far is included, keep pressing the same line of questioning: pin down evasive or incomplete answers and never repeat a question already asked
 4. Give constructive feedback on how the witness could improve their response
+5. Score the response from 1 (poor) to 5 (excellent) in each category:
+   - responsiveness: answers exactly the question asked
+   - brevity: no longer than the question requires
+   - volunteering: 5 when the witness offers nothing beyond the question, 1 when they volunteer damaging information
+   - consistency: agrees with the case documents and the witness's earlier answers
+   - composure: calm and even, not defensive or argumentative
+
+Look for:
+${persona.lookFor.map((item) => `- ${item}`).join('\n')}
 
-Be professional but thorough. Look for:
-- Vague or evasive answers that don't address specific facts from the documents
-- Inconsistencies with the documents or prior statements
-- Opportunities to impeach credibility based on document details
-- Gaps in knowledge or memory about specific events mentioned in documents
-- Emotional reactions that could be exploited
+Tone: ${persona.tone}
+Pacing: ${persona.pacing}
 
-Your follow-up questions should reference specific details from the case documents when possible.
+Your questions should reference specific details from the case documents when possible. The feedback is for the witness and their attorneys, whatever role you play.
 
 Respond in JSON format:
 {
-  "followUp": "The follow-up question opposing counsel would likely ask - reference specific document details",
+  "followUp": "The next question you would ask - reference specific document details",
   "feedback": "Constructive feedback for the witness on their response",
   "weaknessIdentified": "Any weakness in the response that was exposed",
-  "suggestedImprovement": "How the witness could have answered better"
+  "suggestedImprovement": "How the witness could have answered better",
+  "scores": { "responsiveness": 1-5, "brevity": 1-5, "volunteering": 1-5, "consistency": 1-5, "composure": 1-5 }
 }`;
+}
+
+// Follow-up asked when the model gave nothing usable, by the first flag the local checks raised
+const FALLBACK_FOLLOW_UPS: Record<AnswerFlag['kind'], string> = {
+  contradiction: 'That is not what the documents say. Which is it?',
+  volunteering: 'Did anyone ask you about that?',
+  guessing: 'Are you telling us what you know, or are you guessing?',
+  absolute: 'Not even once? Are you certain of that?',
+  length: 'Can you answer the question I actually asked?',
+};
+
+function isExaminerProfile(value: unknown): value is ExaminerProfile {
+  return typeof value === 'string' && Object.keys(EXAMINER_PERSONAS).includes(value);
+}
+
+// Earlier turns of a follow-up chain sent back to the examiner, most recent last
+const MAX_HISTORY_TURNS = 10;
+const MAX_HISTORY_TEXT = 1000;
+
+interface ExaminationTurn {
+  question: string;
+  answer: string;
+}
+
+function readHistory(value: unknown): ExaminationTurn[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(
+      (turn): turn is ExaminationTurn =>
+        !!turn && typeof turn.question === 'string' && typeof turn.answer === 'string'
+    )
+    .slice(-MAX_HISTORY_TURNS)
+    .map((turn) => ({
+      question: turn.question.slice(0, MAX_HISTORY_TEXT),
+      answer: turn.answer.slice(0, MAX_HISTORY_TEXT),
+    }));
+}
+
+// A credential or usage check's error response, with the answer's local checks added
+async function withAnswerFlags(response: NextResponse, answerFlags: AnswerFlag[]): Promise<NextResponse> {
+  const body = await response.json();
+  return NextResponse.json({ ...body, answerFlags }, { status: response.status, headers: response.headers });
+}
 
 // POST /api/testimony/practice - Submit a practice response and get AI feedback
+// `history` holds the earlier questions and answers when the witness answers a follow-up;
+// `examinerProfile` selects who asks the questions. `answerFlags` are the local checks of
+// the answer (lib/answer-analysis.ts), returned whether or not the model responded, and
+// also when the request is turned away for its API key or usage limits.
 export async function POST(request: NextRequest) {
+  const access = await requireAccess(request, 'testimonyPractice');
+  if (access instanceof NextResponse) return access;
+
   try {
     const body = await request.json();
     const {
@@ -37,6 +177,9 @@ export async function POST(request: NextRequest) {
       witnessResponse,
       documents,
     } = body;
+    const history = readHistory(body.history);
+    const examinerProfile: unknown = body.examinerProfile;
+    const persona = EXAMINER_PERSONAS[isExaminerProfile(examinerProfile) ? examinerProfile : DEFAULT_EXAMINER_PROFILE];
 
     if (!question || !witnessResponse) {
       return NextResponse.json(
@@ -45,6 +188,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const answerFlags = analyzeAnswer({ question, answer: witnessResponse, documents: documents || [] });
+
+    const credentials = getLLMCredentials(request);
+    if (!credentials) {
+      return withAnswerFlags(apiKeyRejectedResponse(), answerFlags);
+    }
+
+    const usageScope = await resolveUsageScope(access, 'testimony/practice', body.caseId);
+    if (usageScope instanceof NextResponse) return withAnswerFlags(usageScope, answerFlags);
+    const limited = checkUsageLimits(usageScope);
+    if (limited) return withAnswerFlags(limited, answerFlags);
+
     // Build context with document content
     const documentContext = (documents || [])
       .map((doc: { name: string; content?: string }) => {
@@ -56,78 +211,70 @@ export async function POST(request: NextRequest) {
       })
       .join('\n\n');
 
+    const examinationSoFar = history
+      .map((turn, index) => `Q${index + 1}: "${turn.question}"\nA${index + 1}: "${turn.answer}"`)
+      .join('\n');
+
     const userPrompt = `Case: ${caseName || 'Unknown Case'}
 Witness: ${witnessName || 'Unknown Witness'}
 
 CASE DOCUMENTS:
 ${documentContext || 'No documents provided'}
 
-CROSS-EXAMINATION CONTEXT:
-Question Asked: "${question}"
+EXAMINATION CONTEXT:
+${examinationSoFar ? `EXAMINATION SO FAR:\n${examinationSoFar}\n\n` : ''}Question Asked: "${question}"
 ${questionDetails?.suggestedApproach ? `Suggested Approach: ${questionDetails.suggestedApproach}` : ''}
 ${questionDetails?.weakPoint ? `Known Weak Point: ${questionDetails.weakPoint}` : ''}
 ${questionDetails?.documentReference ? `Document Reference: ${questionDetails.documentReference}` : ''}
 
 WITNESS RESPONSE: "${witnessResponse}"
 
-Analyze this response in the context of the case documents. Provide a follow-up question and feedback.`;
+Analyze this response in the context of the case documents${history.length > 0 ? ' and the examination so far' : ''}. Provide a follow-up question and feedback.`;
 
-    let aiResponse = {
-      followUp: 'Can you elaborate on that answer?',
-      feedback: 'Your response was received. Consider being more specific in your answers.',
-      weaknessIdentified: '',
-      suggestedImprovement: '',
-    };
-    let cost = 0;
-    let charsProcessed = 0;
+    let aiResponse: AIExaminerResponse | null = null;
+    let fallbackReason: FallbackReason | undefined;
+    const usage = createUsageTotals();
 
-    try {
-      const response = await chatCompletion(
-        [
-          { role: 'system', content: AI_EXAMINER_PROMPT },
-          { role: 'user', content: userPrompt },
-        ],
-        {
-          model: 'casemark/casemark-core-1',
-          temperature: 0.7,
-          max_tokens: 1000,
-        }
-      );
+    const messages: ChatMessage[] = [
+      { role: 'system', content: buildExaminerPrompt(persona) },
+      { role: 'user', content: userPrompt },
+    ];
 
-      const content = response.choices?.[0]?.message?.content || '';
-
-      // Calculate characters processed (cost tracking disabled in OSS version)
-      charsProcessed = (AI_EXAMINER_PROMPT + userPrompt + (content || '')).length;
-      cost = 0;
-
-      if (content) {
-        try {
-          // Try to extract JSON from the response
-          const jsonMatch = content.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            aiResponse = JSON.parse(jsonMatch[0]);
-          } else {
-            aiResponse = JSON.parse(content);
-          }
-        } catch {
-          // If parsing fails, use the content as feedback
-          aiResponse = {
-            followUp: 'Can you elaborate on that answer?',
-            feedback: content,
-            weaknessIdentified: '',
-            suggestedImprovement: '',
-          };
-        }
-      }
+    try {
+      aiResponse = await completeStructured(aiExaminerResponseSchema, messages, {
+        ...credentials,
+        temperature: persona.temperature,
+        max_tokens: 1000,
+        onUsage: (call) => addUsage(usage, call),
+      });
+      if (!aiResponse) fallbackReason = 'invalid_output';
     } catch (apiError) {
+      if (isLLMAuthError(apiError)) {
+        return withAnswerFlags(apiKeyRejectedResponse(), answerFlags);
+      }
       console.error('LLM API error:', apiError);
-      // Return default response on error
+      fallbackReason = 'api_error';
+    } finally {
+      recordUsage(usageScope, usage);
+    }
+
+    // Feedback from the local checks when the model gave nothing usable; fallbackReason tells the UI why
+    if (!aiResponse) {
+      aiResponse = {
+        followUp: answerFlags.length > 0 ? FALLBACK_FOLLOW_UPS[answerFlags[0].kind] : 'Can you elaborate on that answer?',
+        feedback: summarizeAnswerFlags(answerFlags),
+        weaknessIdentified: '',
+        suggestedImprovement: '',
+      };
     }
 
     return NextResponse.json({
       aiResponse,
-      cost, // Cost in dollars
-      charsProcessed,
+      answerFlags,
+      fallbackReason,
+      cost: usage.cost, // Cost in dollars
+      tokens: usage.promptTokens + usage.completionTokens,
+      charsProcessed: usage.chars,
     });
   } catch (error) {
     console.error('Error processing practice response:', error);
@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import { member, setUpRouteTests } from '@/test/routes';
+import { POST } from './route';
+
+vi.mock('@/lib/auth/access', () => import('@/test/routes'));
+
+function transcribe(audio: Blob | null, caseId = 'case-1'): Promise<Response> {
+  const formData = new FormData();
+  if (audio) formData.append('audio', audio, 'answer.webm');
+  formData.append('caseId', caseId);
+  return POST(new NextRequest('http://localhost/api/testimony/transcribe', { method: 'POST', body: formData }));
+}
+
+const clip = () => new Blob([new Uint8Array(1024)], { type: 'audio/webm' });
+
+setUpRouteTests(
+  { TRANSCRIPTION_PROVIDER: 'stub', TRANSCRIPTION_STUB_TEXT: 'I signed it on March 5.' },
+  member('user-1', 'client')
+);
+
+describe('/api/testimony/transcribe with the stub provider', () => {
+  it('returns the transcript of a recorded answer', async () => {
+    const response = await transcribe(clip());
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ text: 'I signed it on March 5.', provider: 'stub' });
+  });
+
+  it('rejects requests without audio or a case', async () => {
+    expect((await transcribe(null)).status).toBe(400);
+    expect((await transcribe(clip(), '')).status).toBe(400);
+  });
+
+  it('explains when transcription is not set up', async () => {
+    vi.stubEnv('TRANSCRIPTION_PROVIDER', '');
+    const response = await transcribe(clip());
+    expect(response.status).toBe(503);
+    expect((await response.json()).error).toContain('Type the answer instead');
+  });
+});
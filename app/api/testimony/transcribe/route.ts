@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess } from '@/lib/auth/access';
+import { getTranscriptionProvider } from '@/lib/transcription/providers';
+import { checkUsageLimits, resolveUsageScope } from '@/lib/usage';
+
+// The largest clip the OpenAI transcription API accepts
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+// POST /api/testimony/transcribe - Transcribe a spoken practice answer
+export async function POST(request: NextRequest) {
+  const access = await requireAccess(request, 'testimonyPractice');
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const provider = getTranscriptionProvider();
+    if (!provider) {
+      return NextResponse.json(
+        { error: 'Voice transcription is not set up. Type the answer instead; the recording is kept for review.' },
+        { status: 503 }
+      );
+    }
+
+    const formData = await request.formData();
+    const audio = formData.get('audio');
+    const caseId = formData.get('caseId');
+    const language = formData.get('language');
+
+    if (!(audio instanceof Blob) || audio.size === 0) {
+      return NextResponse.json(
+        { error: 'No audio provided' },
+        { status: 400 }
+      );
+    }
+    if (audio.size > MAX_AUDIO_BYTES) {
+      return NextResponse.json(
+        { error: 'The recording is too long to transcribe. Keep answers under a few minutes.' },
+        { status: 413 }
+      );
+    }
+
+    // Transcription counts toward the rate limits only: it is billed by the minute of
+    // audio, not by tokens, so it has nothing to add to the usage ledger (recordUsage)
+    const usageScope = await resolveUsageScope(access, 'testimony/transcribe', caseId);
+    if (usageScope instanceof NextResponse) return usageScope;
+    const limited = checkUsageLimits(usageScope);
+    if (limited) return limited;
+
+    const fileName = audio instanceof File ? audio.name : 'answer.webm';
+    const result = await provider.transcribe(audio, fileName, {
+      language: typeof language === 'string' && language ? language : undefined,
+    });
+
+    return NextResponse.json({
+      text: result.text,
+      duration: result.duration,
+      provider: provider.name,
+    });
+  } catch (error) {
+    console.error('Error transcribing answer:', error);
+    return NextResponse.json(
+      { error: 'Failed to transcribe the recording' },
+      { status: 502 }
+    );
+  }
+}
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { setApiKeyCookie } from '@/lib/auth/api-key-session';
 
 /**
  * Verify case.dev API Key
- * Simple endpoint to validate API keys without authentication
+ * Simple endpoint to validate API keys without authentication.
+ * A verified key is kept in an encrypted httpOnly cookie for the LLM routes.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -75,10 +77,12 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      return NextResponse.json({
+      const verified = NextResponse.json({
         success: true,
         message: 'API key verified successfully',
       });
+      setApiKeyCookie(verified, apiKey);
+      return verified;
     } catch (error: any) {
       console.error('Error verifying API key:', error);
 
@@ -1,18 +1,106 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
+import { LoginForm } from "@/components/auth/login-form";
+import { SignupForm } from "@/components/auth/signup-form";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { setApiKey } from "@/lib/storage/api-key-storage";
+import { organization, signOut, useSession } from "@/lib/auth/client";
+import { clearApiKey, isAuthenticated, setApiKey } from "@/lib/storage/api-key-storage";
+
+// Sign in (or create an account), create an organization if the user has none, then
+// verify the Case.dev API key the tools run on
+type Step = "account" | "organization" | "apiKey";
+
+const STEP_SUBTITLES: Record<Step, string> = {
+  account: "Sign in to your account",
+  organization: "Create an organization for your firm",
+  apiKey: "Connect your Case.dev API key",
+};
+
+// Only same-origin paths, e.g. an invitation the user opened before signing in.
+// Resolved against this origin, since browsers read paths such as /\evil.example
+// as links to another site.
+function getNextPath(): string | null {
+  const next = new URLSearchParams(window.location.search).get("next");
+  if (!next) return null;
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}` : null;
+  } catch {
+    return null;
+  }
+}
+
+// Organization slugs are unique, so a short random suffix keeps firm names free to repeat
+function toOrganizationSlug(name: string): string {
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${base || "firm"}-${Math.random().toString(36).slice(2, 8)}`;
+}
 
 export default function LoginPage() {
   const router = useRouter();
+  const { data: authSession, isPending, refetch } = useSession();
+  const [signingUp, setSigningUp] = useState(false);
+  const [firmName, setFirmName] = useState("");
   const [apiKey, setApiKeyInput] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
+  let step: Step | null = null;
+  if (!isPending) {
+    if (!authSession) step = "account";
+    else if (!authSession.session.activeOrganizationId) step = "organization";
+    else step = "apiKey";
+  }
+
+  // Members who already connected their API key go straight to the tools
+  useEffect(() => {
+    if (step === "apiKey" && isAuthenticated()) {
+      router.replace(getNextPath() || "/");
+    }
+  }, [step, router]);
+
+  const handleSignedIn = () => {
+    const next = getNextPath();
+    if (next) {
+      router.push(next);
+    } else {
+      refetch();
+    }
+  };
+
+  const handleCreateOrganization = async () => {
+    const name = firmName.trim();
+    if (!name || loading) return;
+
+    setLoading(true);
+    setError(null);
+
+    // The new organization becomes the active one, with the creator as owner
+    const { error: createError } = await organization.create({ name, slug: toOrganizationSlug(name) });
+    if (createError) {
+      setError(createError.message || "Failed to create organization");
+      setLoading(false);
+      return;
+    }
+
+    await refetch();
+    setLoading(false);
+  };
+
+  const handleSwitchAccount = async () => {
+    await signOut().catch(() => {});
+    clearApiKey();
+    setError(null);
+    refetch();
+  };
+
   const handleLogin = async () => {
     // Early validation checks BEFORE attempting POST
     if (!apiKey.trim()) {
@@ -55,11 +143,11 @@ export default function LoginPage() {
         return;
       }
 
-      // Store API key in localStorage
+      // The server keeps the key in an httpOnly cookie; remember the masked hint
       setApiKey(apiKey);
 
       // Redirect to home page
-      router.push("/");
+      router.push(getNextPath() || "/");
     } catch (err: any) {
       clearTimeout(timeoutId);
       console.error("API key validation error:", err);
@@ -108,47 +196,111 @@ export default function LoginPage() {
               Deposition Prep Tools
             </h1>
             <p className="text-sm text-muted-foreground">
-              Sign in with your Case.dev API key
+              {step ? STEP_SUBTITLES[step] : "Loading..."}
             </p>
           </div>
 
-          {/* Form */}
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="apiKey">Case.dev API Key</Label>
-              <Input
-                id="apiKey"
-                type="password"
-                value={apiKey}
-                onChange={(e) => setApiKeyInput(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && apiKey) {
-                    handleLogin();
-                  }
-                }}
-                placeholder="sk_case_..."
-                disabled={loading}
-                className="font-mono text-sm"
-              />
-              <p className="text-xs text-muted-foreground">
-                Your API key is stored locally and never sent to our servers
+          {step === "account" && (
+            <div className="space-y-4">
+              {signingUp ? <SignupForm onSuccess={handleSignedIn} /> : <LoginForm onSuccess={handleSignedIn} />}
+              <p className="text-center text-xs text-muted-foreground">
+                {signingUp ? "Already have an account?" : "New here?"}{" "}
+                <button
+                  type="button"
+                  onClick={() => setSigningUp(!signingUp)}
+                  className="text-primary hover:underline"
+                >
+                  {signingUp ? "Sign in" : "Create an account"}
+                </button>
               </p>
             </div>
+          )}
 
-            {error && (
-              <p className="text-sm text-destructive" role="alert">
-                {error}
-              </p>
-            )}
+          {step === "organization" && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="firmName">Firm name</Label>
+                <Input
+                  id="firmName"
+                  value={firmName}
+                  onChange={(e) => setFirmName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && firmName) {
+                      handleCreateOrganization();
+                    }
+                  }}
+                  placeholder="Smith & Associates"
+                  disabled={loading}
+                />
+                <p className="text-xs text-muted-foreground">
+                  You will be its owner. Joining an existing firm? Open the invitation link you were sent.
+                </p>
+              </div>
 
-            <Button
-              onClick={handleLogin}
-              className="w-full"
-              disabled={!apiKey || loading}
-            >
-              {loading ? "Validating..." : "Sign In"}
-            </Button>
-          </div>
+              {error && (
+                <p className="text-sm text-destructive" role="alert">
+                  {error}
+                </p>
+              )}
+
+              <Button
+                onClick={handleCreateOrganization}
+                className="w-full"
+                disabled={!firmName.trim() || loading}
+              >
+                {loading ? "Creating..." : "Create Organization"}
+              </Button>
+            </div>
+          )}
+
+          {/* API key form */}
+          {step === "apiKey" && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="apiKey">Case.dev API Key</Label>
+                <Input
+                  id="apiKey"
+                  type="password"
+                  value={apiKey}
+                  onChange={(e) => setApiKeyInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && apiKey) {
+                      handleLogin();
+                    }
+                  }}
+                  placeholder="sk_case_..."
+                  disabled={loading}
+                  className="font-mono text-sm"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Your API key is stored locally and never sent to our servers
+                </p>
+              </div>
+
+              {error && (
+                <p className="text-sm text-destructive" role="alert">
+                  {error}
+                </p>
+              )}
+
+              <Button
+                onClick={handleLogin}
+                className="w-full"
+                disabled={!apiKey || loading}
+              >
+                {loading ? "Validating..." : "Continue"}
+              </Button>
+            </div>
+          )}
+
+          {authSession && (
+            <p className="mt-4 text-center text-xs text-muted-foreground">
+              Signed in as {authSession.user.email}.{" "}
+              <button type="button" onClick={handleSwitchAccount} className="text-primary hover:underline">
+                Use another account
+              </button>
+            </p>
+          )}
 
           {/* Footer */}
           <div className="mt-6 text-center">
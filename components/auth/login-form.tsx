@@ -11,6 +11,8 @@ import { cn } from "@/lib/utils";
 interface LoginFormProps {
   /** URL to redirect to after successful login */
   callbackUrl?: string;
+  /** Called after a successful login instead of redirecting */
+  onSuccess?: () => void;
   /** Additional class names */
   className?: string;
 }
@@ -24,7 +26,7 @@ interface LoginFormProps {
  * @example
  * <LoginForm callbackUrl="/dashboard" />
  */
-export function LoginForm({ callbackUrl = "/dashboard", className }: LoginFormProps) {
+export function LoginForm({ callbackUrl = "/dashboard", onSuccess, className }: LoginFormProps) {
   const router = useRouter();
   const [email, setEmail] = React.useState("");
   const [password, setPassword] = React.useState("");
@@ -54,6 +56,11 @@ export function LoginForm({ callbackUrl = "/dashboard", className }: LoginFormPr
         return;
       }
 
+      if (onSuccess) {
+        setLoading(false);
+        onSuccess();
+        return;
+      }
       router.push(callbackUrl);
     } catch (err) {
       setError("An unexpected error occurred");
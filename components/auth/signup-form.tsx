@@ -11,6 +11,8 @@ import { cn } from "@/lib/utils";
 interface SignupFormProps {
   /** URL to redirect to after successful signup */
   callbackUrl?: string;
+  /** Called after a successful signup instead of redirecting */
+  onSuccess?: () => void;
   /** Additional class names */
   className?: string;
 }
@@ -24,7 +26,7 @@ interface SignupFormProps {
  * @example
  * <SignupForm callbackUrl="/onboarding" />
  */
-export function SignupForm({ callbackUrl = "/dashboard", className }: SignupFormProps) {
+export function SignupForm({ callbackUrl = "/dashboard", onSuccess, className }: SignupFormProps) {
   const router = useRouter();
   const [name, setName] = React.useState("");
   const [email, setEmail] = React.useState("");
@@ -64,6 +66,11 @@ export function SignupForm({ callbackUrl = "/dashboard", className }: SignupForm
         return;
       }
 
+      if (onSuccess) {
+        setLoading(false);
+        onSuccess();
+        return;
+      }
       router.push(callbackUrl);
     } catch (err) {
       setError("An unexpected error occurred");
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { jsPDF } from 'jspdf';
 import {
@@ -23,6 +23,7 @@ import {
   Clock,
   Target,
   Lightning,
+  Books,
 } from '@phosphor-icons/react';
 import type {
   DepositionSession,
@@ -32,45 +33,69 @@ import type {
   Contradiction,
   OutlineSection,
 } from '@/lib/types/deposition';
+import type { FallbackReason, RetentionPolicy } from '@/lib/types/testimony';
+import { FALLBACK_REASONS } from '@/lib/types/testimony';
 import {
   createDepositionSession,
+  duplicateDepositionSession,
   getDepositionSession,
+  getAllDepositionSessions,
   updateDepositionSession,
+  deleteDepositionSession,
   addDepositionDocument,
+  updateDepositionDocument,
   setDepositionQuestions,
   setAnalysisResults,
+  attachDepositionCaseDocuments,
+  shareDepositionDocumentWithCase,
 } from '@/lib/storage/deposition-storage';
+import { getAllCases, getCase } from '@/lib/storage/case-storage';
+import type { Case, CaseDocument } from '@/lib/types/case';
 import { formatPrice } from '@/lib/storage/usage-storage';
+import { detectDocumentType, ingestDocument } from '@/lib/document-ingestion';
+import { streamGeneration, UnauthorizedError, UsageLimitError } from '@/lib/question-stream';
+import { redirectToLogin } from '@/lib/storage/api-key-storage';
+import RetentionSelect from '@/components/sessions/RetentionSelect';
+import SessionLibrary from '@/components/sessions/SessionLibrary';
+import type { LibraryEntry } from '@/components/sessions/SessionLibrary';
+import CaseDocumentsPanel from '@/components/sessions/CaseDocumentsPanel';
+
+type AppStep = 'library' | 'setup' | 'documents' | 'analysis' | 'questions' | 'outline';
+
+// The step a saved session picks up at
+function resumeStep(session: DepositionSession): AppStep {
+  if (session.outline) return 'outline';
+  if (session.questions.length > 0) return 'questions';
+  return 'documents';
+}
 
-type AppStep = 'setup' | 'documents' | 'analysis' | 'questions' | 'outline';
-
-// Document type detection
-function detectDocumentType(filename: string, content?: string): DepositionDocument['type'] {
-  const lowerName = filename.toLowerCase();
-  const lowerContent = (content || '').toLowerCase();
-
-  if (lowerName.includes('transcript') || lowerName.includes('deposition') ||
-      lowerContent.includes('q:') || lowerContent.includes('a:')) {
-    return 'transcript';
-  }
-  if (lowerName.includes('testimony') || lowerName.includes('statement') ||
-      lowerContent.includes('sworn') || lowerContent.includes('under oath')) {
-    return 'prior_testimony';
-  }
-  if (lowerName.includes('exhibit') || /ex[-_]?\d+/i.test(lowerName)) {
-    return 'exhibit';
-  }
-  if (lowerName.includes('complaint') || lowerName.includes('motion') ||
-      lowerName.includes('brief') || lowerName.includes('filing')) {
-    return 'case_file';
-  }
-  return 'other';
+const RESUME_STEP_LABELS: Partial<Record<AppStep, string>> = {
+  documents: 'Adding documents',
+  questions: 'Questions ready',
+  outline: 'Outline ready',
+};
+
+function toLibraryEntry(session: DepositionSession): LibraryEntry {
+  return {
+    id: session.id,
+    name: session.deponentName,
+    caseName: session.caseName,
+    caseNumber: session.caseNumber,
+    status: RESUME_STEP_LABELS[resumeStep(session)] ?? session.status,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    retention: session.retention,
+    documentNames: session.documents.map((doc) => doc.name),
+  };
 }
 
 export default function DepositionPrepTool() {
   // Session state
   const [session, setSession] = useState<DepositionSession | null>(null);
   const [currentStep, setCurrentStep] = useState<AppStep>('setup');
+  const [savedSessions, setSavedSessions] = useState<DepositionSession[]>([]);
+  const [knownCases, setKnownCases] = useState<Case[]>([]);
+  const [caseFile, setCaseFile] = useState<Case | null>(null);
 
   // Form state
   const [deponentName, setDeponentName] = useState('');
@@ -83,6 +108,11 @@ export default function DepositionPrepTool() {
   const [isGeneratingQuestions, setIsGeneratingQuestions] = useState(false);
   const [isOrganizingOutline, setIsOrganizingOutline] = useState(false);
 
+  // Streaming generation state
+  const [streamedQuestions, setStreamedQuestions] = useState<DepositionQuestion[]>([]);
+  const [generationStatus, setGenerationStatus] = useState<string | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+
   // Error state
   const [error, setError] = useState<string | null>(null);
 
@@ -91,27 +121,46 @@ export default function DepositionPrepTool() {
   const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
   const [selectedPriority, setSelectedPriority] = useState<string | null>(null);
 
-  // Load session on mount
+  // Load session on mount, or show the library when there are saved sessions
   useEffect(() => {
     const savedSessionId = typeof window !== 'undefined'
       ? localStorage.getItem('wtp_current_deposition_session')
       : null;
-    if (savedSessionId) {
-      const savedSession = getDepositionSession(savedSessionId);
-      if (savedSession) {
-        setSession(savedSession);
-        // Determine which step to show
-        if (savedSession.outline) {
-          setCurrentStep('outline');
-        } else if (savedSession.questions.length > 0) {
-          setCurrentStep('questions');
-        } else if (savedSession.documents.length > 0) {
-          setCurrentStep('documents');
+    Promise.all([
+      savedSessionId ? getDepositionSession(savedSessionId) : undefined,
+      getAllDepositionSessions(),
+      getAllCases(),
+    ])
+      .then(([savedSession, sessions, cases]) => {
+        setSavedSessions(sessions);
+        setKnownCases(cases);
+        if (savedSession) {
+          setSession(savedSession);
+          setCurrentStep(resumeStep(savedSession));
+        } else if (sessions.length > 0) {
+          setCurrentStep('library');
         }
-      }
-    }
+      })
+      .catch((err) => console.error('Error loading session:', err));
+  }, []);
+
+  // Saved sessions for the library
+  const loadLibrary = useCallback(async () => {
+    const [sessions, cases] = await Promise.all([getAllDepositionSessions(), getAllCases()]);
+    setSavedSessions(sessions);
+    setKnownCases(cases);
   }, []);
 
+  // The case library and witness roster for the open session
+  const loadCase = useCallback(async (caseId: string) => {
+    setCaseFile((await getCase(caseId)) ?? null);
+  }, []);
+
+  useEffect(() => {
+    if (!session?.caseId) return;
+    loadCase(session.caseId).catch((err) => console.error('Error loading case:', err));
+  }, [session?.caseId, loadCase]);
+
   // Save current session ID
   useEffect(() => {
     if (session && typeof window !== 'undefined') {
@@ -133,7 +182,7 @@ export default function DepositionPrepTool() {
     setError(null);
 
     try {
-      const newSession = createDepositionSession(deponentName.trim(), caseName.trim(), caseNumber.trim() || undefined);
+      const newSession = await createDepositionSession(deponentName.trim(), caseName.trim(), caseNumber.trim() || undefined);
       setSession(newSession);
       setCurrentStep('documents');
     } catch (err) {
@@ -144,7 +193,19 @@ export default function DepositionPrepTool() {
     }
   };
 
-  // Reset session
+  // Change how long this session is kept
+  const handleRetentionChange = async (retention: RetentionPolicy) => {
+    if (!session) return;
+    try {
+      const updated = await updateDepositionSession(session.id, { retention });
+      if (updated) setSession(updated);
+    } catch (err) {
+      console.error('Error updating retention:', err);
+      showError('Failed to update how long this session is kept.');
+    }
+  };
+
+  // Reset session (it stays in the library)
   const resetToSetup = useCallback(() => {
     setSession(null);
     setCurrentStep('setup');
@@ -158,7 +219,63 @@ export default function DepositionPrepTool() {
     if (typeof window !== 'undefined') {
       localStorage.removeItem('wtp_current_deposition_session');
     }
-  }, []);
+    loadLibrary().catch((err) => console.error('Error loading saved sessions:', err));
+  }, [loadLibrary]);
+
+  // Close the current session and show the library
+  const openLibrary = () => {
+    resetToSetup();
+    setCurrentStep('library');
+  };
+
+  // Pick a saved session up where it was left
+  const handleResumeSession = async (sessionId: string) => {
+    try {
+      const saved = await getDepositionSession(sessionId);
+      if (!saved) {
+        showError('That session could not be found.');
+        return;
+      }
+      setSession(saved);
+      setCurrentStep(resumeStep(saved));
+    } catch (err) {
+      console.error('Error loading session:', err);
+      showError('Failed to open the session. Please try again.');
+    }
+  };
+
+  // Copy the documents into a new session for another deponent in the same case
+  const handleDuplicateSession = async (sessionId: string, name: string) => {
+    try {
+      const copy = await duplicateDepositionSession(sessionId, name);
+      if (!copy) return;
+      setSession(copy);
+      setCurrentStep('documents');
+    } catch (err) {
+      console.error('Error duplicating session:', err);
+      showError('Failed to duplicate the session. Please try again.');
+    }
+  };
+
+  const handleDeleteSession = async (sessionId: string) => {
+    try {
+      await deleteDepositionSession(sessionId);
+      await loadLibrary();
+    } catch (err) {
+      console.error('Error deleting session:', err);
+      showError('Failed to delete the session.');
+    }
+  };
+
+  const handleArchiveSession = async (sessionId: string, archived: boolean) => {
+    try {
+      await updateDepositionSession(sessionId, { retention: archived ? { mode: 'archived' } : { mode: 'expire' } });
+      await loadLibrary();
+    } catch (err) {
+      console.error('Error archiving session:', err);
+      showError('Failed to update the session.');
+    }
+  };
 
   // Handle file upload
   const handleFileUpload = useCallback(async (files: FileList | null) => {
@@ -169,73 +286,114 @@ export default function DepositionPrepTool() {
 
     for (const file of Array.from(files)) {
       try {
-        // Read file content
-        const content = await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = () => resolve(reader.result as string);
-          reader.onerror = reject;
-          reader.readAsText(file);
-        });
-
-        const docType = detectDocumentType(file.name, content);
-        const pageCount = Math.ceil(content.length / 3000);
-
+        const docId = uuidv4();
         const newDoc: DepositionDocument = {
-          id: uuidv4(),
+          id: docId,
           name: file.name,
-          type: docType,
+          type: detectDocumentType(file.name),
           fileType: file.type || 'text/plain',
           size: file.size,
           uploadedAt: new Date().toISOString(),
-          content,
-          status: 'ready',
-          metadata: {
-            pageCount,
-            source: file.name,
-          },
+          status: 'uploading',
         };
 
-        const updated = addDepositionDocument(session.id, newDoc);
-        if (updated) {
-          setSession(updated);
-        }
+        const added = await addDepositionDocument(session.id, newDoc);
+        if (added) setSession(added);
+
+        await ingestDocument(file, async ({ status, result, error }) => {
+          const updates: Partial<DepositionDocument> = result
+            ? {
+                status,
+                type: result.category,
+                content: result.content,
+                pageCount: result.pageCount,
+                pages: result.pages,
+                transcriptExtent: result.transcriptExtent,
+                metadata: { pageCount: result.pageCount, source: file.name },
+              }
+            : { status };
+
+          const updated = await updateDepositionDocument(session.id, docId, updates);
+          if (updated) setSession(updated);
+          if (error) showError(`${file.name}: ${error}`);
+
+          // Add it to the case library for the other witnesses in the case
+          if (result && session.caseId) {
+            const shared = await shareDepositionDocumentWithCase(session.id, docId);
+            if (shared) setSession(shared);
+            await loadCase(session.caseId);
+          }
+        });
       } catch (err) {
-        console.error('Error uploading file:', err);
-        showError(`Failed to upload ${file.name}`);
+        console.error('Error saving document:', err);
+        showError(`${file.name}: Failed to save the document. Please try again.`);
       }
     }
 
     setIsUploadingDocument(false);
-  }, [session]);
+  }, [session, loadCase]);
+
+  // Copy documents from the case library into this session
+  const handleAttachCaseDocuments = async (documents: CaseDocument[]) => {
+    if (!session) return;
+    try {
+      const updated = await attachDepositionCaseDocuments(session.id, documents);
+      if (updated) setSession(updated);
+    } catch (err) {
+      console.error('Error attaching case documents:', err);
+      showError('Failed to attach documents from the case library.');
+    }
+  };
+
+  // Picking a known case fills in its case number
+  const handleCaseNameChange = (value: string) => {
+    setCaseName(value);
+    const known = knownCases.find((c) => c.name === value);
+    if (known?.caseNumber && !caseNumber.trim()) setCaseNumber(known.caseNumber);
+  };
 
-  // Generate questions via API
+  // Generate questions via API (streamed: each question renders as soon as it arrives)
   const generateQuestions = async () => {
-    if (!session || session.documents.length === 0) return;
+    const readyDocuments = session?.documents.filter(d => d.status === 'ready') ?? [];
+    if (!session || readyDocuments.length === 0) return;
+
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    const received: DepositionQuestion[] = [];
 
     setIsGeneratingQuestions(true);
+    setStreamedQuestions([]);
+    setGenerationStatus(null);
     setError(null);
 
     try {
-      const response = await fetch('/api/deposition/generate-questions', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const data = await streamGeneration<DepositionQuestion, {
+        questions?: DepositionQuestion[];
+        gaps?: TestimonyGap[];
+        contradictions?: Contradiction[];
+        analysis?: DepositionSession['analysis'];
+        fallbackReason?: FallbackReason;
+      }>(
+        '/api/deposition/generate-questions',
+        {
           deponentName: session.deponentName,
           caseName: session.caseName,
-          documents: session.documents.map(d => ({
+          caseId: session.caseId,
+          documents: readyDocuments.map(d => ({
             name: d.name,
             content: d.content || '',
             type: d.type,
           })),
-        }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        showError(data.error || 'Failed to generate questions');
-        return;
-      }
+        },
+        {
+          signal: controller.signal,
+          onStatus: setGenerationStatus,
+          onQuestion: question => {
+            received.push(question);
+            setStreamedQuestions([...received]);
+          },
+        }
+      );
 
       // Update session with questions and analysis from API
       const questions: DepositionQuestion[] = data.questions || [];
@@ -248,21 +406,44 @@ export default function DepositionPrepTool() {
         keyExhibits: [],
       };
 
-      let updated = setDepositionQuestions(session.id, questions);
-      updated = setAnalysisResults(session.id, gaps, contradictions, analysis);
+      await setDepositionQuestions(session.id, questions, data.fallbackReason);
+      const updated = await setAnalysisResults(session.id, gaps, contradictions, analysis);
 
       if (updated) {
         setSession(updated);
         setCurrentStep('analysis');
       }
     } catch (err) {
-      console.error('Error generating questions:', err);
-      showError('Failed to generate questions. Please try again.');
+      if (controller.signal.aborted) {
+        // Cancelled: keep the questions that arrived (the analysis only comes with the final result)
+        const updated = received.length > 0 ? await setDepositionQuestions(session.id, received) : undefined;
+        if (updated) {
+          setSession(updated);
+          setCurrentStep('questions');
+        }
+      } else if (err instanceof UnauthorizedError) {
+        redirectToLogin();
+      } else if (err instanceof UsageLimitError) {
+        showError(err.message);
+      } else {
+        console.error('Error generating questions:', err);
+        showError(err instanceof Error ? err.message : 'Failed to generate questions. Please try again.');
+      }
     } finally {
+      generationAbortRef.current = null;
       setIsGeneratingQuestions(false);
+      setStreamedQuestions([]);
+      setGenerationStatus(null);
     }
   };
 
+  const cancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  // Stop an in-flight generation when the tool unmounts
+  useEffect(() => () => generationAbortRef.current?.abort(), []);
+
   // Auto-organize outline
   const autoOrganizeOutline = async () => {
     if (!session || session.questions.length === 0) return;
@@ -318,7 +499,7 @@ export default function DepositionPrepTool() {
         });
       }
 
-      const updated = updateDepositionSession(session.id, {
+      const updated = await updateDepositionSession(session.id, {
         outline: {
           id: uuidv4(),
           title: `Deposition Outline - ${session.deponentName}`,
@@ -491,6 +672,7 @@ export default function DepositionPrepTool() {
       doc.setTextColor(100, 100, 100);
       let metaText = `[${question.category.replace('_', ' ').toUpperCase()}]`;
       if (question.documentReference) metaText += ` | Doc: ${question.documentReference}`;
+      if (question.pageReference) metaText += ` at ${question.pageReference}`;
       doc.text(metaText, margin + 5, yPosition);
       doc.setTextColor(0, 0, 0);
       yPosition += 5;
@@ -542,6 +724,21 @@ export default function DepositionPrepTool() {
   };
 
   // Render setup step
+  const renderLibrary = () => (
+    <SessionLibrary
+      tool="deposition"
+      title="Deposition Prep Sessions"
+      nameLabel="Deponent"
+      entries={savedSessions.map(toLibraryEntry)}
+      onNew={resetToSetup}
+      onImported={loadLibrary}
+      onResume={handleResumeSession}
+      onDuplicate={handleDuplicateSession}
+      onDelete={handleDeleteSession}
+      onArchive={handleArchiveSession}
+    />
+  );
+
   const renderSetup = () => (
     <div className="max-w-2xl mx-auto">
       <div className="text-center mb-8">
@@ -552,6 +749,15 @@ export default function DepositionPrepTool() {
         <p className="text-muted-foreground">
           Analyze case documents and generate strategic deposition questions
         </p>
+        {savedSessions.length > 0 && (
+          <button
+            onClick={() => setCurrentStep('library')}
+            className="mt-3 inline-flex items-center gap-1.5 text-sm font-medium text-primary hover:underline"
+          >
+            <Books className="w-4 h-4" />
+            Saved sessions ({savedSessions.length})
+          </button>
+        )}
       </div>
 
       <div className="bg-card rounded-xl shadow-lg p-8 border border-border">
@@ -574,10 +780,17 @@ export default function DepositionPrepTool() {
             <input
               type="text"
               value={caseName}
-              onChange={e => setCaseName(e.target.value)}
+              onChange={e => handleCaseNameChange(e.target.value)}
               placeholder="e.g., Smith v. ABC Corporation"
+              list="deposition-case-names"
               className="w-full px-4 py-3 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-primary outline-none transition"
             />
+            {/* Sessions with the same case name share its document library */}
+            <datalist id="deposition-case-names">
+              {knownCases.map(c => (
+                <option key={c.id} value={c.name} />
+              ))}
+            </datalist>
           </div>
 
           <div>
@@ -656,25 +869,62 @@ export default function DepositionPrepTool() {
               <div className="w-6 h-6 rounded-full bg-primary/20 flex items-center justify-center">
                 <SpinnerGap className="w-4 h-4 text-primary animate-spin" />
               </div>
-              <span className="text-foreground">Identifying gaps and contradictions...</span>
+              <span className="text-foreground">{generationStatus || 'Identifying gaps and contradictions...'}</span>
             </div>
             <div className="flex items-center gap-3">
-              <div className="w-6 h-6 rounded-full bg-muted flex items-center justify-center">
-                <div className="w-2 h-2 rounded-full bg-muted-foreground" />
+              <div className={`w-6 h-6 rounded-full flex items-center justify-center ${streamedQuestions.length > 0 ? 'bg-primary/20' : 'bg-muted'}`}>
+                <div className={`w-2 h-2 rounded-full ${streamedQuestions.length > 0 ? 'bg-primary' : 'bg-muted-foreground'}`} />
               </div>
-              <span className="text-muted-foreground">Generating strategic questions</span>
+              <span className={streamedQuestions.length > 0 ? 'text-foreground' : 'text-muted-foreground'}>
+                {streamedQuestions.length > 0
+                  ? `${streamedQuestions.length} strategic questions generated`
+                  : 'Generating strategic questions'}
+              </span>
             </div>
           </div>
 
           <div className="w-full h-2 bg-muted rounded-full overflow-hidden">
-            <div className="h-full bg-primary rounded-full animate-pulse w-2/3" />
+            <div
+              className="h-full bg-primary rounded-full transition-all"
+              style={{ width: `${Math.min(100, Math.max(10, (streamedQuestions.length / 20) * 100))}%` }}
+            />
           </div>
 
           <p className="text-sm text-muted-foreground mt-4">
-            This typically takes 30-60 seconds depending on document complexity
+            Questions appear below as they are generated. Cancelling keeps the ones already received.
           </p>
+
+          <button
+            onClick={cancelGeneration}
+            className="mt-4 py-2 px-4 bg-muted text-foreground rounded-lg font-medium hover:bg-muted/80 transition inline-flex items-center gap-2"
+          >
+            <X className="w-4 h-4" />
+            Cancel
+          </button>
         </div>
       </div>
+
+      {streamedQuestions.length > 0 && (
+        <div className="mt-6 space-y-2">
+          {streamedQuestions.map((question, index) => (
+            <div key={question.id} className="p-4 bg-card rounded-lg border border-border">
+              <div className="flex items-center gap-2 mb-2">
+                <span className="text-sm font-medium text-muted-foreground">Q{index + 1}</span>
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${getCategoryBadgeClass(question.category)}`}>
+                  {question.category.replace('_', ' ')}
+                </span>
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${getPriorityBadgeClass(question.priority)}`}>
+                  {question.priority}
+                </span>
+                {question.pageReference && (
+                  <span className="text-xs text-muted-foreground">{question.pageReference}</span>
+                )}
+              </div>
+              <p className="text-foreground">{question.question}</p>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 
@@ -693,7 +943,7 @@ export default function DepositionPrepTool() {
           </div>
           <button
             onClick={generateQuestions}
-            disabled={!session?.documents.length || isGeneratingQuestions}
+            disabled={!session?.documents.some(d => d.status === 'ready') || isGeneratingQuestions}
             className="py-2 px-4 bg-primary text-primary-foreground rounded-lg font-medium hover:bg-primary/90 disabled:bg-muted disabled:text-muted-foreground disabled:cursor-not-allowed transition flex items-center gap-2"
           >
             <Lightning className="w-5 h-5" weight="fill" />
@@ -715,7 +965,7 @@ export default function DepositionPrepTool() {
             id="deposition-file-input"
             type="file"
             multiple
-            accept=".pdf,.doc,.docx,.txt"
+            accept=".pdf,.docx,.rtf,.eml,.msg,.txt"
             className="hidden"
             onChange={e => handleFileUpload(e.target.files)}
           />
@@ -750,11 +1000,22 @@ export default function DepositionPrepTool() {
                           {doc.type.replace('_', ' ')}
                         </span>
                         <span className="text-xs text-muted-foreground">{(doc.size / 1024).toFixed(1)} KB</span>
+                        {doc.transcriptExtent && (
+                          <span className="text-xs text-muted-foreground">
+                            • pp. {doc.transcriptExtent.firstPage}-{doc.transcriptExtent.lastPage} indexed
+                          </span>
+                        )}
                       </div>
                     </div>
                   </div>
-                  <span className={`px-2 py-1 rounded text-xs font-medium ${doc.status === 'ready' ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' : 'bg-yellow-100 text-yellow-700'}`}>
-                    {doc.status === 'ready' ? 'Ready' : 'Processing'}
+                  <span className={`px-2 py-1 rounded text-xs font-medium ${
+                    doc.status === 'ready'
+                      ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+                      : doc.status === 'error'
+                        ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+                        : 'bg-yellow-100 text-yellow-700'
+                  }`}>
+                    {doc.status === 'ready' ? 'Ready' : doc.status === 'error' ? 'Error' : 'Processing'}
                   </span>
                 </div>
               ))}
@@ -790,6 +1051,16 @@ export default function DepositionPrepTool() {
           ) : null;
         })()}
 
+        {/* Case library */}
+        {session && caseFile && caseFile.id === session.caseId && (
+          <CaseDocumentsPanel
+            caseFile={caseFile}
+            attachedIds={new Set(session.documents.map(d => d.caseDocumentId).filter((id): id is string => !!id))}
+            witnessId={session.witnessId}
+            onAttach={handleAttachCaseDocuments}
+          />
+        )}
+
         {/* Tips */}
         <div className="mt-6 bg-primary/10 rounded-lg p-4 border border-primary/20">
           <div className="flex gap-3">
@@ -800,7 +1071,7 @@ export default function DepositionPrepTool() {
                 <li>• Upload <strong>prior testimony</strong> to identify contradictions</li>
                 <li>• Include <strong>exhibits</strong> you plan to use during the deposition</li>
                 <li>• Add <strong>transcripts</strong> from other depositions in the case</li>
-                <li>• Use <strong>text files (.txt)</strong> for best content extraction</li>
+                <li>• Upload <strong>Word, RTF or .eml/.msg</strong> files directly; email headers are kept</li>
               </ul>
             </div>
           </div>
@@ -810,9 +1081,36 @@ export default function DepositionPrepTool() {
   };
 
   // Render analysis step
+  // Shown on the analysis and questions steps when the results are templated
+  const renderFallbackNotice = () => {
+    if (!session?.fallbackReason) return null;
+    const reason = FALLBACK_REASONS[session.fallbackReason];
+    return (
+      <div className="mb-6 p-4 bg-amber-500/10 border border-amber-500/30 rounded-lg flex items-start gap-3">
+        <Warning className="w-5 h-5 text-amber-500 shrink-0 mt-0.5" weight="fill" />
+        <div className="flex-1 text-sm">
+          <p className="font-medium text-foreground">{reason.label}</p>
+          <p className="text-muted-foreground">
+            {reason.description}{' '}
+            {session.fallbackReason === 'budget_exceeded'
+              ? 'The excerpt analyses are shown combined, without the final AI merge.'
+              : 'This analysis was built from templates and simple pattern matching on your documents, not by the AI.'}
+          </p>
+        </div>
+        <button
+          onClick={() => setCurrentStep('documents')}
+          className="py-2 px-4 bg-muted text-foreground rounded-lg font-medium hover:bg-muted/80 transition text-sm"
+        >
+          Back to Documents
+        </button>
+      </div>
+    );
+  };
+
   const renderAnalysis = () => {
     return (
     <div className="max-w-6xl mx-auto">
+      {renderFallbackNotice()}
       <div className="flex items-center justify-between mb-6">
         <div>
           <h1 className="text-2xl font-bold text-foreground">Analysis Results</h1>
@@ -919,8 +1217,14 @@ export default function DepositionPrepTool() {
                     </span>
                   </div>
                   <div className="mt-2 text-xs text-muted-foreground space-y-1">
-                    <p><strong>Source 1:</strong> {contradiction.source1.document} - &quot;{contradiction.source1.excerpt}&quot;</p>
-                    <p><strong>Source 2:</strong> {contradiction.source2.document} - &quot;{contradiction.source2.excerpt}&quot;</p>
+                    <p>
+                      <strong>Source 1:</strong> {contradiction.source1.document}
+                      {contradiction.source1.page && <span className="font-mono"> at {contradiction.source1.page}</span>} - &quot;{contradiction.source1.excerpt}&quot;
+                    </p>
+                    <p>
+                      <strong>Source 2:</strong> {contradiction.source2.document}
+                      {contradiction.source2.page && <span className="font-mono"> at {contradiction.source2.page}</span>} - &quot;{contradiction.source2.excerpt}&quot;
+                    </p>
                   </div>
                 </div>
               ))}
@@ -958,6 +1262,7 @@ export default function DepositionPrepTool() {
   // Render questions step
   const renderQuestions = () => (
     <div className="max-w-6xl mx-auto">
+      {renderFallbackNotice()}
       <div className="flex items-center justify-between mb-6">
         <div>
           <h1 className="text-2xl font-bold text-foreground">Deposition Questions</h1>
@@ -1037,6 +1342,7 @@ export default function DepositionPrepTool() {
                       <span className="flex items-center gap-1 text-xs text-blue-600">
                         <FileText className="w-3 h-3" />
                         {question.documentReference}
+                        {question.pageReference && <span className="font-mono">at {question.pageReference}</span>}
                       </span>
                     )}
                   </div>
@@ -1145,6 +1451,7 @@ export default function DepositionPrepTool() {
                             <span className="text-xs text-blue-600 flex items-center gap-1">
                               <FileText className="w-3 h-3" />
                               {question.documentReference}
+                              {question.pageReference && <span className="font-mono">at {question.pageReference}</span>}
                             </span>
                           )}
                         </div>
@@ -1199,6 +1506,7 @@ export default function DepositionPrepTool() {
               <span className="font-medium text-foreground">{session.caseName}</span>
               <span className="text-muted-foreground">•</span>
               <span className="text-muted-foreground">{session.deponentName}</span>
+              <RetentionSelect value={session.retention} onChange={handleRetentionChange} className="ml-2" />
             </div>
             <div className="flex items-center gap-6">
               {(['documents', 'analysis', 'questions', 'outline'] as AppStep[]).map((step, index) => {
@@ -1241,11 +1549,8 @@ export default function DepositionPrepTool() {
               })}
             </div>
             <button
-              onClick={() => {
-                if (confirm('Are you sure you want to end this session?')) {
-                  resetToSetup();
-                }
-              }}
+              onClick={openLibrary}
+              title="Close session"
               className="p-2 text-muted-foreground hover:text-foreground transition"
             >
               <X className="w-5 h-5" />
@@ -1255,6 +1560,7 @@ export default function DepositionPrepTool() {
       )}
 
       {/* Main content */}
+      {currentStep === 'library' && renderLibrary()}
       {currentStep === 'setup' && renderSetup()}
       {currentStep === 'documents' && renderDocuments()}
       {currentStep === 'analysis' && renderAnalysis()}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useState } from 'react';
+import { EnvelopeSimple } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { organization } from '@/lib/auth/client';
+
+// Owners are the people who create the organization
+const INVITE_ROLES = [
+  { value: 'partner', label: 'Partner' },
+  { value: 'associate', label: 'Associate' },
+  { value: 'paralegal', label: 'Paralegal' },
+  { value: 'staff', label: 'Staff' },
+  { value: 'client', label: 'Client (testimony practice only)' },
+] as const;
+
+type InviteRole = (typeof INVITE_ROLES)[number]['value'];
+
+/**
+ * Invite someone to the active organization. Invitation emails are not sent yet, so the
+ * link is shown here to pass on.
+ */
+export default function InviteMemberForm() {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<InviteRole>('associate');
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setInviteLink(null);
+    setLoading(true);
+
+    const { data, error: inviteError } = await organization.inviteMember({ email, role });
+    setLoading(false);
+    if (inviteError || !data) {
+      setError(inviteError?.message || 'Failed to send invitation');
+      return;
+    }
+
+    setInviteLink(`${window.location.origin}/accept-invite/${data.id}`);
+    setEmail('');
+  };
+
+  return (
+    <form onSubmit={handleInvite} className="mt-4 rounded-lg border border-border bg-card p-4">
+      <p className="mb-3 flex items-center gap-2 text-sm font-medium text-foreground">
+        <EnvelopeSimple className="size-4" />
+        Invite to your organization
+      </p>
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="colleague@example.com"
+          required
+          disabled={loading}
+          className="flex-1"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as InviteRole)}
+          disabled={loading}
+          className="rounded-lg border border-border bg-background px-2 py-1 text-sm text-foreground focus:border-primary focus:ring-2 focus:ring-primary"
+        >
+          {INVITE_ROLES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <Button type="submit" disabled={!email || loading}>
+          {loading ? 'Inviting...' : 'Invite'}
+        </Button>
+      </div>
+
+      {error && (
+        <p className="mt-2 text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+      {inviteLink && (
+        <p className="mt-2 text-sm text-muted-foreground">
+          Share this link to accept the invitation:{' '}
+          <span className="break-all font-mono text-xs text-foreground">{inviteLink}</span>
+        </p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { Books, FileText, Plus, SpinnerGap, Users } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import type { Case, CaseDocument } from '@/lib/types/case';
+import { cn } from '@/lib/utils';
+
+interface CaseDocumentsPanelProps {
+  caseFile: Case;
+  attachedIds: Set<string>; // caseDocumentId of every document already in the session
+  witnessId?: string; // This session's witness, highlighted in the roster
+  onAttach: (documents: CaseDocument[]) => Promise<void>;
+}
+
+/**
+ * The case's shared document library and witness roster. Documents uploaded for one
+ * witness can be attached to another witness's session without uploading them again.
+ */
+export default function CaseDocumentsPanel({ caseFile, attachedIds, witnessId, onAttach }: CaseDocumentsPanelProps) {
+  const [attaching, setAttaching] = useState(false);
+
+  const available = caseFile.documents.filter((doc) => doc.status === 'ready' && !attachedIds.has(doc.id));
+
+  const attach = async (documents: CaseDocument[]) => {
+    setAttaching(true);
+    try {
+      await onAttach(documents);
+    } finally {
+      setAttaching(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 rounded-xl border border-border bg-card p-4">
+      <div className="mb-3 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Books className="size-5 text-primary" weight="duotone" />
+          <h3 className="font-semibold text-foreground">Case Library</h3>
+          <span className="text-sm text-muted-foreground">
+            {caseFile.name}
+            {caseFile.caseNumber && ` (${caseFile.caseNumber})`}
+          </span>
+        </div>
+        {available.length > 1 && (
+          <Button size="sm" variant="outline" onClick={() => attach(available)} disabled={attaching}>
+            Attach all ({available.length})
+          </Button>
+        )}
+      </div>
+
+      {caseFile.witnesses.length > 0 && (
+        <div className="mb-3 flex flex-wrap items-center gap-2 text-sm">
+          <Users className="size-4 text-muted-foreground" />
+          {caseFile.witnesses.map((witness) => (
+            <span
+              key={witness.id}
+              className={cn(
+                'rounded-full px-2 py-0.5 text-xs',
+                witness.id === witnessId ? 'bg-primary/10 font-medium text-primary' : 'bg-muted text-muted-foreground'
+              )}
+            >
+              {witness.name}
+              {witness.role && ` - ${witness.role}`}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {available.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {caseFile.documents.length === 0
+            ? 'Documents uploaded to any session in this case are added here.'
+            : 'Every document in the case library is attached to this session.'}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {available.map((doc) => (
+            <div key={doc.id} className="flex items-center justify-between rounded-lg border border-border p-3">
+              <div className="flex items-center gap-3">
+                <FileText className="size-5 text-muted-foreground" weight="duotone" />
+                <div>
+                  <p className="text-sm font-medium text-foreground">{doc.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {(doc.size / 1024).toFixed(1)} KB
+                    {doc.pageCount ? ` - ${doc.pageCount} page${doc.pageCount === 1 ? '' : 's'}` : ''}
+                  </p>
+                </div>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => attach([doc])} disabled={attaching}>
+                {attaching ? <SpinnerGap className="animate-spin" /> : <Plus />}
+                Attach
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { DownloadSimple, Trash, WarningCircle } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { discardQuarantinedRecord, getQuarantinedRecords } from '@/lib/storage/db';
+import type { DocumentOwnerStore, QuarantinedRecord } from '@/lib/storage/db';
+
+const STORE_LABELS: Record<DocumentOwnerStore, string> = {
+  testimonySessions: 'Testimony prep session',
+  depositionSessions: 'Deposition prep session',
+  cases: 'Case',
+};
+
+function downloadRecord(entry: QuarantinedRecord): void {
+  const blob = new Blob([JSON.stringify(entry, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${entry.store}-${entry.recordId}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Saved records that could not be read after an update. They are set aside instead of
+ * deleted, so they can be downloaded for recovery before they are discarded.
+ */
+export default function QuarantineNotice() {
+  const [records, setRecords] = useState<QuarantinedRecord[]>([]);
+
+  const loadRecords = useCallback(async () => {
+    setRecords(await getQuarantinedRecords());
+  }, []);
+
+  useEffect(() => {
+    getQuarantinedRecords()
+      .then(setRecords)
+      .catch((err) => console.error('Error loading quarantined records:', err));
+  }, []);
+
+  const handleDiscard = async (id: string) => {
+    try {
+      await discardQuarantinedRecord(id);
+      await loadRecords();
+    } catch (err) {
+      console.error('Error discarding quarantined record:', err);
+    }
+  };
+
+  if (records.length === 0) return null;
+
+  return (
+    <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-4 dark:border-red-900/50 dark:bg-red-900/20">
+      <div className="flex items-start gap-3">
+        <WarningCircle className="mt-0.5 size-5 shrink-0 text-red-600 dark:text-red-400" weight="fill" />
+        <div className="flex-1">
+          <p className="font-medium text-red-900 dark:text-red-200">
+            {records.length} saved record{records.length === 1 ? '' : 's'} could not be read
+          </p>
+          <p className="mt-1 text-sm text-red-800 dark:text-red-300">
+            They were set aside so the rest of your sessions keep working. Download a copy before discarding.
+          </p>
+          <ul className="mt-3 space-y-2">
+            {records.map((entry) => (
+              <li key={entry.id} className="flex items-center justify-between gap-4 text-sm">
+                <div className="min-w-0">
+                  <p className="text-foreground">
+                    {STORE_LABELS[entry.store]} <span className="text-muted-foreground">{entry.recordId}</span>
+                  </p>
+                  <p className="truncate text-xs text-muted-foreground" title={entry.reason}>
+                    {entry.reason}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button size="sm" variant="outline" onClick={() => downloadRecord(entry)}>
+                    <DownloadSimple data-icon="inline-start" />
+                    Download
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDiscard(entry.id)}>
+                    <Trash data-icon="inline-start" />
+                    Discard
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import type { RetentionPolicy } from '@/lib/types/testimony';
+import { RETENTION_DAY_OPTIONS, getDefaultRetentionDays, isRetentionEnforced } from '@/lib/storage/retention';
+import { cn } from '@/lib/utils';
+
+interface RetentionSelectProps {
+  value: RetentionPolicy | undefined;
+  onChange: (policy: RetentionPolicy) => void;
+  className?: string;
+}
+
+// Option values: "default", "expire:<days>", "pinned" or "archived"
+function toOptionValue(policy: RetentionPolicy | undefined): string {
+  if (!policy || (policy.mode === 'expire' && policy.days === undefined)) return 'default';
+  return policy.mode === 'expire' ? `expire:${policy.days}` : policy.mode;
+}
+
+function fromOptionValue(value: string): RetentionPolicy {
+  if (value === 'pinned' || value === 'archived') return { mode: value };
+  if (value.startsWith('expire:')) return { mode: 'expire', days: Number(value.slice('expire:'.length)) };
+  return { mode: 'expire' };
+}
+
+/**
+ * Per-session retention: expire after the default or a chosen period, keep forever, or archive.
+ * Sessions on the server do not expire, so there they can only be archived.
+ */
+export default function RetentionSelect({ value, onChange, className }: RetentionSelectProps) {
+  const defaultDays = getDefaultRetentionDays();
+  const selected = toOptionValue(value);
+
+  if (!isRetentionEnforced()) {
+    return (
+      <select
+        value={selected === 'archived' ? 'archived' : 'pinned'}
+        onChange={(e) => onChange(fromOptionValue(e.target.value))}
+        title="Whether this session is listed with the active ones"
+        className={cn(
+          'rounded-lg border border-border bg-background px-2 py-1 text-xs text-foreground focus:border-primary focus:ring-2 focus:ring-primary',
+          className
+        )}
+      >
+        <option value="pinned">Active (kept until deleted)</option>
+        <option value="archived">Archived (kept)</option>
+      </select>
+    );
+  }
+
+  return (
+    <select
+      value={selected}
+      onChange={(e) => onChange(fromOptionValue(e.target.value))}
+      title="How long this session is kept"
+      className={cn(
+        'rounded-lg border border-border bg-background px-2 py-1 text-xs text-foreground focus:border-primary focus:ring-2 focus:ring-primary',
+        className
+      )}
+    >
+      <option value="default">Keep {defaultDays} days after last change (default)</option>
+      {RETENTION_DAY_OPTIONS.map((days) => (
+        <option key={days} value={`expire:${days}`}>
+          Keep {days} days after last change
+        </option>
+      ))}
+      {/* A custom period set elsewhere stays selectable */}
+      {selected.startsWith('expire:') && !RETENTION_DAY_OPTIONS.includes(Number(selected.slice(7))) && (
+        <option value={selected}>Keep {selected.slice(7)} days after last change</option>
+      )}
+      <option value="pinned">Keep forever (pinned)</option>
+      <option value="archived">Archived (kept)</option>
+    </select>
+  );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Warning, PushPin, Archive } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import type { PracticeSession } from '@/lib/types/testimony';
+import type { DepositionSession } from '@/lib/types/deposition';
+import {
+  RETENTION_DAY_OPTIONS,
+  getDefaultRetentionDays,
+  getExpiringSessions,
+  isRetentionEnforced,
+  purgeExpiredSessions,
+  setDefaultRetentionDays,
+  setSessionRetention,
+} from '@/lib/storage/retention';
+import type { ExpiringSession } from '@/lib/storage/retention';
+import type { RetentionPolicy } from '@/lib/types/testimony';
+
+type ExpiringEntry = ExpiringSession<PracticeSession | DepositionSession>;
+
+function describeSession({ store, session }: ExpiringEntry): { name: string; tool: string } {
+  return store === 'testimonySessions'
+    ? { name: (session as PracticeSession).witnessName, tool: 'Testimony prep' }
+    : { name: (session as DepositionSession).deponentName, tool: 'Deposition prep' };
+}
+
+function formatExpiry(expiresAt: Date): string {
+  const days = Math.ceil((expiresAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+  const date = expiresAt.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  if (days <= 0) return `Deleted next time the app opens`;
+  return `Deleted in ${days} day${days === 1 ? '' : 's'} (${date})`;
+}
+
+interface RetentionWarningProps {
+  /** False for roles that cannot open deposition sessions */
+  includeDepositions?: boolean;
+}
+
+/**
+ * Retention settings for the tool selector: removes expired sessions, lists the ones
+ * that expire soon so they can be kept or archived, and sets the default period.
+ */
+export default function RetentionWarning({ includeDepositions = true }: RetentionWarningProps) {
+  const [expiring, setExpiring] = useState<ExpiringEntry[]>([]);
+  const [defaultDays, setDefaultDays] = useState(() => getDefaultRetentionDays());
+
+  const loadExpiring = useCallback(async () => {
+    const [testimony, deposition] = await Promise.all([
+      getExpiringSessions<PracticeSession>('testimonySessions'),
+      includeDepositions ? getExpiringSessions<DepositionSession>('depositionSessions') : [],
+    ]);
+    setExpiring(
+      [...testimony, ...deposition].sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime())
+    );
+  }, [includeDepositions]);
+
+  useEffect(() => {
+    Promise.all([
+      purgeExpiredSessions('testimonySessions'),
+      includeDepositions && purgeExpiredSessions('depositionSessions'),
+    ])
+      .then(loadExpiring)
+      .catch((err) => console.error('Error applying session retention:', err));
+  }, [includeDepositions, loadExpiring]);
+
+  const applyPolicy = async (entry: ExpiringEntry, policy: RetentionPolicy) => {
+    try {
+      await setSessionRetention(entry.store, entry.session.id, policy);
+      await loadExpiring();
+    } catch (err) {
+      console.error('Error updating session retention:', err);
+    }
+  };
+
+  const handleDefaultDaysChange = async (days: number) => {
+    setDefaultRetentionDays(days);
+    setDefaultDays(days);
+    await loadExpiring().catch((err) => console.error('Error loading expiring sessions:', err));
+  };
+
+  // Sessions on the server do not expire
+  if (!isRetentionEnforced()) return null;
+
+  return (
+    <div className="mt-8 space-y-4">
+      {expiring.length > 0 && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 dark:border-amber-900/50 dark:bg-amber-900/20">
+          <div className="flex items-start gap-3">
+            <Warning className="mt-0.5 size-5 shrink-0 text-amber-600 dark:text-amber-400" weight="fill" />
+            <div className="flex-1">
+              <p className="font-medium text-amber-900 dark:text-amber-200">
+                {expiring.length} saved session{expiring.length === 1 ? '' : 's'} will be deleted soon
+              </p>
+              <p className="mt-1 text-sm text-amber-800 dark:text-amber-300">
+                Sessions are deleted when their retention period runs out. Keep the ones you still need.
+              </p>
+              <ul className="mt-3 divide-y divide-amber-200 dark:divide-amber-900/50">
+                {expiring.map((entry) => {
+                  const { name, tool } = describeSession(entry);
+                  return (
+                    <li key={entry.session.id} className="flex flex-wrap items-center gap-3 py-2 text-sm">
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate font-medium text-foreground">
+                          {name} <span className="font-normal text-muted-foreground">- {entry.session.caseName}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {tool} · {formatExpiry(entry.expiresAt)}
+                        </p>
+                      </div>
+                      <Button size="sm" variant="outline" onClick={() => applyPolicy(entry, { mode: 'pinned' })}>
+                        <PushPin className="size-4" />
+                        Keep
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => applyPolicy(entry, { mode: 'archived' })}>
+                        <Archive className="size-4" />
+                        Archive
+                      </Button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-muted-foreground">
+        <span>Delete saved sessions</span>
+        <select
+          value={defaultDays}
+          onChange={(e) => handleDefaultDaysChange(Number(e.target.value))}
+          className="rounded-lg border border-border bg-background px-2 py-1 text-sm text-foreground focus:border-primary focus:ring-2 focus:ring-primary"
+        >
+          {[...new Set([...RETENTION_DAY_OPTIONS, defaultDays])].sort((a, b) => a - b).map((days) => (
+            <option key={days} value={days}>
+              {days} days
+            </option>
+          ))}
+        </select>
+        <span>after their last change. Pinned and archived sessions are kept.</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,438 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import {
+  Archive,
+  ArrowCounterClockwise,
+  Copy,
+  DownloadSimple,
+  FileText,
+  MagnifyingGlass,
+  Plus,
+  Trash,
+  UploadSimple,
+  Warning,
+} from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import type { RetentionPolicy } from '@/lib/types/testimony';
+import { describeRetention } from '@/lib/storage/retention';
+import {
+  BUNDLE_EXTENSION,
+  BundleFormatError,
+  downloadSessionBundle,
+  findBundleConflict,
+  importSessionBundle,
+  readSessionBundle,
+} from '@/lib/storage/session-bundle';
+import type { BundleTool, ImportConflictResolution, SessionBundle } from '@/lib/storage/session-bundle';
+import { cn } from '@/lib/utils';
+
+export interface LibraryEntry {
+  id: string;
+  name: string; // Witness or deponent
+  caseName: string;
+  caseNumber?: string;
+  status: string; // The step the session resumes into
+  createdAt: string;
+  updatedAt?: string;
+  retention?: RetentionPolicy;
+  documentNames: string[];
+}
+
+interface SessionLibraryProps {
+  tool: BundleTool;
+  title: string;
+  nameLabel: string;
+  entries: LibraryEntry[];
+  onNew: () => void;
+  onImported: () => Promise<void>;
+  onResume: (sessionId: string) => void;
+  onDuplicate: (sessionId: string, name: string) => Promise<void>;
+  onDelete: (sessionId: string) => Promise<void>;
+  onArchive: (sessionId: string, archived: boolean) => Promise<void>;
+}
+
+// Every word of the query must appear in the name, case or one of the document titles
+function matchesSearch(entry: LibraryEntry, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const text = [entry.name, entry.caseName, entry.caseNumber ?? '', ...entry.documentNames]
+    .join('\n')
+    .toLowerCase();
+  return terms.every((term) => text.includes(term));
+}
+
+const TOOL_NAMES: Record<BundleTool, string> = {
+  testimony: 'Testimony Prep Tool',
+  deposition: 'Deposition Prep Tool',
+};
+
+// Import progress: a bundle waiting for a conflict decision, or the outcome of the last import
+type ImportState =
+  | { kind: 'conflict'; bundle: SessionBundle; existingName: string }
+  | { kind: 'done'; message: string; warnings: string[] }
+  | { kind: 'error'; message: string };
+
+function bundleName(bundle: SessionBundle): string {
+  return bundle.tool === 'testimony' ? bundle.session.witnessName : bundle.session.deponentName;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+/**
+ * Saved sessions for one tool: search, resume, duplicate for another witness in
+ * the same case, archive, delete, and export or import session bundles.
+ */
+export default function SessionLibrary({
+  tool,
+  title,
+  nameLabel,
+  entries,
+  onNew,
+  onImported,
+  onResume,
+  onDuplicate,
+  onDelete,
+  onArchive,
+}: SessionLibraryProps) {
+  const [query, setQuery] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [duplicatingId, setDuplicatingId] = useState<string | null>(null);
+  const [duplicateName, setDuplicateName] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [importState, setImportState] = useState<ImportState | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const archivedCount = entries.filter((entry) => entry.retention?.mode === 'archived').length;
+  const visible = useMemo(
+    () =>
+      entries.filter(
+        (entry) => (showArchived || entry.retention?.mode !== 'archived') && matchesSearch(entry, query)
+      ),
+    [entries, showArchived, query]
+  );
+
+  const runAction = async (sessionId: string, action: () => Promise<void>) => {
+    setBusyId(sessionId);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const startDuplicate = (entry: LibraryEntry) => {
+    setConfirmDeleteId(null);
+    setDuplicatingId(entry.id);
+    setDuplicateName('');
+  };
+
+  const submitDuplicate = async (sessionId: string) => {
+    if (!duplicateName.trim()) return;
+    await runAction(sessionId, () => onDuplicate(sessionId, duplicateName.trim()));
+    setDuplicatingId(null);
+  };
+
+  const handleExport = async (sessionId: string) => {
+    await runAction(sessionId, () => downloadSessionBundle(tool, sessionId)).catch((err) => {
+      console.error('Error exporting session:', err);
+      setImportState({ kind: 'error', message: 'Failed to export the session.' });
+    });
+  };
+
+  const finishImport = async (bundle: SessionBundle, resolution: ImportConflictResolution) => {
+    const result = await importSessionBundle(bundle, resolution);
+    const name = bundleName(bundle);
+    const message =
+      result.outcome === 'skipped'
+        ? `Kept the saved session for ${name}.`
+        : result.outcome === 'replaced'
+        ? `Replaced the saved session for ${name}.`
+        : `Imported the session for ${name}.`;
+    setImportState({ kind: 'done', message, warnings: bundle.warnings });
+    if (result.outcome !== 'skipped') await onImported();
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsImporting(true);
+    setImportState(null);
+
+    try {
+      const bundle = await readSessionBundle(file);
+      if (bundle.tool !== tool) {
+        setImportState({
+          kind: 'error',
+          message: `${file.name} holds a ${bundle.tool} session. Import it from the ${TOOL_NAMES[bundle.tool]}.`,
+        });
+        return;
+      }
+
+      const existing = await findBundleConflict(bundle);
+      if (existing) {
+        const existingName = 'witnessName' in existing ? existing.witnessName : existing.deponentName;
+        setImportState({ kind: 'conflict', bundle, existingName });
+        return;
+      }
+      await finishImport(bundle, 'copy');
+    } catch (err) {
+      console.error('Error importing session:', err);
+      setImportState({
+        kind: 'error',
+        message: err instanceof BundleFormatError ? err.message : 'Failed to import the session.',
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const resolveConflict = async (bundle: SessionBundle, resolution: ImportConflictResolution) => {
+    setIsImporting(true);
+    try {
+      await finishImport(bundle, resolution);
+    } catch (err) {
+      console.error('Error importing session:', err);
+      setImportState({ kind: 'error', message: 'Failed to import the session.' });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDelete = async (sessionId: string) => {
+    if (confirmDeleteId !== sessionId) {
+      setDuplicatingId(null);
+      setConfirmDeleteId(sessionId);
+      return;
+    }
+    setConfirmDeleteId(null);
+    await runAction(sessionId, () => onDelete(sessionId));
+  };
+
+  return (
+    <div className="mx-auto max-w-4xl animate-in fade-in">
+      <div className="mb-6 flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">{title}</h1>
+          <p className="text-sm text-muted-foreground">
+            {entries.length} saved session{entries.length === 1 ? '' : 's'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${BUNDLE_EXTENSION},.zip`}
+            className="hidden"
+            onChange={(e) => {
+              handleImportFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+            <UploadSimple className="size-4" data-icon="inline-start" />
+            Import
+          </Button>
+          <Button onClick={onNew}>
+            <Plus className="size-4" data-icon="inline-start" />
+            New Session
+          </Button>
+        </div>
+      </div>
+
+      {importState?.kind === 'conflict' && (
+        <div className="mb-4 rounded-lg border border-amber-200 bg-amber-50 p-4 dark:border-amber-900/50 dark:bg-amber-900/20">
+          <p className="text-sm text-amber-900 dark:text-amber-200">
+            This bundle is a copy of the saved session for {importState.existingName}. Import{' '}
+            {bundleName(importState.bundle)} as a separate copy, or replace the saved session?
+          </p>
+          <div className="mt-3 flex gap-2">
+            <Button size="sm" onClick={() => resolveConflict(importState.bundle, 'copy')} disabled={isImporting}>
+              Import as a copy
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={() => resolveConflict(importState.bundle, 'replace')}
+              disabled={isImporting}
+            >
+              Replace saved session
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => resolveConflict(importState.bundle, 'skip')} disabled={isImporting}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {importState?.kind === 'done' && (
+        <div className="mb-4 rounded-lg border border-border bg-card p-4 text-sm">
+          <div className="flex items-start justify-between gap-4">
+            <p className="text-foreground">{importState.message}</p>
+            <button onClick={() => setImportState(null)} className="text-muted-foreground hover:text-foreground">
+              Dismiss
+            </button>
+          </div>
+          {importState.warnings.length > 0 && (
+            <ul className="mt-2 space-y-1 text-amber-700 dark:text-amber-300">
+              {importState.warnings.map((warning) => (
+                <li key={warning} className="flex items-start gap-2">
+                  <Warning className="mt-0.5 size-4 shrink-0" />
+                  {warning}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {importState?.kind === 'error' && (
+        <div className="mb-4 flex items-start justify-between gap-4 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700 dark:border-red-900/50 dark:bg-red-900/20 dark:text-red-300">
+          <p>{importState.message}</p>
+          <button onClick={() => setImportState(null)} className="hover:underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div className="mb-4 flex items-center gap-4">
+        <div className="relative flex-1">
+          <MagnifyingGlass className="absolute left-3 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={`Search by ${nameLabel.toLowerCase()}, case or document title`}
+            className="w-full rounded-lg border border-input bg-background py-2 pl-9 pr-3 text-sm text-foreground outline-none transition focus:border-primary focus:ring-2 focus:ring-primary/20"
+          />
+        </div>
+        {archivedCount > 0 && (
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+            />
+            Show archived ({archivedCount})
+          </label>
+        )}
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="rounded-xl border border-border bg-card p-8 text-center text-sm text-muted-foreground">
+          {query.trim() ? 'No sessions match your search.' : 'No saved sessions.'}
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {visible.map((entry) => {
+            const isArchived = entry.retention?.mode === 'archived';
+            const isBusy = busyId === entry.id;
+
+            return (
+              <li
+                key={entry.id}
+                className={cn('rounded-xl border border-border bg-card p-4', isArchived && 'opacity-75')}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-foreground">{entry.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {entry.caseName}
+                      {entry.caseNumber && ` (${entry.caseNumber})`}
+                    </p>
+                    <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                      <span className="rounded-full bg-primary/10 px-2 py-0.5 font-medium text-primary">
+                        {entry.status}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <FileText className="size-3.5" />
+                        {entry.documentNames.length} document{entry.documentNames.length === 1 ? '' : 's'}
+                      </span>
+                      <span>Created {formatDate(entry.createdAt)}</span>
+                      {entry.updatedAt && entry.updatedAt !== entry.createdAt && (
+                        <span>Updated {formatDate(entry.updatedAt)}</span>
+                      )}
+                      <span>{describeRetention(entry.retention)}</span>
+                    </div>
+                  </div>
+
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Button size="sm" onClick={() => onResume(entry.id)} disabled={isBusy}>
+                      Resume
+                    </Button>
+                    <Button
+                      size="icon-sm"
+                      variant="ghost"
+                      title={`Duplicate for another ${nameLabel.toLowerCase()}`}
+                      onClick={() => startDuplicate(entry)}
+                      disabled={isBusy}
+                    >
+                      <Copy />
+                    </Button>
+                    <Button
+                      size="icon-sm"
+                      variant="ghost"
+                      title="Export as a bundle"
+                      onClick={() => handleExport(entry.id)}
+                      disabled={isBusy}
+                    >
+                      <DownloadSimple />
+                    </Button>
+                    <Button
+                      size="icon-sm"
+                      variant="ghost"
+                      title={isArchived ? 'Unarchive' : 'Archive'}
+                      onClick={() => runAction(entry.id, () => onArchive(entry.id, !isArchived))}
+                      disabled={isBusy}
+                    >
+                      {isArchived ? <ArrowCounterClockwise /> : <Archive />}
+                    </Button>
+                    <Button
+                      size={confirmDeleteId === entry.id ? 'sm' : 'icon-sm'}
+                      variant={confirmDeleteId === entry.id ? 'destructive' : 'ghost'}
+                      title="Delete"
+                      onClick={() => handleDelete(entry.id)}
+                      onBlur={() => setConfirmDeleteId((id) => (id === entry.id ? null : id))}
+                      disabled={isBusy}
+                    >
+                      {confirmDeleteId === entry.id ? 'Delete?' : <Trash />}
+                    </Button>
+                  </div>
+                </div>
+
+                {duplicatingId === entry.id && (
+                  <form
+                    className="mt-3 flex items-center gap-2 border-t border-border pt-3"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      submitDuplicate(entry.id);
+                    }}
+                  >
+                    <input
+                      type="text"
+                      autoFocus
+                      value={duplicateName}
+                      onChange={(e) => setDuplicateName(e.target.value)}
+                      placeholder={`${nameLabel} for the copy`}
+                      className="flex-1 rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground outline-none transition focus:border-primary focus:ring-2 focus:ring-primary/20"
+                    />
+                    <Button type="submit" size="sm" disabled={!duplicateName.trim() || isBusy}>
+                      Duplicate
+                    </Button>
+                    <Button type="button" size="sm" variant="ghost" onClick={() => setDuplicatingId(null)}>
+                      Cancel
+                    </Button>
+                  </form>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { MicrophoneSlash } from '@phosphor-icons/react';
+import { getRecording } from '@/lib/storage/recording-storage';
+
+type Clip = { url: string } | { missing: true };
+
+async function loadClip(recordingId: string): Promise<Clip> {
+  const recording = await getRecording(recordingId);
+  return recording ? { url: URL.createObjectURL(recording.audio) } : { missing: true };
+}
+
+/**
+ * Replay a recorded practice answer. Recordings are kept in the browser that made them.
+ */
+export default function AnswerPlayback({ recordingId }: { recordingId: string }) {
+  const [clip, setClip] = useState<Clip | null>(null);
+
+  useEffect(() => {
+    let loaded: Clip | null = null;
+    let cancelled = false;
+
+    loadClip(recordingId)
+      .then((result) => {
+        loaded = result;
+        if (cancelled && 'url' in result) URL.revokeObjectURL(result.url);
+        else setClip(result);
+      })
+      .catch((err) => {
+        console.error('Error loading recording:', err);
+        setClip({ missing: true });
+      });
+
+    return () => {
+      cancelled = true;
+      if (loaded && 'url' in loaded) URL.revokeObjectURL(loaded.url);
+    };
+  }, [recordingId]);
+
+  if (!clip) return null;
+
+  if ('missing' in clip) {
+    return (
+      <p className="mb-2 flex items-center gap-1 text-xs text-muted-foreground">
+        <MicrophoneSlash className="size-3" />
+        Recording not available in this browser
+      </p>
+    );
+  }
+
+  return <audio controls preload="metadata" src={clip.url} className="mb-2 h-8 w-full max-w-md" />;
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { SCORE_CATEGORY_KEYS } from '@/lib/practice-scores';
+import type { PracticeRun } from '@/lib/practice-scores';
+import { SCORE_CATEGORIES, SCORE_SCALE } from '@/lib/types/testimony';
+import type { ScoreCategory } from '@/lib/types/testimony';
+
+const CATEGORY_COLORS: Record<ScoreCategory, string> = {
+  responsiveness: 'stroke-blue-500',
+  brevity: 'stroke-amber-500',
+  volunteering: 'stroke-purple-500',
+  consistency: 'stroke-rose-500',
+  composure: 'stroke-green-500',
+};
+
+const LEGEND_COLORS: Record<ScoreCategory, string> = {
+  responsiveness: 'bg-blue-500',
+  brevity: 'bg-amber-500',
+  volunteering: 'bg-purple-500',
+  consistency: 'bg-rose-500',
+  composure: 'bg-green-500',
+};
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 10, right: 16, bottom: 24, left: 28 };
+
+/**
+ * Scores across a witness's practice runs, oldest first: the overall average as a bold
+ * line and each rubric category as a thin one
+ */
+export default function ScoreTrendChart({ runs }: { runs: PracticeRun[] }) {
+  const scored = runs.filter((run) => run.summary.overall !== null);
+  if (scored.length < 2) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Practice this witness again to see how the scores change from run to run.
+      </p>
+    );
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (index: number) => PADDING.left + (index / (scored.length - 1)) * plotWidth;
+  const y = (score: number) => PADDING.top + ((SCORE_SCALE - score) / (SCORE_SCALE - 1)) * plotHeight;
+
+  const line = (value: (run: PracticeRun) => number | null) =>
+    scored
+      .map((run, index) => ({ index, score: value(run) }))
+      .filter((point): point is { index: number; score: number } => point.score !== null)
+      .map((point) => `${x(point.index)},${y(point.score)}`)
+      .join(' ');
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" role="img" aria-label="Score trend across practice runs">
+        {Array.from({ length: SCORE_SCALE }, (_, i) => i + 1).map((score) => (
+          <g key={score}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(score)} y2={y(score)} className="stroke-border" />
+            <text x={PADDING.left - 8} y={y(score) + 4} textAnchor="end" className="fill-muted-foreground text-[10px]">
+              {score}
+            </text>
+          </g>
+        ))}
+        {scored.map((run, index) => (
+          <text
+            key={run.id}
+            x={x(index)}
+            y={HEIGHT - 6}
+            textAnchor="middle"
+            className="fill-muted-foreground text-[10px]"
+          >
+            {new Date(run.startedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+          </text>
+        ))}
+        {SCORE_CATEGORY_KEYS.map((category) => (
+          <polyline
+            key={category}
+            points={line((run) => run.summary.categories[category])}
+            fill="none"
+            strokeWidth={1.5}
+            className={CATEGORY_COLORS[category]}
+          />
+        ))}
+        <polyline points={line((run) => run.summary.overall)} fill="none" strokeWidth={3} className="stroke-primary" />
+      </svg>
+      <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="h-1 w-4 rounded bg-primary" />
+          Overall
+        </span>
+        {SCORE_CATEGORY_KEYS.map((category) => (
+          <span key={category} className="flex items-center gap-1">
+            <span className={`h-0.5 w-4 rounded ${LEGEND_COLORS[category]}`} />
+            {SCORE_CATEGORIES[category].label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import {
   Scales,
@@ -20,37 +20,119 @@ import {
   Target,
   Shield,
   WarningCircle,
+  Books,
 } from '@phosphor-icons/react';
 import { Button } from '@/components/ui/button';
+import RetentionSelect from '@/components/sessions/RetentionSelect';
+import SessionLibrary from '@/components/sessions/SessionLibrary';
+import type { LibraryEntry } from '@/components/sessions/SessionLibrary';
+import CaseDocumentsPanel from '@/components/sessions/CaseDocumentsPanel';
+import AnswerPlayback from './AnswerPlayback';
+import ScoreTrendChart from './ScoreTrendChart';
 import { cn } from '@/lib/utils';
 import {
   createSession,
+  duplicateSession,
   getSession,
+  getAllSessions,
   updateSession,
   addDocument,
+  updateDocument,
   setQuestions,
   addPracticeExchange,
   deleteSession,
+  attachCaseDocuments,
+  shareDocumentWithCase,
 } from '@/lib/storage/session-storage';
+import { usesServerStorage } from '@/lib/storage/db';
+import { getAllCases, getCase } from '@/lib/storage/case-storage';
+import { saveRecording, updateRecording } from '@/lib/storage/recording-storage';
 import { formatPrice } from '@/lib/storage/usage-storage';
 import type {
   PracticeSession,
+  PracticeExchange,
   Document,
   CrossExamQuestion,
   AIExaminerResponse,
+  FallbackReason,
+  RetentionPolicy,
+  ExaminerProfile,
+  AnswerScores,
+  AnswerFlag,
 } from '@/lib/types/testimony';
-import { processDocument } from '@/lib/document-processor';
+import type { Case, CaseDocument } from '@/lib/types/case';
+import {
+  ANSWER_FLAG_KINDS,
+  DEFAULT_EXAMINER_PROFILE,
+  EXAMINER_PROFILES,
+  FALLBACK_REASONS,
+  MAX_FOLLOW_UP_DEPTH,
+  SCORE_CATEGORIES,
+  SCORE_SCALE,
+} from '@/lib/types/testimony';
+import { ingestDocument } from '@/lib/document-ingestion';
+import { streamGeneration, toRequestError, UnauthorizedError, UsageLimitError } from '@/lib/question-stream';
+import { redirectToLogin } from '@/lib/storage/api-key-storage';
+import { SCORE_CATEGORY_KEYS, isSameWitness, summarizeScores, toPracticeRuns } from '@/lib/practice-scores';
+import { isRecordingSupported, startAnswerRecording, transcribeRecording } from '@/lib/transcription/client';
+import type { AnswerRecorder } from '@/lib/transcription/client';
+import { summarizeAnswerFlags } from '@/lib/answer-analysis';
+
+type AppStep = 'library' | 'setup' | 'documents' | 'questions' | 'practice' | 'review';
+
+// The step a saved session picks up at
+function resumeStep(session: PracticeSession): AppStep {
+  if (session.practiceHistory.length > 0) return 'review';
+  if (session.questions.length > 0) return 'questions';
+  return 'documents';
+}
+
+const RESUME_STEP_LABELS: Partial<Record<AppStep, string>> = {
+  documents: 'Adding documents',
+  questions: 'Questions ready',
+  review: 'Practiced',
+};
+
+// Practice history as threads: each prepared question followed by the follow-ups it led to
+function toThreads(history: PracticeExchange[]): PracticeExchange[][] {
+  const threads: PracticeExchange[][] = [];
+  const threadOf = new Map<string, PracticeExchange[]>();
+  for (const exchange of history) {
+    // History is in the order answered, so a parent is always placed before its follow-ups
+    const thread = (exchange.parentId && threadOf.get(exchange.parentId)) || [];
+    if (thread.length === 0) threads.push(thread);
+    thread.push(exchange);
+    threadOf.set(exchange.id, thread);
+  }
+  return threads;
+}
 
-type AppStep = 'setup' | 'documents' | 'questions' | 'practice' | 'review';
+function toLibraryEntry(session: PracticeSession): LibraryEntry {
+  return {
+    id: session.id,
+    name: session.witnessName,
+    caseName: session.caseName,
+    status: RESUME_STEP_LABELS[resumeStep(session)] ?? session.status,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    retention: session.retention,
+    documentNames: session.documents.map((doc) => doc.name),
+  };
+}
 
 export default function TestimonyPrepTool() {
   // Session state
   const [session, setSession] = useState<PracticeSession | null>(null);
   const [currentStep, setCurrentStep] = useState<AppStep>('setup');
+  const [savedSessions, setSavedSessions] = useState<PracticeSession[]>([]);
+  const [knownCases, setKnownCases] = useState<Case[]>([]);
+  const [caseFile, setCaseFile] = useState<Case | null>(null);
 
   // Form state
   const [witnessName, setWitnessName] = useState('');
   const [caseName, setCaseName] = useState('');
+  const [witnessEmail, setWitnessEmail] = useState('');
+  const [examinerProfile, setExaminerProfile] = useState<ExaminerProfile>(DEFAULT_EXAMINER_PROFILE);
 
   // Loading states
   const [isCreatingSession, setIsCreatingSession] = useState(false);
@@ -58,15 +140,31 @@ export default function TestimonyPrepTool() {
   const [isGeneratingQuestions, setIsGeneratingQuestions] = useState(false);
   const [isSubmittingResponse, setIsSubmittingResponse] = useState(false);
 
+  // Streaming generation state
+  const [streamedQuestions, setStreamedQuestions] = useState<CrossExamQuestion[]>([]);
+  const [generationStatus, setGenerationStatus] = useState<string | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+
   // Error state
   const [error, setError] = useState<string | null>(null);
 
   // Practice state
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [witnessResponse, setWitnessResponse] = useState('');
-  const [lastAIResponse, setLastAIResponse] = useState<AIExaminerResponse | null>(null);
+  const [lastAIResponse, setLastAIResponse] = useState<
+    (AIExaminerResponse & { fallbackReason?: FallbackReason; answerFlags?: AnswerFlag[] }) | null
+  >(null);
   const [showFeedback, setShowFeedback] = useState(false);
+  // Exchanges so far for the current prepared question, and the follow-up being answered
+  const [thread, setThread] = useState<PracticeExchange[]>([]);
+  const [pendingFollowUp, setPendingFollowUp] = useState<{ question: string; parentId: string } | null>(null);
+  // Each start of practice mode is a run; scores are compared across runs
+  const [runId, setRunId] = useState<string | null>(null);
   const [isRecording, setIsRecording] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  // Clip of the current answer, saved with the exchange
+  const [answerRecordingId, setAnswerRecordingId] = useState<string | null>(null);
+  const recorderRef = useRef<AnswerRecorder | null>(null);
 
   // Timer state
   const [sessionStartTime, setSessionStartTime] = useState<Date | null>(null);
@@ -96,21 +194,151 @@ export default function TestimonyPrepTool() {
     setTimeout(() => setError(null), 10000);
   }, []);
 
-  // Reset to setup
+  // Saved sessions for the library
+  const loadLibrary = useCallback(async () => {
+    const [sessions, cases] = await Promise.all([getAllSessions(), getAllCases()]);
+    setSavedSessions(sessions);
+    setKnownCases(cases);
+    return sessions;
+  }, []);
+
+  // The case library and witness roster for the open session
+  const loadCase = useCallback(async (caseId: string) => {
+    setCaseFile((await getCase(caseId)) ?? null);
+  }, []);
+
+  useEffect(() => {
+    if (!session?.caseId) return;
+    loadCase(session.caseId).catch((err) => console.error('Error loading case:', err));
+  }, [session?.caseId, loadCase]);
+
+  // Open the library on mount when there are saved sessions
+  useEffect(() => {
+    loadLibrary()
+      .then((sessions) => {
+        if (sessions.length > 0) setCurrentStep((step) => (step === 'setup' ? 'library' : step));
+      })
+      .catch((err) => console.error('Error loading saved sessions:', err));
+  }, [loadLibrary]);
+
+  // The review compares this run with the witness's other saved sessions
+  useEffect(() => {
+    if (currentStep !== 'review') return;
+    loadLibrary().catch((err) => console.error('Error loading saved sessions:', err));
+  }, [currentStep, loadLibrary]);
+
+  // Drop an in-progress recording and the current answer's clip
+  const discardRecording = useCallback(() => {
+    recorderRef.current?.cancel();
+    recorderRef.current = null;
+    setIsRecording(false);
+    setAnswerRecordingId(null);
+  }, []);
+
+  // Release the microphone when the tool unmounts
+  useEffect(() => () => recorderRef.current?.cancel(), []);
+
+  // Reset to setup (the session stays in the library)
   const resetToSetup = useCallback(() => {
-    if (session) {
-      deleteSession(session.id);
-    }
+    discardRecording();
     setSession(null);
     setCurrentStep('setup');
     setWitnessName('');
     setCaseName('');
+    setWitnessEmail('');
+    setExaminerProfile(DEFAULT_EXAMINER_PROFILE);
     setCurrentQuestionIndex(0);
     setWitnessResponse('');
     setLastAIResponse(null);
     setShowFeedback(false);
+    setThread([]);
+    setPendingFollowUp(null);
     setError(null);
-  }, [session]);
+    loadLibrary().catch((err) => console.error('Error loading saved sessions:', err));
+  }, [loadLibrary, discardRecording]);
+
+  // Close the current session and show the library
+  const openLibrary = useCallback(() => {
+    resetToSetup();
+    setCurrentStep('library');
+  }, [resetToSetup]);
+
+  // Pick a saved session up where it was left
+  const handleResumeSession = useCallback(
+    async (sessionId: string) => {
+      try {
+        const saved = await getSession(sessionId);
+        if (!saved) {
+          showError('That session could not be found.');
+          return;
+        }
+        setSession(saved);
+        setElapsedTime(saved.totalDuration);
+        setCurrentStep(resumeStep(saved));
+      } catch (err) {
+        console.error('Error loading session:', err);
+        showError('Failed to open the session. Please try again.');
+      }
+    },
+    [showError]
+  );
+
+  // Copy the documents into a new session for another witness in the same case
+  const handleDuplicateSession = useCallback(
+    async (sessionId: string, name: string) => {
+      try {
+        const copy = await duplicateSession(sessionId, name);
+        if (!copy) return;
+        setSession(copy);
+        setCurrentStep('documents');
+      } catch (err) {
+        console.error('Error duplicating session:', err);
+        showError('Failed to duplicate the session. Please try again.');
+      }
+    },
+    [showError]
+  );
+
+  const handleDeleteSession = useCallback(
+    async (sessionId: string) => {
+      try {
+        await deleteSession(sessionId);
+        await loadLibrary();
+      } catch (err) {
+        console.error('Error deleting session:', err);
+        showError('Failed to delete the session.');
+      }
+    },
+    [loadLibrary, showError]
+  );
+
+  const handleArchiveSession = useCallback(
+    async (sessionId: string, archived: boolean) => {
+      try {
+        await updateSession(sessionId, { retention: archived ? { mode: 'archived' } : { mode: 'expire' } });
+        await loadLibrary();
+      } catch (err) {
+        console.error('Error archiving session:', err);
+        showError('Failed to update the session.');
+      }
+    },
+    [loadLibrary, showError]
+  );
+
+  // Change how long this session is kept
+  const handleRetentionChange = useCallback(
+    async (retention: RetentionPolicy) => {
+      if (!session) return;
+      try {
+        const updated = await updateSession(session.id, { retention });
+        if (updated) setSession(updated);
+      } catch (err) {
+        console.error('Error updating retention:', err);
+        showError('Failed to update how long this session is kept.');
+      }
+    },
+    [session, showError]
+  );
 
   // Create session
   const handleCreateSession = useCallback(async () => {
@@ -120,7 +348,12 @@ export default function TestimonyPrepTool() {
     setError(null);
 
     try {
-      const newSession = createSession(witnessName.trim(), caseName.trim());
+      const newSession = await createSession(
+        witnessName.trim(),
+        caseName.trim(),
+        examinerProfile,
+        witnessEmail.trim()
+      );
       setSession(newSession);
       setCurrentStep('documents');
     } catch (err) {
@@ -129,7 +362,7 @@ export default function TestimonyPrepTool() {
     } finally {
       setIsCreatingSession(false);
     }
-  }, [witnessName, caseName, showError]);
+  }, [witnessName, caseName, witnessEmail, examinerProfile, showError]);
 
   // Handle file upload
   const handleFileUpload = useCallback(
@@ -140,136 +373,174 @@ export default function TestimonyPrepTool() {
       setError(null);
 
       for (const file of Array.from(files)) {
-        const docId = uuidv4();
-        const doc: Document = {
-          id: docId,
-          name: file.name,
-          type: file.type || 'unknown',
-          size: file.size,
-          uploadedAt: new Date().toISOString(),
-          status: 'processing',
-        };
-
-        // Add document with processing status
-        let updatedSession = addDocument(session.id, doc);
-        if (updatedSession) setSession(updatedSession);
-
         try {
-          let content = '';
-          let pageCount = 1;
-
-          // Extract text using client-side document processor
-          const result = await processDocument(file);
-          content = result.text;
-          pageCount = result.pageCount;
-
-          // Send to server for cost calculation
-          const response = await fetch('/api/testimony/ocr', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              text: content,
-              pageCount,
-              fileName: file.name,
-            }),
+          const docId = uuidv4();
+          const doc: Document = {
+            id: docId,
+            name: file.name,
+            type: file.type || 'unknown',
+            size: file.size,
+            uploadedAt: new Date().toISOString(),
+            status: 'uploading',
+          };
+
+          const updatedSession = await addDocument(session.id, doc);
+          if (updatedSession) setSession(updatedSession);
+
+          await ingestDocument(file, async ({ status, result, error }) => {
+            const updates: Partial<Document> = result
+              ? { status, content: result.content, pageCount: result.pageCount, pages: result.pages }
+              : { status };
+
+            const updated = await updateDocument(session.id, docId, updates);
+            if (updated) setSession(updated);
+            if (error) showError(`${file.name}: ${error}`);
+
+            // Add it to the case library for the other witnesses in the case
+            if (result && session.caseId) {
+              const shared = await shareDocumentWithCase(session.id, docId, result.category);
+              if (shared) setSession(shared);
+              await loadCase(session.caseId);
+            }
           });
-
-          const data = await response.json();
-
-          if (!response.ok) {
-            throw new Error(data.error || 'Failed to process document');
-          }
-
-          // Update document with content
-          const currentSession = getSession(session.id);
-          if (currentSession) {
-            const updatedDocs = currentSession.documents.map((d) =>
-              d.id === docId ? { ...d, content, status: 'ready' as const } : d
-            );
-            updatedSession = updateSession(session.id, { documents: updatedDocs });
-            if (updatedSession) setSession(updatedSession);
-          }
         } catch (err) {
-          console.error('Error processing document:', err);
-          const errorMessage = err instanceof Error ? err.message : 'Failed to process document';
-          showError(`${file.name}: ${errorMessage}`);
-
-          // Update doc status to error
-          const currentSession = getSession(session.id);
-          if (currentSession) {
-            const updatedDocs = currentSession.documents.map((d) =>
-              d.id === docId ? { ...d, status: 'error' as const } : d
-            );
-            updatedSession = updateSession(session.id, { documents: updatedDocs });
-            if (updatedSession) setSession(updatedSession);
-          }
+          console.error('Error saving document:', err);
+          showError(`${file.name}: Failed to save the document. Please try again.`);
         }
       }
 
       setIsUploadingDocument(false);
     },
+    [session, showError, loadCase]
+  );
+
+  // Copy documents from the case library into this session
+  const handleAttachCaseDocuments = useCallback(
+    async (documents: CaseDocument[]) => {
+      if (!session) return;
+      try {
+        const updated = await attachCaseDocuments(session.id, documents);
+        if (updated) setSession(updated);
+      } catch (err) {
+        console.error('Error attaching case documents:', err);
+        showError('Failed to attach documents from the case library.');
+      }
+    },
     [session, showError]
   );
 
-  // Generate questions
+  // Generate questions (streamed: each question renders as soon as it arrives)
   const handleGenerateQuestions = useCallback(async () => {
     if (!session || session.documents.length === 0) return;
 
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    const received: CrossExamQuestion[] = [];
+
     setIsGeneratingQuestions(true);
+    setStreamedQuestions([]);
+    setGenerationStatus(null);
     setError(null);
 
+    const saveQuestions = async (questions: CrossExamQuestion[], fallbackReason?: FallbackReason) => {
+      const updatedSession = await setQuestions(session.id, questions, fallbackReason);
+      if (updatedSession) {
+        setSession(updatedSession);
+        setCurrentStep('questions');
+      }
+    };
+
     try {
-      const response = await fetch('/api/testimony/generate-questions', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const data = await streamGeneration<
+        CrossExamQuestion,
+        { questions: CrossExamQuestion[]; fallbackReason?: FallbackReason }
+      >(
+        '/api/testimony/generate-questions',
+        {
           witnessName: session.witnessName,
           caseName: session.caseName,
+          caseId: session.caseId,
           documents: session.documents.map((d) => ({
             name: d.name,
             content: d.content || '',
           })),
-        }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to generate questions');
-      }
+        },
+        {
+          signal: controller.signal,
+          onStatus: setGenerationStatus,
+          onQuestion: (question) => {
+            received.push(question);
+            setStreamedQuestions([...received]);
+          },
+        }
+      );
 
       if (data.questions && data.questions.length > 0) {
-        const updatedSession = setQuestions(session.id, data.questions);
-        if (updatedSession) {
-          setSession(updatedSession);
-          setCurrentStep('questions');
-        }
+        await saveQuestions(data.questions, data.fallbackReason);
       } else {
         showError('No questions generated. Please try again.');
       }
     } catch (err) {
-      console.error('Error generating questions:', err);
-      showError('Failed to generate questions. Please try again.');
+      if (controller.signal.aborted) {
+        // Cancelled: keep whatever arrived before the cancel
+        if (received.length > 0) await saveQuestions(received);
+      } else if (err instanceof UnauthorizedError) {
+        redirectToLogin();
+      } else if (err instanceof UsageLimitError) {
+        showError(err.message);
+      } else {
+        console.error('Error generating questions:', err);
+        showError(err instanceof Error ? err.message : 'Failed to generate questions. Please try again.');
+      }
     } finally {
+      generationAbortRef.current = null;
       setIsGeneratingQuestions(false);
+      setStreamedQuestions([]);
+      setGenerationStatus(null);
     }
   }, [session, showError]);
 
+  const handleCancelGeneration = useCallback(() => {
+    generationAbortRef.current?.abort();
+  }, []);
+
+  // Stop an in-flight generation when the tool unmounts
+  useEffect(() => () => generationAbortRef.current?.abort(), []);
+
   // Start practice
   const startPractice = useCallback(() => {
     setCurrentStep('practice');
     setCurrentQuestionIndex(0);
     setSessionStartTime(new Date());
     setQuestionStartTime(new Date());
+    setThread([]);
+    setPendingFollowUp(null);
+    setRunId(uuidv4());
     setError(null);
   }, []);
 
+  // Follow-ups per question for this session
+  const handleFollowUpDepthChange = useCallback(
+    async (followUpDepth: number) => {
+      if (!session) return;
+      try {
+        const updated = await updateSession(session.id, { followUpDepth });
+        if (updated) setSession(updated);
+      } catch (err) {
+        console.error('Error updating follow-up depth:', err);
+        showError('Failed to update the number of follow-ups.');
+      }
+    },
+    [session, showError]
+  );
+
   // Submit response
   const submitResponse = useCallback(async () => {
     if (!session || !witnessResponse.trim()) return;
 
     const currentQuestion = session.questions[currentQuestionIndex];
     if (!currentQuestion) return;
+    const askedQuestion = pendingFollowUp?.question ?? currentQuestion.question;
 
     setIsSubmittingResponse(true);
     setShowFeedback(false);
@@ -286,13 +557,16 @@ export default function TestimonyPrepTool() {
         body: JSON.stringify({
           witnessName: session.witnessName,
           caseName: session.caseName,
+          caseId: session.caseId,
           documents: session.documents.map((d) => ({
             name: d.name,
             content: d.content || '',
           })),
           questionId: currentQuestion.id,
-          question: currentQuestion.question,
+          question: askedQuestion,
           witnessResponse: witnessResponse,
+          examinerProfile: session.examinerProfile ?? DEFAULT_EXAMINER_PROFILE,
+          history: thread.map((exchange) => ({ question: exchange.question, answer: exchange.witnessResponse })),
           duration,
           questionDetails: {
             suggestedApproach: currentQuestion.suggestedApproach,
@@ -304,41 +578,99 @@ export default function TestimonyPrepTool() {
 
       const data = await response.json();
 
+      if (response.status === 401) {
+        redirectToLogin();
+        return;
+      }
+
       if (!response.ok) {
-        throw new Error(data.error || 'Failed to analyze response');
+        // The local checks still ran when the examiner was not asked (usage limits)
+        if (data.answerFlags?.length) {
+          setLastAIResponse({
+            followUp: '',
+            feedback: summarizeAnswerFlags(data.answerFlags),
+            weaknessIdentified: '',
+            suggestedImprovement: '',
+            answerFlags: data.answerFlags,
+          });
+          setShowFeedback(true);
+        }
+        throw toRequestError(response.status, data, 'Failed to analyze response');
       }
 
       // Add practice exchange to session
-      const exchange = {
+      const exchange: PracticeExchange = {
         id: uuidv4(),
         questionId: currentQuestion.id,
-        question: currentQuestion.question,
+        question: askedQuestion,
+        parentId: pendingFollowUp?.parentId,
         witnessResponse,
         aiFollowUp: data.aiResponse?.followUp,
         feedback: data.aiResponse?.feedback,
+        fallbackReason: data.fallbackReason,
+        scores: data.aiResponse?.scores,
+        answerFlags: data.answerFlags,
+        runId: runId ?? undefined,
+        recordingId: answerRecordingId ?? undefined,
         timestamp: new Date().toISOString(),
         duration,
       };
 
-      const updatedSession = addPracticeExchange(session.id, exchange);
+      const updatedSession = await addPracticeExchange(session.id, exchange);
       if (updatedSession) setSession(updatedSession);
+      setThread((prev) => [...prev, exchange]);
 
       if (data.aiResponse) {
-        setLastAIResponse(data.aiResponse);
+        setLastAIResponse({ ...data.aiResponse, fallbackReason: data.fallbackReason, answerFlags: data.answerFlags });
         setShowFeedback(true);
       }
     } catch (err) {
+      if (err instanceof UsageLimitError) {
+        showError(err.message);
+        return;
+      }
       console.error('Error submitting response:', err);
       showError('Failed to analyze response. Please try again.');
     } finally {
       setIsSubmittingResponse(false);
     }
-  }, [session, currentQuestionIndex, witnessResponse, questionStartTime, showError]);
+  }, [
+    session,
+    currentQuestionIndex,
+    pendingFollowUp,
+    thread,
+    runId,
+    witnessResponse,
+    answerRecordingId,
+    questionStartTime,
+    showError,
+  ]);
+
+  // Whether the examiner may press the current question with another follow-up
+  const sessionExaminer = EXAMINER_PROFILES[session?.examinerProfile ?? DEFAULT_EXAMINER_PROFILE];
+  const followUpDepth = session?.followUpDepth ?? sessionExaminer.followUpDepth;
+  const canAnswerFollowUp = !!lastAIResponse?.followUp && thread.length > 0 && thread.length <= followUpDepth;
+
+  // Answer the examiner's follow-up to the last answer
+  const answerFollowUp = useCallback(() => {
+    const parent = thread[thread.length - 1];
+    if (!parent || !lastAIResponse?.followUp) return;
+
+    discardRecording();
+    setPendingFollowUp({ question: lastAIResponse.followUp, parentId: parent.id });
+    setWitnessResponse('');
+    setLastAIResponse(null);
+    setShowFeedback(false);
+    setQuestionStartTime(new Date());
+  }, [thread, lastAIResponse, discardRecording]);
 
   // Next question
   const nextQuestion = useCallback(() => {
     if (!session) return;
 
+    discardRecording();
+    setThread([]);
+    setPendingFollowUp(null);
     if (currentQuestionIndex < session.questions.length - 1) {
       setCurrentQuestionIndex((prev) => prev + 1);
       setWitnessResponse('');
@@ -348,12 +680,57 @@ export default function TestimonyPrepTool() {
     } else {
       setCurrentStep('review');
     }
-  }, [session, currentQuestionIndex]);
+  }, [session, currentQuestionIndex, discardRecording]);
 
-  // Toggle recording (placeholder)
-  const toggleRecording = useCallback(() => {
-    setIsRecording((prev) => !prev);
-  }, []);
+  // Record the answer out loud; the clip is saved for review and its transcript added to the response
+  const toggleRecording = useCallback(async () => {
+    const currentQuestion = session?.questions[currentQuestionIndex];
+    if (!session || !currentQuestion) return;
+
+    const recorder = recorderRef.current;
+    if (!recorder) {
+      if (!isRecordingSupported()) {
+        showError('This browser cannot record audio. Type the answer instead.');
+        return;
+      }
+      try {
+        recorderRef.current = await startAnswerRecording();
+        setIsRecording(true);
+      } catch (err) {
+        console.error('Error starting recording:', err);
+        showError(
+          err instanceof DOMException && err.name === 'NotAllowedError'
+            ? 'Microphone access was blocked. Allow it in the browser to record answers.'
+            : 'Could not start recording. Check that a microphone is connected.'
+        );
+      }
+      return;
+    }
+
+    recorderRef.current = null;
+    setIsRecording(false);
+    setIsTranscribing(true);
+    let recordingId: string | null = null;
+    try {
+      const clip = await recorder.stop();
+      recordingId = (await saveRecording(session.id, currentQuestion.id, clip)).id;
+      setAnswerRecordingId(recordingId);
+
+      const transcript = await transcribeRecording(clip, { caseId: session.caseId });
+      await updateRecording(recordingId, { status: 'completed', transcription: transcript });
+      if (transcript) setWitnessResponse((prev) => (prev.trim() ? `${prev.trim()} ${transcript}` : transcript));
+    } catch (err) {
+      if (recordingId) await updateRecording(recordingId, { status: 'error' }).catch(() => {});
+      if (err instanceof UnauthorizedError) {
+        redirectToLogin();
+        return;
+      }
+      console.error('Error transcribing recording:', err);
+      showError(err instanceof Error ? err.message : 'Failed to transcribe the recording. Type the answer instead.');
+    } finally {
+      setIsTranscribing(false);
+    }
+  }, [session, currentQuestionIndex, showError]);
 
   // Format time
   const formatTime = (seconds: number) => {
@@ -385,6 +762,70 @@ export default function TestimonyPrepTool() {
     return styles[difficulty];
   };
 
+  // OCR summary for scanned pages
+  const renderOCRSummary = (doc: Document) => {
+    const ocrPages = doc.pages?.filter((p) => p.source === 'ocr') || [];
+    const blankPages = doc.pages?.filter((p) => p.source === 'blank') || [];
+    if (ocrPages.length === 0 && blankPages.length === 0) return null;
+
+    const confidences = ocrPages.map((p) => p.confidence).filter((c): c is number => typeof c === 'number');
+    const averageConfidence = confidences.length
+      ? confidences.reduce((sum, c) => sum + c, 0) / confidences.length
+      : null;
+
+    return (
+      <>
+        {ocrPages.length > 0 && (
+          <span className={cn(averageConfidence !== null && averageConfidence < 0.8 && 'text-amber-600 dark:text-amber-400')}>
+            {' '}- OCR on {ocrPages.length} of {doc.pages?.length} pages
+            {averageConfidence !== null && ` (${Math.round(averageConfidence * 100)}% confidence)`}
+          </span>
+        )}
+        {blankPages.length > 0 && (
+          <span className="text-amber-600 dark:text-amber-400">
+            {' '}- {blankPages.length} unreadable {blankPages.length === 1 ? 'page' : 'pages'}
+          </span>
+        )}
+      </>
+    );
+  };
+
+  // Rubric scores of one answer
+  const renderScores = (scores: AnswerScores) => (
+    <div className="flex flex-wrap gap-2">
+      {SCORE_CATEGORY_KEYS.map((category) => (
+        <span
+          key={category}
+          title={SCORE_CATEGORIES[category].description}
+          className={cn(
+            'rounded px-2 py-0.5 text-xs font-medium',
+            scores[category] >= 4
+              ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+              : scores[category] >= 3
+              ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300'
+              : 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+          )}
+        >
+          {SCORE_CATEGORIES[category].label} {scores[category]}/{SCORE_SCALE}
+        </span>
+      ))}
+    </div>
+  );
+
+  // Witness mistakes found by the local answer checks
+  const renderAnswerFlags = (flags: AnswerFlag[]) => (
+    <ul className="space-y-1">
+      {flags.map((flag, index) => (
+        <li key={index} className="flex items-start gap-2 text-sm">
+          <span className="shrink-0 rounded bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+            {ANSWER_FLAG_KINDS[flag.kind].label}
+          </span>
+          <span className="text-muted-foreground">{flag.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
   // Error banner component
   const ErrorBanner = () => {
     if (!error) return null;
@@ -401,6 +842,24 @@ export default function TestimonyPrepTool() {
     );
   };
 
+  // Render session library
+  const renderLibrary = () => (
+    <SessionLibrary
+      tool="testimony"
+      title="Testimony Prep Sessions"
+      nameLabel="Witness"
+      entries={savedSessions.map(toLibraryEntry)}
+      onNew={resetToSetup}
+      onImported={async () => {
+        await loadLibrary();
+      }}
+      onResume={handleResumeSession}
+      onDuplicate={handleDuplicateSession}
+      onDelete={handleDeleteSession}
+      onArchive={handleArchiveSession}
+    />
+  );
+
   // Render setup step
   const renderSetup = () => (
     <div className="mx-auto max-w-2xl animate-in fade-in">
@@ -412,6 +871,12 @@ export default function TestimonyPrepTool() {
         <p className="text-muted-foreground">
           Prepare witnesses for cross-examination with AI-generated questions and practice sessions
         </p>
+        {savedSessions.length > 0 && (
+          <Button variant="link" onClick={() => setCurrentStep('library')} className="mt-2">
+            <Books className="size-4" data-icon="inline-start" />
+            Saved sessions ({savedSessions.length})
+          </Button>
+        )}
       </div>
 
       <div className="rounded-xl border border-border bg-card p-8 shadow-sm">
@@ -436,8 +901,53 @@ export default function TestimonyPrepTool() {
               value={caseName}
               onChange={(e) => setCaseName(e.target.value)}
               placeholder="e.g., Smith v. Memorial Hospital"
+              list="testimony-case-names"
               className="w-full rounded-lg border border-input bg-background px-4 py-3 text-foreground outline-none transition focus:border-primary focus:ring-2 focus:ring-primary/20"
             />
+            {/* Sessions with the same case name share its document library */}
+            <datalist id="testimony-case-names">
+              {knownCases.map((c) => (
+                <option key={c.id} value={c.name} />
+              ))}
+            </datalist>
+          </div>
+
+          {/* Clients only see the sessions assigned to their account (server storage only) */}
+          {usesServerStorage() && (
+            <div>
+              <label className="mb-1 block text-sm font-medium text-foreground">
+                Witness Email <span className="font-normal text-muted-foreground">(optional)</span>
+              </label>
+              <input
+                type="email"
+                value={witnessEmail}
+                onChange={(e) => setWitnessEmail(e.target.value)}
+                placeholder="The witness's sign-in email, so they can practice this session"
+                className="w-full rounded-lg border border-input bg-background px-4 py-3 text-foreground outline-none transition focus:border-primary focus:ring-2 focus:ring-primary/20"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-foreground">Examiner</label>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {(Object.keys(EXAMINER_PROFILES) as ExaminerProfile[]).map((profile) => (
+                <button
+                  key={profile}
+                  type="button"
+                  onClick={() => setExaminerProfile(profile)}
+                  className={cn(
+                    'rounded-lg border p-3 text-left transition',
+                    examinerProfile === profile
+                      ? 'border-primary bg-primary/5 ring-2 ring-primary/20'
+                      : 'border-border hover:border-primary/50'
+                  )}
+                >
+                  <p className="text-sm font-medium text-foreground">{EXAMINER_PROFILES[profile].label}</p>
+                  <p className="text-xs text-muted-foreground">{EXAMINER_PROFILES[profile].description}</p>
+                </button>
+              ))}
+            </div>
           </div>
 
           <Button
@@ -504,26 +1014,64 @@ export default function TestimonyPrepTool() {
               <div className="flex size-6 items-center justify-center rounded-full bg-primary/10">
                 <SpinnerGap className="size-4 animate-spin text-primary" />
               </div>
-              <span className="text-foreground">Analyzing document content...</span>
+              <span className="text-foreground">{generationStatus || 'Analyzing document content...'}</span>
             </div>
             <div className="flex items-center gap-3">
-              <div className="flex size-6 items-center justify-center rounded-full bg-muted">
-                <div className="size-2 rounded-full bg-muted-foreground"></div>
+              <div
+                className={cn(
+                  'flex size-6 items-center justify-center rounded-full',
+                  streamedQuestions.length > 0 ? 'bg-primary/10' : 'bg-muted'
+                )}
+              >
+                <div
+                  className={cn('size-2 rounded-full', streamedQuestions.length > 0 ? 'bg-primary' : 'bg-muted-foreground')}
+                ></div>
               </div>
-              <span className="text-muted-foreground">Generating questions</span>
+              <span className={streamedQuestions.length > 0 ? 'text-foreground' : 'text-muted-foreground'}>
+                {streamedQuestions.length > 0
+                  ? `${streamedQuestions.length} of 20 questions generated`
+                  : 'Generating questions'}
+              </span>
             </div>
           </div>
 
           <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
-            <div className="h-full animate-pulse rounded-full bg-primary" style={{ width: '60%' }}></div>
+            <div
+              className="h-full rounded-full bg-primary transition-all"
+              style={{ width: `${Math.max(10, (streamedQuestions.length / 20) * 100)}%` }}
+            ></div>
           </div>
 
           <p className="mt-4 text-sm text-muted-foreground">
-            This typically takes 30-60 seconds depending on document complexity
+            Questions appear below as they are generated. Cancelling keeps the ones already received.
           </p>
+
+          <Button variant="outline" className="mt-4" onClick={handleCancelGeneration}>
+            <X className="size-4" />
+            Cancel
+          </Button>
         </div>
       </div>
 
+      {streamedQuestions.length > 0 && (
+        <div className="mt-6 space-y-2">
+          {streamedQuestions.map((question, index) => (
+            <div key={question.id} className="animate-in fade-in rounded-lg border border-border bg-card p-4">
+              <div className="mb-2 flex items-center gap-2">
+                <span className="text-sm font-medium text-muted-foreground">Q{index + 1}</span>
+                <span className={cn('rounded px-2 py-0.5 text-xs font-medium', getCategoryStyle(question.category))}>
+                  {question.category}
+                </span>
+                <span className={cn('rounded px-2 py-0.5 text-xs font-medium', getDifficultyStyle(question.difficulty))}>
+                  {question.difficulty}
+                </span>
+              </div>
+              <p className="text-foreground">{question.question}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="mt-6 rounded-lg border border-amber-200 bg-amber-50 p-4 dark:border-amber-900/50 dark:bg-amber-900/20">
         <div className="flex gap-3">
           <Lightbulb className="mt-0.5 size-5 shrink-0 text-amber-600 dark:text-amber-400" weight="fill" />
@@ -577,7 +1125,7 @@ export default function TestimonyPrepTool() {
             id="testimony-file-input"
             type="file"
             multiple
-            accept=".pdf,.doc,.docx,.txt"
+            accept=".pdf,.docx,.rtf,.eml,.msg,.txt"
             className="hidden"
             onChange={(e) => handleFileUpload(e.target.files)}
           />
@@ -591,7 +1139,7 @@ export default function TestimonyPrepTool() {
             <>
               <Upload className="mx-auto mb-4 size-12 text-muted-foreground" weight="duotone" />
               <p className="mb-1 text-lg font-medium text-foreground">Drop files here or click to upload</p>
-              <p className="text-sm text-muted-foreground">Supports PDF, Word documents, and text files (max 5MB)</p>
+              <p className="text-sm text-muted-foreground">Supports PDF, Word (.docx), RTF, email (.eml, .msg) and text files (max 5MB)</p>
             </>
           )}
         </div>
@@ -610,7 +1158,10 @@ export default function TestimonyPrepTool() {
                     <FileText className="size-5 text-primary" weight="duotone" />
                     <div>
                       <p className="font-medium text-foreground">{doc.name}</p>
-                      <p className="text-sm text-muted-foreground">{(doc.size / 1024).toFixed(1)} KB</p>
+                      <p className="text-sm text-muted-foreground">
+                        {(doc.size / 1024).toFixed(1)} KB
+                        {renderOCRSummary(doc)}
+                      </p>
                     </div>
                   </div>
                   <span
@@ -631,6 +1182,16 @@ export default function TestimonyPrepTool() {
           </div>
         )}
 
+        {/* Case library */}
+        {session && caseFile && caseFile.id === session.caseId && (
+          <CaseDocumentsPanel
+            caseFile={caseFile}
+            attachedIds={new Set(session.documents.map((d) => d.caseDocumentId).filter((id): id is string => !!id))}
+            witnessId={session.witnessId}
+            onAttach={handleAttachCaseDocuments}
+          />
+        )}
+
         {/* Tips */}
         <div className="mt-6 rounded-lg border border-primary/30 bg-primary/5 p-4">
           <div className="flex gap-3">
@@ -659,12 +1220,45 @@ export default function TestimonyPrepTool() {
             {session?.questions.length} questions generated for {session?.witnessName}
           </p>
         </div>
-        <Button onClick={startPractice}>
-          <Play className="size-5" data-icon="inline-start" weight="fill" />
-          Start Practice
-        </Button>
+        <div className="flex items-center gap-3">
+          <select
+            value={followUpDepth}
+            onChange={(e) => handleFollowUpDepthChange(Number(e.target.value))}
+            title="How many follow-up questions the examiner presses after each question"
+            className="rounded-lg border border-border bg-background px-2 py-2 text-sm text-foreground focus:border-primary focus:ring-2 focus:ring-primary"
+          >
+            {Array.from({ length: MAX_FOLLOW_UP_DEPTH + 1 }, (_, depth) => (
+              <option key={depth} value={depth}>
+                {depth === 0 ? 'No follow-ups' : `${depth} follow-up${depth === 1 ? '' : 's'} per question`}
+              </option>
+            ))}
+          </select>
+          <Button onClick={startPractice}>
+            <Play className="size-5" data-icon="inline-start" weight="fill" />
+            Start Practice
+          </Button>
+        </div>
       </div>
 
+      {/* Templated questions notice */}
+      {session?.fallbackReason && (
+        <div className="mb-6 flex items-start gap-3 rounded-lg border border-amber-500/30 bg-amber-500/10 p-4">
+          <Warning className="mt-0.5 size-5 shrink-0 text-amber-500" weight="fill" />
+          <div className="flex-1 text-sm">
+            <p className="font-medium text-foreground">{FALLBACK_REASONS[session.fallbackReason].label}</p>
+            <p className="text-muted-foreground">
+              {FALLBACK_REASONS[session.fallbackReason].description}{' '}
+              {session.fallbackReason === 'merge_failed' || session.fallbackReason === 'budget_exceeded'
+                ? 'Questions are shown as drafted from each excerpt, unranked, and the general questions are standard templates.'
+                : 'These are standard template questions, not questions drawn from your documents.'}
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => setCurrentStep('documents')}>
+            Back to Documents
+          </Button>
+        </div>
+      )}
+
       {/* Category summary */}
       <div className="mb-6 grid grid-cols-6 gap-2">
         {(['timeline', 'credibility', 'inconsistency', 'foundation', 'impeachment', 'general'] as const).map((cat) => {
@@ -733,7 +1327,7 @@ export default function TestimonyPrepTool() {
           <div>
             <h1 className="text-2xl font-bold text-foreground">Practice Mode</h1>
             <p className="text-muted-foreground">
-              Question {currentQuestionIndex + 1} of {session?.questions.length}
+              Question {currentQuestionIndex + 1} of {session?.questions.length} - {sessionExaminer.label}
             </p>
           </div>
           <div className="flex items-center gap-4">
@@ -743,15 +1337,22 @@ export default function TestimonyPrepTool() {
             </div>
             <button
               onClick={toggleRecording}
+              disabled={showFeedback || isTranscribing || isSubmittingResponse}
               className={cn(
-                'rounded-full p-2 transition',
+                'rounded-full p-2 transition disabled:cursor-not-allowed disabled:opacity-50',
                 isRecording
-                  ? 'bg-red-100 text-red-600 hover:bg-red-200 dark:bg-red-900/30 dark:text-red-400'
+                  ? 'animate-pulse bg-red-100 text-red-600 hover:bg-red-200 dark:bg-red-900/30 dark:text-red-400'
                   : 'bg-muted text-muted-foreground hover:bg-muted/80'
               )}
-              title={isRecording ? 'Stop recording' : 'Start recording'}
+              title={isRecording ? 'Stop recording' : isTranscribing ? 'Transcribing...' : 'Record your answer'}
             >
-              {isRecording ? <MicrophoneSlash className="size-5" /> : <Microphone className="size-5" />}
+              {isTranscribing ? (
+                <SpinnerGap className="size-5 animate-spin" />
+              ) : isRecording ? (
+                <MicrophoneSlash className="size-5" />
+              ) : (
+                <Microphone className="size-5" />
+              )}
             </button>
           </div>
         </div>
@@ -783,7 +1384,24 @@ export default function TestimonyPrepTool() {
                   </span>
                 )}
               </div>
-              <p className="text-lg font-medium text-foreground">{currentQuestion.question}</p>
+              {pendingFollowUp ? (
+                <>
+                  <div className="mb-3 space-y-2 border-l-2 border-border pl-3 text-sm text-muted-foreground">
+                    {thread.map((exchange) => (
+                      <div key={exchange.id}>
+                        <p className="font-medium">Q: {exchange.question}</p>
+                        <p>A: {exchange.witnessResponse}</p>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="mb-1 text-sm font-medium text-primary">
+                    Follow-up {thread.length} of {followUpDepth}
+                  </p>
+                  <p className="text-lg font-medium text-foreground">{pendingFollowUp.question}</p>
+                </>
+              ) : (
+                <p className="text-lg font-medium text-foreground">{currentQuestion.question}</p>
+              )}
             </div>
 
             {/* Response area */}
@@ -792,11 +1410,21 @@ export default function TestimonyPrepTool() {
               <textarea
                 value={witnessResponse}
                 onChange={(e) => setWitnessResponse(e.target.value)}
-                placeholder="Type your response as the witness would answer..."
+                placeholder={
+                  isRecording
+                    ? 'Recording... answer out loud, then stop the recording'
+                    : 'Type your response as the witness would answer, or record it with the microphone...'
+                }
                 rows={4}
                 className="w-full resize-none rounded-lg border border-input bg-background px-4 py-3 text-foreground outline-none transition focus:border-primary focus:ring-2 focus:ring-primary/20"
-                disabled={showFeedback}
+                disabled={showFeedback || isTranscribing}
               />
+              {isTranscribing && (
+                <p className="mt-2 flex items-center gap-2 text-sm text-muted-foreground">
+                  <SpinnerGap className="size-4 animate-spin" />
+                  Transcribing your answer...
+                </p>
+              )}
 
               {!showFeedback && (
                 <div className="mt-4 flex gap-3">
@@ -805,7 +1433,7 @@ export default function TestimonyPrepTool() {
                   </Button>
                   <Button
                     onClick={submitResponse}
-                    disabled={!witnessResponse.trim() || isSubmittingResponse}
+                    disabled={!witnessResponse.trim() || isSubmittingResponse || isRecording || isTranscribing}
                     className="flex-1"
                   >
                     {isSubmittingResponse ? (
@@ -832,6 +1460,27 @@ export default function TestimonyPrepTool() {
                   AI Examiner Feedback
                 </h3>
 
+                {lastAIResponse.fallbackReason && (
+                  <div className="mb-4 flex items-start gap-2 rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-sm">
+                    <Warning className="mt-0.5 size-4 shrink-0 text-amber-500" weight="fill" />
+                    <p className="text-muted-foreground">
+                      {FALLBACK_REASONS[lastAIResponse.fallbackReason].description}{' '}
+                      {lastAIResponse.answerFlags
+                        ? 'This feedback comes from automatic checks for common witness mistakes, not from the AI examiner.'
+                        : 'This is generic feedback, not an analysis of your answer.'}
+                    </p>
+                  </div>
+                )}
+
+                {lastAIResponse.scores && <div className="mb-4">{renderScores(lastAIResponse.scores)}</div>}
+
+                {lastAIResponse.answerFlags && lastAIResponse.answerFlags.length > 0 && (
+                  <div className="mb-4">
+                    <p className="mb-2 text-sm font-medium text-foreground">Common Mistakes:</p>
+                    {renderAnswerFlags(lastAIResponse.answerFlags)}
+                  </div>
+                )}
+
                 {lastAIResponse.followUp && (
                   <div className="mb-4 rounded-lg border border-primary/30 bg-card p-4">
                     <p className="mb-1 text-sm font-medium text-primary">Follow-up Question:</p>
@@ -866,19 +1515,31 @@ export default function TestimonyPrepTool() {
                   </div>
                 )}
 
-                <Button onClick={nextQuestion} className="w-full">
-                  {currentQuestionIndex < (session?.questions.length || 0) - 1 ? (
-                    <>
-                      Next Question
-                      <CaretRight className="size-5" data-icon="inline-end" />
-                    </>
-                  ) : (
-                    <>
-                      Complete Session
-                      <CheckCircle className="size-5" data-icon="inline-end" weight="fill" />
-                    </>
+                <div className="flex gap-3">
+                  {canAnswerFollowUp && (
+                    <Button onClick={answerFollowUp} className="flex-1">
+                      <ChatCircle className="size-5" data-icon="inline-start" />
+                      Answer Follow-up
+                    </Button>
                   )}
-                </Button>
+                  <Button
+                    onClick={nextQuestion}
+                    variant={canAnswerFollowUp ? 'outline' : 'default'}
+                    className="flex-1"
+                  >
+                    {currentQuestionIndex < (session?.questions.length || 0) - 1 ? (
+                      <>
+                        Next Question
+                        <CaretRight className="size-5" data-icon="inline-end" />
+                      </>
+                    ) : (
+                      <>
+                        Complete Session
+                        <CheckCircle className="size-5" data-icon="inline-end" weight="fill" />
+                      </>
+                    )}
+                  </Button>
+                </div>
               </div>
             )}
           </div>
@@ -901,81 +1562,142 @@ export default function TestimonyPrepTool() {
   };
 
   // Render review step
-  const renderReview = () => (
-    <div className="mx-auto max-w-4xl animate-in fade-in">
-      <div className="mb-8 text-center">
-        <div className="mb-4 inline-flex size-16 items-center justify-center rounded-full bg-green-100 dark:bg-green-900/30">
-          <CheckCircle className="size-8 text-green-600 dark:text-green-400" weight="fill" />
-        </div>
-        <h1 className="mb-2 text-3xl font-bold text-foreground">Session Complete!</h1>
-        <p className="text-muted-foreground">Great work preparing {session?.witnessName} for cross-examination</p>
-      </div>
+  const renderReview = () => {
+    const summary = summarizeScores(session?.practiceHistory ?? []);
+    // Runs of every saved session for this witness, this one included
+    const witnessRuns = session
+      ? toPracticeRuns([session, ...savedSessions.filter((s) => s.id !== session.id && isSameWitness(s, session))])
+      : [];
 
-      {/* Stats */}
-      <div className="mb-8 grid grid-cols-3 gap-4">
-        <div className="rounded-xl border border-border bg-card p-6 text-center">
-          <p className="text-3xl font-bold text-primary">{session?.practiceHistory.length}</p>
-          <p className="text-muted-foreground">Questions Practiced</p>
-        </div>
-        <div className="rounded-xl border border-border bg-card p-6 text-center">
-          <p className="text-3xl font-bold text-primary">{formatTime(elapsedTime)}</p>
-          <p className="text-muted-foreground">Total Time</p>
-        </div>
-        <div className="rounded-xl border border-border bg-card p-6 text-center">
-          <p className="text-3xl font-bold text-primary">{session?.documents.length}</p>
-          <p className="text-muted-foreground">Documents Reviewed</p>
+    return (
+      <div className="mx-auto max-w-4xl animate-in fade-in">
+        <div className="mb-8 text-center">
+          <div className="mb-4 inline-flex size-16 items-center justify-center rounded-full bg-green-100 dark:bg-green-900/30">
+            <CheckCircle className="size-8 text-green-600 dark:text-green-400" weight="fill" />
+          </div>
+          <h1 className="mb-2 text-3xl font-bold text-foreground">Session Complete!</h1>
+          <p className="text-muted-foreground">Great work preparing {session?.witnessName} for cross-examination</p>
         </div>
-      </div>
 
-      {/* Practice history */}
-      <div className="overflow-hidden rounded-xl border border-border bg-card">
-        <div className="border-b border-border bg-muted/50 px-6 py-4">
-          <h2 className="text-lg font-semibold">Practice History</h2>
+        {/* Stats */}
+        <div className="mb-8 grid grid-cols-3 gap-4">
+          <div className="rounded-xl border border-border bg-card p-6 text-center">
+            <p className="text-3xl font-bold text-primary">{session?.practiceHistory.filter((e) => !e.parentId).length}</p>
+            <p className="text-muted-foreground">Questions Practiced</p>
+          </div>
+          <div className="rounded-xl border border-border bg-card p-6 text-center">
+            <p className="text-3xl font-bold text-primary">{formatTime(elapsedTime)}</p>
+            <p className="text-muted-foreground">Total Time</p>
+          </div>
+          <div className="rounded-xl border border-border bg-card p-6 text-center">
+            <p className="text-3xl font-bold text-primary">{session?.documents.length}</p>
+            <p className="text-muted-foreground">Documents Reviewed</p>
+          </div>
         </div>
-        <div className="max-h-96 divide-y divide-border overflow-y-auto">
-          {session?.practiceHistory.map((exchange, index) => (
-            <div key={exchange.id} className="p-4">
-              <div className="flex items-start gap-3">
-                <span className="flex size-6 shrink-0 items-center justify-center rounded-full bg-primary/10 text-xs font-medium text-primary">
-                  {index + 1}
-                </span>
-                <div className="flex-1">
-                  <p className="mb-1 font-medium text-foreground">{exchange.question}</p>
-                  <p className="mb-2 text-sm text-muted-foreground">
-                    <strong>Response:</strong> {exchange.witnessResponse}
-                  </p>
-                  {exchange.feedback && (
-                    <p className="rounded bg-primary/5 p-2 text-sm text-primary">
-                      <strong>Feedback:</strong> {exchange.feedback}
-                    </p>
-                  )}
+
+        {/* Scores */}
+        {summary.overall !== null && (
+          <div className="mb-8 overflow-hidden rounded-xl border border-border bg-card">
+            <div className="flex items-center justify-between border-b border-border bg-muted/50 px-6 py-4">
+              <h2 className="text-lg font-semibold">Scores</h2>
+              <p className="text-sm text-muted-foreground">
+                Session average{' '}
+                <span className="text-lg font-bold text-primary">{summary.overall.toFixed(1)}</span>/{SCORE_SCALE} over{' '}
+                {summary.scoredAnswers} scored {summary.scoredAnswers === 1 ? 'answer' : 'answers'}
+              </p>
+            </div>
+            <div className="space-y-3 p-6">
+              {SCORE_CATEGORY_KEYS.map((category) => {
+                const average = summary.categories[category];
+                return (
+                  <div key={category} className="flex items-center gap-3 text-sm">
+                    <span className="w-36 shrink-0 text-foreground" title={SCORE_CATEGORIES[category].description}>
+                      {SCORE_CATEGORIES[category].label}
+                    </span>
+                    <div className="h-2 flex-1 rounded-full bg-muted">
+                      <div
+                        className="h-full rounded-full bg-primary"
+                        style={{ width: `${((average ?? 0) / SCORE_SCALE) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-10 text-right font-mono text-muted-foreground">{average?.toFixed(1) ?? '-'}</span>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="border-t border-border px-6 py-4">
+              <h3 className="mb-3 text-sm font-medium text-foreground">
+                Progress across practice runs for {session?.witnessName}
+              </h3>
+              <ScoreTrendChart runs={witnessRuns} />
+            </div>
+          </div>
+        )}
+
+        {/* Practice history */}
+        <div className="overflow-hidden rounded-xl border border-border bg-card">
+          <div className="border-b border-border bg-muted/50 px-6 py-4">
+            <h2 className="text-lg font-semibold">Practice History</h2>
+          </div>
+          <div className="max-h-96 divide-y divide-border overflow-y-auto">
+            {toThreads(session?.practiceHistory ?? []).map((chain, index) => (
+              <div key={chain[0].id} className="p-4">
+                <div className="flex items-start gap-3">
+                  <span className="flex size-6 shrink-0 items-center justify-center rounded-full bg-primary/10 text-xs font-medium text-primary">
+                    {index + 1}
+                  </span>
+                  <div className="flex-1 space-y-3">
+                    {chain.map((exchange, depth) => (
+                      <div key={exchange.id} className={cn(depth > 0 && 'border-l-2 border-primary/20 pl-3')}>
+                        {depth > 0 && <p className="mb-1 text-xs font-medium text-primary">Follow-up {depth}</p>}
+                        <p className="mb-1 font-medium text-foreground">{exchange.question}</p>
+                        <p className="mb-2 text-sm text-muted-foreground">
+                          <strong>Response:</strong> {exchange.witnessResponse}
+                        </p>
+                        {exchange.recordingId && <AnswerPlayback recordingId={exchange.recordingId} />}
+                        {exchange.scores && <div className="mb-2">{renderScores(exchange.scores)}</div>}
+                        {exchange.answerFlags && exchange.answerFlags.length > 0 && (
+                          <div className="mb-2">{renderAnswerFlags(exchange.answerFlags)}</div>
+                        )}
+                        {exchange.feedback && (
+                          <p className="rounded bg-primary/5 p-2 text-sm text-primary">
+                            <strong>Feedback:</strong> {exchange.feedback}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
+            ))}
+          </div>
         </div>
-      </div>
 
-      {/* Actions */}
-      <div className="mt-6 flex gap-4">
-        <Button onClick={resetToSetup} variant="outline" className="flex-1">
-          Start New Session
-        </Button>
-        <Button
-          onClick={() => {
-            setCurrentStep('practice');
-            setCurrentQuestionIndex(0);
-            setWitnessResponse('');
-            setLastAIResponse(null);
-            setShowFeedback(false);
-          }}
-          className="flex-1"
-        >
-          Practice Again
-        </Button>
+        {/* Actions */}
+        <div className="mt-6 flex gap-4">
+          <Button onClick={resetToSetup} variant="outline" className="flex-1">
+            Start New Session
+          </Button>
+          <Button
+            onClick={() => {
+              setCurrentStep('practice');
+              setCurrentQuestionIndex(0);
+              setWitnessResponse('');
+              setLastAIResponse(null);
+              setShowFeedback(false);
+              setThread([]);
+              setPendingFollowUp(null);
+              setRunId(uuidv4());
+              setQuestionStartTime(new Date());
+            }}
+            className="flex-1"
+          >
+            Practice Again
+          </Button>
+        </div>
       </div>
-    </div>
-  );
+    );
+  };
 
   return (
     <div className="px-4 py-8">
@@ -990,6 +1712,7 @@ export default function TestimonyPrepTool() {
               <span className="font-medium text-foreground">{session.caseName}</span>
               <span className="text-muted-foreground">-</span>
               <span className="text-muted-foreground">{session.witnessName}</span>
+              <RetentionSelect value={session.retention} onChange={handleRetentionChange} className="ml-2" />
             </div>
             <div className="flex items-center gap-6">
               {(['documents', 'questions', 'practice', 'review'] as AppStep[]).map((step, index) => {
@@ -1035,11 +1758,8 @@ export default function TestimonyPrepTool() {
               })}
             </div>
             <button
-              onClick={() => {
-                if (confirm('Are you sure you want to end this session?')) {
-                  resetToSetup();
-                }
-              }}
+              onClick={openLibrary}
+              title="Close session"
               className="p-2 text-muted-foreground transition hover:text-foreground"
             >
               <X className="size-5" />
@@ -1049,6 +1769,7 @@ export default function TestimonyPrepTool() {
       )}
 
       {/* Main content */}
+      {currentStep === 'library' && renderLibrary()}
       {currentStep === 'setup' && renderSetup()}
       {currentStep === 'documents' && renderDocuments()}
       {currentStep === 'questions' && renderQuestions()}
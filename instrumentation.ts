@@ -0,0 +1,12 @@
+/**
+ * Next.js Instrumentation
+ *
+ * Runs once when the server starts: creates or updates the Better Auth tables.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { migrateAuthDatabase } = await import("@/lib/auth");
+    await migrateAuthDatabase();
+  }
+}
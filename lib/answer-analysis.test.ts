@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeAnswer } from './answer-analysis';
+
+const documents = [
+  {
+    name: 'complaint.txt',
+    content: 'Plaintiff Acme Corp sued in the United States District Court. Ms. Dana Whitfield signed the contract with Maria Reyes.',
+  },
+];
+
+function kinds(question: string, answer: string) {
+  return analyzeAnswer({ question, answer, documents }).map((flag) => flag.kind);
+}
+
+describe('analyzeAnswer', () => {
+  it('flags misspelled and mismatched names', () => {
+    const flags = analyzeAnswer({ question: 'Who signed it?', answer: 'Dana Whitfeld signed it with John Reyes.', documents });
+    expect(flags.map((flag) => flag.excerpt)).toEqual(['Whitfeld', 'John Reyes']);
+  });
+
+  it('leaves courts, companies and short names alone', () => {
+    expect(kinds('Where was the case filed?', 'In the United States District Court.')).toEqual([]);
+    expect(kinds('Who did you talk to?', 'I talked to Mr. Reyez.')).toEqual(['contradiction']);
+    expect(kinds('Who did you talk to?', 'I talked to Ms. Dunn.')).toEqual([]);
+  });
+
+  it('allows a short confirmation after yes or no', () => {
+    expect(kinds('Did you sign the contract?', 'Yes. That is correct.')).toEqual([]);
+    expect(kinds('Did you sign the contract?', 'Yes. I signed it on a Tuesday at the office.')).toEqual(['volunteering']);
+  });
+});
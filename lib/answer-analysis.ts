@@ -0,0 +1,420 @@
+/**
+ * Local checks for classic witness mistakes in a practice answer.
+ *
+ * Runs without the LLM, so practice feedback still says something specific
+ * when the examiner is unavailable: volunteering beyond the question, guessing
+ * language, absolutes, answers too long for the kind of question, and names or
+ * dates that disagree with the uploaded documents. The checks are plain
+ * pattern matching and err on the side of flagging; the witness and their
+ * attorneys decide what matters.
+ */
+
+import type { AnswerFlag } from '@/lib/types/testimony';
+import { ANSWER_FLAG_KINDS } from '@/lib/types/testimony';
+
+export interface AnswerAnalysisInput {
+  question: string;
+  answer: string;
+  documents?: { name: string; content?: string }[];
+}
+
+// Questions the witness can answer with yes, no or a single fact
+const CLOSED_QUESTION =
+  /^(?:is|are|was|were|am|do|does|did|have|has|had|can|could|will|would|shall|should|may|might|must|isn't|aren't|wasn't|weren't|don't|doesn't|didn't|haven't|hasn't|hadn't|can't|couldn't|won't|wouldn't|shouldn't)\b/i;
+const TAG_QUESTION = /(?:\b(?:correct|right|true|isn't (?:it|that)|didn't you|wasn't it|weren't you|is that so)|\bagreed?)\s*\?\s*$/i;
+// Questions that invite the witness to explain
+const OPEN_QUESTION = /^(?:why|how|describe|explain|tell|walk|what happened)\b/i;
+
+// Word limits before an answer counts as too long
+const MAX_CLOSED_ANSWER_WORDS = 25;
+const MAX_OPEN_ANSWER_WORDS = 150;
+const MAX_OTHER_ANSWER_WORDS = 80;
+
+const YES_NO_START = /^(?:yes|no|yeah|nope|correct|incorrect|right|that's (?:right|correct))\b/i;
+// Short sentences that only repeat the yes or no ("Yes. That is correct.")
+const CONFIRMATION =
+  /^(?:(?:that|it) (?:is|was|'s)(?: not)? (?:correct|right|true|accurate)|(?:that's|it's) (?:correct|right|true|accurate)|correct|right|true|I (?:do|did|was|am|have|had|don't|didn't|wasn't|haven't|hadn't)|it (?:is|was|isn't|wasn't)|(?:yes|no),? (?:sir|ma'am))[.!]?$/i;
+const VOLUNTEERING_PHRASES =
+  /\b(?:to be honest|honestly|by the way|the reason (?:is|was)|because|in addition|additionally|also|another thing|what you (?:have to|need to) understand|let me explain|the truth is)\b/i;
+
+const GUESSING_PHRASES =
+  /\b(?:I think|I believe|I guess|I assume|I suppose|I imagine|I'd say|I would say|probably|maybe|perhaps|possibly|might have|must have|could have been|sort of|kind of|more or less|if I had to guess|I'm not (?:sure|certain))\b/gi;
+const ABSOLUTE_PHRASES =
+  /\b(?:always|never|every time|all the time|everyone|everybody|nobody|no one|nothing|everything|absolutely|completely|definitely|100 percent|one hundred percent|without (?:a )?doubt)\b/gi;
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function sentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function isClosedQuestion(question: string): boolean {
+  const trimmed = question.trim();
+  return CLOSED_QUESTION.test(trimmed) || TAG_QUESTION.test(trimmed);
+}
+
+// Distinct matches, in the order they appear
+function findPhrases(text: string, pattern: RegExp): string[] {
+  const found = new Map<string, string>();
+  for (const match of text.matchAll(pattern)) {
+    const key = match[0].toLowerCase();
+    if (!found.has(key)) found.set(key, match[0]);
+  }
+  return [...found.values()];
+}
+
+function quoteList(phrases: string[]): string {
+  return phrases.map((phrase) => `"${phrase}"`).join(', ');
+}
+
+function checkVolunteering(question: string, answer: string): AnswerFlag | null {
+  if (!isClosedQuestion(question)) return null;
+
+  const extra = sentences(answer)
+    .slice(1)
+    .filter((sentence) => !CONFIRMATION.test(sentence));
+  const phrase = answer.match(VOLUNTEERING_PHRASES)?.[0];
+  if (YES_NO_START.test(answer.trim()) && extra.length > 0) {
+    return {
+      kind: 'volunteering',
+      message: 'The question called for a yes or no, and the answer kept going. Answer, then stop.',
+      excerpt: extra.join(' '),
+    };
+  }
+  if (phrase) {
+    return {
+      kind: 'volunteering',
+      message: `"${phrase}" usually introduces more than the question asked for. Leave the explanation to your counsel.`,
+      excerpt: phrase,
+    };
+  }
+  return null;
+}
+
+function checkGuessing(answer: string): AnswerFlag | null {
+  const phrases = findPhrases(answer, GUESSING_PHRASES);
+  if (phrases.length === 0) return null;
+  return {
+    kind: 'guessing',
+    message: `${quoteList(phrases)} ${phrases.length === 1 ? 'sounds' : 'sound'} like guessing. Testify to what you know; if you don't know or don't remember, say so.`,
+    excerpt: phrases[0],
+  };
+}
+
+function checkAbsolutes(answer: string): AnswerFlag | null {
+  const phrases = findPhrases(answer, ABSOLUTE_PHRASES);
+  if (phrases.length === 0) return null;
+  return {
+    kind: 'absolute',
+    message: `${quoteList(phrases)} ${phrases.length === 1 ? 'invites' : 'invite'} the examiner to find the one exception. Qualify it with what you personally know.`,
+    excerpt: phrases[0],
+  };
+}
+
+function checkLength(question: string, answer: string): AnswerFlag | null {
+  const words = countWords(answer);
+  const closed = isClosedQuestion(question);
+  const open = !closed && OPEN_QUESTION.test(question.trim());
+  const limit = closed ? MAX_CLOSED_ANSWER_WORDS : open ? MAX_OPEN_ANSWER_WORDS : MAX_OTHER_ANSWER_WORDS;
+  if (words <= limit) return null;
+
+  return {
+    kind: 'length',
+    message: closed
+      ? `${words} words for a question that can be answered yes or no. Long answers give the examiner more to work with.`
+      : `${words} words is long for this question. Keep to the facts it asks about; counsel can ask you to explain.`,
+  };
+}
+
+// --- Names and dates against the documents ---
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+const MONTH_NAME = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+
+const DATE_PATTERNS: { pattern: RegExp; toDate: (match: RegExpMatchArray) => [number, number, number] }[] = [
+  // March 5, 2021 / March 5th 2021
+  {
+    pattern: new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi'),
+    toDate: (match) => [Number(match[3]), monthIndex(match[1]), Number(match[2])],
+  },
+  // 5 March 2021
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_NAME},?\\s+(\\d{4})\\b`, 'gi'),
+    toDate: (match) => [Number(match[3]), monthIndex(match[2]), Number(match[1])],
+  },
+  // 3/5/2021 or 3/5/21 (US order)
+  {
+    pattern: /\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g,
+    toDate: (match) => [fullYear(match[3]), Number(match[1]), Number(match[2])],
+  },
+  // 2021-03-05
+  {
+    pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/g,
+    toDate: (match) => [Number(match[1]), Number(match[2]), Number(match[3])],
+  },
+];
+
+interface FoundDate {
+  key: string; // YYYY-MM-DD
+  year: number;
+  text: string;
+}
+
+function monthIndex(name: string): number {
+  const prefix = name.toLowerCase().replace('.', '').slice(0, 3);
+  return MONTHS.findIndex((month) => month.startsWith(prefix)) + 1;
+}
+
+function fullYear(year: string): number {
+  const value = Number(year);
+  return year.length === 2 ? (value < 50 ? 2000 + value : 1900 + value) : value;
+}
+
+function findDates(text: string): FoundDate[] {
+  const found = new Map<string, FoundDate>();
+  for (const { pattern, toDate } of DATE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const [year, month, day] = toDate(match);
+      if (month < 1 || month > 12 || day < 1 || day > 31) continue;
+      const key = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+      if (!found.has(key)) found.set(key, { key, year, text: match[0] });
+    }
+  }
+  return [...found.values()];
+}
+
+// Dates the documents do not contain, when they do contain another date in the same year
+function checkDates(answer: string, documentText: string): AnswerFlag[] {
+  const documentDates = findDates(documentText);
+  if (documentDates.length === 0) return [];
+  const documentKeys = new Set(documentDates.map((date) => date.key));
+
+  const flags: AnswerFlag[] = [];
+  for (const date of findDates(answer)) {
+    if (documentKeys.has(date.key)) continue;
+    const sameYear = documentDates.filter((other) => other.year === date.year);
+    if (sameYear.length === 0) continue;
+    flags.push({
+      kind: 'contradiction',
+      message: `You said ${date.text}, but the documents give ${quoteList(sameYear.slice(0, 3).map((other) => other.text))}. Check the date before you commit to it.`,
+      excerpt: date.text,
+    });
+  }
+  return flags;
+}
+
+const HONORIFICS = new Set(['mr', 'mrs', 'ms', 'dr', 'miss', 'officer', 'detective', 'judge']);
+// Capitalized words that start sentences or are not names
+const NOT_NAMES = new Set([
+  'i',
+  'the',
+  'a',
+  'an',
+  'and',
+  'but',
+  'or',
+  'so',
+  'yes',
+  'no',
+  'we',
+  'he',
+  'she',
+  'they',
+  'it',
+  'my',
+  'our',
+  'his',
+  'her',
+  'their',
+  'that',
+  'this',
+  'there',
+  'then',
+  'when',
+  'after',
+  'before',
+  'on',
+  'in',
+  'at',
+  ...MONTHS,
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+]);
+
+// Words that make a capitalized phrase a court, company or place rather than a person
+const ORGANIZATION_WORDS = new Set([
+  'united',
+  'states',
+  'state',
+  'district',
+  'court',
+  'county',
+  'city',
+  'federal',
+  'department',
+  'office',
+  'agency',
+  'corp',
+  'corporation',
+  'inc',
+  'llc',
+  'llp',
+  'ltd',
+  'co',
+  'company',
+  'group',
+  'partners',
+  'associates',
+  'holdings',
+  'bank',
+  'hospital',
+  'university',
+  'school',
+  'street',
+  'avenue',
+  'road',
+]);
+
+const NAME_SEQUENCE = /\b(?:(?:Mr|Mrs|Ms|Dr|Miss)\.?\s+)?[A-Z][a-z'-]+(?:\s+[A-Z]\.)?(?:\s+[A-Z][a-z'-]+){0,2}\b/g;
+
+// People's names split into their words, honorifics dropped: an honorific and a surname
+// ("Ms. Whitfield") or a first and last name ("Dana Whitfield", "Dana J. Whitfield").
+// Single capitalized words and names of courts, companies and places are skipped.
+function findNames(text: string): string[][] {
+  const names: string[][] = [];
+  for (const match of text.matchAll(NAME_SEQUENCE)) {
+    const allWords = match[0].split(/\s+/).map((word) => word.replace(/\.$/, ''));
+    const honorific = HONORIFICS.has(allWords[0].toLowerCase());
+    const words = allWords.filter((word) => !HONORIFICS.has(word.toLowerCase()) && !/^[A-Z]$/.test(word));
+    while (words.length > 0 && NOT_NAMES.has(words[0].toLowerCase())) words.shift();
+
+    if (words.length === 0 || (!honorific && words.length < 2)) continue;
+    if (words.some((word) => NOT_NAMES.has(word.toLowerCase()) || ORGANIZATION_WORDS.has(word.toLowerCase()))) continue;
+    names.push(words);
+  }
+  return names;
+}
+
+// How far a spelling may be from the documents' and still be taken for the same name:
+// none for short names, where one letter makes a different name ("Dunn", "Dunne")
+function allowedMisspelling(word: string): number {
+  if (word.length < 5) return 0;
+  return word.length < 8 ? 1 : 2;
+}
+
+// Edit distance, capped: we only care whether two words are one or two letters apart
+function editDistance(a: string, b: string): number {
+  if (Math.abs(a.length - b.length) > 2) return 3;
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Names the documents spell differently ("Whitfeld" for "Whitfield"), or a surname the
+// documents pair with a different first name ("John Reyes" where they have "Maria Reyes")
+function checkNames(answer: string, documentText: string): AnswerFlag[] {
+  const documentNames = findNames(documentText);
+  if (documentNames.length === 0) return [];
+  const documentWords = new Set(documentNames.flat().map((word) => word.toLowerCase()));
+  const documentFullNames = new Set(
+    documentNames.filter((words) => words.length > 1).map((words) => words.join(' ').toLowerCase())
+  );
+
+  const flags: AnswerFlag[] = [];
+  for (const words of findNames(answer)) {
+    const surname = words[words.length - 1];
+    const lower = surname.toLowerCase();
+
+    if (!documentWords.has(lower)) {
+      const similar = [...documentWords].find(
+        (word) =>
+          word[0] === lower[0] &&
+          editDistance(word, lower) <= allowedMisspelling(word.length < lower.length ? word : lower)
+      );
+      if (similar) {
+        const spelled = documentNames.flat().find((word) => word.toLowerCase() === similar)!;
+        flags.push({
+          kind: 'contradiction',
+          message: `You said "${surname}"; the documents spell it "${spelled}". Getting names wrong costs credibility.`,
+          excerpt: surname,
+        });
+        continue;
+      }
+    }
+
+    if (words.length > 1 && !documentFullNames.has(words.join(' ').toLowerCase())) {
+      const other = documentNames.find(
+        (candidate) => candidate.length > 1 && candidate[candidate.length - 1].toLowerCase() === lower
+      );
+      if (other) {
+        flags.push({
+          kind: 'contradiction',
+          message: `You said "${words.join(' ')}"; the documents name "${other.join(' ')}". Make sure you mean the same person.`,
+          excerpt: words.join(' '),
+        });
+      }
+    }
+  }
+  return flags;
+}
+
+/**
+ * Flags classic witness mistakes in one answer, in a fixed order:
+ * contradictions with the documents first, then volunteering, guessing,
+ * absolutes and length
+ */
+export function analyzeAnswer({ question, answer, documents = [] }: AnswerAnalysisInput): AnswerFlag[] {
+  if (!answer.trim()) return [];
+  const documentText = documents.map((doc) => doc.content ?? '').join('\n');
+
+  return [
+    ...checkDates(answer, documentText),
+    ...checkNames(answer, documentText),
+    checkVolunteering(question, answer),
+    checkGuessing(answer),
+    checkAbsolutes(answer),
+    checkLength(question, answer),
+  ].filter((flag): flag is AnswerFlag => !!flag);
+}
+
+/**
+ * Feedback text built from the flags, for when the examiner gave nothing usable.
+ * The flags themselves are shown alongside it.
+ */
+export function summarizeAnswerFlags(flags: AnswerFlag[]): string {
+  if (flags.length === 0) {
+    return 'No common witness mistakes were found in this answer. Keep it short, specific and limited to what you know.';
+  }
+  const kinds = [...new Set(flags.map((flag) => ANSWER_FLAG_KINDS[flag.kind].label.toLowerCase()))];
+  const listed = kinds.length > 1 ? `${kinds.slice(0, -1).join(', ')} and ${kinds[kinds.length - 1]}` : kinds[0];
+  return `Check this answer for ${listed} before you answer the next question.`;
+}
@@ -0,0 +1,82 @@
+/**
+ * Access Checks (server-side)
+ *
+ * Resolves the Better Auth session behind a request, with the member's role in the
+ * active organization, and checks it against the app permissions in ./permissions.
+ * Used by the home page and every tool API route.
+ */
+
+import { NextResponse } from "next/server";
+import { auth } from "./index";
+import { appPermissions, roleHasPermissions } from "./permissions";
+import type { AppPermission, Permissions } from "./permissions";
+
+export interface Access {
+  userId: string;
+  name: string;
+  email: string;
+  /** Active organization; null until the user creates or joins one */
+  organizationId: string | null;
+  /** Role in the active organization */
+  role: string | null;
+}
+
+export const SIGN_IN_REQUIRED_MESSAGE = "Please sign in to continue.";
+export const ORGANIZATION_REQUIRED_MESSAGE = "Create or join an organization to continue.";
+export const PERMISSION_DENIED_MESSAGE = "Your role in this organization does not allow this.";
+
+/**
+ * The signed-in user behind a request, or null without a valid session
+ */
+export async function getAccess(headers: Headers): Promise<Access | null> {
+  const session = await auth.api.getSession({ headers });
+  if (!session) return null;
+
+  const organizationId = session.session.activeOrganizationId ?? null;
+  let role: string | null = null;
+  if (organizationId) {
+    try {
+      role = (await auth.api.getActiveMember({ headers }))?.role ?? null;
+    } catch {
+      // No longer a member of the active organization
+    }
+  }
+
+  return {
+    userId: session.user.id,
+    name: session.user.name,
+    email: session.user.email,
+    organizationId: role ? organizationId : null,
+    role,
+  };
+}
+
+/**
+ * Whether the user's role in the active organization grants an app permission
+ */
+export function can(access: Access | null, permission: AppPermission | Permissions): boolean {
+  if (!access?.organizationId) return false;
+  const permissions = typeof permission === "string" ? appPermissions[permission] : permission;
+  return roleHasPermissions(access.role, permissions);
+}
+
+/**
+ * The access of a request allowed to use `permission`, or the response to send instead:
+ * 401 without a session, 403 without an organization or the permission
+ */
+export async function requireAccess(
+  request: Request,
+  permission: AppPermission | Permissions
+): Promise<Access | NextResponse> {
+  const access = await getAccess(request.headers);
+  if (!access) {
+    return NextResponse.json({ error: SIGN_IN_REQUIRED_MESSAGE }, { status: 401 });
+  }
+  if (!access.organizationId) {
+    return NextResponse.json({ error: ORGANIZATION_REQUIRED_MESSAGE }, { status: 403 });
+  }
+  if (!can(access, permission)) {
+    return NextResponse.json({ error: PERMISSION_DENIED_MESSAGE }, { status: 403 });
+  }
+  return access;
+}
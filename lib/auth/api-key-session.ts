@@ -0,0 +1,110 @@
+/**
+ * API Key Session (server-side)
+ *
+ * After /api/verify-key accepts a user's Case.dev API key it is stored in an
+ * encrypted, httpOnly cookie. The LLM routes read it back so each user's calls are
+ * made (and billed) with their own key, and answer 401 when it is missing or rejected.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getLLMProvider } from "@/lib/llm";
+
+export const API_KEY_COOKIE = "wtp_api_key";
+
+export const API_KEY_REJECTED_MESSAGE =
+  "Your Case.dev API key is missing or no longer valid. Please sign in again.";
+
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+let devSecret: Buffer | null = null;
+
+/**
+ * AES-256 key derived from API_KEY_COOKIE_SECRET (or BETTER_AUTH_SECRET).
+ * Without either, a per-process secret is used and users sign in again after a restart.
+ */
+function getEncryptionKey(): Buffer {
+  const secret = process.env.API_KEY_COOKIE_SECRET || process.env.BETTER_AUTH_SECRET;
+  if (secret) {
+    return createHash("sha256").update(secret).digest();
+  }
+
+  if (!devSecret) {
+    console.warn("API_KEY_COOKIE_SECRET is not set; API key sessions will not survive a server restart");
+    devSecret = randomBytes(32);
+  }
+  return devSecret;
+}
+
+/**
+ * Encrypt an API key for the session cookie (base64url of iv + auth tag + ciphertext)
+ */
+export function sealApiKey(apiKey: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(apiKey, "utf8"), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64url");
+}
+
+/**
+ * Decrypt a session cookie; null when it was tampered with or sealed with another secret
+ */
+export function unsealApiKey(token: string): string | null {
+  try {
+    const data = Buffer.from(token, "base64url");
+    const iv = data.subarray(0, IV_LENGTH);
+    const tag = data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+    const ciphertext = data.subarray(IV_LENGTH + TAG_LENGTH);
+
+    const decipher = createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+  } catch {
+    return null;
+  }
+}
+
+export function setApiKeyCookie(response: NextResponse, apiKey: string): void {
+  response.cookies.set(API_KEY_COOKIE, sealApiKey(apiKey), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/api",
+    maxAge: COOKIE_MAX_AGE,
+  });
+}
+
+export function clearApiKeyCookie(response: NextResponse): void {
+  response.cookies.set(API_KEY_COOKIE, "", { httpOnly: true, path: "/api", maxAge: 0 });
+}
+
+/**
+ * The signed-in user's API key, if the request carries a valid session cookie
+ */
+export function getRequestApiKey(request: NextRequest): string | null {
+  const token = request.cookies.get(API_KEY_COOKIE)?.value;
+  return token ? unsealApiKey(token) : null;
+}
+
+/**
+ * Credentials for LLM calls made on behalf of this request.
+ * Null when the provider bills per user and the request has no key.
+ */
+export function getLLMCredentials(request: NextRequest): { apiKey?: string } | null {
+  if (!getLLMProvider().capabilities.userApiKey) return {};
+  const apiKey = getRequestApiKey(request);
+  return apiKey ? { apiKey } : null;
+}
+
+/**
+ * 401 response for a missing, expired or revoked API key.
+ * Clears the cookie so a rejected key is not sent again.
+ */
+export function apiKeyRejectedResponse(): NextResponse {
+  const response = NextResponse.json({ error: API_KEY_REJECTED_MESSAGE }, { status: 401 });
+  clearApiKeyCookie(response);
+  return response;
+}
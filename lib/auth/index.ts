@@ -7,32 +7,62 @@
  * @see skills/auth/SKILL.md for detailed documentation
  */
 
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
 import { betterAuth } from "better-auth";
+import { getMigrations } from "better-auth/db";
 import { organization, twoFactor } from "better-auth/plugins";
 import { ac, roles } from "./permissions";
 
+export const DEFAULT_AUTH_DATABASE_PATH = "data/auth.sqlite";
+
+/**
+ * Users, sessions and organizations live in a SQLite file (AUTH_DATABASE_PATH).
+ * To use Postgres instead, swap in the drizzle adapter described in the database skill.
+ */
+function openAuthDatabase(): Database.Database {
+  const path = process.env.AUTH_DATABASE_PATH || DEFAULT_AUTH_DATABASE_PATH;
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  return db;
+}
+
 /**
  * Main auth configuration
  *
  * SETUP REQUIRED:
  * 1. Set BETTER_AUTH_SECRET in .env.local (run: openssl rand -base64 32)
  * 2. Set BETTER_AUTH_URL in .env.local (your app URL)
- * 3. Configure database adapter (see database skill)
- * 4. Run migrations: bunx @better-auth/cli migrate
+ *
+ * The auth tables are created or updated when the server starts (see instrumentation.ts).
  */
 export const auth = betterAuth({
   /**
    * Database Configuration
-   *
-   * Uncomment and configure when you set up your database:
-   *
-   * import { drizzleAdapter } from "better-auth/adapters/drizzle";
-   * import { db } from "@/lib/db";
-   *
-   * database: drizzleAdapter(db, {
-   *   provider: "pg",
-   * }),
    */
+  database: openAuthDatabase(),
+
+  /**
+   * Start each session in the user's first organization, so their role applies
+   * as soon as they sign in. Users switch organizations with organization.setActive.
+   */
+  databaseHooks: {
+    session: {
+      create: {
+        async before(session, ctx) {
+          const memberships = await ctx?.context.adapter.findMany<{ organizationId: string }>({
+            model: "member",
+            where: [{ field: "userId", value: session.userId }],
+            sortBy: { field: "createdAt", direction: "asc" },
+            limit: 1,
+          });
+          return { data: { ...session, activeOrganizationId: memberships?.[0]?.organizationId ?? null } };
+        },
+      },
+    },
+  },
 
   /**
    * Email & Password Authentication
@@ -84,14 +114,9 @@ export const auth = betterAuth({
       ac,
       roles,
       /**
-       * Send invitation emails
-       * TODO: Integrate with case.dev Email API
+       * Invitations are not emailed: the invite form shows the inviter the link to pass on
        */
-      async sendInvitationEmail(data) {
-        const inviteLink = `${process.env.BETTER_AUTH_URL}/accept-invite/${data.id}`;
-        // TODO: Implement email sending via Case.dev Email API
-        void inviteLink; // Placeholder - email not implemented
-      },
+      async sendInvitationEmail() {},
     }),
 
     /**
@@ -115,6 +140,14 @@ export const auth = betterAuth({
   ],
 });
 
+/**
+ * Create or update the auth tables. Runs once when the server starts.
+ */
+export async function migrateAuthDatabase(): Promise<void> {
+  const { runMigrations } = await getMigrations(auth.options);
+  await runMigrations();
+}
+
 /**
  * Export auth types for use in other files
  */
@@ -13,7 +13,7 @@ import { createAccessControl } from "better-auth/plugins/access";
  * Permission statements define all possible actions on each resource.
  * Add new resources and actions here as your app grows.
  */
-const statement = {
+export const statement = {
   // Organization management
   organization: ["update", "delete"],
 
@@ -29,12 +29,23 @@ const statement = {
   // Document management
   document: ["create", "read", "update", "delete", "share"],
 
+  // Attorney work product: generated questions, gap and contradiction analysis,
+  // deposition outlines
+  workProduct: ["create", "read"],
+
   // Billing/financial (legal-specific)
   billing: ["read", "create", "approve"],
 } as const;
 
 export const ac = createAccessControl(statement);
 
+/**
+ * A set of required actions per resource, e.g. { matter: ["read"] }
+ */
+export type Permissions = {
+  [Resource in keyof typeof statement]?: (typeof statement)[Resource][number][];
+};
+
 /**
  * Owner Role
  * Full control over everything in the organization
@@ -45,6 +56,7 @@ export const owner = ac.newRole({
   invitation: ["create", "cancel"],
   matter: ["create", "read", "update", "delete", "assign"],
   document: ["create", "read", "update", "delete", "share"],
+  workProduct: ["create", "read"],
   billing: ["read", "create", "approve"],
 });
 
@@ -57,6 +69,7 @@ export const partner = ac.newRole({
   invitation: ["create", "cancel"],
   matter: ["create", "read", "update", "delete", "assign"],
   document: ["create", "read", "update", "delete", "share"],
+  workProduct: ["create", "read"],
   billing: ["read", "create", "approve"],
 });
 
@@ -66,8 +79,9 @@ export const partner = ac.newRole({
  */
 export const associate = ac.newRole({
   member: ["read"],
-  matter: ["read", "update"], // Assigned matters only (enforced at query level)
+  matter: ["read", "update"],
   document: ["create", "read", "update", "delete"],
+  workProduct: ["create", "read"],
   billing: ["read"],
 });
 
@@ -79,6 +93,7 @@ export const paralegal = ac.newRole({
   member: ["read"],
   matter: ["read"],
   document: ["create", "read", "update"],
+  workProduct: ["create", "read"],
   billing: ["read"],
 });
 
@@ -90,16 +105,18 @@ export const staff = ac.newRole({
   member: ["read"],
   matter: ["read"],
   document: ["read"],
+  workProduct: ["read"],
   billing: ["read", "create"],
 });
 
 /**
  * Client Role
- * External client with read-only access to their own matters
+ * External client who sees only the testimony sessions assigned to them.
+ * Clients practice their testimony but never see attorney work product.
  */
 export const client = ac.newRole({
-  matter: ["read"], // Own matters only (enforced at query level)
-  document: ["read"], // Their documents only
+  matter: ["read"], // Assigned testimony sessions only (see lib/persistence/http.ts assignedOnly)
+  document: ["read"],
 });
 
 /**
@@ -113,3 +130,37 @@ export const roles = {
   staff,
   client,
 };
+
+/**
+ * What each part of the app requires of the member's role in the active organization
+ */
+export const appPermissions = {
+  /** Open the testimony tool and practice answers */
+  testimonyPractice: { matter: ["read"] },
+  /** Generate cross-examination questions from case documents */
+  testimonyQuestions: { workProduct: ["create"] },
+  /** Extract text from uploaded documents */
+  documentUpload: { document: ["create"] },
+  /** Open the deposition tool: outlines, gaps and contradictions */
+  depositionPrep: { workProduct: ["read"] },
+  /** Analyze documents and generate deposition questions and outlines */
+  depositionAnalysis: { workProduct: ["create"] },
+} satisfies Record<string, Permissions>;
+
+export type AppPermission = keyof typeof appPermissions;
+
+/**
+ * Whether a member role grants the permissions. Members can hold several roles
+ * (stored comma-separated); any one of them is enough.
+ */
+export function roleHasPermissions(role: string | null | undefined, permissions: Permissions): boolean {
+  if (!role) return false;
+  return role
+    .split(",")
+    .map((name) => name.trim())
+    .some((name) => {
+      // Every role checks against the full statement; the owner's type covers them all
+      const memberRole = Object.hasOwn(roles, name) ? (roles[name as keyof typeof roles] as typeof owner) : null;
+      return memberRole?.authorize(permissions).success ?? false;
+    });
+}
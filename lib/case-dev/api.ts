@@ -1,5 +1,6 @@
 // Case.dev API client
-// Provides LLM and OCR API integrations
+// Provides OCR API integrations (LLM calls go through lib/llm, answer transcription
+// through lib/transcription)
 
 const CASE_API_BASE = 'https://api.case.dev';
 
@@ -12,132 +13,6 @@ function getApiKey(): string {
   return apiKey;
 }
 
-// ============================================================================
-// LLM API - Question Generation and AI Examiner
-// ============================================================================
-
-export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
-export interface ChatCompletionResponse {
-  id: string;
-  object: string;
-  model: string;
-  choices: {
-    index: number;
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }[];
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-    cost?: number;
-  };
-}
-
-export interface ChatCompletionOptions {
-  model?: string;
-  temperature?: number;
-  max_tokens?: number;
-  stream?: boolean;
-}
-
-/**
- * Non-streaming chat completion
- */
-export async function chatCompletion(
-  messages: ChatMessage[],
-  options: ChatCompletionOptions = {}
-): Promise<ChatCompletionResponse> {
-  const response = await fetch(`${CASE_API_BASE}/llm/v1/chat/completions`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${getApiKey()}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: options.model || 'anthropic/claude-sonnet-4-20250514',
-      messages,
-      temperature: options.temperature ?? 0.7,
-      max_tokens: options.max_tokens ?? 4096,
-      stream: false,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`LLM API error: ${error}`);
-  }
-
-  return response.json();
-}
-
-/**
- * Streaming chat completion
- */
-export async function* streamChatCompletion(
-  messages: ChatMessage[],
-  options: ChatCompletionOptions = {}
-): AsyncGenerator<{ content: string; done: boolean; usage?: ChatCompletionResponse['usage'] }> {
-  const response = await fetch(`${CASE_API_BASE}/llm/v1/chat/completions`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${getApiKey()}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: options.model || 'anthropic/claude-sonnet-4-20250514',
-      messages,
-      temperature: options.temperature ?? 0.7,
-      max_tokens: options.max_tokens ?? 4096,
-      stream: true,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`LLM API error: ${response.statusText}`);
-  }
-
-  const reader = response.body?.getReader();
-  if (!reader) throw new Error('No response body');
-
-  const decoder = new TextDecoder();
-  let buffer = '';
-
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split('\n');
-    buffer = lines.pop() || '';
-
-    for (const line of lines) {
-      if (!line.startsWith('data: ')) continue;
-      const data = line.slice(6).trim();
-      if (data === '[DONE]') {
-        yield { content: '', done: true };
-        return;
-      }
-
-      try {
-        const parsed = JSON.parse(data);
-        const content = parsed.choices?.[0]?.delta?.content || '';
-        const usage = parsed.usage;
-        yield { content, done: false, usage };
-      } catch {
-        // Skip invalid JSON
-      }
-    }
-  }
-}
-
 // ============================================================================
 // OCR API - Document Processing
 // ============================================================================
@@ -233,18 +108,6 @@ export async function searchVault(_vaultId: string, _query: string): Promise<nev
   throw new Error('Vault API not implemented. Use local search instead.');
 }
 
-// ============================================================================
-// Voice API - Transcription (not used)
-// ============================================================================
-
-export async function createTranscription(_audioUrl: string): Promise<never> {
-  throw new Error('Voice transcription not implemented.');
-}
-
-export async function getTranscriptionStatus(_transcriptionId: string): Promise<never> {
-  throw new Error('Voice transcription not implemented.');
-}
-
 // ============================================================================
 // Utility Functions
 // ============================================================================
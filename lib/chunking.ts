@@ -0,0 +1,227 @@
+/**
+ * Token budgeting and chunking for question generation over large document sets.
+ *
+ * Small document sets are sent in a single prompt. Anything larger is split into
+ * chunks that fit CHUNK_TOKEN_BUDGET (packing small documents together, splitting
+ * large ones on line boundaries), analyzed chunk by chunk (map), and then merged
+ * by a final pass that dedupes and ranks the results (reduce).
+ */
+
+import { estimateTokens } from '@/lib/case-dev/api';
+
+// Document text allowed in a single-pass prompt before switching to map-reduce
+export const SINGLE_PASS_TOKEN_BUDGET = 24_000;
+
+// Document text per map-step prompt (leaves room for the system prompt and the response)
+export const CHUNK_TOKEN_BUDGET = 12_000;
+
+// Candidate material allowed in the merge prompt
+export const MERGE_TOKEN_BUDGET = 20_000;
+
+// Map-step requests in flight at once
+export const MAP_CONCURRENCY = 3;
+
+export interface PromptDocument {
+  name: string;
+  /** Section header shown to the model, e.g. "TRANSCRIPT: Smith Depo (pages 1-212, cite as page:line)" */
+  header: string;
+  text: string;
+}
+
+export interface DocumentChunk {
+  index: number;
+  documentNames: string[];
+  /** Rendered prompt text for every document (or document part) in the chunk */
+  text: string;
+  tokens: number;
+}
+
+/**
+ * Render a document section the way both generation prompts expect it
+ */
+export function renderDocumentSection(header: string, text: string): string {
+  return `=== ${header} ===\n${text}\n=== END DOCUMENT ===`;
+}
+
+/**
+ * Render all documents for a single-pass prompt
+ */
+export function renderDocuments(documents: PromptDocument[]): string {
+  return documents.map((doc) => renderDocumentSection(doc.header, doc.text)).join('\n\n');
+}
+
+/**
+ * Whether the whole document set fits in one prompt
+ */
+export function fitsSinglePass(documents: PromptDocument[], budget = SINGLE_PASS_TOKEN_BUDGET): boolean {
+  return estimateTokens(renderDocuments(documents)) <= budget;
+}
+
+// Split text into pieces under the budget, preferring line boundaries
+function splitText(text: string, budget: number): string[] {
+  const maxChars = budget * 4;
+  const pieces: string[] = [];
+  let current = '';
+
+  const pushLine = (line: string) => {
+    if (current && current.length + line.length + 1 > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${line}` : line;
+  };
+
+  for (const line of text.split('\n')) {
+    if (line.length <= maxChars) {
+      pushLine(line);
+      continue;
+    }
+
+    // A single enormous line (e.g. OCR output without breaks): split on whitespace
+    let rest = line;
+    while (rest.length > maxChars) {
+      const cut = rest.lastIndexOf(' ', maxChars);
+      const at = cut > maxChars / 2 ? cut : maxChars;
+      pushLine(rest.slice(0, at));
+      rest = rest.slice(at).trimStart();
+    }
+    if (rest) pushLine(rest);
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// "pp. 12-40" for transcript text rendered with [page:line] prefixes
+function pageRangeLabel(text: string): string | null {
+  const pages = Array.from(text.matchAll(/^\[(\d+):\d+\]/gm), (m) => parseInt(m[1], 10));
+  if (pages.length === 0) return null;
+  const first = pages[0];
+  const last = pages[pages.length - 1];
+  return first === last ? `p. ${first}` : `pp. ${first}-${last}`;
+}
+
+/**
+ * Pack documents into chunks that fit the token budget.
+ * Documents larger than the budget are split into labelled parts.
+ */
+export function chunkDocuments(documents: PromptDocument[], budget = CHUNK_TOKEN_BUDGET): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  let sections: string[] = [];
+  let names: string[] = [];
+  let tokens = 0;
+
+  const flush = () => {
+    if (sections.length === 0) return;
+    chunks.push({ index: chunks.length, documentNames: names, text: sections.join('\n\n'), tokens });
+    sections = [];
+    names = [];
+    tokens = 0;
+  };
+
+  const add = (name: string, section: string) => {
+    const sectionTokens = estimateTokens(section);
+    if (tokens > 0 && tokens + sectionTokens > budget) flush();
+    sections.push(section);
+    if (!names.includes(name)) names.push(name);
+    tokens += sectionTokens;
+  };
+
+  for (const doc of documents) {
+    const whole = renderDocumentSection(doc.header, doc.text);
+    if (estimateTokens(whole) <= budget) {
+      add(doc.name, whole);
+      continue;
+    }
+
+    // Reserve room for the part header and markers
+    const parts = splitText(doc.text, budget - estimateTokens(doc.header) - 50);
+    parts.forEach((part, i) => {
+      const pages = pageRangeLabel(part);
+      const label = `part ${i + 1} of ${parts.length}${pages ? `, ${pages}` : ''}`;
+      add(doc.name, renderDocumentSection(`${doc.header} [${label}]`, part));
+    });
+  }
+
+  flush();
+  return chunks;
+}
+
+/**
+ * Run the map step with bounded concurrency.
+ * Failed chunks are logged and returned as null so one bad chunk does not sink the whole run.
+ * No chunk is started once canContinue returns false (e.g. the usage budget ran out);
+ * the remaining chunks are returned as null too.
+ */
+export async function mapChunks<T>(
+  chunks: DocumentChunk[],
+  fn: (chunk: DocumentChunk) => Promise<T>,
+  canContinue: () => boolean = () => true,
+  concurrency = MAP_CONCURRENCY
+): Promise<Array<T | null>> {
+  const results: Array<T | null> = new Array(chunks.length).fill(null);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < chunks.length && canContinue()) {
+      const chunk = chunks[next++];
+      try {
+        results[chunk.index] = await fn(chunk);
+      } catch (error) {
+        console.error(`Chunk ${chunk.index + 1}/${chunks.length} failed:`, error instanceof Error ? error.message : error);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+  return results;
+}
+
+/**
+ * Normalize text for duplicate detection
+ */
+export function normalizeForDedupe(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Drop items whose key normalizes to one already seen (first occurrence wins)
+ */
+export function dedupeBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const normalized = normalizeForDedupe(key(item));
+    if (!normalized || seen.has(normalized)) return false;
+    seen.add(normalized);
+    return true;
+  });
+}
+
+/**
+ * Interleave per-chunk lists (first of each, then second of each, ...) up to a limit,
+ * so trimming for the merge budget keeps every part of the record represented
+ */
+export function interleave<T>(lists: T[][], limit: number): T[] {
+  const result: T[] = [];
+  for (let i = 0; result.length < limit && lists.some((list) => i < list.length); i++) {
+    for (const list of lists) {
+      if (i < list.length && result.length < limit) result.push(list[i]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Take items (in order) while their JSON stays under the token budget
+ */
+export function takeWithinBudget<T>(items: T[], budget = MERGE_TOKEN_BUDGET): T[] {
+  const taken: T[] = [];
+  let tokens = 0;
+  for (const item of items) {
+    const itemTokens = estimateTokens(JSON.stringify(item));
+    if (tokens + itemTokens > budget) break;
+    taken.push(item);
+    tokens += itemTokens;
+  }
+  return taken;
+}
@@ -0,0 +1,120 @@
+/**
+ * Shared document ingestion for the testimony and deposition prep tools.
+ * Runs format detection and extraction (processDocument), the /api/testimony/ocr
+ * validation round-trip, transcript indexing and document type classification,
+ * and reports status transitions: uploading -> processing -> ready | error.
+ */
+
+import { processDocument, getPageInfo } from '@/lib/document-processor';
+import type { ExtractionResult } from '@/lib/document-processor';
+import { parseTranscript, toTranscriptExtent } from '@/lib/transcript-parser';
+import type { DocumentPageInfo } from '@/lib/types/testimony';
+import type { DepositionDocument, TranscriptExtent } from '@/lib/types/deposition';
+
+export type IngestionStatus = 'uploading' | 'processing' | 'ready' | 'error';
+
+export type DocumentCategory = DepositionDocument['type'];
+
+export interface IngestedDocument {
+  content: string;
+  pageCount: number;
+  pages?: DocumentPageInfo[];
+  method: ExtractionResult['method'];
+  category: DocumentCategory;
+  transcriptExtent?: TranscriptExtent;
+}
+
+export interface IngestionProgress {
+  status: IngestionStatus;
+  /** Set when status is 'ready' */
+  result?: IngestedDocument;
+  /** Set when status is 'error' */
+  error?: string;
+}
+
+/**
+ * Classify a document from its file name and extracted content
+ */
+export function detectDocumentType(filename: string, content?: string): DocumentCategory {
+  const lowerName = filename.toLowerCase();
+  const lowerContent = (content || '').toLowerCase();
+
+  if (lowerName.includes('transcript') || lowerName.includes('deposition') ||
+      lowerContent.includes('q:') || lowerContent.includes('a:')) {
+    return 'transcript';
+  }
+  if (lowerName.includes('testimony') || lowerName.includes('statement') ||
+      lowerContent.includes('sworn') || lowerContent.includes('under oath')) {
+    return 'prior_testimony';
+  }
+  if (lowerName.includes('exhibit') || /ex[-_]?\d+/i.test(lowerName)) {
+    return 'exhibit';
+  }
+  if (lowerName.includes('complaint') || lowerName.includes('motion') ||
+      lowerName.includes('brief') || lowerName.includes('filing')) {
+    return 'case_file';
+  }
+  return 'other';
+}
+
+// Server-side validation of the extracted text (also where usage is recorded)
+async function validateExtraction(text: string, pageCount: number, fileName: string): Promise<{ text: string; pageCount: number }> {
+  const response = await fetch('/api/testimony/ocr', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text, pageCount, fileName }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to process document');
+  }
+
+  return { text: data.text, pageCount: data.pageCount || pageCount };
+}
+
+/**
+ * Extract, validate and classify an uploaded file.
+ * The caller registers the document as 'uploading'; onProgress then receives
+ * 'processing' followed by 'ready' (with the result) or 'error' (with a message).
+ * Each call is awaited before the next, so saves made in onProgress land in order;
+ * errors thrown by onProgress are passed on to the caller.
+ * Returns null when ingestion failed.
+ */
+export async function ingestDocument(
+  file: File,
+  onProgress: (progress: IngestionProgress) => void | Promise<void>
+): Promise<IngestedDocument | null> {
+  await onProgress({ status: 'processing' });
+
+  let result: IngestedDocument;
+  try {
+    // Scanned pages go through OCR inside processDocument
+    const extraction = await processDocument(file);
+    const { text, pageCount } = await validateExtraction(extraction.text, extraction.pageCount, file.name);
+
+    // Transcripts keep the PDF's page breaks, so their page/line index can be parsed
+    // from the content again and citations use the PDF's pages
+    const transcriptText = extraction.pages
+      ? extraction.pages.map((page) => page.text).join('\f')
+      : text;
+    const transcript = parseTranscript(transcriptText);
+
+    result = {
+      content: transcript ? transcriptText : text,
+      pageCount,
+      pages: getPageInfo(extraction.pages),
+      method: extraction.method,
+      category: detectDocumentType(file.name, text),
+      transcriptExtent: transcript ? toTranscriptExtent(transcript) : undefined,
+    };
+  } catch (err) {
+    console.error('Error processing document:', err);
+    const error = err instanceof Error ? err.message : 'Failed to process document';
+    await onProgress({ status: 'error', error });
+    return null;
+  }
+
+  await onProgress({ status: 'ready', result });
+  return result;
+}
@@ -1,14 +1,37 @@
 /**
- * Client-side document processor for extracting text from PDFs and text files.
- * Uses pdfjs-dist for PDF text extraction (fast, no OCR needed for text-based PDFs).
+ * Client-side document processor for extracting text from PDFs, Word, RTF, email and text files.
+ * Uses pdfjs-dist for PDF text extraction (fast, no OCR needed for text-based PDFs),
+ * with a self-hosted worker and a server-side fallback for large files.
+ * Scanned PDFs, and blank pages inside otherwise text-based PDFs, fall back to OCR.
  */
 
+import { runOCR } from '@/lib/ocr/client';
+import { extractTextLayerPages } from '@/lib/pdf-text';
+import { extractTextFromDocx } from '@/lib/extractors/docx';
+import { extractTextFromRtf } from '@/lib/extractors/rtf';
+import { extractTextFromEml, extractTextFromMsg } from '@/lib/extractors/email';
+import type { OCRResult } from '@/lib/case-dev/api';
+import type { DocumentPageInfo } from '@/lib/types/testimony';
+
+export interface ExtractedPage extends DocumentPageInfo {
+  text: string;
+}
+
 export interface ExtractionResult {
   text: string;
   pageCount: number;
-  method: 'pdf-text' | 'plain-text';
+  method: 'pdf-text' | 'pdf-ocr' | 'pdf-mixed' | 'plain-text' | 'docx' | 'rtf' | 'email';
+  pages?: ExtractedPage[];
 }
 
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// pdf.worker, CMaps and standard fonts are served by this app (see scripts/copy-pdfjs-assets.mjs)
+const PDFJS_ASSET_PATH = '/pdfjs';
+
+// Larger PDFs are extracted on the server to keep the browser responsive
+const SERVER_EXTRACTION_THRESHOLD = 25 * 1024 * 1024; // 25MB
+
 // Dynamically load PDF.js
 let pdfjsLib: typeof import('pdfjs-dist') | null = null;
 
@@ -20,89 +43,136 @@ async function loadPdfJs() {
   if (pdfjsLib) return pdfjsLib;
 
   pdfjsLib = await import('pdfjs-dist');
-  // Use CDN worker for reliability
-  const version = pdfjsLib.version;
-  pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${version}/build/pdf.worker.min.mjs`;
+  pdfjsLib.GlobalWorkerOptions.workerSrc = `${PDFJS_ASSET_PATH}/pdf.worker.min.mjs`;
 
   return pdfjsLib;
 }
 
 /**
- * Extract text from a PDF file using pdfjs-dist (client-side)
+ * Extract the text layer in the browser with pdfjs-dist
  */
-async function extractTextFromPDF(file: File): Promise<ExtractionResult> {
+async function extractPDFTextLayerInBrowser(file: File): Promise<ExtractedPage[]> {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({
+    data: await file.arrayBuffer(),
+    cMapUrl: `${PDFJS_ASSET_PATH}/cmaps/`,
+    cMapPacked: true,
+    standardFontDataUrl: `${PDFJS_ASSET_PATH}/standard_fonts/`,
+  }).promise;
+
   try {
-    const pdfjs = await loadPdfJs();
-    const arrayBuffer = await file.arrayBuffer();
-
-    const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
-    const pageCount = pdf.numPages;
-
-    const textParts: string[] = [];
-
-    for (let i = 1; i <= pageCount; i++) {
-      const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-
-      // Reconstruct text with original layout using position information
-      const items = textContent.items;
-      let pageText = '';
-      let lastY = -1;
-      let lastX = -1;
-
-      for (let j = 0; j < items.length; j++) {
-        const item = items[j];
-        if (!('str' in item)) continue;
-
-        const textItem = item as any;
-        const str = textItem.str;
-        if (!str) continue;
-
-        const transform = textItem.transform;
-        const x = transform[4]; // X position
-        const y = transform[5]; // Y position
-
-        // Detect line breaks based on Y position change
-        if (lastY !== -1 && Math.abs(y - lastY) > 5) {
-          // Significant Y change = new line
-          pageText += '\n';
-          lastX = -1;
-        } else if (lastX !== -1 && x - lastX > 50) {
-          // Large horizontal gap = likely a tab or column break
-          pageText += ' ';
-        } else if (lastX !== -1 && str.trim() && !pageText.endsWith(' ') && !pageText.endsWith('\n')) {
-          // Add space between words if needed
-          pageText += ' ';
-        }
-
-        pageText += str;
-        lastY = y;
-        lastX = x + (textItem.width || 0);
-      }
+    return await extractTextLayerPages(pdf);
+  } finally {
+    await pdf.destroy();
+  }
+}
 
-      if (pageText.trim()) {
-        textParts.push(pageText.trim());
-      }
-    }
+/**
+ * Extract the text layer on the server via /api/pdf/extract
+ */
+async function extractPDFTextLayerOnServer(file: File): Promise<ExtractedPage[]> {
+  const formData = new FormData();
+  formData.append('file', file, file.name);
+
+  const response = await fetch('/api/pdf/extract', { method: 'POST', body: formData });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Server-side PDF extraction failed');
+  }
+  return data.pages as ExtractedPage[];
+}
 
-    const fullText = textParts.join('\n\n');
+/**
+ * Extract the text layer of each PDF page.
+ * Large files go straight to the server; browser failures (e.g. the worker cannot load) retry there.
+ * Pages without a usable text layer are returned as 'blank'.
+ */
+async function extractPDFTextLayer(file: File): Promise<ExtractedPage[]> {
+  try {
+    if (file.size > SERVER_EXTRACTION_THRESHOLD) {
+      return await extractPDFTextLayerOnServer(file);
+    }
 
-    // If we got very little text, the PDF might be scanned/image-based
-    if (fullText.trim().length < 50 && pageCount > 0) {
-      throw new Error('This PDF appears to be a scanned document or image-based. Please upload a PDF with selectable text, or use a text file (.txt, .docx).');
+    try {
+      return await extractPDFTextLayerInBrowser(file);
+    } catch (error) {
+      console.warn('Browser PDF extraction failed, retrying on the server:', error);
+      return await extractPDFTextLayerOnServer(file);
     }
+  } catch {
+    throw new Error('Failed to extract text from PDF. Please ensure the file is a valid PDF, or upload a text file instead.');
+  }
+}
+
+/**
+ * Fill blank pages with OCR output, keeping the text layer wherever it exists
+ */
+function mergeOCRPages(pages: ExtractedPage[], ocr: OCRResult): ExtractedPage[] {
+  if (!ocr.pages?.length) {
+    // No per-page breakdown - only usable when the whole document was a scan
+    if (!ocr.text?.trim() || pages.some((p) => p.source !== 'blank')) return pages;
+    return pages.map((p, i) => (i === 0 ? { ...p, text: ocr.text!.trim(), source: 'ocr' } : p));
+  }
 
+  const ocrByPage = new Map(ocr.pages.map((p) => [p.page_number, p]));
+  return pages.map((page) => {
+    const ocrPage = ocrByPage.get(page.pageNumber);
+    if (page.source !== 'blank' || !ocrPage?.text.trim()) return page;
     return {
-      text: fullText,
-      pageCount,
-      method: 'pdf-text',
+      ...page,
+      text: ocrPage.text.trim(),
+      source: 'ocr',
+      confidence: ocrPage.confidence,
     };
-  } catch (error) {
-    if (error instanceof Error && error.message.includes('scanned document')) {
-      throw error;
+  });
+}
+
+/**
+ * Extract text from a PDF file, routing image-only pages through OCR
+ */
+async function extractTextFromPDF(file: File): Promise<ExtractionResult> {
+  let pages = await extractPDFTextLayer(file);
+  const blankCount = pages.filter((p) => p.source === 'blank').length;
+
+  if (blankCount > 0) {
+    try {
+      const ocr = await runOCR(file, file.name);
+      pages = mergeOCRPages(pages, ocr);
+    } catch (error) {
+      if (blankCount === pages.length) {
+        const reason = error instanceof Error ? error.message : 'OCR failed';
+        throw new Error(`This PDF appears to be a scanned document and OCR could not be completed: ${reason}`);
+      }
+      // Text pages are still usable; the scanned pages stay marked as blank
+      console.warn('OCR failed for scanned pages, continuing with the text layer:', error);
     }
-    throw new Error('Failed to extract text from PDF. Please ensure the file is a valid PDF with selectable text, or upload a text file instead.');
   }
+
+  const fullText = pages
+    .filter((p) => p.text)
+    .map((p) => p.text)
+    .join('\n\n');
+
+  if (fullText.trim().length < 50 && pages.length > 0) {
+    throw new Error('No readable text was found in this PDF, even after OCR. Please check the scan quality or upload a text file.');
+  }
+
+  const textPages = pages.filter((p) => p.source === 'text').length;
+  const ocrPages = pages.filter((p) => p.source === 'ocr').length;
+
+  return {
+    text: fullText,
+    pageCount: pages.length,
+    method: ocrPages === 0 ? 'pdf-text' : textPages === 0 ? 'pdf-ocr' : 'pdf-mixed',
+    pages,
+  };
+}
+
+/**
+ * Per-page extraction metadata to store on a document (drops the page text)
+ */
+export function getPageInfo(pages?: ExtractedPage[]): DocumentPageInfo[] | undefined {
+  return pages?.map(({ pageNumber, source, confidence }) => ({ pageNumber, source, confidence }));
 }
 
 /**
@@ -119,7 +189,7 @@ async function extractTextFromPlainText(file: File): Promise<ExtractionResult> {
 
 /**
  * Main function to process a document.
- * Returns extracted text for PDF and text files.
+ * Returns extracted text for PDF, Word (.docx), RTF, email (.eml, .msg) and text files.
  */
 export async function processDocument(file: File): Promise<ExtractionResult> {
   const mimeType = file.type;
@@ -133,5 +203,27 @@ export async function processDocument(file: File): Promise<ExtractionResult> {
     return extractTextFromPDF(file);
   }
 
-  throw new Error(`Unsupported file type: ${mimeType}. Only PDF and text files are supported.`);
+  if (mimeType === DOCX_MIME_TYPE || fileName.endsWith('.docx')) {
+    return extractTextFromDocx(file);
+  }
+
+  if (mimeType === 'application/rtf' || mimeType === 'text/rtf' || fileName.endsWith('.rtf')) {
+    return extractTextFromRtf(file);
+  }
+
+  if (mimeType === 'message/rfc822' || fileName.endsWith('.eml')) {
+    return extractTextFromEml(file);
+  }
+
+  if (mimeType === 'application/vnd.ms-outlook' || fileName.endsWith('.msg')) {
+    return extractTextFromMsg(file);
+  }
+
+  if (fileName.endsWith('.doc')) {
+    throw new Error('Legacy Word (.doc) files are not supported. Please save the document as .docx and upload it again.');
+  }
+
+  throw new Error(
+    `Unsupported file type: ${mimeType || fileName}. Supported formats are PDF, Word (.docx), RTF, email (.eml, .msg) and text files.`
+  );
 }
@@ -0,0 +1,166 @@
+/**
+ * Word (.docx) text extraction.
+ * Reads word/document.xml from the OOXML package and keeps headings (as "#" markers),
+ * list items, tables and paragraph breaks so the structure survives into prompts.
+ */
+
+import JSZip from 'jszip';
+import type { ExtractionResult } from '@/lib/document-processor';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+function wAttr(element: Element | null | undefined, name: string): string | null {
+  if (!element) return null;
+  return element.getAttributeNS(W_NS, name) ?? element.getAttribute(`w:${name}`);
+}
+
+function firstChild(element: Element, localName: string): Element | null {
+  for (const child of Array.from(element.children)) {
+    if (child.localName === localName) return child;
+  }
+  return null;
+}
+
+// Map style ids to heading levels using styles.xml ("heading 1", "Title", ...)
+function readHeadingStyles(stylesXml: string | null): Map<string, number> {
+  const levels = new Map<string, number>();
+  if (!stylesXml) return levels;
+
+  const doc = new DOMParser().parseFromString(stylesXml, 'application/xml');
+  for (const style of Array.from(doc.getElementsByTagNameNS(W_NS, 'style'))) {
+    const styleId = wAttr(style, 'styleId');
+    const name = wAttr(firstChild(style, 'name'), 'val')?.toLowerCase() || '';
+    if (!styleId) continue;
+
+    const heading = name.match(/^heading\s*(\d)$/);
+    if (heading) {
+      levels.set(styleId, parseInt(heading[1], 10));
+    } else if (name === 'title') {
+      levels.set(styleId, 1);
+    }
+  }
+  return levels;
+}
+
+function runText(run: Element): string {
+  let text = '';
+  for (const child of Array.from(run.children)) {
+    switch (child.localName) {
+      case 't':
+        text += child.textContent || '';
+        break;
+      case 'tab':
+        text += '\t';
+        break;
+      case 'br':
+      case 'cr':
+        text += wAttr(child, 'type') === 'page' ? '\f' : '\n';
+        break;
+      case 'noBreakHyphen':
+        text += '-';
+        break;
+    }
+  }
+  return text;
+}
+
+function paragraphText(paragraph: Element): string {
+  let text = '';
+  for (const child of Array.from(paragraph.children)) {
+    if (child.localName === 'r') {
+      text += runText(child);
+    } else if (child.localName === 'hyperlink' || child.localName === 'ins' || child.localName === 'smartTag') {
+      for (const run of Array.from(child.getElementsByTagNameNS(W_NS, 'r'))) {
+        text += runText(run);
+      }
+    }
+  }
+  return text;
+}
+
+function headingLevel(paragraph: Element, headingStyles: Map<string, number>): number | null {
+  const props = firstChild(paragraph, 'pPr');
+  if (!props) return null;
+
+  const styleId = wAttr(firstChild(props, 'pStyle'), 'val');
+  if (styleId && headingStyles.has(styleId)) return headingStyles.get(styleId)!;
+  if (styleId && /^heading\d$/i.test(styleId)) return parseInt(styleId.slice(-1), 10);
+
+  const outline = wAttr(firstChild(props, 'outlineLvl'), 'val');
+  return outline !== null ? parseInt(outline, 10) + 1 : null;
+}
+
+function renderParagraph(paragraph: Element, headingStyles: Map<string, number>): string {
+  const text = paragraphText(paragraph).trimEnd();
+  if (!text.trim()) return '';
+
+  const level = headingLevel(paragraph, headingStyles);
+  if (level) return `${'#'.repeat(Math.min(level, 6))} ${text.trim()}`;
+
+  const isListItem = !!firstChild(firstChild(paragraph, 'pPr') ?? paragraph, 'numPr');
+  return isListItem ? `- ${text.trim()}` : text;
+}
+
+function renderTable(table: Element, headingStyles: Map<string, number>): string {
+  return Array.from(table.children)
+    .filter((row) => row.localName === 'tr')
+    .map((row) =>
+      Array.from(row.children)
+        .filter((cell) => cell.localName === 'tc')
+        .map((cell) => renderBlocks(cell, headingStyles).replace(/\n+/g, ' ').trim())
+        .join(' | ')
+    )
+    .join('\n');
+}
+
+function renderBlocks(container: Element, headingStyles: Map<string, number>): string {
+  const blocks: string[] = [];
+  for (const child of Array.from(container.children)) {
+    if (child.localName === 'p') {
+      blocks.push(renderParagraph(child, headingStyles));
+    } else if (child.localName === 'tbl') {
+      blocks.push(renderTable(child, headingStyles));
+    } else if (child.localName === 'sdt') {
+      // Content controls wrap ordinary paragraphs
+      const content = firstChild(child, 'sdtContent');
+      if (content) blocks.push(renderBlocks(content, headingStyles));
+    }
+  }
+  return blocks.filter(Boolean).join('\n\n');
+}
+
+/**
+ * Extract text from a .docx file
+ */
+export async function extractTextFromDocx(file: File): Promise<ExtractionResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer());
+  } catch {
+    throw new Error('Failed to open Word document. Please ensure the file is a valid .docx file.');
+  }
+
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) {
+    throw new Error('This Word document has no readable body. Please re-save it as .docx and try again.');
+  }
+
+  const headingStyles = readHeadingStyles((await zip.file('word/styles.xml')?.async('string')) ?? null);
+  const doc = new DOMParser().parseFromString(documentXml, 'application/xml');
+  const body = doc.getElementsByTagNameNS(W_NS, 'body')[0];
+  const text = body ? renderBlocks(body, headingStyles).replace(/\n{3,}/g, '\n\n').trim() : '';
+
+  if (!text) {
+    throw new Error('No text was found in this Word document.');
+  }
+
+  // Word records the page count from its last layout in docProps/app.xml
+  const appXml = await zip.file('docProps/app.xml')?.async('string');
+  const pages = appXml?.match(/<Pages>(\d+)<\/Pages>/);
+
+  return {
+    text,
+    pageCount: pages ? parseInt(pages[1], 10) : 1,
+    method: 'docx',
+  };
+}
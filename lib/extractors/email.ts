@@ -0,0 +1,275 @@
+/**
+ * Email text extraction for .eml (RFC 822 / MIME) and Outlook .msg files.
+ * Output starts with From/To/Cc/Date/Subject headers so correspondence keeps its
+ * context in prompts, followed by the plain-text body (or HTML converted to text).
+ */
+
+import MsgReader from '@kenjiuno/msgreader';
+import type { ExtractionResult } from '@/lib/document-processor';
+
+interface EmailContent {
+  from?: string;
+  to?: string;
+  cc?: string;
+  date?: string;
+  subject?: string;
+  attachments: string[];
+  body: string;
+}
+
+/**
+ * Render an email as header block + body
+ */
+function formatEmail(email: EmailContent): string {
+  const headers = [
+    email.from && `From: ${email.from}`,
+    email.to && `To: ${email.to}`,
+    email.cc && `Cc: ${email.cc}`,
+    email.date && `Date: ${email.date}`,
+    email.subject && `Subject: ${email.subject}`,
+    email.attachments.length > 0 && `Attachments: ${email.attachments.join(', ')}`,
+  ].filter(Boolean);
+
+  return `${headers.join('\n')}\n\n${email.body.trim()}`.trim();
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // Past the last Unicode code point is not a character; fromCodePoint would throw
+      return value >= 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Convert an HTML email body to readable text
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|h[1-6]|li|tr|blockquote|table)>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, ' | ')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// ============================================================================
+// EML (MIME)
+// ============================================================================
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string;
+}
+
+function splitHeaders(raw: string): MimePart {
+  const separator = raw.search(/\r?\n\r?\n/);
+  const headerText = separator === -1 ? raw : raw.slice(0, separator);
+  const body = separator === -1 ? '' : raw.slice(separator).replace(/^\r?\n\r?\n/, '');
+
+  const headers = new Map<string, string>();
+  // Unfold continuation lines before splitting
+  for (const line of headerText.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) {
+      headers.set(name, line.slice(colon + 1).trim());
+    }
+  }
+
+  return { headers, body };
+}
+
+function headerParam(value: string | undefined, param: string): string | undefined {
+  const match = value?.match(new RegExp(`${param}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return match ? match[1] ?? match[2] : undefined;
+}
+
+function decodeBytes(bytes: Uint8Array, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function binaryToBytes(binary: string): Uint8Array {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+function decodeQuotedPrintable(text: string): string {
+  return text
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function decodeBase64(text: string): string {
+  try {
+    return atob(text.replace(/\s+/g, ''));
+  } catch {
+    return '';
+  }
+}
+
+// RFC 2047 encoded words, e.g. =?UTF-8?Q?Re:_Deposition?=
+function decodeHeaderValue(value: string | undefined): string | undefined {
+  if (!value) return value;
+  return value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, encoded: string) => {
+      const binary = encoding.toLowerCase() === 'b'
+        ? decodeBase64(encoded)
+        : decodeQuotedPrintable(encoded.replace(/_/g, ' '));
+      return decodeBytes(binaryToBytes(binary), charset);
+    });
+}
+
+function decodePartBody(part: MimePart): string {
+  const encoding = part.headers.get('content-transfer-encoding')?.toLowerCase();
+  const charset = headerParam(part.headers.get('content-type'), 'charset');
+
+  if (encoding === 'base64') {
+    return decodeBytes(binaryToBytes(decodeBase64(part.body)), charset);
+  }
+  if (encoding === 'quoted-printable') {
+    return decodeBytes(binaryToBytes(decodeQuotedPrintable(part.body)), charset);
+  }
+  return part.body;
+}
+
+interface MimeBodies {
+  plain?: string;
+  html?: string;
+  attachments: string[];
+}
+
+function collectBodies(part: MimePart, bodies: MimeBodies): void {
+  const contentType = part.headers.get('content-type') || 'text/plain';
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  const disposition = part.headers.get('content-disposition');
+  const filename = decodeHeaderValue(headerParam(disposition, 'filename') ?? headerParam(contentType, 'name'));
+
+  if (mimeType.startsWith('multipart/')) {
+    const boundary = headerParam(contentType, 'boundary');
+    if (!boundary) return;
+
+    const sections = part.body.split(`--${boundary}`);
+    // Skip the preamble and everything after the closing "--boundary--"
+    for (const section of sections.slice(1)) {
+      if (section.startsWith('--')) break;
+      collectBodies(splitHeaders(section.replace(/^\r?\n/, '')), bodies);
+    }
+    return;
+  }
+
+  if (filename || disposition?.toLowerCase().startsWith('attachment')) {
+    bodies.attachments.push(filename || 'unnamed attachment');
+    return;
+  }
+
+  if (mimeType === 'text/plain' && bodies.plain === undefined) {
+    bodies.plain = decodePartBody(part);
+  } else if (mimeType === 'text/html' && bodies.html === undefined) {
+    bodies.html = decodePartBody(part);
+  }
+}
+
+/**
+ * Parse a raw RFC 822 message into text
+ */
+export function emlToText(raw: string): string {
+  const message = splitHeaders(raw);
+  const bodies: MimeBodies = { attachments: [] };
+  collectBodies(message, bodies);
+
+  const header = (name: string) => decodeHeaderValue(message.headers.get(name));
+
+  return formatEmail({
+    from: header('from'),
+    to: header('to'),
+    cc: header('cc'),
+    date: header('date'),
+    subject: header('subject'),
+    attachments: bodies.attachments,
+    body: bodies.plain ?? (bodies.html ? htmlToText(bodies.html) : ''),
+  });
+}
+
+/**
+ * Extract text from an .eml file
+ */
+export async function extractTextFromEml(file: File): Promise<ExtractionResult> {
+  const text = emlToText(await file.text());
+  if (!text) {
+    throw new Error('No text was found in this email.');
+  }
+
+  return {
+    text,
+    pageCount: 1,
+    method: 'email',
+  };
+}
+
+// ============================================================================
+// Outlook MSG
+// ============================================================================
+
+function formatAddress(name?: string, address?: string): string | undefined {
+  if (name && address && name !== address) return `${name} <${address}>`;
+  return name || address;
+}
+
+/**
+ * Extract text from an Outlook .msg file
+ */
+export async function extractTextFromMsg(file: File): Promise<ExtractionResult> {
+  const data = new MsgReader(await file.arrayBuffer()).getFileData();
+  if (data.error) {
+    throw new Error(`Failed to read Outlook message: ${data.error}`);
+  }
+
+  const recipients = (type: 'to' | 'cc') =>
+    (data.recipients || [])
+      .filter((r) => (r.recipType || 'to') === type)
+      .map((r) => formatAddress(r.name, r.smtpAddress || r.email))
+      .filter(Boolean)
+      .join(', ') || undefined;
+
+  const text = formatEmail({
+    from: formatAddress(data.senderName, data.senderSmtpAddress || data.senderEmail),
+    to: recipients('to'),
+    cc: recipients('cc'),
+    date: data.clientSubmitTime || data.messageDeliveryTime || data.creationTime,
+    subject: data.subject,
+    attachments: (data.attachments || [])
+      .map((a) => a.fileName || a.fileNameShort || a.name)
+      .filter((name): name is string => !!name),
+    body: data.body || (data.bodyHtml ? htmlToText(data.bodyHtml) : ''),
+  });
+
+  if (!text) {
+    throw new Error('No text was found in this Outlook message.');
+  }
+
+  return {
+    text,
+    pageCount: 1,
+    method: 'email',
+  };
+}
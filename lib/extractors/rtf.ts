@@ -0,0 +1,190 @@
+/**
+ * RTF text extraction.
+ * A small RTF reader that keeps paragraph breaks, page breaks (as form feeds, so
+ * transcript pagination survives) and outline-level headings, and drops font
+ * tables, stylesheets, embedded pictures and other non-text destinations.
+ */
+
+import type { ExtractionResult } from '@/lib/document-processor';
+
+// Destinations whose content is never document text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'fldinst',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf',
+  'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'xmlnstbl', 'themedata',
+  'colorschememapping', 'datastore', 'latentstyles', 'mmathPr', 'filetbl', 'revtbl',
+]);
+
+const CONTROL_WORD_TEXT: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n\n',
+  page: '\f',
+  tab: '\t',
+  cell: ' | ',
+  row: '\n',
+  emdash: '—',
+  endash: '–',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  bullet: '•',
+  emspace: ' ',
+  enspace: ' ',
+};
+
+interface GroupState {
+  skip: boolean;
+  unicodeSkip: number;
+}
+
+const windows1252 = typeof TextDecoder !== 'undefined' ? new TextDecoder('windows-1252') : null;
+
+function decodeByte(byte: number): string {
+  return windows1252 ? windows1252.decode(new Uint8Array([byte])) : String.fromCharCode(byte);
+}
+
+/**
+ * Convert RTF markup to plain text
+ */
+export function rtfToText(rtf: string): string {
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let output = '';
+  let paragraphStart = 0;
+  let headingLevel: number | null = null;
+  let pendingSkip = 0; // fallback characters still to drop after a \uN
+  let i = 0;
+
+  const emit = (text: string) => {
+    if (state.skip) return;
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    output += text;
+  };
+
+  // Close the current paragraph, marking it as a heading when it had an outline level
+  const endParagraph = (breakText: string) => {
+    if (headingLevel !== null && output.slice(paragraphStart).trim()) {
+      const text = output.slice(paragraphStart).trim();
+      output = `${output.slice(0, paragraphStart)}${'#'.repeat(Math.min(headingLevel + 1, 6))} ${text}\n`;
+    }
+    output += breakText;
+    paragraphStart = output.length;
+  };
+
+  while (i < rtf.length) {
+    const ch = rtf[i];
+
+    if (ch === '{') {
+      stack.push(state);
+      state = { ...state };
+      i++;
+      continue;
+    }
+
+    if (ch === '}') {
+      state = stack.pop() ?? state;
+      pendingSkip = 0;
+      i++;
+      continue;
+    }
+
+    if (ch === '\\') {
+      const next = rtf[i + 1];
+
+      // Hex-encoded byte in the document code page
+      if (next === "'") {
+        emit(decodeByte(parseInt(rtf.slice(i + 2, i + 4), 16)));
+        i += 4;
+        continue;
+      }
+
+      // Control word with optional numeric parameter and delimiting space
+      const word = rtf.slice(i + 1).match(/^([a-zA-Z]+)(-?\d+)? ?/);
+      if (word) {
+        const name = word[1];
+        const param = word[2] !== undefined ? parseInt(word[2], 10) : null;
+        i += 1 + word[0].length;
+
+        if (SKIPPED_DESTINATIONS.has(name)) {
+          state.skip = true;
+        } else if (name === 'u' && param !== null) {
+          emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+          pendingSkip = state.unicodeSkip;
+        } else if (name === 'uc' && param !== null) {
+          state.unicodeSkip = param;
+        } else if (name === 'pard') {
+          headingLevel = null;
+        } else if (name === 'outlinelevel' && param !== null) {
+          headingLevel = param;
+        } else if (name === 'par' || name === 'sect' || name === 'page' || name === 'row') {
+          if (!state.skip) endParagraph(CONTROL_WORD_TEXT[name]);
+        } else if (CONTROL_WORD_TEXT[name] !== undefined) {
+          emit(CONTROL_WORD_TEXT[name]);
+        }
+        continue;
+      }
+
+      // Control symbols
+      i += 2;
+      switch (next) {
+        case '*':
+          // Ignorable destination: skip unless we know how to read it
+          state.skip = true;
+          break;
+        case '~':
+          emit(' ');
+          break;
+        case '_':
+          emit('-');
+          break;
+        case '\\':
+        case '{':
+        case '}':
+          emit(next);
+          break;
+        case '\n':
+        case '\r':
+          if (!state.skip) endParagraph('\n');
+          break;
+      }
+      continue;
+    }
+
+    // Raw line breaks in RTF source are not content
+    if (ch !== '\n' && ch !== '\r') {
+      emit(ch);
+    }
+    i++;
+  }
+
+  return output
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Extract text from an .rtf file
+ */
+export async function extractTextFromRtf(file: File): Promise<ExtractionResult> {
+  const rtf = await file.text();
+  if (!rtf.trimStart().startsWith('{\\rtf')) {
+    throw new Error('This file does not look like a valid RTF document.');
+  }
+
+  const text = rtfToText(rtf);
+  if (!text) {
+    throw new Error('No text was found in this RTF document.');
+  }
+
+  return {
+    text,
+    pageCount: text.split('\f').length,
+    method: 'rtf',
+  };
+}
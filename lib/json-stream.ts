@@ -0,0 +1,99 @@
+/**
+ * Incremental JSON array parsing for streamed model output.
+ * Emits each object of the target array as soon as its closing brace arrives,
+ * so questions can be shown while the rest of the response is still generating.
+ * Markdown fences and other text outside the JSON are ignored.
+ */
+
+export interface ArrayItemParser {
+  /** Feed the next piece of text; returns the items completed by it */
+  push(text: string): unknown[];
+}
+
+/**
+ * Create a parser for the top-level array (no key) or for the array stored under
+ * `key` in the top-level object (e.g. "questions")
+ */
+export function createArrayItemParser(key?: string): ArrayItemParser {
+  let buffer = '';
+  let position = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastString: string | null = null;
+  let pendingKey: string | null = null;
+  let arrayDepth: number | null = null; // depth inside the target array
+  let finished = false;
+  let itemStart = -1;
+
+  return {
+    push(text: string): unknown[] {
+      const items: unknown[] = [];
+      buffer += text;
+
+      for (; position < buffer.length && !finished; position++) {
+        const ch = buffer[position];
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (ch === '\\') {
+            escaped = true;
+          } else if (ch === '"') {
+            inString = false;
+            try {
+              lastString = JSON.parse(buffer.slice(stringStart, position + 1));
+            } catch {
+              lastString = null;
+            }
+          }
+          continue;
+        }
+
+        switch (ch) {
+          case '"':
+            inString = true;
+            stringStart = position;
+            break;
+
+          case ':':
+            if (depth === 1) pendingKey = lastString;
+            break;
+
+          case ',':
+            if (depth === 1) pendingKey = null;
+            break;
+
+          case '[':
+          case '{':
+            if (arrayDepth === null && ch === '[' &&
+                (key === undefined ? depth === 0 : depth === 1 && pendingKey === key)) {
+              arrayDepth = depth + 1;
+            } else if (arrayDepth !== null && depth === arrayDepth && ch === '{') {
+              itemStart = position;
+            }
+            depth++;
+            break;
+
+          case ']':
+          case '}':
+            depth--;
+            if (arrayDepth !== null && ch === '}' && depth === arrayDepth && itemStart !== -1) {
+              try {
+                items.push(JSON.parse(buffer.slice(itemStart, position + 1)));
+              } catch {
+                // Malformed item; the full-response parse decides what to keep
+              }
+              itemStart = -1;
+            } else if (arrayDepth !== null && ch === ']' && depth === arrayDepth - 1) {
+              finished = true;
+            }
+            break;
+        }
+      }
+
+      return items;
+    },
+  };
+}
@@ -0,0 +1,137 @@
+// Built-in fixtures for the mock LLM provider
+// One canned, schema-valid completion per prompt the app sends, so every route works
+// offline. Names are taken from the prompt so the output reads naturally in the UI.
+
+import type { ChatMessage } from './types';
+import type { MockFixture } from './mock';
+
+function findInPrompt(messages: ChatMessage[], pattern: RegExp, fallback: string): string {
+  for (const message of messages) {
+    const match = message.content.match(pattern);
+    if (match?.[1]) return match[1].trim();
+  }
+  return fallback;
+}
+
+const witnessName = (messages: ChatMessage[]) =>
+  findInPrompt(messages, /^(?:Witness Name|Deponent \(Witness Name\)|Witness): (.+)$/m, 'the witness');
+
+// First document section header, e.g. "=== DOCUMENT: Smith Statement ===" or "=== TRANSCRIPT: Smith Depo (pages 1-40, ...) ==="
+const firstDocument = (messages: ChatMessage[]) =>
+  findInPrompt(messages, /^=== [A-Z ]+: (.+?)(?: \(pages [^)]*\))?(?: \[[^\]]*\])? ===$/m, 'Case Documents');
+
+const DOCUMENT_QUESTIONS = [
+  { category: 'timeline', difficulty: 'medium', question: 'Walk us through the timeline of events as you remember it, starting with the first time you became involved.' },
+  { category: 'credibility', difficulty: 'hard', question: 'Your account differs in places from what is written in the documents. Which version is accurate?' },
+  { category: 'inconsistency', difficulty: 'hard', question: 'You previously described these events differently. What changed between then and now?' },
+  { category: 'foundation', difficulty: 'easy', question: 'How did you come to have personal knowledge of the facts you are testifying about?' },
+  { category: 'impeachment', difficulty: 'hard', question: 'Isn\'t it true that you signed the statement without reading it carefully?' },
+  { category: 'timeline', difficulty: 'medium', question: 'How much time passed between the incident and your first written account of it?' },
+  { category: 'credibility', difficulty: 'medium', question: 'You were some distance away at the time. How clearly could you actually see what happened?' },
+  { category: 'foundation', difficulty: 'medium', question: 'Who else was present, and have you discussed the events with any of them since?' },
+  { category: 'inconsistency', difficulty: 'medium', question: 'The documents record a different time than the one you gave today. How do you account for that?' },
+  { category: 'impeachment', difficulty: 'hard', question: 'You told investigators you did not remember this detail. Why do you remember it now?' },
+  { category: 'timeline', difficulty: 'easy', question: 'What were you doing immediately before the events described in the documents?' },
+  { category: 'credibility', difficulty: 'medium', question: 'Were you under any stress or distraction when these events took place?' },
+  { category: 'foundation', difficulty: 'easy', question: 'What was your role at the time these documents were created?' },
+  { category: 'inconsistency', difficulty: 'hard', question: 'Is there anything in these documents you believe is false or misleading?' },
+  { category: 'impeachment', difficulty: 'medium', question: 'Did anyone help you prepare or revise your written statement?' },
+] as const;
+
+const GENERAL_QUESTIONS = [
+  { difficulty: 'easy', question: 'How did you prepare for your testimony today, and who did you speak with?' },
+  { difficulty: 'easy', question: 'Do you have any financial interest in the outcome of this case?' },
+  { difficulty: 'medium', question: 'Is there anything about your testimony today that you are not completely certain about?' },
+  { difficulty: 'easy', question: 'What is your relationship to the parties in this case?' },
+  { difficulty: 'hard', question: 'Have you ever given testimony that you later needed to correct?' },
+] as const;
+
+function crossExamQuestions(messages: ChatMessage[], count: number) {
+  const documentReference = firstDocument(messages);
+  const documentQuestions = DOCUMENT_QUESTIONS.slice(0, Math.min(count, 15)).map((q) => ({
+    ...q,
+    suggestedApproach: 'Answer only what you know firsthand. If you are unsure, say so.',
+    weakPoint: `Details in ${documentReference} may not match the witness's recollection`,
+    followUpQuestions: ['Can you be more specific?', 'Did you write that down at the time?'],
+    documentReference,
+  }));
+  const generalQuestions = GENERAL_QUESTIONS.slice(0, Math.max(0, count - 15)).map((q) => ({
+    ...q,
+    category: 'general',
+    suggestedApproach: 'Answer directly and without defensiveness.',
+    weakPoint: 'Potential bias or preparation concerns',
+    followUpQuestions: ['Who else did you discuss this with?'],
+    documentReference: 'General Cross-Examination',
+  }));
+  return [...documentQuestions, ...generalQuestions];
+}
+
+function depositionAnalysis(messages: ChatMessage[]) {
+  const deponent = witnessName(messages);
+  const document = firstDocument(messages);
+
+  return {
+    gaps: [
+      {
+        description: `${document} does not say who authorized the decision or when`,
+        documentReferences: [document],
+        severity: 'significant',
+        suggestedQuestions: ['Who approved the decision?', 'When was that approval given?'],
+      },
+    ],
+    contradictions: [],
+    analysis: {
+      keyThemes: ['Timeline of events', 'Decision-making authority', 'Communications'],
+      timelineEvents: [{ date: 'Undated', event: 'Events described in the documents', source: document }],
+      witnesses: [deponent],
+      keyExhibits: [document],
+    },
+    questions: [
+      ['Walk me through your role in the events described in the documents.', 'Role and Responsibilities', 'foundation', 'high'],
+      ['Who authorized the decision described in the documents?', 'Decision-Making', 'gap', 'high'],
+      ['When did you first learn of the events described in the documents?', 'Timeline of Events', 'timeline', 'high'],
+      ['Who did you communicate with about these events, and how?', 'Communications', 'foundation', 'medium'],
+      ['Did you keep any notes or records of these events?', 'Documents', 'foundation', 'medium'],
+      ['Have you ever described these events differently than you did in the documents?', 'Prior Statements', 'impeachment', 'medium'],
+      ['Is there anything in the documents you believe is inaccurate?', 'Accuracy', 'contradiction', 'low'],
+    ].map(([question, topic, category, priority]) => ({
+      question,
+      topic,
+      category,
+      priority,
+      documentReference: document,
+      rationale: 'Establishes the deponent\'s knowledge of the documented events.',
+      followUpQuestions: ['Who else was involved?', 'What did you do next?'],
+    })),
+  };
+}
+
+/**
+ * Fixtures are tried in order, so the excerpt (map step) prompt comes before the
+ * full question prompt that shares its opening line
+ */
+export const DEFAULT_MOCK_FIXTURES: MockFixture[] = [
+  {
+    // Every examiner profile (direct, cross, Daubert, judge) shares this instruction
+    match: /Evaluate the witness's response to the question/,
+    response: () => JSON.stringify({
+      followUp: 'You said you were certain. What exactly makes you so sure of that detail?',
+      feedback: 'The answer was responsive but general. Tie it to specific facts in the documents and avoid volunteering opinions.',
+      weaknessIdentified: 'The answer leaves room to question the basis of your certainty.',
+      suggestedImprovement: 'State what you personally saw or heard, and stop there.',
+      scores: { responsiveness: 4, brevity: 3, volunteering: 3, consistency: 4, composure: 5 },
+    }),
+  },
+  {
+    match: /reviewing ONE EXCERPT of a larger set of case documents/,
+    response: (messages) => JSON.stringify(crossExamQuestions(messages, 5)),
+  },
+  {
+    match: /preparing cross-examination questions for/,
+    response: (messages) => JSON.stringify(crossExamQuestions(messages, 20)),
+  },
+  {
+    match: /preparing to take a deposition of/,
+    response: (messages) => JSON.stringify(depositionAnalysis(messages)),
+  },
+];
@@ -0,0 +1,39 @@
+// LLM access for the API routes
+// Calls go to the provider selected by configuration (see getLLMProvider).
+
+import { getLLMProvider } from './providers';
+import type { ChatCompletionChunk, ChatCompletionOptions, ChatCompletionResponse, ChatMessage } from './types';
+
+export * from './types';
+export * from './usage';
+export { getLLMProvider } from './providers';
+
+/**
+ * Non-streaming chat completion
+ */
+export async function chatCompletion(
+  messages: ChatMessage[],
+  options: ChatCompletionOptions = {}
+): Promise<ChatCompletionResponse> {
+  return getLLMProvider().chatCompletion(messages, options);
+}
+
+/**
+ * Streaming chat completion. Providers without streaming support yield the
+ * whole completion as a single chunk.
+ */
+export async function* streamChatCompletion(
+  messages: ChatMessage[],
+  options: ChatCompletionOptions = {}
+): AsyncGenerator<ChatCompletionChunk> {
+  const provider = getLLMProvider();
+
+  if (!provider.capabilities.streaming) {
+    const response = await provider.chatCompletion(messages, options);
+    yield { content: response.choices?.[0]?.message?.content || '', done: false };
+    yield { content: '', done: true, usage: response.usage };
+    return;
+  }
+
+  yield* provider.streamChatCompletion(messages, options);
+}
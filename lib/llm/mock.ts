@@ -0,0 +1,96 @@
+// Scripted mock LLM provider
+// Returns fixture completions instead of calling a model, so the app (and tests that
+// drive it) can run offline and deterministically. Select it with LLM_PROVIDER=mock.
+
+import { readFileSync } from 'fs';
+import { estimateTokens } from '@/lib/case-dev/api';
+import { DEFAULT_MOCK_FIXTURES } from './fixtures';
+import type { ChatCompletionResponse, ChatMessage, LLMProvider } from './types';
+
+// Streamed completions are cut into pieces this size to exercise incremental parsing
+const STREAM_CHUNK_SIZE = 32;
+
+export interface MockFixture {
+  /** Tested against the whole conversation; strings are regular expression sources */
+  match: RegExp | string;
+  /** The completion, a sequence returned call by call (the last entry repeats), or a function of the conversation */
+  response: string | string[] | ((messages: ChatMessage[]) => string);
+}
+
+/**
+ * Load fixtures from a JSON file:
+ *   [{ "match": "regex", "response": <value> }, { "match": "regex", "responses": [<value>, ...] }]
+ * Values that are not strings are serialized, so completions can be written as plain JSON.
+ */
+export function loadMockFixtures(path: string): MockFixture[] {
+  const entries: Array<{ match: string; response?: unknown; responses?: unknown[] }> = JSON.parse(
+    readFileSync(path, 'utf-8')
+  );
+  const toText = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+  return entries.map((entry) => ({
+    match: entry.match,
+    response: entry.responses ? entry.responses.map(toText) : toText(entry.response),
+  }));
+}
+
+export function createMockProvider(fixtures: MockFixture[] = DEFAULT_MOCK_FIXTURES): LLMProvider {
+  const calls = new Map<MockFixture, number>();
+  let completionCount = 0;
+
+  const complete = (messages: ChatMessage[]): string => {
+    const conversation = messages.map((message) => message.content).join('\n\n');
+    const fixture = fixtures.find((f) => (typeof f.match === 'string' ? new RegExp(f.match) : f.match).test(conversation));
+    if (!fixture) {
+      throw new Error('Mock LLM error: no fixture matches this prompt');
+    }
+
+    const { response } = fixture;
+    if (typeof response === 'function') return response(messages);
+    if (typeof response === 'string') return response;
+
+    const call = calls.get(fixture) ?? 0;
+    calls.set(fixture, call + 1);
+    return response[Math.min(call, response.length - 1)];
+  };
+
+  const usage = (messages: ChatMessage[], content: string): ChatCompletionResponse['usage'] => {
+    const promptTokens = estimateTokens(messages.map((message) => message.content).join(''));
+    const completionTokens = estimateTokens(content);
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+      cost: 0,
+    };
+  };
+
+  return {
+    name: 'mock',
+    baseUrl: 'mock://llm',
+    model: 'mock',
+    capabilities: { streaming: true, userApiKey: false },
+
+    async chatCompletion(messages, options = {}) {
+      options.signal?.throwIfAborted();
+      const content = complete(messages);
+      return {
+        id: `mock-${++completionCount}`,
+        object: 'chat.completion',
+        model: options.model || 'mock',
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage: usage(messages, content),
+      };
+    },
+
+    async *streamChatCompletion(messages, options = {}) {
+      options.signal?.throwIfAborted();
+      const content = complete(messages);
+      for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+        options.signal?.throwIfAborted();
+        yield { content: content.slice(i, i + STREAM_CHUNK_SIZE), done: false };
+      }
+      yield { content: '', done: true, usage: usage(messages, content) };
+    },
+  };
+}
@@ -0,0 +1,107 @@
+// OpenAI-compatible chat completions client
+// Case.dev's LLM API and local servers (vLLM, llama.cpp, Ollama, LM Studio) all speak
+// POST {baseUrl}/chat/completions with optional server-sent event streaming.
+
+import { LLMAPIError } from './types';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionOptions,
+  ChatCompletionResponse,
+  ChatMessage,
+  LLMCapabilities,
+  LLMProvider,
+} from './types';
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  /** e.g. "https://api.case.dev/llm/v1" or "http://localhost:11434/v1" */
+  baseUrl: string;
+  model: string;
+  /** Sent as a bearer token when set (a per-call apiKey option wins); local servers usually need none */
+  apiKey?: string;
+  capabilities?: Partial<LLMCapabilities>;
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const base = config.baseUrl.replace(/\/+$/, '');
+
+  const request = (messages: ChatMessage[], options: ChatCompletionOptions, stream: boolean) => {
+    const apiKey = options.apiKey || config.apiKey;
+    return fetch(`${base}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: options.model || config.model,
+        messages,
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.max_tokens ?? 4096,
+        stream,
+        // Token usage arrives in a final chunk; servers without the option ignore it
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+      }),
+      signal: options.signal,
+    });
+  };
+
+  return {
+    name: config.name,
+    baseUrl: base,
+    model: config.model,
+    capabilities: { streaming: true, userApiKey: false, ...config.capabilities },
+
+    async chatCompletion(messages, options = {}) {
+      const response = await request(messages, options, false);
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new LLMAPIError(`LLM API error: ${error}`, response.status);
+      }
+
+      return response.json() as Promise<ChatCompletionResponse>;
+    },
+
+    async *streamChatCompletion(messages, options = {}): AsyncGenerator<ChatCompletionChunk> {
+      const response = await request(messages, options, true);
+
+      if (!response.ok) {
+        throw new LLMAPIError(`LLM API error: ${response.statusText}`, response.status);
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) throw new Error('No response body');
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue;
+          const data = line.slice(6).trim();
+          if (data === '[DONE]') {
+            yield { content: '', done: true };
+            return;
+          }
+
+          try {
+            const parsed = JSON.parse(data);
+            const content = parsed.choices?.[0]?.delta?.content || '';
+            const usage = parsed.usage;
+            yield { content, done: false, usage };
+          } catch {
+            // Skip invalid JSON
+          }
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,65 @@
+// LLM providers (server-side)
+// Case.dev is the default; any OpenAI-compatible server can be used instead, and a
+// scripted mock provider serves fixture completions for offline runs and tests.
+
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { createMockProvider, loadMockFixtures } from './mock';
+import type { LLMProvider } from './types';
+
+export const CASE_LLM_BASE_URL = 'https://api.case.dev/llm/v1';
+export const CASE_DEFAULT_MODEL = 'casemark/casemark-core-1';
+
+// The mock keeps per-fixture call counts, so one instance serves every request
+let mockProvider: LLMProvider | null = null;
+
+function getMockProvider(): LLMProvider {
+  if (!mockProvider) {
+    const fixturesPath = process.env.LLM_MOCK_FIXTURES;
+    mockProvider = createMockProvider(fixturesPath ? loadMockFixtures(fixturesPath) : undefined);
+  }
+  return mockProvider;
+}
+
+/**
+ * Select the LLM provider from configuration:
+ *   LLM_PROVIDER=case-dev (default)    calls use the signed-in user's key; LLM_MODEL and LLM_BASE_URL optional
+ *   LLM_PROVIDER=openai-compatible     LLM_BASE_URL and LLM_MODEL; LLM_API_KEY optional
+ *   LLM_PROVIDER=mock                  LLM_MOCK_FIXTURES optional (JSON fixture file)
+ * LLM_STREAMING=false turns off streaming for servers that do not support it.
+ */
+export function getLLMProvider(): LLMProvider {
+  const provider = process.env.LLM_PROVIDER || 'case-dev';
+  const streaming = process.env.LLM_STREAMING !== 'false';
+
+  switch (provider) {
+    case 'mock':
+      return getMockProvider();
+
+    case 'openai-compatible': {
+      const baseUrl = process.env.LLM_BASE_URL;
+      const model = process.env.LLM_MODEL;
+      if (!baseUrl || !model) {
+        throw new Error('LLM_BASE_URL and LLM_MODEL environment variables are required for LLM_PROVIDER=openai-compatible');
+      }
+      return createOpenAICompatibleProvider({
+        name: 'openai-compatible',
+        baseUrl,
+        model,
+        apiKey: process.env.LLM_API_KEY,
+        capabilities: { streaming },
+      });
+    }
+
+    // Each user's calls are billed to their own key, passed per call as options.apiKey
+    case 'case-dev':
+      return createOpenAICompatibleProvider({
+        name: 'case-dev',
+        baseUrl: process.env.LLM_BASE_URL || CASE_LLM_BASE_URL,
+        model: process.env.LLM_MODEL || CASE_DEFAULT_MODEL,
+        capabilities: { streaming, userApiKey: true },
+      });
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${provider}" (expected case-dev, openai-compatible or mock)`);
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * Schema-validated model output.
+ *
+ * Model responses are parsed as JSON and checked against a zod schema. When a
+ * response does not match, the validation errors are sent back to the model and it
+ * is asked for a corrected response, up to MAX_REPAIR_ATTEMPTS times. Callers get
+ * null when the output is still unusable and decide how to fall back.
+ */
+
+import { z } from 'zod';
+import { chatCompletion, measureUsage } from '@/lib/llm';
+import type { CallUsage, ChatCompletionOptions, ChatMessage } from '@/lib/llm';
+import type { AIExaminerResponse, CrossExamQuestion } from '@/lib/types/testimony';
+import { SCORE_SCALE } from '@/lib/types/testimony';
+import type { Contradiction, DepositionQuestion, TestimonyGap } from '@/lib/types/deposition';
+
+// Correction round-trips allowed after the first response
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+// Validation errors quoted back to the model per repair prompt
+const MAX_REPORTED_ERRORS = 10;
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+// Missing, null and blank strings all become undefined
+const optionalText = z.string().nullish().transform((value) => value?.trim() || undefined);
+const requiredText = z.string().trim().min(1);
+
+const stringList = z.array(z.string()).nullish().transform((value) => value ?? []);
+const optionalStringList = z.array(z.string()).nullish().transform((value) => value ?? undefined);
+
+// Unknown enum values fall back to a default instead of costing a repair round-trip
+const crossExamCategory = z
+  .enum(['timeline', 'credibility', 'inconsistency', 'foundation', 'impeachment', 'general'])
+  .catch('general');
+const difficulty = z.enum(['easy', 'medium', 'hard']).catch('medium');
+const depositionCategory = z
+  .enum(['gap', 'contradiction', 'timeline', 'foundation', 'impeachment', 'follow_up', 'general'])
+  .catch('general');
+const priority = z.enum(['high', 'medium', 'low']).catch('medium');
+const severity = z.enum(['minor', 'moderate', 'significant']).catch('moderate');
+// Models sometimes quote numbers
+const score = z.coerce.number().min(1).max(SCORE_SCALE);
+
+/** One cross-examination question as the model returns it (ids are assigned afterwards) */
+export const crossExamQuestionSchema = z.object({
+  question: requiredText,
+  category: crossExamCategory,
+  difficulty,
+  suggestedApproach: optionalText,
+  weakPoint: optionalText,
+  followUpQuestions: optionalStringList,
+  documentReference: optionalText,
+}) satisfies z.ZodType<Omit<CrossExamQuestion, 'id'>>;
+
+/** Questions drafted from one excerpt; may be empty */
+export const crossExamQuestionListSchema = z.array(crossExamQuestionSchema);
+
+/** The final question set; an empty set is treated as a failed response */
+export const crossExamQuestionSetSchema = crossExamQuestionListSchema.min(1);
+
+export type CrossExamQuestionOutput = z.infer<typeof crossExamQuestionSchema>;
+
+export const depositionQuestionSchema = z.object({
+  question: requiredText,
+  topic: z.string().trim().min(1).catch('General'),
+  category: depositionCategory,
+  priority,
+  documentReference: optionalText,
+  pageReference: optionalText,
+  rationale: optionalText,
+  followUpQuestions: optionalStringList,
+  exhibitToShow: optionalText,
+}) satisfies z.ZodType<Omit<DepositionQuestion, 'id'>>;
+
+export type DepositionQuestionOutput = z.infer<typeof depositionQuestionSchema>;
+
+const testimonyGapSchema = z.object({
+  description: requiredText,
+  documentReferences: stringList,
+  severity,
+  suggestedQuestions: stringList,
+}) satisfies z.ZodType<Omit<TestimonyGap, 'id'>>;
+
+const contradictionSourceSchema = z.object({
+  document: z.string(),
+  excerpt: z.string(),
+  page: optionalText,
+});
+
+const contradictionSchema = z.object({
+  description: requiredText,
+  source1: contradictionSourceSchema,
+  source2: contradictionSourceSchema,
+  severity,
+  suggestedQuestions: stringList,
+}) satisfies z.ZodType<Omit<Contradiction, 'id'>>;
+
+const timelineEventSchema = z.object({
+  date: z.string(),
+  event: requiredText,
+  source: z.string(),
+});
+
+/**
+ * The deposition analysis the model returns: the AnalysisResult fields, with the
+ * case summary nested under "analysis", plus the generated questions
+ */
+export const analysisResultSchema = z.object({
+  gaps: z.array(testimonyGapSchema).nullish().transform((value) => value ?? []),
+  contradictions: z.array(contradictionSchema).nullish().transform((value) => value ?? []),
+  questions: z.array(depositionQuestionSchema).nullish().transform((value) => value ?? []),
+  analysis: z
+    .object({
+      keyThemes: stringList,
+      timelineEvents: z.array(timelineEventSchema).nullish().transform((value) => value ?? []),
+      witnesses: stringList,
+      keyExhibits: stringList,
+    })
+    .nullish()
+    .transform((value) => value ?? { keyThemes: [], timelineEvents: [], witnesses: [], keyExhibits: [] }),
+});
+
+export type AnalysisResultOutput = z.infer<typeof analysisResultSchema>;
+
+export const aiExaminerResponseSchema = z.object({
+  followUp: requiredText,
+  feedback: requiredText,
+  weaknessIdentified: optionalText,
+  suggestedImprovement: optionalText,
+  scores: z.object({
+    responsiveness: score,
+    brevity: score,
+    volunteering: score,
+    consistency: score,
+    composure: score,
+  }).optional(),
+}) satisfies z.ZodType<AIExaminerResponse>;
+
+// ============================================================================
+// Parsing and validation
+// ============================================================================
+
+/**
+ * Pull the JSON value out of a model response: tolerates a BOM, markdown fences,
+ * and prose before or after the JSON. Returns undefined when nothing parses.
+ */
+export function extractJSON(content: string): unknown {
+  const cleaned = content
+    .trim()
+    .replace(/^\uFEFF/, '')
+    .replace(/^```(?:json)?\s*\n?/i, '')
+    .replace(/\n?```\s*$/i, '')
+    .trim();
+
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    // Continue
+  }
+
+  // Outermost array or object, whichever starts first
+  const start = cleaned.search(/[[{]/);
+  if (start === -1) return undefined;
+  const end = cleaned.lastIndexOf(cleaned[start] === '[' ? ']' : '}');
+  if (end <= start) return undefined;
+
+  try {
+    return JSON.parse(cleaned.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+/**
+ * Parse and validate a model response. Errors are phrased for the repair prompt,
+ * e.g. "2.question: Invalid input: expected string, received undefined".
+ */
+export function validateStructuredOutput<T>(schema: z.ZodType<T>, content: string): ValidationResult<T> {
+  const value = extractJSON(content);
+  if (value === undefined) {
+    return { success: false, errors: ['The response is not valid JSON'] };
+  }
+
+  const result = schema.safeParse(value);
+  if (result.success) return { success: true, data: result.data };
+
+  return {
+    success: false,
+    errors: result.error.issues.map((issue) => {
+      const path = issue.path.map(String).join('.');
+      return path ? `${path}: ${issue.message}` : issue.message;
+    }),
+  };
+}
+
+// ============================================================================
+// Repair loop
+// ============================================================================
+
+export interface StructuredOutputOptions extends ChatCompletionOptions {
+  /** Repair round-trips allowed (default MAX_REPAIR_ATTEMPTS) */
+  maxRepairs?: number;
+  /** Receives the usage of each model call, repairs included */
+  onUsage?: (usage: CallUsage) => void;
+}
+
+function getRepairPrompt(errors: string[]): string {
+  const listed = errors.slice(0, MAX_REPORTED_ERRORS).map((error) => `- ${error}`).join('\n');
+  const more = errors.length > MAX_REPORTED_ERRORS ? `\n- ...and ${errors.length - MAX_REPORTED_ERRORS} more` : '';
+
+  return `Your previous response could not be used because it does not match the required JSON format:
+${listed}${more}
+
+Return the complete corrected response in the format described above.
+Return ONLY the JSON. No markdown, no code blocks, no explanatory text.`;
+}
+
+/**
+ * Validate `content` (the model's reply to `messages`). While it does not match the
+ * schema, send the errors back and ask for a corrected reply.
+ * Returns null once the repair attempts are used up; request errors are thrown.
+ */
+export async function repairStructuredOutput<T>(
+  schema: z.ZodType<T>,
+  messages: ChatMessage[],
+  content: string,
+  options: StructuredOutputOptions = {}
+): Promise<T | null> {
+  const { maxRepairs = MAX_REPAIR_ATTEMPTS, onUsage, ...completionOptions } = options;
+  let reply = content;
+
+  for (let attempt = 0; ; attempt++) {
+    const result = validateStructuredOutput(schema, reply);
+    if (result.success) return result.data;
+
+    if (attempt >= maxRepairs) {
+      console.error(
+        `Model output failed validation after ${attempt} repair attempt(s):`,
+        result.errors.slice(0, MAX_REPORTED_ERRORS).join('; ')
+      );
+      return null;
+    }
+
+    // Only the latest failed reply is sent back, so prompts do not grow with each attempt
+    const conversation: ChatMessage[] = [
+      ...messages,
+      { role: 'assistant', content: reply },
+      { role: 'user', content: getRepairPrompt(result.errors) },
+    ];
+    const response = await chatCompletion(conversation, completionOptions);
+    reply = response.choices?.[0]?.message?.content || '';
+    onUsage?.(measureUsage(conversation, reply, response.usage));
+  }
+}
+
+/**
+ * Run a chat completion and validate (and if needed repair) its output
+ */
+export async function completeStructured<T>(
+  schema: z.ZodType<T>,
+  messages: ChatMessage[],
+  options: StructuredOutputOptions = {}
+): Promise<T | null> {
+  const { maxRepairs, onUsage, ...completionOptions } = options;
+  const response = await chatCompletion(messages, completionOptions);
+  const content = response.choices?.[0]?.message?.content || '';
+  onUsage?.(measureUsage(messages, content, response.usage));
+
+  return repairStructuredOutput(schema, messages, content, { ...completionOptions, maxRepairs, onUsage });
+}
@@ -0,0 +1,73 @@
+// LLM types shared by every provider (OpenAI-compatible chat completion shapes)
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionResponse {
+  id: string;
+  object: string;
+  model: string;
+  choices: {
+    index: number;
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }[];
+  usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+    cost?: number;
+  };
+}
+
+export interface ChatCompletionChunk {
+  content: string;
+  done: boolean;
+  usage?: ChatCompletionResponse['usage'];
+}
+
+export interface ChatCompletionOptions {
+  model?: string; // Overrides the provider's configured model
+  apiKey?: string; // The signed-in user's key, for providers that bill per user
+  temperature?: number;
+  max_tokens?: number;
+  signal?: AbortSignal; // Cancels the upstream request (e.g. when the client disconnects)
+}
+
+export interface LLMCapabilities {
+  /** Server-sent event streaming; without it streamed calls receive the whole completion as one chunk */
+  streaming: boolean;
+  /** Calls must carry the signed-in user's API key (see getLLMCredentials) */
+  userApiKey: boolean;
+}
+
+/** A failed LLM API request, with the HTTP status the server answered */
+export class LLMAPIError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'LLMAPIError';
+  }
+}
+
+/**
+ * Whether an error means the API key was missing, revoked or not allowed to call the model
+ */
+export function isLLMAuthError(error: unknown): boolean {
+  return error instanceof LLMAPIError && (error.status === 401 || error.status === 403);
+}
+
+export interface LLMProvider {
+  name: string;
+  /** Base URL of the chat completions API (informational for the mock provider) */
+  baseUrl: string;
+  /** Model used when a call does not name one */
+  model: string;
+  capabilities: LLMCapabilities;
+  chatCompletion(messages: ChatMessage[], options?: ChatCompletionOptions): Promise<ChatCompletionResponse>;
+  streamChatCompletion(messages: ChatMessage[], options?: ChatCompletionOptions): AsyncGenerator<ChatCompletionChunk>;
+}
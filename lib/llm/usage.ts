@@ -0,0 +1,60 @@
+// Token usage and cost of model calls
+// Providers that report a cost (Case.dev) are taken at their word; otherwise tokens are
+// priced with LLM_INPUT_PRICE_PER_MTOK and LLM_OUTPUT_PRICE_PER_MTOK (dollars per
+// million tokens, default 0 for self-hosted models).
+
+import type { ChatCompletionResponse, ChatMessage } from './types';
+
+// Rough size of a token, for servers that do not report usage
+const CHARS_PER_TOKEN = 4;
+
+/** What one model call used */
+export interface CallUsage {
+  /** Characters sent and received */
+  chars: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Dollars */
+  cost: number;
+}
+
+/** Usage summed over every call made for one request */
+export type UsageTotals = CallUsage;
+
+function readPrice(name: string): number {
+  const price = Number(process.env[name]);
+  return Number.isFinite(price) && price > 0 ? price : 0;
+}
+
+/**
+ * Usage of a call from the provider's report, estimated from the text when the
+ * server reported none (some streaming servers never do)
+ */
+export function measureUsage(
+  messages: ChatMessage[],
+  reply: string,
+  reported?: ChatCompletionResponse['usage']
+): CallUsage {
+  const promptChars = messages.reduce((sum, message) => sum + message.content.length, 0);
+  const promptTokens = reported?.prompt_tokens ?? Math.ceil(promptChars / CHARS_PER_TOKEN);
+  const completionTokens = reported?.completion_tokens ?? Math.ceil(reply.length / CHARS_PER_TOKEN);
+  const cost =
+    typeof reported?.cost === 'number'
+      ? reported.cost
+      : (promptTokens * readPrice('LLM_INPUT_PRICE_PER_MTOK') +
+          completionTokens * readPrice('LLM_OUTPUT_PRICE_PER_MTOK')) /
+        1_000_000;
+
+  return { chars: promptChars + reply.length, promptTokens, completionTokens, cost };
+}
+
+export function createUsageTotals(): UsageTotals {
+  return { chars: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+}
+
+export function addUsage(totals: UsageTotals, usage: CallUsage): void {
+  totals.chars += usage.chars;
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  totals.cost += usage.cost;
+}
@@ -0,0 +1,63 @@
+// Client-side OCR runner
+// Submits a document to /api/ocr and polls the job until the provider finishes.
+
+import type { OCRResult } from '@/lib/case-dev/api';
+
+const POLL_INTERVAL_MS = 2000;
+const POLL_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+
+export interface OCRRunOptions {
+  language?: string;
+  signal?: AbortSignal;
+  onStatus?: (status: OCRResult['status']) => void;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('OCR cancelled', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+async function readOCRResponse(response: Response): Promise<OCRResult> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'OCR request failed');
+  }
+  return data as OCRResult;
+}
+
+/**
+ * Run OCR on a document, polling until the job completes or fails
+ */
+export async function runOCR(file: Blob, fileName: string, options: OCRRunOptions = {}): Promise<OCRResult> {
+  const { language, signal, onStatus } = options;
+
+  const formData = new FormData();
+  formData.append('file', file, fileName);
+  if (language) {
+    formData.append('language', language);
+  }
+
+  let result = await readOCRResponse(await fetch('/api/ocr', { method: 'POST', body: formData, signal }));
+  onStatus?.(result.status);
+
+  const deadline = Date.now() + POLL_TIMEOUT_MS;
+  while (result.status === 'processing') {
+    if (Date.now() > deadline) {
+      throw new Error('OCR is taking longer than expected. Please try again later.');
+    }
+    await delay(POLL_INTERVAL_MS, signal);
+    result = await readOCRResponse(await fetch(`/api/ocr/${encodeURIComponent(result.id)}`, { signal }));
+    onStatus?.(result.status);
+  }
+
+  if (result.status === 'failed') {
+    throw new Error(result.error || 'OCR failed for this document');
+  }
+
+  return result;
+}
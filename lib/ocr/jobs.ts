@@ -0,0 +1,39 @@
+// Who submitted each OCR job, kept in memory by each server process
+// A job's text is only returned to the member who submitted it, in the same organization.
+// Jobs are forgotten once the client would have stopped polling them.
+
+import type { Access } from '@/lib/auth/access';
+
+// Longer than the client's polling timeout (lib/ocr/client.ts)
+const JOB_TTL_MS = 30 * 60 * 1000;
+
+interface JobOwner {
+  userId: string;
+  organizationId: string | null;
+  submittedAt: number;
+}
+
+const owners = new Map<string, JobOwner>();
+
+function forgetExpiredJobs(now: number): void {
+  for (const [jobId, owner] of owners) {
+    if (owner.submittedAt <= now - JOB_TTL_MS) owners.delete(jobId);
+  }
+}
+
+/**
+ * Remember who submitted a job
+ */
+export function recordOCRJob(jobId: string, access: Access, now = Date.now()): void {
+  forgetExpiredJobs(now);
+  owners.set(jobId, { userId: access.userId, organizationId: access.organizationId, submittedAt: now });
+}
+
+/**
+ * Whether `access` submitted the job; unknown and expired jobs belong to no one
+ */
+export function isOCRJobOwner(jobId: string, access: Access, now = Date.now()): boolean {
+  forgetExpiredJobs(now);
+  const owner = owners.get(jobId);
+  return !!owner && owner.userId === access.userId && owner.organizationId === access.organizationId;
+}
@@ -0,0 +1,96 @@
+// OCR providers (server-side)
+// Case.dev OCR is the default; a local provider speaks the same job protocol
+// so scanned documents can be processed by a self-hosted or stand-in server.
+
+import { processDocumentOCR, getOCRStatus } from '@/lib/case-dev/api';
+import type { OCRResult, OCROptions } from '@/lib/case-dev/api';
+
+export interface OCRProvider {
+  name: string;
+  /** Submit a document; may complete immediately or return a job in 'processing' state */
+  submit(file: Blob, filename: string, options?: OCROptions): Promise<OCRResult>;
+  /** Poll an in-flight job */
+  getStatus(jobId: string): Promise<OCRResult>;
+}
+
+// ============================================================================
+// Case.dev OCR
+// ============================================================================
+
+export const caseDevOCRProvider: OCRProvider = {
+  name: 'case-dev',
+  submit: (file, filename, options) => processDocumentOCR(file, filename, options),
+  getStatus: (jobId) => getOCRStatus(jobId),
+};
+
+// ============================================================================
+// Local OCR server
+// ============================================================================
+
+/**
+ * Provider for a local OCR server (e.g. a Tesseract wrapper) implementing:
+ *   POST {baseUrl}/ocr/process      multipart "file" (+ optional "language") -> OCRResult
+ *   GET  {baseUrl}/ocr/status/:id   -> OCRResult
+ */
+export function createLocalOCRProvider(baseUrl: string): OCRProvider {
+  const base = baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: 'local',
+
+    async submit(file, filename, options = {}) {
+      const formData = new FormData();
+      formData.append('file', file, filename);
+      if (options.language) {
+        formData.append('language', options.language);
+      }
+
+      const response = await fetch(`${base}/ocr/process`, { method: 'POST', body: formData });
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Local OCR error: ${error}`);
+      }
+      return response.json();
+    },
+
+    async getStatus(jobId) {
+      const response = await fetch(`${base}/ocr/status/${encodeURIComponent(jobId)}`);
+      if (!response.ok) {
+        throw new Error(`Failed to get local OCR status: ${response.statusText}`);
+      }
+      return response.json();
+    },
+  };
+}
+
+/**
+ * Select the OCR provider from configuration.
+ * OCR_PROVIDER=local requires LOCAL_OCR_URL; anything else uses Case.dev.
+ */
+export function getOCRProvider(): OCRProvider {
+  if (process.env.OCR_PROVIDER === 'local') {
+    const baseUrl = process.env.LOCAL_OCR_URL;
+    if (!baseUrl) {
+      throw new Error('LOCAL_OCR_URL environment variable is not set');
+    }
+    return createLocalOCRProvider(baseUrl);
+  }
+  return caseDevOCRProvider;
+}
+
+/**
+ * Normalize provider output: confidences to 0-1, pages sorted by page number
+ */
+export function normalizeOCRResult(result: OCRResult): OCRResult {
+  const pages = result.pages
+    ?.map((page) => ({
+      ...page,
+      confidence:
+        typeof page.confidence === 'number'
+          ? page.confidence > 1 ? page.confidence / 100 : page.confidence
+          : undefined,
+    }))
+    .sort((a, b) => a.page_number - b.page_number);
+
+  return { ...result, pages };
+}
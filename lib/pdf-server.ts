@@ -0,0 +1,33 @@
+/**
+ * Server-side PDF text extraction (Node) using the pdfjs-dist legacy build.
+ * Used by /api/pdf/extract for PDFs too large to process comfortably in the browser.
+ */
+
+import path from 'path';
+import { extractTextLayerPages } from '@/lib/pdf-text';
+import type { ExtractedPage } from '@/lib/document-processor';
+
+// pdfjs-dist is a server external package, so its data files are read from node_modules
+const PDFJS_DIR = path.join(process.cwd(), 'node_modules', 'pdfjs-dist');
+
+/**
+ * Extract the text layer of each page of a PDF
+ */
+export async function extractPDFPagesOnServer(data: Uint8Array): Promise<ExtractedPage[]> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  const pdf = await pdfjs.getDocument({
+    data,
+    cMapUrl: path.join(PDFJS_DIR, 'cmaps') + path.sep,
+    cMapPacked: true,
+    standardFontDataUrl: path.join(PDFJS_DIR, 'standard_fonts') + path.sep,
+    isEvalSupported: false,
+    useSystemFonts: false,
+  }).promise;
+
+  try {
+    return await extractTextLayerPages(pdf);
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * PDF text-layer reconstruction shared by the browser extractor and the
+ * server-side fallback (/api/pdf/extract). Both load pdfjs-dist their own way
+ * and hand the opened document here so page text comes out identically.
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import type { ExtractedPage } from '@/lib/document-processor';
+
+// Pages with less text than this are treated as scanned images
+export const MIN_PAGE_TEXT_LENGTH = 20;
+
+function isTextItem(item: TextItem | TextMarkedContent): item is TextItem {
+  return 'str' in item;
+}
+
+/**
+ * Rebuild a page's text with its original line layout using item positions
+ */
+export function reconstructPageText(items: Array<TextItem | TextMarkedContent>): string {
+  let pageText = '';
+  let lastY = -1;
+  let lastX = -1;
+
+  for (const item of items) {
+    if (!isTextItem(item) || !item.str) continue;
+
+    const str = item.str;
+    const x = item.transform[4]; // X position
+    const y = item.transform[5]; // Y position
+
+    // Detect line breaks based on Y position change
+    if (lastY !== -1 && Math.abs(y - lastY) > 5) {
+      // Significant Y change = new line
+      pageText += '\n';
+      lastX = -1;
+    } else if (lastX !== -1 && x - lastX > 50) {
+      // Large horizontal gap = likely a tab or column break
+      pageText += ' ';
+    } else if (lastX !== -1 && str.trim() && !pageText.endsWith(' ') && !pageText.endsWith('\n')) {
+      // Add space between words if needed
+      pageText += ' ';
+    }
+
+    pageText += str;
+    lastY = y;
+    lastX = x + (item.width || 0);
+  }
+
+  return pageText.trim();
+}
+
+/**
+ * Extract the text layer of every page. Pages without a usable text layer are returned as 'blank'.
+ */
+export async function extractTextLayerPages(pdf: PDFDocumentProxy): Promise<ExtractedPage[]> {
+  const pages: ExtractedPage[] = [];
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    const text = reconstructPageText(textContent.items);
+
+    pages.push({
+      pageNumber: i,
+      text,
+      source: text.length >= MIN_PAGE_TEXT_LENGTH ? 'text' : 'blank',
+    });
+    page.cleanup();
+  }
+
+  return pages;
+}
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { assignedOnly, readJSONBody, storageErrorResponse } from './http';
+import { createSQLiteBackend } from './sqlite';
+import type { SessionRepository } from './types';
+
+const createdAt = '2025-01-02T03:04:05.000Z';
+
+function testimonySession(id: string, witnessEmail?: string, caseId?: string) {
+  return {
+    id,
+    witnessName: 'Dana Whitfield',
+    caseName: 'Acme v. Widget',
+    caseId,
+    witnessEmail,
+    createdAt,
+    questions: [],
+    status: 'ready',
+    practiceHistory: [],
+    totalDuration: 0,
+    documents: [],
+  };
+}
+
+let repository: SessionRepository;
+let client: SessionRepository;
+
+beforeEach(async () => {
+  repository = createSQLiteBackend(':memory:').forOrganization('org-1');
+  await repository.putSession('testimonySessions', testimonySession('mine', 'Dana@Example.com ', 'case-1'));
+  await repository.putSession('testimonySessions', testimonySession('theirs', 'lee@example.com', 'case-2'));
+  await repository.putSession('testimonySessions', testimonySession('unassigned'));
+  for (const id of ['case-1', 'case-2']) {
+    const caseRecord = { id, name: id, createdAt, witnesses: [], documents: [] };
+    await repository.putSession('cases', caseRecord);
+  }
+  client = assignedOnly(repository, 'dana@example.com');
+});
+
+describe('assignedOnly', () => {
+  it('lists only the sessions assigned to the client, and their cases', async () => {
+    expect((await client.listSessions('testimonySessions')).map((s) => s.id)).toEqual(['mine']);
+    expect((await client.listSessions('cases')).map((c) => c.id)).toEqual(['case-1']);
+    expect(await client.listSessions('depositionSessions')).toEqual([]);
+  });
+
+  it('reports sessions assigned to someone else as not found', async () => {
+    expect(await client.getSession('testimonySessions', 'mine', true)).toBeDefined();
+    expect(await client.getSession('testimonySessions', 'theirs', true)).toBeUndefined();
+    expect(await client.getSession('testimonySessions', 'unassigned', true)).toBeUndefined();
+    expect(await client.getSession('cases', 'case-2', true)).toBeUndefined();
+  });
+
+  it('saves answers to assigned sessions only, without changing the assignment', async () => {
+    const stored = (await client.getSession('testimonySessions', 'mine', false))!;
+    const { documents, ...record } = stored.session;
+    expect(documents).toEqual([]);
+    const updated = await client.updateRecord(
+      'testimonySessions',
+      'mine',
+      { ...record, totalDuration: 30 },
+      { revision: stored.revision, touch: true }
+    );
+    expect(updated?.session).toMatchObject({ totalDuration: 30 });
+
+    const other = (await repository.getSession('testimonySessions', 'theirs', false))!;
+    expect(
+      await client.updateRecord('testimonySessions', 'theirs', { ...other.session }, { revision: other.revision, touch: true })
+    ).toBeUndefined();
+
+    const latest = (await client.getSession('testimonySessions', 'mine', false))!;
+    await expect(
+      client.updateRecord(
+        'testimonySessions',
+        'mine',
+        { ...latest.session, witnessEmail: 'someone@example.com' },
+        { revision: latest.revision, touch: true }
+      )
+    ).rejects.toThrow('witnessEmail');
+  });
+
+  it('deletes nothing outside the assignment', async () => {
+    expect(await client.deleteSessions('testimonySessions', ['theirs', 'unassigned'])).toBe(0);
+    expect(await repository.listSessions('testimonySessions')).toHaveLength(3);
+  });
+});
+
+describe('readJSONBody', () => {
+  const put = (body: string, headers: Record<string, string> = {}) =>
+    new Request('http://localhost/api/storage/testimonySessions/s1', { method: 'PUT', body, headers });
+
+  it('refuses a body larger than the middleware passes on', async () => {
+    const error = await readJSONBody(put('{}', { 'Content-Length': String(200 * 1024 * 1024) })).catch((e) => e);
+    const response = storageErrorResponse(error, 'replace session');
+    expect(response.status).toBe(413);
+    expect((await response.json()).error).toContain('too large to save');
+  });
+
+  it('answers 400 to a body that is not JSON', async () => {
+    const error = await readJSONBody(put('{"id": "s1", "documents": [')).catch((e) => e);
+    expect(storageErrorResponse(error, 'replace session').status).toBe(400);
+  });
+});
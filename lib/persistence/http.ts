@@ -0,0 +1,241 @@
+// Shared handling for the /api/storage routes
+
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { can, requireAccess } from '@/lib/auth/access';
+import type { Access } from '@/lib/auth/access';
+import type { Permissions } from '@/lib/auth/permissions';
+import { isDocumentOwnerStore } from '@/lib/storage/records';
+import { MAX_REQUEST_BODY_BYTES } from '@/lib/upload-limits';
+import type { DocumentOwnerStore, SessionWithDocuments, StorableDocument } from '@/lib/storage/records';
+import { getSessionBackend } from './index';
+import { InvalidRecordError, RevisionConflictError } from './types';
+import type { SessionBackend, SessionRepository } from './types';
+
+export interface StorageRouteContext<P extends Record<string, string>> {
+  params: Promise<P>;
+}
+
+/**
+ * read: list and open; update: save changes to a session's fields;
+ * write: create, replace and delete sessions and their documents
+ */
+export type StorageOperation = 'read' | 'update' | 'write';
+
+// Witnesses save their practice answers to testimony sessions they can read; deposition
+// sessions are attorney work product, which clients never see. Members without work
+// product access (clients) only reach the sessions assigned to them (see assignedOnly).
+const STORE_PERMISSIONS: Record<DocumentOwnerStore, Record<StorageOperation, Permissions>> = {
+  testimonySessions: {
+    read: { matter: ['read'] },
+    update: { matter: ['read'] },
+    write: { document: ['create'] },
+  },
+  depositionSessions: {
+    read: { workProduct: ['read'] },
+    update: { workProduct: ['create'] },
+    write: { workProduct: ['create'] },
+  },
+  cases: {
+    read: { matter: ['read'] },
+    update: { document: ['create'] },
+    write: { document: ['create'] },
+  },
+};
+
+// Who sees every session in the organization; everyone else sees assigned sessions only
+const ALL_SESSIONS_PERMISSION: Permissions = { workProduct: ['read'] };
+
+function normalizeEmail(email: unknown): string {
+  return typeof email === 'string' ? email.trim().toLowerCase() : '';
+}
+
+/**
+ * The repository as seen by a client: testimony sessions whose witnessEmail is theirs,
+ * the cases those sessions belong to, and nothing else. Sessions outside that set are
+ * reported as not found.
+ */
+export function assignedOnly(repository: SessionRepository, email: string): SessionRepository {
+  const owner = normalizeEmail(email);
+  const isAssigned = (session: SessionWithDocuments) =>
+    !!owner && normalizeEmail((session as { witnessEmail?: unknown }).witnessEmail) === owner;
+
+  const assignedSessions = async () =>
+    (await repository.listSessions('testimonySessions')).filter(isAssigned);
+  const assignedCaseIds = async () =>
+    new Set((await assignedSessions()).map((session) => (session as { caseId?: string }).caseId).filter(Boolean));
+
+  const canReach = async (store: DocumentOwnerStore, id: string): Promise<boolean> => {
+    if (store === 'cases') return (await assignedCaseIds()).has(id);
+    if (store !== 'testimonySessions') return false;
+    const stored = await repository.getSession('testimonySessions', id, false);
+    return !!stored && isAssigned(stored.session);
+  };
+
+  return {
+    async listSessions<S extends SessionWithDocuments>(store: DocumentOwnerStore) {
+      if (store === 'testimonySessions') return (await assignedSessions()) as S[];
+      if (store !== 'cases') return [];
+      const caseIds = await assignedCaseIds();
+      return (await repository.listSessions<S>(store)).filter((c) => caseIds.has(c.id));
+    },
+    async getSession(store, sessionId, includeContent) {
+      return (await canReach(store, sessionId)) ? repository.getSession(store, sessionId, includeContent) : undefined;
+    },
+    async putSession(store, session) {
+      if (store !== 'testimonySessions' || !isAssigned(session)) throw new InvalidRecordError('not assigned to you');
+      return repository.putSession(store, session);
+    },
+    async replaceSession(store, session) {
+      if (!(await canReach(store, session.id)) || !isAssigned(session)) {
+        throw new InvalidRecordError('not assigned to you');
+      }
+      return repository.replaceSession(store, session);
+    },
+    async updateRecord(store, sessionId, record, options) {
+      if (!(await canReach(store, sessionId))) return undefined;
+      // The assignment is the attorneys' to change
+      if (normalizeEmail(record.witnessEmail) !== owner) throw new InvalidRecordError('witnessEmail cannot be changed');
+      return repository.updateRecord(store, sessionId, record, options);
+    },
+    async insertDocument(store, sessionId, document) {
+      return (await canReach(store, sessionId)) ? repository.insertDocument(store, sessionId, document) : undefined;
+    },
+    async patchDocument(store, sessionId, documentId, updates) {
+      return (await canReach(store, sessionId))
+        ? repository.patchDocument(store, sessionId, documentId, updates)
+        : undefined;
+    },
+    async deleteDocument(store, sessionId, documentId) {
+      return (await canReach(store, sessionId))
+        ? repository.deleteDocument(store, sessionId, documentId)
+        : undefined;
+    },
+    async findOrCreateCase() {
+      throw new InvalidRecordError('not assigned to you');
+    },
+    async deleteSessions(store, sessionIds) {
+      const reachable: string[] = [];
+      for (const id of sessionIds) {
+        if (await canReach(store, id)) reachable.push(id);
+      }
+      return repository.deleteSessions(store, reachable);
+    },
+    // Quarantined records are unreadable, so nobody can tell whose they were
+    async getQuarantinedRecords() {
+      return [];
+    },
+    async discardQuarantinedRecord() {},
+  };
+}
+
+export interface AuthorizedStorageRequest {
+  backend: SessionBackend;
+  /** The active organization's sessions */
+  repository: SessionRepository;
+  access: Access;
+}
+
+/**
+ * The active organization's repository for a storage request, or the response to send
+ * instead: 404 when sessions are kept in the browser, 401 when nobody is signed in,
+ * 403 when the member's role lacks `permission`
+ */
+export async function authorizeStorageRequest(
+  request: NextRequest,
+  permission: Permissions
+): Promise<AuthorizedStorageRequest | NextResponse> {
+  const backend = getSessionBackend();
+  if (!backend) {
+    return NextResponse.json({ error: 'Server storage is not enabled (see SESSION_STORAGE)' }, { status: 404 });
+  }
+  const access = await requireAccess(request, permission);
+  if (access instanceof NextResponse) return access;
+
+  // requireAccess only lets members of an organization through
+  const repository = backend.forOrganization(access.organizationId!);
+  return {
+    backend,
+    repository: can(access, ALL_SESSIONS_PERMISSION) ? repository : assignedOnly(repository, access.email),
+    access,
+  };
+}
+
+/**
+ * As authorizeStorageRequest, for routes under /api/storage/[store]
+ */
+export async function resolveStorageRequest(
+  request: NextRequest,
+  store: string,
+  operation: StorageOperation
+): Promise<{ repository: SessionRepository; store: DocumentOwnerStore } | NextResponse> {
+  if (!isDocumentOwnerStore(store)) {
+    return NextResponse.json({ error: `Unknown store: ${store}` }, { status: 404 });
+  }
+  const authorized = await authorizeStorageRequest(request, STORE_PERMISSIONS[store][operation]);
+  if (authorized instanceof NextResponse) return authorized;
+  return { repository: authorized.repository, store };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isDocumentBody(value: unknown): value is StorableDocument {
+  return isObject(value) && typeof value.id === 'string' && value.id.length > 0;
+}
+
+// The rest of the session is checked against the record schema when it is written
+export function isSessionBody(value: unknown): value is SessionWithDocuments {
+  return (
+    isObject(value) &&
+    typeof value.id === 'string' &&
+    typeof value.createdAt === 'string' &&
+    Array.isArray(value.documents) &&
+    value.documents.every(isDocumentBody)
+  );
+}
+
+/** A request body the storage routes cannot read; status is the HTTP status to answer */
+class RequestBodyError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+/**
+ * The JSON body of a storage request. Bodies over the middleware's limit would arrive
+ * cut off (lib/upload-limits), so they are refused by their Content-Length first.
+ */
+export async function readJSONBody(request: Request): Promise<unknown> {
+  if (Number(request.headers.get('content-length')) > MAX_REQUEST_BODY_BYTES) {
+    throw new RequestBodyError(
+      `This is too large to save on the server (over ${Math.floor(MAX_REQUEST_BODY_BYTES / (1024 * 1024))}MB). Remove some documents and try again.`,
+      413
+    );
+  }
+  try {
+    return await request.json();
+  } catch {
+    throw new RequestBodyError('The request body is not valid JSON', 400);
+  }
+}
+
+export function notFoundResponse(what = 'Session'): NextResponse {
+  return NextResponse.json({ error: `${what} not found` }, { status: 404 });
+}
+
+export function storageErrorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof RevisionConflictError) {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+  if (error instanceof InvalidRecordError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if (error instanceof RequestBodyError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`Error ${action}:`, error);
+  return NextResponse.json({ error: `Failed to ${action}` }, { status: 500 });
+}
@@ -0,0 +1,36 @@
+// Server persistence backend selection (server-side)
+// Sessions are kept in each browser's IndexedDB unless SESSION_STORAGE selects a server
+// backend; the client storage API then reads and writes through /api/storage.
+
+import { createSQLiteBackend } from './sqlite';
+import type { SessionBackend } from './types';
+
+export * from './types';
+
+export const DEFAULT_SQLITE_PATH = 'data/wtp.sqlite';
+
+// One connection per server process
+let backend: SessionBackend | null = null;
+
+/**
+ * The configured server backend, or null when sessions stay in the browser:
+ *   SESSION_STORAGE=browser (default)   IndexedDB in each browser
+ *   SESSION_STORAGE=sqlite              SQLite file at SQLITE_PATH (default data/wtp.sqlite)
+ */
+export function getSessionBackend(): SessionBackend | null {
+  const name = process.env.SESSION_STORAGE || 'browser';
+
+  switch (name) {
+    case 'browser':
+      return null;
+
+    case 'sqlite':
+      if (!backend) {
+        backend = createSQLiteBackend(process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH);
+      }
+      return backend;
+
+    default:
+      throw new Error(`Unknown SESSION_STORAGE backend: ${name}`);
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createSQLiteBackend } from './sqlite';
+
+const createdAt = '2025-01-02T03:04:05.000Z';
+
+function document(id: string) {
+  return { id, name: `${id}.txt`, type: 'text/plain', size: 5, uploadedAt: createdAt, status: 'ready', content: 'hello' };
+}
+
+describe('deleteSessions', () => {
+  it('leaves the documents of a session with the same id in another store', async () => {
+    const repository = createSQLiteBackend(':memory:').forOrganization('org-1');
+    const session = {
+      id: 's1',
+      witnessName: 'Dana Whitfield',
+      caseName: 'Acme v. Widget',
+      createdAt,
+      questions: [],
+      status: 'ready',
+      practiceHistory: [],
+      totalDuration: 0,
+      documents: [document('doc1')],
+    };
+    await repository.putSession('testimonySessions', session);
+
+    expect(await repository.deleteSessions('depositionSessions', ['s1'])).toBe(0);
+    const stored = await repository.getSession('testimonySessions', 's1', true);
+    expect(stored?.session.documents).toEqual([expect.objectContaining({ id: 'doc1', content: 'hello' })]);
+  });
+
+  it('leaves sessions of other organizations', async () => {
+    const backend = createSQLiteBackend(':memory:');
+    const caseRecord = { id: 'c1', name: 'Acme', createdAt, witnesses: [], documents: [document('doc1')] };
+    await backend.forOrganization('org-1').putSession('cases', caseRecord);
+
+    expect(await backend.forOrganization('org-2').deleteSessions('cases', ['c1'])).toBe(0);
+    const stored = await backend.forOrganization('org-1').getSession('cases', 'c1', true);
+    expect(stored?.session.documents).toHaveLength(1);
+  });
+});
+
+describe('findOrCreateCase', () => {
+  it('returns the case with the same name instead of adding another', async () => {
+    const repository = createSQLiteBackend(':memory:').forOrganization('org-1');
+    const candidate = (id: string, name: string) => ({ id, name, createdAt, witnesses: [], documents: [] });
+
+    const first = await repository.findOrCreateCase(candidate('c1', 'Acme v. Widget'));
+    const second = await repository.findOrCreateCase(candidate('c2', ' acme  v. widget'));
+    expect(second.session.id).toBe(first.session.id);
+    expect((await repository.listSessions('cases')).map((c) => c.id)).toEqual(['c1']);
+  });
+});
+
+describe('transcript extents', () => {
+  it('stores the page range of a transcript without its lines', async () => {
+    const repository = createSQLiteBackend(':memory:').forOrganization('org-1');
+    const extent = { format: 'numbered', firstPage: 1, lastPage: 12, pageCount: 12, linesPerPage: 25 } as const;
+    const caseRecord = {
+      id: 'c1',
+      name: 'Acme',
+      createdAt,
+      witnesses: [],
+      // Shaped like an index saved before documents stopped storing the lines
+      documents: [{ ...document('doc1'), transcriptExtent: { ...extent, lines: [] } }],
+    };
+    await repository.putSession('cases', caseRecord);
+
+    const stored = await repository.getSession('cases', 'c1', true);
+    expect(stored?.session.documents[0].transcriptExtent).toEqual(extent);
+  });
+});
@@ -0,0 +1,471 @@
+// SQLite session backend, for a single server or local use
+// Every row belongs to an organization; a repository reads and writes only its own rows.
+// Session records and document metadata are stored as JSON; document text and transcript
+// page ranges are separate columns that listings do not read.
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { SCHEMA_VERSION, getSchemaVersion, migrateRecord, validateRecord } from '@/lib/storage/migrations';
+import {
+  DOCUMENT_OWNER_STORES,
+  isSameCase,
+  joinDocument,
+  splitDocument,
+  toSession,
+  toSessionRecord,
+  touch,
+} from '@/lib/storage/records';
+import type {
+  DocumentOwnerStore,
+  DocumentRecord,
+  QuarantinedRecord,
+  SessionRecord,
+  SessionWithDocuments,
+  StorableDocument,
+} from '@/lib/storage/records';
+import type { Case } from '@/lib/types/case';
+import { InvalidRecordError, RevisionConflictError } from './types';
+import type { SessionBackend, SessionRepository, StoredSession } from './types';
+
+// Applied in order; PRAGMA user_version is the number applied so far
+const SCHEMA_MIGRATIONS = [
+  `CREATE TABLE sessions (
+     store TEXT NOT NULL,
+     id TEXT NOT NULL,
+     created_at TEXT NOT NULL,
+     revision INTEGER NOT NULL DEFAULT 1,
+     data TEXT NOT NULL,
+     PRIMARY KEY (store, id)
+   );
+   CREATE TABLE documents (
+     id TEXT PRIMARY KEY,
+     session_id TEXT NOT NULL,
+     data TEXT NOT NULL,
+     content TEXT,
+     transcript_index TEXT
+   );
+   CREATE INDEX documents_session_id ON documents (session_id);
+   CREATE TABLE quarantine (
+     id TEXT PRIMARY KEY,
+     store TEXT NOT NULL,
+     record_id TEXT NOT NULL,
+     record TEXT NOT NULL,
+     reason TEXT NOT NULL,
+     quarantined_at TEXT NOT NULL
+   );`,
+  // Scope rows to an organization; rows saved before organizations existed get an empty
+  // organization id (see the README to assign them)
+  `CREATE TABLE sessions_scoped (
+     organization_id TEXT NOT NULL,
+     store TEXT NOT NULL,
+     id TEXT NOT NULL,
+     created_at TEXT NOT NULL,
+     revision INTEGER NOT NULL DEFAULT 1,
+     data TEXT NOT NULL,
+     PRIMARY KEY (organization_id, store, id)
+   );
+   INSERT INTO sessions_scoped SELECT '', store, id, created_at, revision, data FROM sessions;
+   DROP TABLE sessions;
+   ALTER TABLE sessions_scoped RENAME TO sessions;
+   CREATE TABLE documents_scoped (
+     organization_id TEXT NOT NULL,
+     id TEXT NOT NULL,
+     session_id TEXT NOT NULL,
+     data TEXT NOT NULL,
+     content TEXT,
+     transcript_index TEXT,
+     PRIMARY KEY (organization_id, id)
+   );
+   INSERT INTO documents_scoped SELECT '', id, session_id, data, content, transcript_index FROM documents;
+   DROP TABLE documents;
+   ALTER TABLE documents_scoped RENAME TO documents;
+   CREATE INDEX documents_session_id ON documents (organization_id, session_id);
+   ALTER TABLE quarantine ADD COLUMN organization_id TEXT NOT NULL DEFAULT '';`,
+  // Documents keep only a transcript's page range; its index is parsed from the content
+  `ALTER TABLE documents RENAME COLUMN transcript_index TO transcript_extent;`,
+];
+
+type StoredRecord = SessionRecord<SessionWithDocuments>;
+
+interface SessionRow {
+  id: string;
+  revision: number;
+  data: string;
+}
+
+interface DocumentRow {
+  id: string;
+  session_id: string;
+  data: string;
+  content: string | null;
+  transcript_extent: string | null;
+}
+
+interface QuarantineRow {
+  id: string;
+  store: DocumentOwnerStore;
+  record_id: string;
+  record: string;
+  reason: string;
+  quarantined_at: string;
+}
+
+/**
+ * Open (creating if needed) a SQLite file and apply the schema migrations it has not
+ * had yet; PRAGMA user_version is the number applied so far
+ */
+export function openSQLiteDatabase(path: string, migrations: string[]): Database.Database {
+  if (path !== ':memory:') mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+
+  const applied = db.pragma('user_version', { simple: true }) as number;
+  db.transaction(() => {
+    migrations.slice(applied).forEach((sql) => db.exec(sql));
+    db.pragma(`user_version = ${migrations.length}`);
+  })();
+  return db;
+}
+
+export function createSQLiteBackend(path: string): SessionBackend {
+  const db = openSQLiteDatabase(path, SCHEMA_MIGRATIONS);
+
+  // Every statement takes the organization id first
+  const statements = {
+    listSessions: db.prepare<[string, string], SessionRow>(
+      'SELECT id, revision, data FROM sessions WHERE organization_id = ? AND store = ? ORDER BY created_at DESC'
+    ),
+    getSession: db.prepare<[string, string, string], SessionRow>(
+      'SELECT id, revision, data FROM sessions WHERE organization_id = ? AND store = ? AND id = ?'
+    ),
+    upsertSession: db.prepare<[string, string, string, string, string]>(
+      `INSERT INTO sessions (organization_id, store, id, created_at, data) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (organization_id, store, id) DO UPDATE SET
+         created_at = excluded.created_at, data = excluded.data, revision = sessions.revision + 1`
+    ),
+    updateSession: db.prepare<[string, string, string, string]>(
+      'UPDATE sessions SET data = ?, revision = revision + 1 WHERE organization_id = ? AND store = ? AND id = ?'
+    ),
+    deleteSession: db.prepare<[string, string, string]>(
+      'DELETE FROM sessions WHERE organization_id = ? AND store = ? AND id = ?'
+    ),
+    getDocuments: db.prepare<[string, string], DocumentRow>(
+      'SELECT id, session_id, data, content, transcript_extent FROM documents WHERE organization_id = ? AND session_id = ?'
+    ),
+    getDocumentMetadata: db.prepare<[string, string], DocumentRow>(
+      `SELECT id, session_id, data, NULL AS content, NULL AS transcript_extent FROM documents
+       WHERE organization_id = ? AND session_id = ?`
+    ),
+    getDocument: db.prepare<[string, string], DocumentRow>(
+      'SELECT id, session_id, data, content, transcript_extent FROM documents WHERE organization_id = ? AND id = ?'
+    ),
+    putDocument: db.prepare<[string, string, string, string, string | null, string | null]>(
+      `INSERT INTO documents (organization_id, id, session_id, data, content, transcript_extent) VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (organization_id, id) DO UPDATE SET
+         session_id = excluded.session_id, data = excluded.data,
+         content = excluded.content, transcript_extent = excluded.transcript_extent`
+    ),
+    deleteDocument: db.prepare<[string, string]>('DELETE FROM documents WHERE organization_id = ? AND id = ?'),
+    deleteSessionDocuments: db.prepare<[string, string]>(
+      'DELETE FROM documents WHERE organization_id = ? AND session_id = ?'
+    ),
+    listAllRecords: db.prepare<[string], SessionRow & { organization_id: string }>(
+      'SELECT organization_id, id, revision, data FROM sessions WHERE store = ?'
+    ),
+    putQuarantine: db.prepare<[string, string, string, string, string, string, string]>(
+      `INSERT INTO quarantine (organization_id, id, store, record_id, record, reason, quarantined_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ),
+    listQuarantine: db.prepare<[string], QuarantineRow>(
+      'SELECT * FROM quarantine WHERE organization_id = ? ORDER BY quarantined_at'
+    ),
+    getQuarantine: db.prepare<[string, string], QuarantineRow>(
+      'SELECT * FROM quarantine WHERE organization_id = ? AND id = ?'
+    ),
+    deleteQuarantine: db.prepare<[string, string]>('DELETE FROM quarantine WHERE organization_id = ? AND id = ?'),
+  };
+
+  /**
+   * Migrate records written by earlier versions and quarantine any that do not match
+   * the current schema, as the browser store does when it opens
+   */
+  function upgradeStoredRecords(): void {
+    for (const store of DOCUMENT_OWNER_STORES) {
+      let quarantined = 0;
+      db.transaction(() => {
+        for (const row of statements.listAllRecords.all(store)) {
+          let reason = 'The record is not an object';
+          let stored: unknown;
+          try {
+            stored = JSON.parse(row.data);
+          } catch {
+            reason = 'The record is not valid JSON';
+          }
+
+          if (stored && typeof stored === 'object' && !Array.isArray(stored)) {
+            const record = structuredClone(stored) as Record<string, unknown>;
+            const changed = migrateRecord(record, store);
+            if (getSchemaVersion(record) > SCHEMA_VERSION) continue;
+
+            const invalid = validateRecord(record, store);
+            if (!invalid) {
+              if (changed) statements.updateSession.run(JSON.stringify(record), row.organization_id, store, row.id);
+              continue;
+            }
+            reason = invalid;
+          }
+
+          statements.putQuarantine.run(
+            row.organization_id,
+            uuidv4(),
+            store,
+            row.id,
+            row.data,
+            reason,
+            new Date().toISOString()
+          );
+          statements.deleteSession.run(row.organization_id, store, row.id);
+          quarantined++;
+        }
+      })();
+
+      if (quarantined > 0) {
+        console.warn(`Quarantined ${quarantined} unreadable record(s) from ${store}`);
+      }
+    }
+  }
+
+  upgradeStoredRecords();
+
+  function forOrganization(organizationId: string): SessionRepository {
+    // ========================================================================
+    // Row helpers (call inside a transaction when combined with writes)
+    // ========================================================================
+
+    function readRecord(store: DocumentOwnerStore, sessionId: string): { record: StoredRecord; revision: number } | undefined {
+      const row = statements.getSession.get(organizationId, store, sessionId);
+      return row ? { record: JSON.parse(row.data) as StoredRecord, revision: row.revision } : undefined;
+    }
+
+    function toDocument(row: DocumentRow): StorableDocument {
+      return joinDocument(JSON.parse(row.data) as DocumentRecord, {
+        id: row.id,
+        content: row.content ?? undefined,
+        transcriptExtent: row.transcript_extent ? JSON.parse(row.transcript_extent) : undefined,
+      });
+    }
+
+    function assemble<S extends SessionWithDocuments>(record: StoredRecord, includeContent: boolean): S {
+      const rows = (includeContent ? statements.getDocuments : statements.getDocumentMetadata).all(organizationId, record.id);
+      const byId = new Map(rows.map((row) => [row.id, row]));
+      const documents = record.documentIds.flatMap((id) => {
+        const row = byId.get(id);
+        return row ? [toDocument(row)] : [];
+      });
+      return toSession(record as SessionRecord<S>, documents as S['documents']);
+    }
+
+    function readStored<S extends SessionWithDocuments>(
+      store: DocumentOwnerStore,
+      sessionId: string,
+      includeContent = true
+    ): StoredSession<S> | undefined {
+      const found = readRecord(store, sessionId);
+      return found && { session: assemble<S>(found.record, includeContent), revision: found.revision };
+    }
+
+    function checkRecord(store: DocumentOwnerStore, record: StoredRecord): void {
+      const invalid = validateRecord(record as unknown as Record<string, unknown>, store);
+      if (invalid) throw new InvalidRecordError(invalid);
+    }
+
+    function writeDocument(sessionId: string, document: StorableDocument): void {
+      const { record, content } = splitDocument(sessionId, document);
+      statements.putDocument.run(
+        organizationId,
+        document.id,
+        sessionId,
+        JSON.stringify(record),
+        content.content ?? null,
+        content.transcriptExtent ? JSON.stringify(content.transcriptExtent) : null
+      );
+    }
+
+    function writeSession(store: DocumentOwnerStore, session: SessionWithDocuments): void {
+      const record = toSessionRecord(session);
+      checkRecord(store, record);
+      statements.upsertSession.run(organizationId, store, session.id, session.createdAt, JSON.stringify(record));
+      session.documents.forEach((document) => writeDocument(session.id, document));
+    }
+
+    function saveRecord(store: DocumentOwnerStore, record: StoredRecord): void {
+      statements.updateSession.run(JSON.stringify(record), organizationId, store, record.id);
+    }
+
+    // Documents are keyed by session id alone, so look the session up in this store first:
+    // another store may hold a session with the same id
+    function deleteSessionRows(store: DocumentOwnerStore, sessionId: string): boolean {
+      if (!statements.getSession.get(organizationId, store, sessionId)) return false;
+      statements.deleteSessionDocuments.run(organizationId, sessionId);
+      return statements.deleteSession.run(organizationId, store, sessionId).changes > 0;
+    }
+
+    // ========================================================================
+    // Repository
+    // ========================================================================
+
+    return {
+      async listSessions<S extends SessionWithDocuments>(store: DocumentOwnerStore) {
+        return db.transaction(() =>
+          statements.listSessions
+            .all(organizationId, store)
+            .map((row) => assemble<S>(JSON.parse(row.data) as StoredRecord, false))
+        )();
+      },
+
+      async getSession<S extends SessionWithDocuments>(store: DocumentOwnerStore, sessionId: string, includeContent: boolean) {
+        return db.transaction(() => readStored<S>(store, sessionId, includeContent))();
+      },
+
+      async putSession(store, session) {
+        db.transaction(() => writeSession(store, session))();
+      },
+
+      async replaceSession(store, session) {
+        db.transaction(() => {
+          deleteSessionRows(store, session.id);
+          writeSession(store, session);
+        })();
+      },
+
+      async updateRecord<S extends SessionWithDocuments>(
+        store: DocumentOwnerStore,
+        sessionId: string,
+        fields: Record<string, unknown>,
+        options: { revision: number; touch: boolean }
+      ) {
+        return db.transaction(() => {
+          const found = readRecord(store, sessionId);
+          if (!found) return undefined;
+          if (found.revision !== options.revision) throw new RevisionConflictError(sessionId);
+
+          // The document list is changed only through the document methods
+          const record = {
+            ...fields,
+            id: sessionId,
+            documentIds: found.record.documentIds,
+            schemaVersion: SCHEMA_VERSION,
+          } as StoredRecord;
+          if (options.touch) touch(record);
+          checkRecord(store, record);
+          saveRecord(store, record);
+          return readStored<S>(store, sessionId);
+        })();
+      },
+
+      async insertDocument<S extends SessionWithDocuments>(store: DocumentOwnerStore, sessionId: string, document: StorableDocument) {
+        return db.transaction(() => {
+          const found = readRecord(store, sessionId);
+          if (!found) return undefined;
+
+          found.record.documentIds = [...found.record.documentIds, document.id];
+          touch(found.record);
+          saveRecord(store, found.record);
+          writeDocument(sessionId, document);
+          return readStored<S>(store, sessionId);
+        })();
+      },
+
+      async patchDocument<S extends SessionWithDocuments>(
+        store: DocumentOwnerStore,
+        sessionId: string,
+        documentId: string,
+        updates: Partial<StorableDocument>
+      ) {
+        return db.transaction(() => {
+          const found = readRecord(store, sessionId);
+          const row = statements.getDocument.get(organizationId, documentId);
+          if (!found || !row || row.session_id !== sessionId) return undefined;
+
+          touch(found.record);
+          saveRecord(store, found.record);
+          writeDocument(sessionId, { ...toDocument(row), ...updates, id: documentId });
+          return readStored<S>(store, sessionId);
+        })();
+      },
+
+      async deleteDocument<S extends SessionWithDocuments>(store: DocumentOwnerStore, sessionId: string, documentId: string) {
+        return db.transaction(() => {
+          const found = readRecord(store, sessionId);
+          if (!found) return undefined;
+
+          found.record.documentIds = found.record.documentIds.filter((id) => id !== documentId);
+          touch(found.record);
+          saveRecord(store, found.record);
+          statements.deleteDocument.run(organizationId, documentId);
+          return readStored<S>(store, sessionId);
+        })();
+      },
+
+      async findOrCreateCase(candidate) {
+        // Immediate: takes the write lock before looking, so other processes wait their turn
+        return db.transaction(() => {
+          const existing = statements.listSessions
+            .all(organizationId, 'cases')
+            .map((row) => JSON.parse(row.data) as SessionRecord<Case>)
+            .find((record) => isSameCase(record, candidate.name, candidate.caseNumber));
+          if (!existing) writeSession('cases', candidate);
+          return readStored<Case>('cases', existing?.id ?? candidate.id, false)!;
+        }).immediate();
+      },
+
+      async deleteSessions(store, sessionIds) {
+        return db.transaction(() => sessionIds.filter((id) => deleteSessionRows(store, id)).length)();
+      },
+
+      async getQuarantinedRecords() {
+        return statements.listQuarantine.all(organizationId).map(
+          (row): QuarantinedRecord => ({
+            id: row.id,
+            store: row.store,
+            recordId: row.record_id,
+            record: safeJsonParse(row.record),
+            reason: row.reason,
+            quarantinedAt: row.quarantined_at,
+          })
+        );
+      },
+
+      async discardQuarantinedRecord(id) {
+        db.transaction(() => {
+          const row = statements.getQuarantine.get(organizationId, id);
+          if (!row) return;
+          statements.deleteSessionDocuments.run(organizationId, row.record_id);
+          statements.deleteQuarantine.run(organizationId, id);
+        })();
+      },
+    };
+  }
+
+  return {
+    name: 'sqlite',
+    forOrganization,
+
+    async estimateSize() {
+      const pageCount = db.pragma('page_count', { simple: true }) as number;
+      const pageSize = db.pragma('page_size', { simple: true }) as number;
+      return pageCount * pageSize;
+    },
+  };
+}
+
+// Unparseable records are quarantined as the raw text
+function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,92 @@
+// Server-side session persistence
+// A repository stores one organization's sessions, cases and their documents in the same
+// record layout as the browser's IndexedDB store (see lib/storage/records), so the client storage API
+// works unchanged against either.
+
+import type {
+  DocumentOwnerStore,
+  QuarantinedRecord,
+  SessionWithDocuments,
+  StorableDocument,
+} from '@/lib/storage/records';
+import type { Case } from '@/lib/types/case';
+
+/** A session with the revision it was read at; every write to the session bumps it */
+export interface StoredSession<S extends SessionWithDocuments = SessionWithDocuments> {
+  session: S;
+  revision: number;
+}
+
+/** A server database holding the sessions of every organization */
+export interface SessionBackend {
+  name: string;
+  /** The sessions of one organization; no other organization's rows are visible through it */
+  forOrganization(organizationId: string): SessionRepository;
+  /** Bytes used by the database */
+  estimateSize(): Promise<number>;
+}
+
+export interface SessionRepository {
+  /** Every session in a store, newest first, without document text */
+  listSessions<S extends SessionWithDocuments>(store: DocumentOwnerStore): Promise<S[]>;
+  getSession<S extends SessionWithDocuments>(
+    store: DocumentOwnerStore,
+    sessionId: string,
+    includeContent: boolean
+  ): Promise<StoredSession<S> | undefined>;
+  putSession(store: DocumentOwnerStore, session: SessionWithDocuments): Promise<void>;
+  /** Write a session in place of the one with the same id, removing the old session's documents */
+  replaceSession(store: DocumentOwnerStore, session: SessionWithDocuments): Promise<void>;
+  /**
+   * Replace a session's fields (not its documents). Throws RevisionConflictError when
+   * the session changed since `revision` was read. Writes throw InvalidRecordError when
+   * the session does not match the current schema.
+   */
+  updateRecord<S extends SessionWithDocuments>(
+    store: DocumentOwnerStore,
+    sessionId: string,
+    record: Record<string, unknown>,
+    options: { revision: number; touch: boolean }
+  ): Promise<StoredSession<S> | undefined>;
+  insertDocument<S extends SessionWithDocuments>(
+    store: DocumentOwnerStore,
+    sessionId: string,
+    document: StorableDocument
+  ): Promise<StoredSession<S> | undefined>;
+  patchDocument<S extends SessionWithDocuments>(
+    store: DocumentOwnerStore,
+    sessionId: string,
+    documentId: string,
+    updates: Partial<StorableDocument>
+  ): Promise<StoredSession<S> | undefined>;
+  deleteDocument<S extends SessionWithDocuments>(
+    store: DocumentOwnerStore,
+    sessionId: string,
+    documentId: string
+  ): Promise<StoredSession<S> | undefined>;
+  /**
+   * The case with the candidate's name and case number (see isSameCase in
+   * lib/storage/records), or the candidate saved when there is none, in one transaction
+   */
+  findOrCreateCase(candidate: Case): Promise<StoredSession<Case>>;
+  /** Resolves to the number of sessions deleted */
+  deleteSessions(store: DocumentOwnerStore, sessionIds: string[]): Promise<number>;
+  getQuarantinedRecords(): Promise<QuarantinedRecord[]>;
+  discardQuarantinedRecord(id: string): Promise<void>;
+}
+
+/** The session was changed by someone else after it was read */
+export class RevisionConflictError extends Error {
+  constructor(sessionId: string) {
+    super(`Session ${sessionId} was changed by another request`);
+    this.name = 'RevisionConflictError';
+  }
+}
+
+/** The session does not match the current schema (see lib/storage/migrations) */
+export class InvalidRecordError extends Error {
+  constructor(reason: string) {
+    super(`Invalid session: ${reason}`);
+    this.name = 'InvalidRecordError';
+  }
+}
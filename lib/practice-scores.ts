@@ -0,0 +1,86 @@
+// Practice answer scores: averages per rubric category, per session and per practice run
+// Answers with templated feedback carry no scores and are left out of every average.
+
+import type { AnswerScores, PracticeExchange, PracticeSession, ScoreCategory } from '@/lib/types/testimony';
+import { SCORE_CATEGORIES } from '@/lib/types/testimony';
+
+export const SCORE_CATEGORY_KEYS = Object.keys(SCORE_CATEGORIES) as ScoreCategory[];
+
+export interface ScoreSummary {
+  /** Average per category; null when no answer was scored */
+  categories: Record<ScoreCategory, number | null>;
+  /** Average over the categories */
+  overall: number | null;
+  scoredAnswers: number;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * The overall score of one answer
+ */
+export function overallScore(scores: AnswerScores): number {
+  return average(SCORE_CATEGORY_KEYS.map((category) => scores[category]))!;
+}
+
+export function summarizeScores(exchanges: PracticeExchange[]): ScoreSummary {
+  const scored = exchanges.map((exchange) => exchange.scores).filter((scores): scores is AnswerScores => !!scores);
+  const categories = Object.fromEntries(
+    SCORE_CATEGORY_KEYS.map((category) => [category, average(scored.map((scores) => scores[category]))])
+  ) as Record<ScoreCategory, number | null>;
+
+  return {
+    categories,
+    overall: average(scored.map(overallScore)),
+    scoredAnswers: scored.length,
+  };
+}
+
+/** One pass through practice mode and how it scored */
+export interface PracticeRun {
+  id: string;
+  sessionId: string;
+  /** When the first answer of the run was given */
+  startedAt: string;
+  answers: number;
+  summary: ScoreSummary;
+}
+
+/**
+ * Whether two sessions prepare the same witness: the same roster entry in the same
+ * case, or for sessions filed without one, the same witness and case name
+ */
+export function isSameWitness(a: PracticeSession, b: PracticeSession): boolean {
+  if (a.caseId && b.caseId && a.witnessId && b.witnessId) {
+    return a.caseId === b.caseId && a.witnessId === b.witnessId;
+  }
+  const normalize = (value: string) => value.trim().toLowerCase();
+  return normalize(a.witnessName) === normalize(b.witnessName) && normalize(a.caseName) === normalize(b.caseName);
+}
+
+/**
+ * The practice runs in these sessions, oldest first. Answers saved before runs were
+ * tracked count as one run per session.
+ */
+export function toPracticeRuns(sessions: PracticeSession[]): PracticeRun[] {
+  const runs: PracticeRun[] = [];
+  for (const session of sessions) {
+    const byRun = new Map<string, PracticeExchange[]>();
+    for (const exchange of session.practiceHistory) {
+      const runId = exchange.runId ?? session.id;
+      byRun.set(runId, [...(byRun.get(runId) ?? []), exchange]);
+    }
+    for (const [id, exchanges] of byRun) {
+      runs.push({
+        id,
+        sessionId: session.id,
+        startedAt: exchanges[0].timestamp,
+        answers: exchanges.length,
+        summary: summarizeScores(exchanges),
+      });
+    }
+  }
+  return runs.sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+}
@@ -0,0 +1,165 @@
+/**
+ * NDJSON streaming for question generation.
+ * The generate-questions routes send one JSON event per line: progress updates,
+ * each question as the model produces it, and finally the complete result.
+ * Used on the server to build the response and in the prep tools to consume it.
+ */
+
+export type GenerationEvent<TQuestion, TResult> =
+  | { type: 'status'; message: string }
+  | { type: 'question'; question: TQuestion }
+  | { type: 'done'; result: TResult }
+  | { type: 'error'; error: string; status?: number };
+
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+// ============================================================================
+// Server
+// ============================================================================
+
+/**
+ * Build a streaming NDJSON response. `run` sends events until it resolves;
+ * a thrown error is sent as a final 'error' event.
+ */
+export function createGenerationStream<TQuestion, TResult>(
+  run: (send: (event: GenerationEvent<TQuestion, TResult>) => void) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = (event: GenerationEvent<TQuestion, TResult>) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        } catch {
+          // Client went away
+          closed = true;
+        }
+      };
+
+      try {
+        await run(send);
+      } catch (error) {
+        console.error('Error streaming generation:', error);
+        send({ type: 'error', error: 'Failed to generate questions' });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': NDJSON_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/** The server rejected the signed-in user's API key (HTTP 401); they need to sign in again */
+export class UnauthorizedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/** A rate limit or monthly budget stopped the request (HTTP 429); the message says when to retry */
+export class UsageLimitError extends Error {
+  constructor(
+    message: string,
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'UsageLimitError';
+  }
+}
+
+/**
+ * The error for a failed LLM route response: UnauthorizedError (401), UsageLimitError (429)
+ * or a plain Error with the server's message
+ */
+export function toRequestError(status: number, data: { error?: string; retryAfter?: number }, fallback: string): Error {
+  if (status === 401) return new UnauthorizedError(data.error || 'Please sign in again');
+  if (status === 429) return new UsageLimitError(data.error || 'Usage limit reached. Please try again later.', data.retryAfter);
+  return new Error(data.error || fallback);
+}
+
+export interface StreamGenerationOptions<TQuestion> {
+  signal?: AbortSignal;
+  onQuestion?: (question: TQuestion) => void;
+  onStatus?: (message: string) => void;
+}
+
+/**
+ * POST to a generate-questions route in streaming mode and resolve with the final result.
+ * Rejects with an AbortError when the signal fires, an UnauthorizedError when the API key is rejected,
+ * and a UsageLimitError when a rate limit or budget is reached.
+ */
+export async function streamGeneration<TQuestion, TResult>(
+  url: string,
+  body: Record<string, unknown>,
+  options: StreamGenerationOptions<TQuestion> = {}
+): Promise<TResult> {
+  const { signal, onQuestion, onStatus } = options;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: NDJSON_CONTENT_TYPE },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw toRequestError(response.status, data, 'Failed to generate questions');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: TResult | undefined;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const event = JSON.parse(line) as GenerationEvent<TQuestion, TResult>;
+    switch (event.type) {
+      case 'status':
+        onStatus?.(event.message);
+        break;
+      case 'question':
+        onQuestion?.(event.question);
+        break;
+      case 'done':
+        result = event.result;
+        break;
+      case 'error':
+        throw event.status === 401 ? new UnauthorizedError(event.error) : new Error(event.error);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+
+  if (result === undefined) {
+    throw new Error('Question generation ended unexpectedly');
+  }
+  return result;
+}
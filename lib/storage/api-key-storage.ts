@@ -1,39 +1,64 @@
 /**
  * API Key Storage
  *
- * Manages Case.dev API key storage in localStorage.
- * The API key is used for all Case.dev API calls including LLM and Vault operations.
+ * The Case.dev API key itself lives in an encrypted httpOnly cookie set by
+ * /api/verify-key, out of reach of page scripts. localStorage only keeps a masked
+ * hint (e.g. "sk_case_…a1b2") so the UI knows the user has signed in.
  */
 
-const API_KEY_STORAGE_KEY = "wtp_case_api_key_v1";
+const API_KEY_STORAGE_KEY = "wtp_case_api_key_v2";
+
+// Earlier versions stored the raw key here
+const LEGACY_API_KEY_STORAGE_KEY = "wtp_case_api_key_v1";
+
+/**
+ * Mask an API key for display, keeping the prefix and last four characters
+ */
+export function maskApiKey(apiKey: string): string {
+  return `sk_case_…${apiKey.slice(-4)}`;
+}
 
 /**
- * Store API key in localStorage
+ * Record a verified API key (only its masked hint is stored)
  */
 export function setApiKey(apiKey: string): void {
   if (typeof window === "undefined") return;
-  localStorage.setItem(API_KEY_STORAGE_KEY, apiKey);
+  localStorage.removeItem(LEGACY_API_KEY_STORAGE_KEY);
+  localStorage.setItem(API_KEY_STORAGE_KEY, maskApiKey(apiKey));
 }
 
 /**
- * Get API key from localStorage
+ * Get the masked hint of the signed-in user's API key
  */
-export function getApiKey(): string | null {
+export function getApiKeyHint(): string | null {
   if (typeof window === "undefined") return null;
   return localStorage.getItem(API_KEY_STORAGE_KEY);
 }
 
 /**
- * Remove API key from localStorage (logout)
+ * Remove the API key hint from localStorage (logout)
  */
 export function clearApiKey(): void {
   if (typeof window === "undefined") return;
   localStorage.removeItem(API_KEY_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_API_KEY_STORAGE_KEY);
 }
 
 /**
- * Check if user is authenticated (has API key)
+ * Check if user is authenticated (has verified an API key).
+ * A raw key left by an earlier version is discarded: the user signs in again so the
+ * server can set the session cookie.
  */
 export function isAuthenticated(): boolean {
-  return !!getApiKey();
+  if (typeof window === "undefined") return false;
+  localStorage.removeItem(LEGACY_API_KEY_STORAGE_KEY);
+  return !!getApiKeyHint();
+}
+
+/**
+ * Send the user back to sign in after the server rejected their API key (HTTP 401)
+ */
+export function redirectToLogin(): void {
+  clearApiKey();
+  window.location.assign("/login");
 }
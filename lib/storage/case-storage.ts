@@ -0,0 +1,230 @@
+// Storage for cases (matters), in IndexedDB or the server backend
+// A case's document library is stored like a session's documents (see ./db); sessions
+// link to their case through caseId and witnessId.
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Case, CaseDocument, CaseWitness } from '@/lib/types/case';
+import type { PracticeSession } from '@/lib/types/testimony';
+import type { DepositionSession } from '@/lib/types/deposition';
+import {
+  deleteDocument,
+  deleteSessions,
+  findOrCreateCase,
+  insertDocument,
+  isStorageAvailable,
+  putSession,
+  readAllSessions,
+  readSession,
+  updateSessionRecord,
+  usesServerStorage,
+} from './db';
+import { SCHEMA_VERSION } from './migrations';
+
+const STORE = 'cases';
+
+// The schema version sessions were last linked at, per storage location (see ensureSessionsLinked)
+const LINKED_VERSION_KEY = 'wtp_sessions_linked_v1';
+
+function normalize(value: string | undefined): string {
+  return (value ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// ============================================================================
+// Linking sessions
+// ============================================================================
+
+let linkPromise: Promise<void> | null = null;
+
+function linkedVersionKey(): string {
+  return `${LINKED_VERSION_KEY}:${usesServerStorage() ? 'server' : 'browser'}`;
+}
+
+/**
+ * File sessions saved before cases existed under a case matching their case name.
+ * Runs before anything that lists or matches cases, once per schema version: sessions
+ * saved since are filed when they are created or imported.
+ */
+function ensureSessionsLinked(): Promise<void> {
+  if (!linkPromise) {
+    const key = linkedVersionKey();
+    if (Number(localStorage.getItem(key)) >= SCHEMA_VERSION) {
+      linkPromise = Promise.resolve();
+      return linkPromise;
+    }
+    linkPromise = linkUnfiledSessions()
+      .then(() => localStorage.setItem(key, String(SCHEMA_VERSION)))
+      .catch((error) => {
+        linkPromise = null;
+        console.error('Failed to link sessions to cases:', error);
+      });
+  }
+  return linkPromise;
+}
+
+async function linkUnfiledSessions(): Promise<void> {
+  const [testimony, deposition] = await Promise.all([
+    readAllSessions<PracticeSession>('testimonySessions'),
+    readAllSessions<DepositionSession>('depositionSessions'),
+  ]);
+
+  // Oldest first, so each case is named after its earliest session
+  for (const session of testimony.filter((s) => !s.caseId).reverse()) {
+    const link = await fileUnderCase(session.caseName, session.witnessName);
+    await updateSessionRecord<PracticeSession>('testimonySessions', session.id, (s) => {
+      Object.assign(s, link);
+    }, { touch: false });
+  }
+  for (const session of deposition.filter((s) => !s.caseId).reverse()) {
+    const link = await fileUnderCase(session.caseName, session.deponentName, session.caseNumber);
+    await updateSessionRecord<DepositionSession>('depositionSessions', session.id, (s) => {
+      Object.assign(s, link);
+    }, { touch: false });
+  }
+}
+
+async function fileUnderCase(
+  caseName: string,
+  witnessName: string,
+  caseNumber?: string
+): Promise<{ caseId: string; witnessId: string }> {
+  const caseFile = await findOrCreateCase(newCase(caseName, caseNumber));
+
+  let witnessId = '';
+  await updateSessionRecord<Case>(STORE, caseFile.id, (record) => {
+    witnessId = findOrAddWitness(record, witnessName).id;
+    if (!record.caseNumber && caseNumber) record.caseNumber = caseNumber;
+  });
+  return { caseId: caseFile.id, witnessId };
+}
+
+function findOrAddWitness(caseFile: Omit<Case, 'documents'>, name: string, role?: string): CaseWitness {
+  const existing = caseFile.witnesses.find((w) => normalize(w.name) === normalize(name));
+  if (existing) return existing;
+
+  const witness: CaseWitness = { id: uuidv4(), name: name.trim(), role, addedAt: new Date().toISOString() };
+  caseFile.witnesses.push(witness);
+  return witness;
+}
+
+/**
+ * The case a new session belongs to (created when no case has this name) and the
+ * session's entry in its witness roster
+ */
+export async function linkSessionToCase(
+  caseName: string,
+  witnessName: string,
+  caseNumber?: string
+): Promise<{ caseId: string; witnessId: string }> {
+  await ensureSessionsLinked();
+  return fileUnderCase(caseName, witnessName, caseNumber);
+}
+
+// ============================================================================
+// Cases
+// ============================================================================
+
+function newCase(name: string, caseNumber?: string): Case {
+  const now = new Date().toISOString();
+  return {
+    id: uuidv4(),
+    name: name.trim(),
+    caseNumber: caseNumber?.trim() || undefined,
+    createdAt: now,
+    updatedAt: now,
+    documents: [],
+    witnesses: [],
+  };
+}
+
+export async function createCase(name: string, caseNumber?: string): Promise<Case> {
+  const caseFile = newCase(name, caseNumber);
+  await putSession(STORE, caseFile);
+  return caseFile;
+}
+
+export async function getCase(caseId: string): Promise<Case | undefined> {
+  if (!isStorageAvailable()) return undefined;
+  return readSession<Case>(STORE, caseId);
+}
+
+// Newest first; documents are listed without their text (use getCase for that)
+export async function getAllCases(): Promise<Case[]> {
+  if (!isStorageAvailable()) return [];
+  await ensureSessionsLinked();
+  return readAllSessions<Case>(STORE);
+}
+
+export async function updateCase(
+  caseId: string,
+  updates: Partial<Omit<Case, 'id' | 'documents' | 'witnesses'>>
+): Promise<Case | undefined> {
+  return updateSessionRecord<Case>(STORE, caseId, (caseFile) => {
+    Object.assign(caseFile, updates);
+  });
+}
+
+export async function addCaseWitness(caseId: string, name: string, role?: string): Promise<Case | undefined> {
+  return updateSessionRecord<Case>(STORE, caseId, (caseFile) => {
+    findOrAddWitness(caseFile, name, role);
+  });
+}
+
+/**
+ * Remove a witness from the roster; their sessions stay in the case
+ */
+export async function removeCaseWitness(caseId: string, witnessId: string): Promise<Case | undefined> {
+  return updateSessionRecord<Case>(STORE, caseId, (caseFile) => {
+    const witnesses = caseFile.witnesses.filter((w) => w.id !== witnessId);
+    if (witnesses.length === caseFile.witnesses.length) return false;
+    caseFile.witnesses = witnesses;
+  });
+}
+
+export async function addCaseDocument(caseId: string, document: CaseDocument): Promise<Case | undefined> {
+  return insertDocument<Case>(STORE, caseId, document);
+}
+
+/**
+ * Remove a document from the case library; copies already attached to sessions are kept
+ */
+export async function removeCaseDocument(caseId: string, documentId: string): Promise<Case | undefined> {
+  return deleteDocument<Case>(STORE, caseId, documentId);
+}
+
+/**
+ * Every testimony and deposition session in a case, newest first
+ */
+export async function getCaseSessions(
+  caseId: string
+): Promise<{ testimony: PracticeSession[]; deposition: DepositionSession[] }> {
+  if (!isStorageAvailable()) return { testimony: [], deposition: [] };
+  await ensureSessionsLinked();
+
+  const [testimony, deposition] = await Promise.all([
+    readAllSessions<PracticeSession>('testimonySessions'),
+    readAllSessions<DepositionSession>('depositionSessions'),
+  ]);
+  return {
+    testimony: testimony.filter((s) => s.caseId === caseId),
+    deposition: deposition.filter((s) => s.caseId === caseId),
+  };
+}
+
+/**
+ * Delete a case and its document library. Its sessions are kept and unlinked.
+ */
+export async function deleteCase(caseId: string): Promise<boolean> {
+  const { testimony, deposition } = await getCaseSessions(caseId);
+  const unlink = (session: { caseId?: string; witnessId?: string }) => {
+    delete session.caseId;
+    delete session.witnessId;
+  };
+
+  for (const session of testimony) {
+    await updateSessionRecord<PracticeSession>('testimonySessions', session.id, unlink, { touch: false });
+  }
+  for (const session of deposition) {
+    await updateSessionRecord<DepositionSession>('depositionSessions', session.id, unlink, { touch: false });
+  }
+  return (await deleteSessions(STORE, [caseId])) > 0;
+}
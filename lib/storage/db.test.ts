@@ -0,0 +1,174 @@
+// @vitest-environment jsdom
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SCHEMA_VERSION } from './migrations';
+
+type DB = typeof import('./db');
+
+const createdAt = '2025-01-02T03:04:05.000Z';
+
+// A fresh copy of ./db, which opens (and upgrades) the database on first use
+async function loadDb(): Promise<DB> {
+  vi.resetModules();
+  return import('./db');
+}
+
+// Write records as an earlier (or later) version of the app left them
+async function seedRecords(store: string, records: object[]): Promise<void> {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open('wtp');
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  const tx = db.transaction(store, 'readwrite');
+  records.forEach((record) => tx.objectStore(store).put(record));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  db.close();
+}
+
+beforeEach(() => {
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  localStorage.clear();
+  vi.spyOn(console, 'info').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('upgrading stored records', () => {
+  it('migrates records written before schema versions and keeps them readable', async () => {
+    // Create the database, then leave an unversioned case behind as the first release did
+    await (await loadDb()).listSessionIds('cases');
+    await seedRecords('cases', [{ id: 'c1', name: 'Acme v. Widget', createdAt, documentIds: [] }]);
+
+    const db = await loadDb();
+    const stored = await db.readSession<{ id: string; createdAt: string; documents: []; witnesses: unknown[] }>(
+      'cases',
+      'c1'
+    );
+    expect(stored?.witnesses).toEqual([]);
+    expect(await db.getQuarantinedRecords()).toEqual([]);
+  });
+
+  it('quarantines records that do not match the schema after migrating', async () => {
+    await (await loadDb()).listSessionIds('testimonySessions');
+    await seedRecords('testimonySessions', [
+      { id: 'good', witnessName: 'Dana', caseName: 'Acme', createdAt, documentIds: [] },
+      { id: 'bad', caseName: 'Acme', createdAt, documentIds: [] },
+    ]);
+
+    const db = await loadDb();
+    expect(await db.listSessionIds('testimonySessions')).toEqual(['good']);
+
+    const [entry] = await db.getQuarantinedRecords();
+    expect(entry).toMatchObject({ store: 'testimonySessions', recordId: 'bad' });
+    expect(entry.reason).toContain('witnessName');
+    // Kept as it was stored, before migration
+    expect(entry.record).toEqual({ id: 'bad', caseName: 'Acme', createdAt, documentIds: [] });
+  });
+
+  it('quarantines records that are not objects', async () => {
+    await (await loadDb()).listSessionIds('cases');
+    // The store keys records by id, so the corrupt record is an array that carries one
+    await seedRecords('cases', [Object.assign(['corrupt'], { id: 'c1' })]);
+
+    const db = await loadDb();
+    expect(await db.listSessionIds('cases')).toEqual([]);
+    const [entry] = await db.getQuarantinedRecords();
+    expect(entry).toMatchObject({ store: 'cases', recordId: 'c1', reason: 'The record is not an object' });
+  });
+
+  it('skips records written by a newer version of the app', async () => {
+    await (await loadDb()).listSessionIds('cases');
+    // Missing `name`, which a later version might have renamed
+    await seedRecords('cases', [{ id: 'c1', title: 'Acme', createdAt, documentIds: [], schemaVersion: SCHEMA_VERSION + 1 }]);
+
+    const db = await loadDb();
+    expect(await db.listSessionIds('cases')).toEqual(['c1']);
+    expect(await db.getQuarantinedRecords()).toEqual([]);
+  });
+});
+
+describe('findOrCreateCase', () => {
+  it('creates a case once when sessions are filed under it at the same time', async () => {
+    const db = await loadDb();
+    const candidate = (id: string) => ({ id, name: 'Acme v. Widget', createdAt, witnesses: [], documents: [] });
+
+    const [first, second] = await Promise.all([db.findOrCreateCase(candidate('c1')), db.findOrCreateCase(candidate('c2'))]);
+    expect(second.id).toBe(first.id);
+    expect(await db.listSessionIds('cases')).toEqual([first.id]);
+  });
+});
+
+describe('importing localStorage sessions', () => {
+  it('moves legacy sessions into IndexedDB and removes the old key', async () => {
+    localStorage.setItem(
+      'wtp_testimony_sessions_v1',
+      JSON.stringify({
+        t1: {
+          id: 't1',
+          witnessName: 'Dana',
+          caseName: 'Acme',
+          createdAt,
+          documents: [
+            { id: 'doc1', name: 'memo.txt', type: 'text/plain', size: 5, uploadedAt: createdAt, status: 'ready', content: 'hello' },
+          ],
+        },
+      })
+    );
+
+    const db = await loadDb();
+    const session = await db.readSession<{
+      id: string;
+      createdAt: string;
+      updatedAt?: string;
+      practiceHistory: unknown[];
+      documents: { id: string; content?: string }[];
+    }>('testimonySessions', 't1');
+
+    expect(session).toMatchObject({ id: 't1', updatedAt: createdAt, practiceHistory: [] });
+    expect(session?.documents).toEqual([expect.objectContaining({ id: 'doc1', content: 'hello' })]);
+    expect(localStorage.getItem('wtp_testimony_sessions_v1')).toBeNull();
+  });
+
+  it('keeps sessions already in IndexedDB', async () => {
+    const first = await loadDb();
+    await first.putSession('testimonySessions', {
+      id: 't1',
+      witnessName: 'Current',
+      caseName: 'Acme',
+      createdAt,
+      questions: [],
+      practiceHistory: [],
+      totalDuration: 0,
+      status: 'ready',
+      documents: [],
+    });
+    localStorage.setItem(
+      'wtp_testimony_sessions_v1',
+      JSON.stringify({ t1: { id: 't1', witnessName: 'Legacy', caseName: 'Acme', createdAt, documents: [] } })
+    );
+
+    const db = await loadDb();
+    const session = await db.readSession<{ id: string; createdAt: string; witnessName: string; documents: [] }>(
+      'testimonySessions',
+      't1'
+    );
+    expect(session?.witnessName).toBe('Current');
+  });
+
+  it('leaves a key that does not parse in place', async () => {
+    localStorage.setItem('wtp_deposition_sessions_v1', '{not json');
+
+    const db = await loadDb();
+    expect(await db.listSessionIds('depositionSessions')).toEqual([]);
+    expect(localStorage.getItem('wtp_deposition_sessions_v1')).toBe('{not json');
+  });
+});
@@ -0,0 +1,608 @@
+// IndexedDB persistence for testimony and deposition sessions and the cases they belong to
+// Sessions, document records and document text live in separate object stores, so each
+// change reads and writes only the records it touches instead of one localStorage blob.
+// When a server backend is configured (SESSION_STORAGE) the session API below forwards
+// to it instead (see ./remote-db). Recorded practice answers always stay in IndexedDB.
+
+import { v4 as uuidv4 } from 'uuid';
+import { SCHEMA_VERSION, getSchemaVersion, migrateRecord, validateRecord } from './migrations';
+import type { Case } from '@/lib/types/case';
+import {
+  DOCUMENT_OWNER_STORES,
+  isSameCase,
+  joinDocument,
+  splitDocument,
+  toSession,
+  toSessionRecord,
+  touch,
+} from './records';
+import type {
+  DocumentContentRecord,
+  DocumentOwnerStore,
+  DocumentRecord,
+  QuarantinedRecord,
+  RecordingRecord,
+  SessionRecord,
+  SessionStoreName,
+  SessionWithDocuments,
+  StorableDocument,
+} from './records';
+import * as remote from './remote-db';
+
+export type {
+  DocumentOwnerStore,
+  QuarantinedRecord,
+  RecordingRecord,
+  SessionStoreName,
+  SessionWithDocuments,
+  StorableDocument,
+} from './records';
+
+const DB_NAME = 'wtp';
+const DB_VERSION = 4;
+
+const DOCUMENTS_STORE = 'documents';
+const DOCUMENT_CONTENTS_STORE = 'documentContents';
+const QUARANTINE_STORE = 'quarantine';
+const RECORDINGS_STORE = 'recordings';
+
+// localStorage keys that held every session as one JSON object before IndexedDB
+const LEGACY_STORAGE_KEYS: Record<SessionStoreName, string> = {
+  testimonySessions: 'wtp_testimony_sessions_v1',
+  depositionSessions: 'wtp_deposition_sessions_v1',
+};
+
+// ============================================================================
+// Connection
+// ============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof window !== 'undefined' && typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Whether sessions are kept by the server backend (lib/persistence) instead of IndexedDB
+ */
+export function usesServerStorage(): boolean {
+  const backend = process.env.NEXT_PUBLIC_SESSION_STORAGE;
+  return !!backend && backend !== 'browser';
+}
+
+/**
+ * Whether saved sessions can be read here (false during server rendering)
+ */
+export function isStorageAvailable(): boolean {
+  return usesServerStorage() ? typeof window !== 'undefined' : isIndexedDBAvailable();
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDBAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore('testimonySessions', { keyPath: 'id' });
+          db.createObjectStore('depositionSessions', { keyPath: 'id' });
+          const documents = db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+          documents.createIndex('sessionId', 'sessionId');
+          db.createObjectStore(DOCUMENT_CONTENTS_STORE, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore('cases', { keyPath: 'id' });
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 4) {
+          const recordings = db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+          recordings.createIndex('sessionId', 'sessionId');
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema: close so its upgrade is not blocked
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    })
+      .then(async (db) => {
+        await migrateLegacyStorage(db);
+        await upgradeStoredRecords(db);
+        return db;
+      })
+      .catch((error) => {
+        dbPromise = null;
+        throw error;
+      });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Run `fn` in one transaction over the session, document and content stores.
+ * Only IndexedDB requests may be awaited inside `fn`, or the transaction commits early.
+ */
+async function runTransaction<T>(
+  store: DocumentOwnerStore,
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T>,
+  db?: IDBDatabase
+): Promise<T> {
+  const database = db ?? (await openDatabase());
+  const tx = database.transaction([store, DOCUMENTS_STORE, DOCUMENT_CONTENTS_STORE], mode);
+  const done = transactionDone(tx);
+
+  try {
+    const result = await fn(tx);
+    await done;
+    return result;
+  } catch (error) {
+    try {
+      tx.abort();
+    } catch {
+      // Already finished
+    }
+    done.catch(() => {});
+    throw error;
+  }
+}
+
+// ============================================================================
+// Record helpers
+// ============================================================================
+
+async function assembleSession<S extends SessionWithDocuments>(
+  tx: IDBTransaction,
+  record: SessionRecord<S>,
+  includeContent: boolean
+): Promise<S> {
+  const documentStore = tx.objectStore(DOCUMENTS_STORE);
+  const contentStore = tx.objectStore(DOCUMENT_CONTENTS_STORE);
+
+  const documents: S['documents'] = [];
+  for (const id of record.documentIds) {
+    const document = await requestToPromise<DocumentRecord | undefined>(documentStore.get(id));
+    if (!document) continue;
+    const content = includeContent
+      ? await requestToPromise<DocumentContentRecord | undefined>(contentStore.get(id))
+      : undefined;
+    documents.push(joinDocument(document, content));
+  }
+
+  return toSession(record, documents);
+}
+
+async function putSessionWithDocuments<S extends SessionWithDocuments>(
+  tx: IDBTransaction,
+  store: DocumentOwnerStore,
+  session: S
+): Promise<void> {
+  tx.objectStore(store).put(toSessionRecord(session));
+  for (const document of session.documents) {
+    const { record, content } = splitDocument(session.id, document);
+    tx.objectStore(DOCUMENTS_STORE).put(record);
+    tx.objectStore(DOCUMENT_CONTENTS_STORE).put(content);
+  }
+}
+
+async function deleteSessionRecords(tx: IDBTransaction, store: DocumentOwnerStore, sessionId: string): Promise<void> {
+  const documentIds = await requestToPromise<IDBValidKey[]>(
+    tx.objectStore(DOCUMENTS_STORE).index('sessionId').getAllKeys(sessionId)
+  );
+  for (const id of documentIds) {
+    tx.objectStore(DOCUMENTS_STORE).delete(id);
+    tx.objectStore(DOCUMENT_CONTENTS_STORE).delete(id);
+  }
+  tx.objectStore(store).delete(sessionId);
+}
+
+// ============================================================================
+// Session API (used by session-storage, deposition-storage and case-storage)
+// ============================================================================
+
+export async function putSession<S extends SessionWithDocuments>(store: DocumentOwnerStore, session: S): Promise<void> {
+  if (usesServerStorage()) return remote.putSession(store, session);
+  await runTransaction(store, 'readwrite', (tx) => putSessionWithDocuments(tx, store, session));
+}
+
+/**
+ * Write a session in place of the one with the same id, removing the old session's documents
+ */
+export async function replaceSession<S extends SessionWithDocuments>(store: DocumentOwnerStore, session: S): Promise<void> {
+  if (usesServerStorage()) return remote.replaceSession(store, session);
+  await runTransaction(store, 'readwrite', async (tx) => {
+    await deleteSessionRecords(tx, store, session.id);
+    await putSessionWithDocuments(tx, store, session);
+  });
+}
+
+/**
+ * Read a session with its documents (and their text unless includeContent is false)
+ */
+export async function readSession<S extends SessionWithDocuments>(
+  store: DocumentOwnerStore,
+  sessionId: string,
+  includeContent = true
+): Promise<S | undefined> {
+  if (usesServerStorage()) return remote.readSession<S>(store, sessionId, includeContent);
+  return runTransaction(store, 'readonly', async (tx) => {
+    const record = await requestToPromise<SessionRecord<S> | undefined>(tx.objectStore(store).get(sessionId));
+    return record ? assembleSession<S>(tx, record, includeContent) : undefined;
+  });
+}
+
+/**
+ * Every session in a store, newest first. Document text is not loaded.
+ */
+export async function readAllSessions<S extends SessionWithDocuments>(store: DocumentOwnerStore): Promise<S[]> {
+  if (usesServerStorage()) return remote.readAllSessions<S>(store);
+  return runTransaction(store, 'readonly', async (tx) => {
+    const records = await requestToPromise<SessionRecord<S>[]>(tx.objectStore(store).getAll());
+    const sessions: S[] = [];
+    for (const record of records) {
+      sessions.push(await assembleSession<S>(tx, record, false));
+    }
+    return sessions.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  });
+}
+
+/**
+ * Apply a change to a session record (not its documents) and return the whole session.
+ * `mutate` returns false to leave the session unchanged and resolve undefined.
+ * Bookkeeping changes pass `touch: false` so they do not count towards retention.
+ */
+export async function updateSessionRecord<S extends SessionWithDocuments>(
+  store: DocumentOwnerStore,
+  sessionId: string,
+  mutate: (session: Omit<S, 'documents'>) => boolean | void,
+  { touch: touchRecord = true }: { touch?: boolean } = {}
+): Promise<S | undefined> {
+  if (usesServerStorage()) return remote.updateSessionRecord<S>(store, sessionId, mutate, { touch: touchRecord });
+  return runTransaction(store, 'readwrite', async (tx) => {
+    const record = await requestToPromise<SessionRecord<S> | undefined>(tx.objectStore(store).get(sessionId));
+    if (!record || mutate(record) === false) return undefined;
+    if (touchRecord) touch(record);
+    tx.objectStore(store).put(record);
+    return assembleSession<S>(tx, record, true);
+  });
+}
+
+/**
+ * The case with the candidate's name and case number, or the candidate saved when there
+ * is none. Looked up and saved in one transaction, so sessions filed at the same time
+ * (in two tabs, or by two members with server storage) do not create the case twice.
+ */
+export async function findOrCreateCase(candidate: Case): Promise<Case> {
+  if (usesServerStorage()) return remote.findOrCreateCase(candidate);
+  return runTransaction('cases', 'readwrite', async (tx) => {
+    const records = await requestToPromise<SessionRecord<Case>[]>(tx.objectStore('cases').getAll());
+    const existing = records.find((record) => isSameCase(record, candidate.name, candidate.caseNumber));
+    if (existing) return assembleSession<Case>(tx, existing, false);
+    await putSessionWithDocuments(tx, 'cases', candidate);
+    return candidate;
+  });
+}
+
+/**
+ * Append a document to a session
+ */
+export async function insertDocument<S extends SessionWithDocuments>(
+  store: DocumentOwnerStore,
+  sessionId: string,
+  document: S['documents'][number]
+): Promise<S | undefined> {
+  if (usesServerStorage()) return remote.insertDocument<S>(store, sessionId, document);
+  return runTransaction(store, 'readwrite', async (tx) => {
+    const record = await requestToPromise<SessionRecord<S> | undefined>(tx.objectStore(store).get(sessionId));
+    if (!record) return undefined;
+
+    const { record: documentRecord, content } = splitDocument(sessionId, document);
+    record.documentIds = [...record.documentIds, document.id];
+    touch(record);
+    tx.objectStore(store).put(record);
+    tx.objectStore(DOCUMENTS_STORE).put(documentRecord);
+    tx.objectStore(DOCUMENT_CONTENTS_STORE).put(content);
+    return assembleSession<S>(tx, record, true);
+  });
+}
+
+/**
+ * Update one document; its text record is only rewritten when the update includes text
+ */
+export async function patchDocument<S extends SessionWithDocuments>(
+  store: DocumentOwnerStore,
+  sessionId: string,
+  documentId: string,
+  updates: Partial<S['documents'][number]>
+): Promise<S | undefined> {
+  if (usesServerStorage()) return remote.patchDocument<S>(store, sessionId, documentId, updates);
+  return runTransaction(store, 'readwrite', async (tx) => {
+    const record = await requestToPromise<SessionRecord<S> | undefined>(tx.objectStore(store).get(sessionId));
+    const existing = await requestToPromise<DocumentRecord | undefined>(tx.objectStore(DOCUMENTS_STORE).get(documentId));
+    if (!record || !existing || existing.sessionId !== sessionId) return undefined;
+
+    const { content, transcriptExtent, ...metadata } = updates as StorableDocument;
+    tx.objectStore(DOCUMENTS_STORE).put({ ...existing, ...metadata, id: documentId, sessionId });
+    touch(record);
+    tx.objectStore(store).put(record);
+
+    if ('content' in updates || 'transcriptExtent' in updates) {
+      const contentStore = tx.objectStore(DOCUMENT_CONTENTS_STORE);
+      const current = await requestToPromise<DocumentContentRecord | undefined>(contentStore.get(documentId));
+      const next: DocumentContentRecord = { ...current, id: documentId };
+      if ('content' in updates) next.content = content;
+      if ('transcriptExtent' in updates) next.transcriptExtent = transcriptExtent;
+      contentStore.put(next);
+    }
+
+    return assembleSession<S>(tx, record, true);
+  });
+}
+
+export async function deleteDocument<S extends SessionWithDocuments>(
+  store: DocumentOwnerStore,
+  sessionId: string,
+  documentId: string
+): Promise<S | undefined> {
+  if (usesServerStorage()) return remote.deleteDocument<S>(store, sessionId, documentId);
+  return runTransaction(store, 'readwrite', async (tx) => {
+    const record = await requestToPromise<SessionRecord<S> | undefined>(tx.objectStore(store).get(sessionId));
+    if (!record) return undefined;
+
+    record.documentIds = record.documentIds.filter((id) => id !== documentId);
+    touch(record);
+    tx.objectStore(store).put(record);
+    tx.objectStore(DOCUMENTS_STORE).delete(documentId);
+    tx.objectStore(DOCUMENT_CONTENTS_STORE).delete(documentId);
+    return assembleSession<S>(tx, record, true);
+  });
+}
+
+/**
+ * Delete sessions with their documents; resolves to the number deleted
+ */
+export async function deleteSessions(store: DocumentOwnerStore, sessionIds: string[]): Promise<number> {
+  const deleted = usesServerStorage()
+    ? await remote.deleteSessions(store, sessionIds)
+    : await runTransaction(store, 'readwrite', async (tx) => {
+        let deleted = 0;
+        for (const id of sessionIds) {
+          const key = await requestToPromise(tx.objectStore(store).getKey(id));
+          if (key === undefined) continue;
+          await deleteSessionRecords(tx, store, id);
+          deleted++;
+        }
+        return deleted;
+      });
+
+  if (store === 'testimonySessions') await deleteRecordings(sessionIds);
+  return deleted;
+}
+
+export async function listSessionIds(store: DocumentOwnerStore): Promise<string[]> {
+  if (usesServerStorage()) return remote.listSessionIds(store);
+  return runTransaction(store, 'readonly', async (tx) =>
+    (await requestToPromise<IDBValidKey[]>(tx.objectStore(store).getAllKeys())) as string[]
+  );
+}
+
+/**
+ * Storage used by this origin (every store) and the quota the browser allows,
+ * or the size of the server database
+ */
+export async function estimateStorage(): Promise<{ used: number; available: number }> {
+  if (usesServerStorage()) return remote.estimateStorage();
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return { used: 0, available: 0 };
+  }
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { used: usage, available: quota };
+}
+
+// ============================================================================
+// Recording API (used by recording-storage)
+// ============================================================================
+
+export async function putRecording(record: RecordingRecord): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(RECORDINGS_STORE, 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore(RECORDINGS_STORE).put(record);
+  await done;
+}
+
+export async function readRecording(id: string): Promise<RecordingRecord | undefined> {
+  const db = await openDatabase();
+  const tx = db.transaction(RECORDINGS_STORE, 'readonly');
+  return requestToPromise<RecordingRecord | undefined>(tx.objectStore(RECORDINGS_STORE).get(id));
+}
+
+/**
+ * Delete the recordings of deleted sessions. Recordings are only kept in this browser,
+ * so a failure is logged rather than failing the session delete.
+ */
+async function deleteRecordings(sessionIds: string[]): Promise<void> {
+  if (!isIndexedDBAvailable() || sessionIds.length === 0) return;
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(RECORDINGS_STORE, 'readwrite');
+    const done = transactionDone(tx);
+    const recordings = tx.objectStore(RECORDINGS_STORE);
+    for (const sessionId of sessionIds) {
+      const ids = await requestToPromise<IDBValidKey[]>(recordings.index('sessionId').getAllKeys(sessionId));
+      ids.forEach((id) => recordings.delete(id));
+    }
+    await done;
+  } catch (error) {
+    console.error('Failed to delete session recordings:', error);
+  }
+}
+
+// ============================================================================
+// Migration from localStorage
+// ============================================================================
+
+/**
+ * Import sessions saved by the localStorage versions, then remove the old keys.
+ * Sessions already in IndexedDB are kept as they are. A key that does not parse is
+ * left in place so no data is lost.
+ */
+async function migrateLegacyStorage(db: IDBDatabase): Promise<void> {
+  for (const store of Object.keys(LEGACY_STORAGE_KEYS) as SessionStoreName[]) {
+    const key = LEGACY_STORAGE_KEYS[store];
+    const stored = localStorage.getItem(key);
+    if (!stored) continue;
+
+    let sessions: SessionWithDocuments[];
+    try {
+      sessions = Object.values(JSON.parse(stored) as Record<string, SessionWithDocuments>);
+    } catch (error) {
+      console.error(`Failed to parse ${key} for migration:`, error);
+      continue;
+    }
+
+    try {
+      await runTransaction(
+        store,
+        'readwrite',
+        async (tx) => {
+          for (const session of sessions) {
+            if (!session?.id) continue;
+            const existing = await requestToPromise(tx.objectStore(store).getKey(session.id));
+            if (existing === undefined) {
+              migrateRecord(session as unknown as Record<string, unknown>, store);
+              await putSessionWithDocuments(tx, store, { ...session, documents: session.documents || [] });
+            }
+          }
+        },
+        db
+      );
+      localStorage.removeItem(key);
+      console.info(`Migrated ${sessions.length} sessions from localStorage to IndexedDB (${store})`);
+    } catch (error) {
+      console.error(`Failed to migrate ${key} to IndexedDB:`, error);
+    }
+  }
+}
+
+// ============================================================================
+// Schema migrations and quarantine
+// ============================================================================
+
+/**
+ * Migrate records written by earlier versions (see ./migrations) and validate every
+ * record. Records that still do not match the current schema are moved to the
+ * quarantine store, so one unreadable session cannot hide the others.
+ */
+async function upgradeStoredRecords(db: IDBDatabase): Promise<void> {
+  for (const store of DOCUMENT_OWNER_STORES) {
+    try {
+      const tx = db.transaction([store, QUARANTINE_STORE], 'readwrite');
+      const done = transactionDone(tx);
+      const objectStore = tx.objectStore(store);
+      const keys = await requestToPromise<IDBValidKey[]>(objectStore.getAllKeys());
+      const records = await requestToPromise<unknown[]>(objectStore.getAll());
+
+      let quarantined = 0;
+      records.forEach((stored, index) => {
+        let reason = 'The record is not an object';
+        if (stored && typeof stored === 'object' && !Array.isArray(stored)) {
+          const record = structuredClone(stored) as Record<string, unknown>;
+          const changed = migrateRecord(record, store);
+          // Written by a newer version of the app, which knows how to read it
+          if (getSchemaVersion(record) > SCHEMA_VERSION) return;
+
+          const invalid = validateRecord(record, store);
+          if (!invalid) {
+            if (changed) objectStore.put(record);
+            return;
+          }
+          reason = invalid;
+        }
+
+        const quarantine: QuarantinedRecord = {
+          id: uuidv4(),
+          store,
+          recordId: String(keys[index]),
+          record: stored,
+          reason,
+          quarantinedAt: new Date().toISOString(),
+        };
+        tx.objectStore(QUARANTINE_STORE).put(quarantine);
+        objectStore.delete(keys[index]);
+        quarantined++;
+      });
+
+      await done;
+      if (quarantined > 0) {
+        console.warn(`Quarantined ${quarantined} unreadable record(s) from ${store}`);
+      }
+    } catch (error) {
+      console.error(`Failed to migrate ${store}:`, error);
+    }
+  }
+}
+
+export async function getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+  if (!isStorageAvailable()) return [];
+  if (usesServerStorage()) return remote.getQuarantinedRecords();
+  const db = await openDatabase();
+  const tx = db.transaction(QUARANTINE_STORE, 'readonly');
+  return requestToPromise<QuarantinedRecord[]>(tx.objectStore(QUARANTINE_STORE).getAll());
+}
+
+/**
+ * Permanently delete a quarantined record and the documents it referenced
+ */
+export async function discardQuarantinedRecord(id: string): Promise<void> {
+  if (usesServerStorage()) return remote.discardQuarantinedRecord(id);
+  const db = await openDatabase();
+  const tx = db.transaction([QUARANTINE_STORE, DOCUMENTS_STORE, DOCUMENT_CONTENTS_STORE, RECORDINGS_STORE], 'readwrite');
+  const done = transactionDone(tx);
+
+  const entry = await requestToPromise<QuarantinedRecord | undefined>(tx.objectStore(QUARANTINE_STORE).get(id));
+  if (entry) {
+    const documentIds = await requestToPromise<IDBValidKey[]>(
+      tx.objectStore(DOCUMENTS_STORE).index('sessionId').getAllKeys(entry.recordId)
+    );
+    for (const documentId of documentIds) {
+      tx.objectStore(DOCUMENTS_STORE).delete(documentId);
+      tx.objectStore(DOCUMENT_CONTENTS_STORE).delete(documentId);
+    }
+    const recordingIds = await requestToPromise<IDBValidKey[]>(
+      tx.objectStore(RECORDINGS_STORE).index('sessionId').getAllKeys(entry.recordId)
+    );
+    recordingIds.forEach((recordingId) => tx.objectStore(RECORDINGS_STORE).delete(recordingId));
+    tx.objectStore(QUARANTINE_STORE).delete(id);
+  }
+  await done;
+}
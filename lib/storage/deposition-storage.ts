@@ -1,5 +1,5 @@
-// localStorage-based session storage for Deposition Prep Tool
-// Replaces server-side in-memory storage with client-side persistence
+// Session storage for Deposition Prep Tool (IndexedDB, or the server backend when configured)
+// Sessions, documents and document text are stored as separate records (see ./db)
 
 import { v4 as uuidv4 } from 'uuid';
 import type {
@@ -11,76 +11,53 @@ import type {
   DepositionOutline,
   OutlineSection
 } from '@/lib/types/deposition';
-
-const STORAGE_KEY = 'wtp_deposition_sessions_v1';
-const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-
-// SSR safety check
-function isBrowser(): boolean {
-  return typeof window !== 'undefined';
-}
-
-function loadSessions(): Map<string, DepositionSession> {
-  if (!isBrowser()) return new Map();
-
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return new Map();
-
-    const parsed = JSON.parse(stored) as Record<string, DepositionSession>;
-    return new Map(Object.entries(parsed));
-  } catch (error) {
-    console.error('Failed to load deposition sessions from localStorage:', error);
-    return new Map();
-  }
-}
-
-function saveSessions(sessions: Map<string, DepositionSession>): void {
-  if (!isBrowser()) return;
-
-  try {
-    const obj = Object.fromEntries(sessions.entries());
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(obj));
-  } catch (error) {
-    console.error('Failed to save deposition sessions to localStorage:', error);
-    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-      cleanupOldSessions(sessions, true);
-      try {
-        const obj = Object.fromEntries(sessions.entries());
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(obj));
-      } catch {
-        console.error('Failed to save even after cleanup');
-      }
-    }
-  }
-}
-
-function cleanupOldSessions(sessions: Map<string, DepositionSession>, aggressive = false): void {
-  const now = Date.now();
-  const ttl = aggressive ? SESSION_TTL_MS / 2 : SESSION_TTL_MS;
-
-  for (const [id, session] of sessions.entries()) {
-    const createdAt = new Date(session.createdAt).getTime();
-    if (now - createdAt > ttl) {
-      sessions.delete(id);
-    }
-  }
+import type { FallbackReason } from '@/lib/types/testimony';
+import type { CaseDocument } from '@/lib/types/case';
+import {
+  deleteDocument,
+  deleteSessions,
+  estimateStorage,
+  insertDocument,
+  isStorageAvailable,
+  listSessionIds,
+  patchDocument,
+  putSession,
+  readAllSessions,
+  readSession,
+  updateSessionRecord,
+} from './db';
+import { purgeExpiredSessions } from './retention';
+import { addCaseDocument, linkSessionToCase } from './case-storage';
+
+const STORE = 'depositionSessions';
+
+// Apply a change to the session record; the mutation returns false when it does not apply
+function mutateSession(
+  sessionId: string,
+  mutate: (session: Omit<DepositionSession, 'documents'>) => boolean | void
+): Promise<DepositionSession | undefined> {
+  return updateSessionRecord<DepositionSession>(STORE, sessionId, mutate);
 }
 
-export function createDepositionSession(
+export async function createDepositionSession(
   deponentName: string,
   caseName: string,
   caseNumber?: string
-): DepositionSession {
-  const sessions = loadSessions();
-  cleanupOldSessions(sessions);
+): Promise<DepositionSession> {
+  // Sessions past their retention period are removed (see ./retention)
+  await purgeExpiredSessions(STORE);
+  const { caseId, witnessId } = await linkSessionToCase(caseName, deponentName, caseNumber);
+  const now = new Date().toISOString();
 
   const session: DepositionSession = {
     id: uuidv4(),
     deponentName,
     caseName,
     caseNumber,
-    createdAt: new Date().toISOString(),
+    caseId,
+    witnessId,
+    createdAt: now,
+    updatedAt: now,
     documents: [],
     gaps: [],
     contradictions: [],
@@ -89,121 +66,153 @@ export function createDepositionSession(
     status: 'setup',
   };
 
-  sessions.set(session.id, session);
-  saveSessions(sessions);
+  await putSession(STORE, session);
+  return session;
+}
+
+/**
+ * Start a session for another deponent in the same case: the documents are copied,
+ * analysis, questions and outline start over
+ */
+export async function duplicateDepositionSession(
+  sessionId: string,
+  deponentName: string
+): Promise<DepositionSession | undefined> {
+  const source = await getDepositionSession(sessionId);
+  if (!source) return undefined;
+
+  const session = await createDepositionSession(deponentName, source.caseName, source.caseNumber);
+  session.documents = source.documents.map((doc) => ({ ...doc, id: uuidv4() }));
+  await putSession(STORE, session);
   return session;
 }
 
-export function getDepositionSession(sessionId: string): DepositionSession | undefined {
-  const sessions = loadSessions();
-  return sessions.get(sessionId);
+export async function getDepositionSession(sessionId: string): Promise<DepositionSession | undefined> {
+  if (!isStorageAvailable()) return undefined;
+  return readSession<DepositionSession>(STORE, sessionId);
 }
 
-export function getAllDepositionSessions(): DepositionSession[] {
-  const sessions = loadSessions();
-  return Array.from(sessions.values()).sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  );
+// Newest first; documents are listed without their text (use getDepositionSession for that)
+export async function getAllDepositionSessions(): Promise<DepositionSession[]> {
+  if (!isStorageAvailable()) return [];
+  return readAllSessions<DepositionSession>(STORE);
 }
 
-export function updateDepositionSession(
+export async function updateDepositionSession(
   sessionId: string,
-  updates: Partial<DepositionSession>
-): DepositionSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session) return undefined;
-
-  const updated = { ...session, ...updates };
-  sessions.set(sessionId, updated);
-  saveSessions(sessions);
-  return updated;
+  updates: Partial<Omit<DepositionSession, 'id' | 'documents'>>
+): Promise<DepositionSession | undefined> {
+  return mutateSession(sessionId, (session) => {
+    Object.assign(session, updates);
+  });
 }
 
-export function addDepositionDocument(
+export async function addDepositionDocument(
   sessionId: string,
   document: DepositionDocument
-): DepositionSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session) return undefined;
-
-  session.documents.push(document);
-  sessions.set(sessionId, session);
-  saveSessions(sessions);
-  return session;
+): Promise<DepositionSession | undefined> {
+  return insertDocument<DepositionSession>(STORE, sessionId, document);
 }
 
-export function updateDepositionDocument(
+export async function updateDepositionDocument(
   sessionId: string,
   documentId: string,
   updates: Partial<DepositionDocument>
-): DepositionSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session) return undefined;
+): Promise<DepositionSession | undefined> {
+  return patchDocument<DepositionSession>(STORE, sessionId, documentId, updates);
+}
 
-  const docIndex = session.documents.findIndex(d => d.id === documentId);
-  if (docIndex === -1) return undefined;
+export async function removeDepositionDocument(
+  sessionId: string,
+  documentId: string
+): Promise<DepositionSession | undefined> {
+  return deleteDocument<DepositionSession>(STORE, sessionId, documentId);
+}
 
-  session.documents[docIndex] = { ...session.documents[docIndex], ...updates };
-  sessions.set(sessionId, session);
-  saveSessions(sessions);
+/**
+ * Attach documents from the case library; each is copied into the session with its text
+ */
+export async function attachDepositionCaseDocuments(
+  sessionId: string,
+  documents: CaseDocument[]
+): Promise<DepositionSession | undefined> {
+  let session: DepositionSession | undefined;
+  for (const document of documents) {
+    session = await insertDocument<DepositionSession>(STORE, sessionId, {
+      id: uuidv4(),
+      name: document.name,
+      type: document.category ?? 'other',
+      fileType: document.fileType,
+      size: document.size,
+      uploadedAt: document.uploadedAt,
+      objectId: document.objectId,
+      content: document.content,
+      status: document.status,
+      pageCount: document.pageCount,
+      pages: document.pages,
+      transcriptExtent: document.transcriptExtent,
+      caseDocumentId: document.id,
+    });
+  }
   return session;
 }
 
-export function removeDepositionDocument(
+/**
+ * Add an uploaded document to the session's case library so other witnesses' sessions
+ * can attach it without uploading it again
+ */
+export async function shareDepositionDocumentWithCase(
   sessionId: string,
   documentId: string
-): DepositionSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session) return undefined;
-
-  session.documents = session.documents.filter(d => d.id !== documentId);
-  sessions.set(sessionId, session);
-  saveSessions(sessions);
-  return session;
+): Promise<DepositionSession | undefined> {
+  const session = await getDepositionSession(sessionId);
+  const document = session?.documents.find((d) => d.id === documentId);
+  if (!session?.caseId || !document || document.caseDocumentId || document.status !== 'ready') return session;
+
+  const caseDocument: CaseDocument = {
+    id: uuidv4(),
+    name: document.name,
+    fileType: document.fileType,
+    size: document.size,
+    uploadedAt: document.uploadedAt,
+    objectId: document.objectId,
+    content: document.content,
+    status: document.status,
+    pageCount: document.pageCount,
+    pages: document.pages,
+    category: document.type,
+    transcriptExtent: document.transcriptExtent,
+  };
+  await addCaseDocument(session.caseId, caseDocument);
+  return updateDepositionDocument(sessionId, documentId, { caseDocumentId: caseDocument.id });
 }
 
-export function setDepositionQuestions(
+export async function setDepositionQuestions(
   sessionId: string,
-  questions: DepositionQuestion[]
-): DepositionSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session) return undefined;
-
-  session.questions = questions;
-  session.status = 'ready';
-  sessions.set(sessionId, session);
-  saveSessions(sessions);
-  return session;
+  questions: DepositionQuestion[],
+  fallbackReason?: FallbackReason
+): Promise<DepositionSession | undefined> {
+  return mutateSession(sessionId, (session) => {
+    session.questions = questions;
+    session.fallbackReason = fallbackReason;
+    session.status = 'ready';
+  });
 }
 
-export function setAnalysisResults(
+export async function setAnalysisResults(
   sessionId: string,
   gaps: TestimonyGap[],
   contradictions: Contradiction[],
   analysis: DepositionSession['analysis']
-): DepositionSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session) return undefined;
-
-  session.gaps = gaps;
-  session.contradictions = contradictions;
-  session.analysis = analysis;
-  sessions.set(sessionId, session);
-  saveSessions(sessions);
-  return session;
+): Promise<DepositionSession | undefined> {
+  return mutateSession(sessionId, (session) => {
+    session.gaps = gaps;
+    session.contradictions = contradictions;
+    session.analysis = analysis;
+  });
 }
 
-export function createOutline(sessionId: string, title: string): DepositionSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session) return undefined;
-
+export async function createOutline(sessionId: string, title: string): Promise<DepositionSession | undefined> {
   const outline: DepositionOutline = {
     id: uuidv4(),
     title,
@@ -212,140 +221,109 @@ export function createOutline(sessionId: string, title: string): DepositionSessi
     updatedAt: new Date().toISOString(),
   };
 
-  session.outline = outline;
-  sessions.set(sessionId, session);
-  saveSessions(sessions);
-  return session;
+  return mutateSession(sessionId, (session) => {
+    session.outline = outline;
+  });
 }
 
-export function addOutlineSection(
+export async function addOutlineSection(
   sessionId: string,
   section: Omit<OutlineSection, 'id'>
-): DepositionSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session || !session.outline) return undefined;
-
-  const newSection: OutlineSection = {
-    ...section,
-    id: uuidv4(),
-  };
-
-  session.outline.sections.push(newSection);
-  session.outline.updatedAt = new Date().toISOString();
-  sessions.set(sessionId, session);
-  saveSessions(sessions);
-  return session;
+): Promise<DepositionSession | undefined> {
+  return mutateSession(sessionId, (session) => {
+    if (!session.outline) return false;
+
+    const newSection: OutlineSection = {
+      ...section,
+      id: uuidv4(),
+    };
+
+    session.outline.sections.push(newSection);
+    session.outline.updatedAt = new Date().toISOString();
+  });
 }
 
-export function updateOutlineSection(
+export async function updateOutlineSection(
   sessionId: string,
   sectionId: string,
   updates: Partial<OutlineSection>
-): DepositionSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session || !session.outline) return undefined;
-
-  const sectionIndex = session.outline.sections.findIndex(s => s.id === sectionId);
-  if (sectionIndex === -1) return undefined;
-
-  session.outline.sections[sectionIndex] = {
-    ...session.outline.sections[sectionIndex],
-    ...updates
-  };
-  session.outline.updatedAt = new Date().toISOString();
-  sessions.set(sessionId, session);
-  saveSessions(sessions);
-  return session;
+): Promise<DepositionSession | undefined> {
+  return mutateSession(sessionId, (session) => {
+    if (!session.outline) return false;
+
+    const sectionIndex = session.outline.sections.findIndex(s => s.id === sectionId);
+    if (sectionIndex === -1) return false;
+
+    session.outline.sections[sectionIndex] = {
+      ...session.outline.sections[sectionIndex],
+      ...updates
+    };
+    session.outline.updatedAt = new Date().toISOString();
+  });
 }
 
-export function reorderOutlineSections(
+export async function reorderOutlineSections(
   sessionId: string,
   sectionIds: string[]
-): DepositionSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session || !session.outline) return undefined;
-
-  const reorderedSections: OutlineSection[] = [];
-  for (let i = 0; i < sectionIds.length; i++) {
-    const section = session.outline.sections.find(s => s.id === sectionIds[i]);
-    if (section) {
-      reorderedSections.push({ ...section, order: i });
+): Promise<DepositionSession | undefined> {
+  return mutateSession(sessionId, (session) => {
+    if (!session.outline) return false;
+    const { sections } = session.outline;
+
+    const reorderedSections: OutlineSection[] = [];
+    for (let i = 0; i < sectionIds.length; i++) {
+      const section = sections.find(s => s.id === sectionIds[i]);
+      if (section) {
+        reorderedSections.push({ ...section, order: i });
+      }
     }
-  }
 
-  session.outline.sections = reorderedSections;
-  session.outline.updatedAt = new Date().toISOString();
-  sessions.set(sessionId, session);
-  saveSessions(sessions);
-  return session;
+    session.outline.sections = reorderedSections;
+    session.outline.updatedAt = new Date().toISOString();
+  });
 }
 
-export function addQuestionToSection(
+export async function addQuestionToSection(
   sessionId: string,
   sectionId: string,
   question: DepositionQuestion
-): DepositionSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session || !session.outline) return undefined;
-
-  const sectionIndex = session.outline.sections.findIndex(s => s.id === sectionId);
-  if (sectionIndex === -1) return undefined;
-
-  session.outline.sections[sectionIndex].questions.push(question);
-  session.outline.updatedAt = new Date().toISOString();
-  sessions.set(sessionId, session);
-  saveSessions(sessions);
-  return session;
+): Promise<DepositionSession | undefined> {
+  return mutateSession(sessionId, (session) => {
+    const section = session.outline?.sections.find(s => s.id === sectionId);
+    if (!session.outline || !section) return false;
+
+    section.questions.push(question);
+    session.outline.updatedAt = new Date().toISOString();
+  });
 }
 
-export function removeQuestionFromSection(
+export async function removeQuestionFromSection(
   sessionId: string,
   sectionId: string,
   questionId: string
-): DepositionSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session || !session.outline) return undefined;
-
-  const sectionIndex = session.outline.sections.findIndex(s => s.id === sectionId);
-  if (sectionIndex === -1) return undefined;
-
-  session.outline.sections[sectionIndex].questions =
-    session.outline.sections[sectionIndex].questions.filter(q => q.id !== questionId);
-  session.outline.updatedAt = new Date().toISOString();
-  sessions.set(sessionId, session);
-  saveSessions(sessions);
-  return session;
+): Promise<DepositionSession | undefined> {
+  return mutateSession(sessionId, (session) => {
+    const section = session.outline?.sections.find(s => s.id === sectionId);
+    if (!session.outline || !section) return false;
+
+    section.questions = section.questions.filter(q => q.id !== questionId);
+    session.outline.updatedAt = new Date().toISOString();
+  });
 }
 
-export function deleteDepositionSession(sessionId: string): boolean {
-  const sessions = loadSessions();
-  const deleted = sessions.delete(sessionId);
-  if (deleted) {
-    saveSessions(sessions);
-  }
-  return deleted;
+export async function deleteDepositionSession(sessionId: string): Promise<boolean> {
+  return (await deleteSessions(STORE, [sessionId])) > 0;
 }
 
-export function clearAllDepositionSessions(): void {
-  if (typeof window === 'undefined') return;
-  localStorage.removeItem(STORAGE_KEY);
+export async function clearAllDepositionSessions(): Promise<void> {
+  if (!isStorageAvailable()) return;
+  await deleteSessions(STORE, await listSessionIds(STORE));
 }
 
-export function getDepositionStorageStats(): { used: number; available: number; sessionCount: number } {
-  if (typeof window === 'undefined') return { used: 0, available: 5 * 1024 * 1024, sessionCount: 0 };
-
-  const stored = localStorage.getItem(STORAGE_KEY) || '';
-  const used = new Blob([stored]).size;
-  const sessions = loadSessions();
+// Used/available cover everything this origin stores
+export async function getDepositionStorageStats(): Promise<{ used: number; available: number; sessionCount: number }> {
+  if (!isStorageAvailable()) return { used: 0, available: 0, sessionCount: 0 };
 
-  return {
-    used,
-    available: 5 * 1024 * 1024,
-    sessionCount: sessions.size,
-  };
+  const [{ used, available }, sessionIds] = await Promise.all([estimateStorage(), listSessionIds(STORE)]);
+  return { used, available, sessionCount: sessionIds.length };
 }
@@ -1,4 +1,7 @@
 // Re-export all storage functions
 export * from './session-storage';
 export * from './deposition-storage';
+export * from './case-storage';
+export * from './session-bundle';
 export * from './usage-storage';
+export * from './recording-storage';
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { MIGRATIONS, SCHEMA_VERSION, getSchemaVersion, migrateRecord, validateRecord } from './migrations';
+
+const createdAt = '2025-01-02T03:04:05.000Z';
+
+describe('migration 1', () => {
+  const migration = MIGRATIONS.find((m) => m.version === 1)!;
+
+  it('defaults the testimony session fields added after the localStorage release', () => {
+    const record: Record<string, unknown> = { id: 't1', witnessName: 'Dana', caseName: 'Acme', createdAt };
+    migration.migrate(record, 'testimonySessions');
+    expect(record).toMatchObject({
+      updatedAt: createdAt,
+      questions: [],
+      practiceHistory: [],
+      totalDuration: 0,
+      status: 'setup',
+    });
+  });
+
+  it('defaults the deposition session fields, with no outline', () => {
+    const record: Record<string, unknown> = { id: 'd1', deponentName: 'Lee', caseName: 'Acme', createdAt };
+    migration.migrate(record, 'depositionSessions');
+    expect(record).toMatchObject({ gaps: [], contradictions: [], questions: [], status: 'setup', outline: null });
+  });
+
+  it('gives cases an empty witness roster', () => {
+    const record: Record<string, unknown> = { id: 'c1', name: 'Acme', createdAt };
+    migration.migrate(record, 'cases');
+    expect(record.witnesses).toEqual([]);
+  });
+
+  it('keeps values that are already set', () => {
+    const record: Record<string, unknown> = {
+      id: 't1',
+      createdAt,
+      updatedAt: '2025-02-01T00:00:00.000Z',
+      status: 'ready',
+      totalDuration: 42,
+    };
+    migration.migrate(record, 'testimonySessions');
+    expect(record).toMatchObject({ updatedAt: '2025-02-01T00:00:00.000Z', status: 'ready', totalDuration: 42 });
+  });
+});
+
+describe('migrateRecord', () => {
+  it('lists migrations in version order, ending at the current version', () => {
+    const versions = MIGRATIONS.map((m) => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(versions[versions.length - 1]).toBe(SCHEMA_VERSION);
+  });
+
+  it('upgrades unversioned records and stamps the current version', () => {
+    const record: Record<string, unknown> = { id: 'c1', name: 'Acme', createdAt, documentIds: [] };
+    expect(migrateRecord(record, 'cases')).toBe(true);
+    expect(getSchemaVersion(record)).toBe(SCHEMA_VERSION);
+    expect(validateRecord(record, 'cases')).toBeNull();
+  });
+
+  it('leaves current records alone', () => {
+    const record = { id: 'c1', name: 'Acme', createdAt, witnesses: [], schemaVersion: SCHEMA_VERSION };
+    expect(migrateRecord(record, 'cases')).toBe(false);
+  });
+
+  it('leaves records written by a newer version alone', () => {
+    const record = { id: 'c1', createdAt, schemaVersion: SCHEMA_VERSION + 1 };
+    expect(migrateRecord(record, 'cases')).toBe(false);
+    expect(record).toEqual({ id: 'c1', createdAt, schemaVersion: SCHEMA_VERSION + 1 });
+  });
+});
+
+describe('validateRecord', () => {
+  it('explains why a record does not match the schema', () => {
+    const record: Record<string, unknown> = { id: 't1', caseName: 'Acme', createdAt: 'not a date' };
+    migrateRecord(record, 'testimonySessions');
+    const reason = validateRecord({ ...record, documentIds: [] }, 'testimonySessions');
+    expect(reason).toContain('witnessName');
+    expect(reason).toContain('createdAt');
+  });
+
+  it('requires the document references', () => {
+    const record: Record<string, unknown> = { id: 'c1', name: 'Acme', createdAt };
+    migrateRecord(record, 'cases');
+    expect(validateRecord(record, 'cases')).toContain('documentIds');
+  });
+});
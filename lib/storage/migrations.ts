@@ -0,0 +1,81 @@
+// Versioned persistence for session and case records
+// Every record carries the schemaVersion it was written with. When the shape of a saved
+// type changes, bump SCHEMA_VERSION and append a migration that upgrades records from
+// the previous version; records are migrated and validated when the database opens.
+
+import { z } from 'zod';
+import type { DocumentOwnerStore } from './records';
+import { caseFields, depositionSessionFields, describeIssues, testimonySessionFields } from './schemas';
+
+export const SCHEMA_VERSION = 1;
+
+type StoredRecord = Record<string, unknown>;
+
+interface Migration {
+  /** The version records have after this migration */
+  version: number;
+  description: string;
+  /** Upgrade a record in place */
+  migrate: (record: StoredRecord, store: DocumentOwnerStore) => void;
+}
+
+function fillIn(record: StoredRecord, defaults: StoredRecord): void {
+  for (const [key, value] of Object.entries(defaults)) {
+    if (record[key] === undefined || record[key] === null) record[key] = value;
+  }
+}
+
+// Ordered by version; each runs once per record
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Default the fields added after the first localStorage release',
+    migrate: (record, store) => {
+      if (typeof record.createdAt === 'string') fillIn(record, { updatedAt: record.createdAt });
+      if (store === 'testimonySessions') {
+        fillIn(record, { questions: [], practiceHistory: [], totalDuration: 0, status: 'setup' });
+      } else if (store === 'depositionSessions') {
+        fillIn(record, { gaps: [], contradictions: [], questions: [], status: 'setup' });
+        if (record.outline === undefined) record.outline = null;
+      } else {
+        fillIn(record, { witnesses: [] });
+      }
+    },
+  },
+];
+
+// Records are stored without their documents, which are referenced by id
+const documentIds = z.array(z.string());
+
+const RECORD_SCHEMAS: Record<DocumentOwnerStore, z.ZodType> = {
+  testimonySessions: z.looseObject({ ...testimonySessionFields, documentIds }),
+  depositionSessions: z.looseObject({ ...depositionSessionFields, documentIds }),
+  cases: z.looseObject({ ...caseFields, documentIds }),
+};
+
+export function getSchemaVersion(record: StoredRecord): number {
+  return typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+}
+
+/**
+ * Apply the migrations a record has not had yet; returns whether it changed.
+ * Records written by a newer version of the app are left as they are.
+ */
+export function migrateRecord(record: StoredRecord, store: DocumentOwnerStore): boolean {
+  const from = getSchemaVersion(record);
+  if (from >= SCHEMA_VERSION) return false;
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version > from) migration.migrate(record, store);
+  }
+  record.schemaVersion = SCHEMA_VERSION;
+  return true;
+}
+
+/**
+ * Check a record against the current schema; returns why it is unusable, or null
+ */
+export function validateRecord(record: StoredRecord, store: DocumentOwnerStore): string | null {
+  const result = RECORD_SCHEMAS[store].safeParse(record);
+  return result.success ? null : describeIssues(result.error);
+}
@@ -0,0 +1,49 @@
+// Recorded practice answers for the Testimony Prep Tool
+// Audio is kept in this browser's IndexedDB, also when sessions are saved on the server,
+// and is deleted with its session. Exchanges reference their clip by recordingId.
+
+import { v4 as uuidv4 } from 'uuid';
+import type { SessionRecording } from '@/lib/types/testimony';
+import { isIndexedDBAvailable, putRecording, readRecording } from './db';
+
+/**
+ * Save a finished clip, awaiting transcription
+ */
+export async function saveRecording(
+  sessionId: string,
+  questionId: string,
+  clip: { audio: Blob; mimeType: string; startedAt: string; endedAt: string }
+): Promise<SessionRecording> {
+  const recording: SessionRecording = {
+    id: uuidv4(),
+    sessionId,
+    questionId,
+    mimeType: clip.mimeType,
+    status: 'processing',
+    startedAt: clip.startedAt,
+    endedAt: clip.endedAt,
+  };
+  await putRecording({ ...recording, audio: clip.audio });
+  return recording;
+}
+
+/**
+ * Record the outcome of transcribing a clip
+ */
+export async function updateRecording(
+  recordingId: string,
+  updates: Partial<Pick<SessionRecording, 'status' | 'transcription'>>
+): Promise<void> {
+  const record = await readRecording(recordingId);
+  if (!record) return;
+  await putRecording({ ...record, ...updates });
+}
+
+/**
+ * A clip with its audio, or undefined when it is not saved in this browser
+ * (e.g. the session was imported from a bundle or opened on another device)
+ */
+export async function getRecording(recordingId: string): Promise<(SessionRecording & { audio: Blob }) | undefined> {
+  if (!isIndexedDBAvailable()) return undefined;
+  return readRecording(recordingId);
+}
@@ -0,0 +1,126 @@
+// Shape of persisted session and case records, shared by the IndexedDB store (./db) and
+// the server backends (lib/persistence). A session is saved as one record plus a record
+// per document, with each document's text kept apart from its metadata.
+
+import type { TranscriptExtent } from '@/lib/types/deposition';
+import { toTranscriptExtent } from '@/lib/transcript-parser';
+import type { RetentionPolicy, SessionRecording } from '@/lib/types/testimony';
+import { SCHEMA_VERSION } from './migrations';
+
+export type SessionStoreName = 'testimonySessions' | 'depositionSessions';
+
+// Cases own a shared document library and are stored like sessions: a record plus its documents
+export type DocumentOwnerStore = SessionStoreName | 'cases';
+export const DOCUMENT_OWNER_STORES: DocumentOwnerStore[] = ['testimonySessions', 'depositionSessions', 'cases'];
+
+export function isDocumentOwnerStore(value: string): value is DocumentOwnerStore {
+  return (DOCUMENT_OWNER_STORES as string[]).includes(value);
+}
+
+/** Minimal shape shared by PracticeSession, DepositionSession and Case */
+export interface SessionWithDocuments<D extends StorableDocument = StorableDocument> {
+  id: string;
+  createdAt: string;
+  updatedAt?: string;
+  retention?: RetentionPolicy;
+  documents: D[];
+}
+
+/** Minimal shape shared by Document and DepositionDocument */
+export interface StorableDocument {
+  id: string;
+  content?: string;
+  transcriptExtent?: TranscriptExtent;
+}
+
+// Session record: everything but the documents, which are referenced in upload order.
+// schemaVersion is the version of ./migrations the record was written with.
+export type SessionRecord<S extends SessionWithDocuments> = Omit<S, 'documents'> & {
+  documentIds: string[];
+  schemaVersion?: number;
+};
+
+// Document record: metadata only; the extracted text is a separate record.
+// sessionId is the owning session or case.
+export type DocumentRecord = Omit<StorableDocument, 'content' | 'transcriptExtent'> & { sessionId: string };
+
+// The large parts of a document, read only when a session is opened
+export interface DocumentContentRecord {
+  id: string;
+  content?: string;
+  transcriptExtent?: TranscriptExtent;
+  /** The extent, in records saved before it was renamed transcriptExtent */
+  transcriptIndex?: TranscriptExtent;
+}
+
+// A recorded practice answer with its audio (IndexedDB only; see ./recording-storage)
+export type RecordingRecord = Omit<SessionRecording, 'audioUrl'> & { audio: Blob };
+
+/** A saved record that could not be migrated to the current schema, kept for recovery */
+export interface QuarantinedRecord {
+  id: string;
+  store: DocumentOwnerStore;
+  recordId: string;
+  record: unknown; // As it was stored, before any migration
+  reason: string;
+  quarantinedAt: string;
+}
+
+export function splitDocument(
+  sessionId: string,
+  document: StorableDocument
+): { record: DocumentRecord; content: DocumentContentRecord } {
+  const { content, transcriptExtent, ...metadata } = document;
+  return {
+    record: { ...metadata, sessionId },
+    content: { id: document.id, content, transcriptExtent: transcriptExtent && toTranscriptExtent(transcriptExtent) },
+  };
+}
+
+export function joinDocument<D extends StorableDocument>(
+  record: DocumentRecord,
+  content: DocumentContentRecord | undefined
+): D {
+  const document = { ...record } as Partial<DocumentRecord> & D;
+  delete document.sessionId;
+  if (content?.content !== undefined) document.content = content.content;
+  const transcriptExtent = content?.transcriptExtent ?? content?.transcriptIndex;
+  if (transcriptExtent) document.transcriptExtent = toTranscriptExtent(transcriptExtent);
+  return document;
+}
+
+// Record a change to the session; retention counts from the last change
+export function touch(record: { updatedAt?: string }): void {
+  record.updatedAt = new Date().toISOString();
+}
+
+function normalizeCaseField(value: string | undefined): string {
+  return (value ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Whether a case is the one with this name: the same name, ignoring case and spacing,
+ * and the same case number when both have one
+ */
+export function isSameCase(caseFile: { name: string; caseNumber?: string }, name: string, caseNumber?: string): boolean {
+  if (normalizeCaseField(caseFile.name) !== normalizeCaseField(name)) return false;
+  return !caseFile.caseNumber || !caseNumber || normalizeCaseField(caseFile.caseNumber) === normalizeCaseField(caseNumber);
+}
+
+export function toSessionRecord<S extends SessionWithDocuments>(session: S): SessionRecord<S> {
+  const { documents, ...rest } = session;
+  return { ...rest, documentIds: documents.map((d) => d.id), schemaVersion: SCHEMA_VERSION };
+}
+
+/**
+ * Join a session record with its documents
+ */
+export function toSession<S extends SessionWithDocuments>(
+  record: SessionRecord<S>,
+  documents: S['documents']
+): S {
+  const session = { ...record, documents } as Partial<SessionRecord<S>> & S;
+  delete session.documentIds;
+  delete session.schemaVersion;
+  return session;
+}
@@ -0,0 +1,163 @@
+// Session API over the server persistence backend (app/api/storage), used in place of
+// IndexedDB when SESSION_STORAGE selects one. Mirrors the session API in ./db.
+
+import type { Case } from '@/lib/types/case';
+import type { DocumentOwnerStore, QuarantinedRecord, SessionWithDocuments } from './records';
+
+const BASE_URL = '/api/storage';
+
+// Read-modify-write updates are retried when another request changed the session first
+const MAX_UPDATE_ATTEMPTS = 3;
+
+interface StoredSession<S> {
+  session: S;
+  revision: number;
+}
+
+/** A server storage request failed; status is the HTTP status */
+export class StorageRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'StorageRequestError';
+  }
+}
+
+async function request<T>(path: string, method = 'GET', body?: unknown): Promise<T> {
+  const response = await fetch(`${BASE_URL}${path}`, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new StorageRequestError(error?.error || `Storage request failed (${response.status})`, response.status);
+  }
+  return response.json();
+}
+
+// Missing sessions resolve undefined, as they do in IndexedDB
+async function requestSession<S>(path: string, method = 'GET', body?: unknown): Promise<StoredSession<S> | undefined> {
+  try {
+    return await request<StoredSession<S>>(path, method, body);
+  } catch (error) {
+    if (error instanceof StorageRequestError && error.status === 404) return undefined;
+    throw error;
+  }
+}
+
+function sessionPath(store: DocumentOwnerStore, sessionId: string): string {
+  return `/${store}/${encodeURIComponent(sessionId)}`;
+}
+
+export async function putSession<S extends SessionWithDocuments>(store: DocumentOwnerStore, session: S): Promise<void> {
+  await request(`/${store}`, 'POST', session);
+}
+
+export async function replaceSession<S extends SessionWithDocuments>(store: DocumentOwnerStore, session: S): Promise<void> {
+  await request(sessionPath(store, session.id), 'PUT', session);
+}
+
+export async function readSession<S extends SessionWithDocuments>(
+  store: DocumentOwnerStore,
+  sessionId: string,
+  includeContent = true
+): Promise<S | undefined> {
+  const query = includeContent ? '' : '?content=false';
+  return (await requestSession<S>(`${sessionPath(store, sessionId)}${query}`))?.session;
+}
+
+export async function readAllSessions<S extends SessionWithDocuments>(store: DocumentOwnerStore): Promise<S[]> {
+  return (await request<{ sessions: S[] }>(`/${store}`)).sessions;
+}
+
+/**
+ * Apply `mutate` to the latest copy of the session and save it; when someone else saved
+ * the session in between, the change is applied again to their version
+ */
+export async function updateSessionRecord<S extends SessionWithDocuments>(
+  store: DocumentOwnerStore,
+  sessionId: string,
+  mutate: (session: Omit<S, 'documents'>) => boolean | void,
+  { touch = true }: { touch?: boolean } = {}
+): Promise<S | undefined> {
+  for (let attempt = 1; ; attempt++) {
+    const stored = await requestSession<S>(`${sessionPath(store, sessionId)}?content=false`);
+    if (!stored) return undefined;
+
+    const record: Partial<S> = { ...stored.session };
+    delete record.documents;
+    if (mutate(record as Omit<S, 'documents'>) === false) return undefined;
+
+    try {
+      const updated = await requestSession<S>(sessionPath(store, sessionId), 'PATCH', {
+        record,
+        revision: stored.revision,
+        touch,
+      });
+      return updated?.session;
+    } catch (error) {
+      const conflict = error instanceof StorageRequestError && error.status === 409;
+      if (!conflict || attempt >= MAX_UPDATE_ATTEMPTS) throw error;
+    }
+  }
+}
+
+export async function insertDocument<S extends SessionWithDocuments>(
+  store: DocumentOwnerStore,
+  sessionId: string,
+  document: S['documents'][number]
+): Promise<S | undefined> {
+  return (await requestSession<S>(`${sessionPath(store, sessionId)}/documents`, 'POST', document))?.session;
+}
+
+export async function patchDocument<S extends SessionWithDocuments>(
+  store: DocumentOwnerStore,
+  sessionId: string,
+  documentId: string,
+  updates: Partial<S['documents'][number]>
+): Promise<S | undefined> {
+  const path = `${sessionPath(store, sessionId)}/documents/${encodeURIComponent(documentId)}`;
+  return (await requestSession<S>(path, 'PATCH', updates))?.session;
+}
+
+export async function deleteDocument<S extends SessionWithDocuments>(
+  store: DocumentOwnerStore,
+  sessionId: string,
+  documentId: string
+): Promise<S | undefined> {
+  const path = `${sessionPath(store, sessionId)}/documents/${encodeURIComponent(documentId)}`;
+  return (await requestSession<S>(path, 'DELETE'))?.session;
+}
+
+export async function findOrCreateCase(candidate: Case): Promise<Case> {
+  return (await request<StoredSession<Case>>('/cases/match', 'POST', candidate)).session;
+}
+
+export async function deleteSessions(store: DocumentOwnerStore, sessionIds: string[]): Promise<number> {
+  if (sessionIds.length === 0) return 0;
+  return (await request<{ deleted: number }>(`/${store}`, 'DELETE', { ids: sessionIds })).deleted;
+}
+
+export async function listSessionIds(store: DocumentOwnerStore): Promise<string[]> {
+  return (await readAllSessions(store)).map((session) => session.id);
+}
+
+/**
+ * Space the server database uses; there is no per-user quota
+ */
+export async function estimateStorage(): Promise<{ used: number; available: number }> {
+  const { used } = await request<{ used: number }>('');
+  return { used, available: 0 };
+}
+
+export async function getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+  return (await request<{ records: QuarantinedRecord[] }>('/quarantine')).records;
+}
+
+export async function discardQuarantinedRecord(id: string): Promise<void> {
+  await request(`/quarantine/${encodeURIComponent(id)}`, 'DELETE');
+}
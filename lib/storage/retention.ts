@@ -0,0 +1,114 @@
+// Session retention policies
+// Sessions expire a number of days after their last change unless pinned or archived.
+// The default retention period is a per-browser setting kept in localStorage, so retention
+// only applies to sessions kept in this browser: sessions on the server are shared by the
+// organization and stay until someone deletes them.
+
+import type { RetentionPolicy } from '@/lib/types/testimony';
+import { deleteSessions, readAllSessions, updateSessionRecord, usesServerStorage } from './db';
+import type { SessionStoreName, SessionWithDocuments } from './db';
+
+const RETENTION_DAYS_KEY = 'wtp_retention_days_v1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RETENTION_DAYS = 30;
+export const RETENTION_DAY_OPTIONS = [7, 14, 30, 90, 365];
+
+// Sessions expiring within this many days are listed in the retention warning
+export const EXPIRY_WARNING_DAYS = 3;
+
+// SSR safety check
+function isBrowser(): boolean {
+  return typeof window !== 'undefined';
+}
+
+/**
+ * Whether sessions expire here: false when they are kept by the server backend
+ */
+export function isRetentionEnforced(): boolean {
+  return !usesServerStorage();
+}
+
+export function getDefaultRetentionDays(): number {
+  if (!isBrowser()) return DEFAULT_RETENTION_DAYS;
+  const days = Number(localStorage.getItem(RETENTION_DAYS_KEY));
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+export function setDefaultRetentionDays(days: number): void {
+  if (!isBrowser() || !(days > 0)) return;
+  localStorage.setItem(RETENTION_DAYS_KEY, String(days));
+}
+
+export function getLastModified(session: Pick<SessionWithDocuments, 'createdAt' | 'updatedAt'>): Date {
+  return new Date(session.updatedAt || session.createdAt);
+}
+
+/**
+ * When a session will be deleted; null for pinned and archived sessions
+ */
+export function getExpiryDate(
+  session: Pick<SessionWithDocuments, 'createdAt' | 'updatedAt' | 'retention'>,
+  defaultDays = getDefaultRetentionDays()
+): Date | null {
+  const policy: RetentionPolicy = session.retention ?? { mode: 'expire' };
+  if (policy.mode !== 'expire') return null;
+  return new Date(getLastModified(session).getTime() + (policy.days ?? defaultDays) * DAY_MS);
+}
+
+export function describeRetention(policy: RetentionPolicy | undefined, defaultDays = getDefaultRetentionDays()): string {
+  if (policy?.mode === 'pinned') return 'Kept until deleted';
+  if (policy?.mode === 'archived') return 'Archived';
+  if (!isRetentionEnforced()) return 'Kept until deleted';
+  const days = policy?.days ?? defaultDays;
+  return `Deleted ${days} day${days === 1 ? '' : 's'} after last change`;
+}
+
+/**
+ * Delete the sessions in a store whose retention period has run out
+ */
+export async function purgeExpiredSessions(store: SessionStoreName, now = new Date()): Promise<number> {
+  if (!isRetentionEnforced()) return 0;
+  const defaultDays = getDefaultRetentionDays();
+  const expired = (await readAllSessions(store))
+    .filter((session) => {
+      const expiresAt = getExpiryDate(session, defaultDays);
+      return expiresAt !== null && expiresAt <= now;
+    })
+    .map((session) => session.id);
+
+  return expired.length > 0 ? deleteSessions(store, expired) : 0;
+}
+
+export interface ExpiringSession<S extends SessionWithDocuments = SessionWithDocuments> {
+  store: SessionStoreName;
+  session: S;
+  expiresAt: Date;
+}
+
+/**
+ * Sessions in a store that will be deleted within EXPIRY_WARNING_DAYS, soonest first
+ */
+export async function getExpiringSessions<S extends SessionWithDocuments>(
+  store: SessionStoreName,
+  now = new Date()
+): Promise<ExpiringSession<S>[]> {
+  if (!isRetentionEnforced()) return [];
+  const defaultDays = getDefaultRetentionDays();
+  const horizon = now.getTime() + EXPIRY_WARNING_DAYS * DAY_MS;
+
+  return (await readAllSessions<S>(store))
+    .map((session) => ({ store, session, expiresAt: getExpiryDate(session, defaultDays) }))
+    .filter((entry): entry is ExpiringSession<S> => entry.expiresAt !== null && entry.expiresAt.getTime() <= horizon)
+    .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+}
+
+export async function setSessionRetention<S extends SessionWithDocuments>(
+  store: SessionStoreName,
+  sessionId: string,
+  retention: RetentionPolicy
+): Promise<S | undefined> {
+  return updateSessionRecord<S>(store, sessionId, (session) => {
+    session.retention = retention;
+  });
+}
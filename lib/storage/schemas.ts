@@ -0,0 +1,113 @@
+// Schemas for persisted data: saved session and case records (see ./migrations) and
+// session bundles (see ./session-bundle).
+// Only the fields the tools rely on are checked; anything else is carried over as is.
+
+import { z } from 'zod';
+
+export const isoDate = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Expected an ISO date');
+
+const retentionSchema = z.discriminatedUnion('mode', [
+  z.object({ mode: z.literal('expire'), days: z.number().positive().optional() }),
+  z.object({ mode: z.literal('pinned') }),
+  z.object({ mode: z.literal('archived') }),
+]);
+
+const pageInfoSchema = z.object({
+  pageNumber: z.number(),
+  source: z.enum(['text', 'ocr', 'blank']),
+  confidence: z.number().optional(),
+});
+
+const documentFields = {
+  id: z.string().min(1),
+  name: z.string(),
+  size: z.number().nonnegative(),
+  uploadedAt: isoDate,
+  status: z.enum(['uploading', 'processing', 'ready', 'error']),
+  pageCount: z.number().optional(),
+  pages: z.array(pageInfoSchema).optional(),
+};
+
+export const testimonyDocumentSchema = z.looseObject({ ...documentFields, type: z.string() });
+
+export const depositionDocumentSchema = z.looseObject({
+  ...documentFields,
+  type: z.enum(['prior_testimony', 'exhibit', 'transcript', 'case_file', 'other']),
+  fileType: z.string(),
+});
+
+export const transcriptExtentSchema = z.object({
+  format: z.enum(['numbered', 'paginated']),
+  firstPage: z.number(),
+  lastPage: z.number(),
+  pageCount: z.number(),
+  linesPerPage: z.number(),
+});
+
+const questionSchema = z.looseObject({ id: z.string().min(1), question: z.string() });
+
+/** PracticeSession fields other than documents */
+export const testimonySessionFields = {
+  id: z.string().min(1),
+  witnessName: z.string().min(1),
+  caseName: z.string().min(1),
+  createdAt: isoDate,
+  updatedAt: isoDate.optional(),
+  questions: z.array(questionSchema),
+  status: z.enum(['setup', 'generating', 'ready', 'practicing', 'completed']),
+  practiceHistory: z.array(
+    z.looseObject({
+      id: z.string(),
+      questionId: z.string(),
+      parentId: z.string().optional(),
+      witnessResponse: z.string(),
+      duration: z.number(),
+    })
+  ),
+  totalDuration: z.number(),
+  examinerProfile: z.enum(['direct', 'friendly_cross', 'hostile_cross', 'daubert', 'judge']).optional(),
+  followUpDepth: z.number().int().nonnegative().optional(),
+  retention: retentionSchema.optional(),
+  witnessEmail: z.string().optional(),
+};
+
+/** DepositionSession fields other than documents */
+export const depositionSessionFields = {
+  id: z.string().min(1),
+  deponentName: z.string().min(1),
+  caseName: z.string().min(1),
+  caseNumber: z.string().optional(),
+  createdAt: isoDate,
+  updatedAt: isoDate.optional(),
+  gaps: z.array(z.looseObject({ id: z.string(), description: z.string() })),
+  contradictions: z.array(z.looseObject({ id: z.string(), description: z.string() })),
+  questions: z.array(questionSchema),
+  outline: z
+    .looseObject({
+      id: z.string(),
+      title: z.string(),
+      sections: z.array(
+        z.looseObject({ id: z.string(), title: z.string(), order: z.number(), questions: z.array(questionSchema) })
+      ),
+    })
+    .nullable(),
+  status: z.enum(['setup', 'uploading', 'analyzing', 'ready', 'completed']),
+  retention: retentionSchema.optional(),
+};
+
+/** Case fields other than documents */
+export const caseFields = {
+  id: z.string().min(1),
+  name: z.string().min(1),
+  caseNumber: z.string().optional(),
+  createdAt: isoDate,
+  updatedAt: isoDate.optional(),
+  witnesses: z.array(z.looseObject({ id: z.string().min(1), name: z.string() })),
+};
+
+export function describeIssues(error: z.ZodError, limit = 5): string {
+  return error.issues
+    .slice(0, limit)
+    .map((issue) => `${issue.path.join('.') || 'record'}: ${issue.message}`)
+    .join('; ');
+}
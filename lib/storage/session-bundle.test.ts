@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import { IDBFactory } from 'fake-indexeddb';
+import JSZip from 'jszip';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type Bundles = typeof import('./session-bundle');
+
+const createdAt = '2025-01-02T03:04:05.000Z';
+
+// Fresh copies of the storage modules, on a fresh database
+async function loadBundles(): Promise<Bundles> {
+  vi.resetModules();
+  return import('./session-bundle');
+}
+
+async function bundleFile(files: Record<string, string>): Promise<Blob> {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([path, text]) => zip.file(path, text));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+function manifest(practiceHistory: object[]) {
+  return JSON.stringify({
+    format: 'wtp-session-bundle',
+    version: 1,
+    exportedAt: createdAt,
+    tool: 'testimony',
+    session: {
+      id: 't1',
+      witnessName: 'Dana Whitfield',
+      caseName: 'Acme v. Widget',
+      createdAt,
+      questions: [],
+      status: 'ready',
+      practiceHistory,
+      totalDuration: 0,
+      documents: [
+        { id: 'doc1', name: 'memo.txt', type: 'text/plain', size: 5, uploadedAt: createdAt, status: 'ready', contentPath: 'documents/doc1.txt' },
+      ],
+    },
+  });
+}
+
+const exchange = (id: string, recordingId?: string) => ({
+  id,
+  questionId: 'q1',
+  question: 'Did you sign it?',
+  witnessResponse: 'Yes.',
+  timestamp: createdAt,
+  duration: 3,
+  recordingId,
+});
+
+beforeEach(() => {
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  vi.spyOn(console, 'info').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('session bundles', () => {
+  it('reads the documents and keeps only recordings saved in this browser', async () => {
+    const { importSessionBundle, readSessionBundle } = await loadBundles();
+    const { putRecording } = await import('./db');
+    await putRecording({
+      id: 'here',
+      sessionId: 't1',
+      questionId: 'q1',
+      mimeType: 'audio/webm',
+      status: 'completed',
+      startedAt: createdAt,
+      endedAt: createdAt,
+      audio: new Blob(['audio']),
+    });
+
+    const bundle = await readSessionBundle(
+      await bundleFile({
+        'manifest.json': manifest([exchange('e1', 'here'), exchange('e2', 'elsewhere'), exchange('e3')]),
+        'documents/doc1.txt': 'hello',
+      })
+    );
+    expect(bundle.session.documents[0].content).toBe('hello');
+
+    const { session } = await importSessionBundle(bundle);
+    const history = (session as import('@/lib/types/testimony').PracticeSession).practiceHistory;
+    expect(history.map((e) => e.recordingId)).toEqual(['here', undefined, undefined]);
+  });
+
+  it('rejects files that are not bundles', async () => {
+    const { BundleFormatError, readSessionBundle } = await loadBundles();
+    await expect(readSessionBundle(new Blob(['not a zip']))).rejects.toBeInstanceOf(BundleFormatError);
+    await expect(readSessionBundle(await bundleFile({ 'other.txt': 'x' }))).rejects.toThrow('no manifest.json');
+  });
+});
@@ -0,0 +1,369 @@
+// Portable session bundles: one session zipped with its document texts, for moving a
+// session to another browser or handing it to a colleague.
+//
+// Layout:
+//   manifest.json                  format, version, tool and the session (documents without text)
+//   documents/<id>.txt             extracted text of each document
+//   documents/<id>.transcript.json transcript line index, for parsed transcripts
+
+import JSZip from 'jszip';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import type { PracticeExchange, PracticeSession, Document } from '@/lib/types/testimony';
+import type { DepositionSession, DepositionDocument, TranscriptExtent } from '@/lib/types/deposition';
+import { parseTranscript, toTranscriptExtent } from '@/lib/transcript-parser';
+import { putSession, readSession, replaceSession } from './db';
+import type { SessionStoreName } from './db';
+import { linkSessionToCase } from './case-storage';
+import { getRecording } from './recording-storage';
+import { SCHEMA_VERSION, migrateRecord } from './migrations';
+import {
+  depositionDocumentSchema,
+  depositionSessionFields,
+  describeIssues,
+  isoDate,
+  testimonyDocumentSchema,
+  testimonySessionFields,
+  transcriptExtentSchema,
+} from './schemas';
+
+export const BUNDLE_FORMAT = 'wtp-session-bundle';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.wtp.zip';
+
+// Larger files are rejected before they are unzipped
+const MAX_BUNDLE_BYTES = 100 * 1024 * 1024;
+// The most the manifest and documents may add up to once unzipped, counted while reading
+// (the sizes a zip declares can be forged)
+const MAX_UNZIPPED_BYTES = 300 * 1024 * 1024;
+
+const MANIFEST_PATH = 'manifest.json';
+
+export type BundleTool = 'testimony' | 'deposition';
+
+const STORES: Record<BundleTool, SessionStoreName> = {
+  testimony: 'testimonySessions',
+  deposition: 'depositionSessions',
+};
+
+/**
+ * What to do when the bundle's session is already saved in this browser:
+ * import it as a copy with new ids, replace the saved session, or leave it alone
+ */
+export type ImportConflictResolution = 'copy' | 'replace' | 'skip';
+
+export type BundledSession =
+  | { tool: 'testimony'; session: PracticeSession }
+  | { tool: 'deposition'; session: DepositionSession };
+
+export type SessionBundle = BundledSession & {
+  exportedAt: string;
+  warnings: string[]; // Problems that did not stop the import, e.g. a missing document text
+};
+
+export interface BundleImportResult {
+  outcome: 'imported' | 'replaced' | 'skipped';
+  bundle: SessionBundle;
+  session?: PracticeSession | DepositionSession;
+}
+
+/** The file is not a session bundle, or not one this version can read */
+export class BundleFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleFormatError';
+  }
+}
+
+// ============================================================================
+// Manifest schema
+// ============================================================================
+
+const manifestFields = {
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.number().int().positive(),
+  schemaVersion: z.number().int().nonnegative().optional(), // See ./migrations; absent means 0
+  exportedAt: isoDate,
+};
+
+const manifestSchema = z.discriminatedUnion('tool', [
+  z.object({
+    ...manifestFields,
+    tool: z.literal('testimony'),
+    session: z.looseObject({ ...testimonySessionFields, documents: z.array(testimonyDocumentSchema) }),
+  }),
+  z.object({
+    ...manifestFields,
+    tool: z.literal('deposition'),
+    session: z.looseObject({ ...depositionSessionFields, documents: z.array(depositionDocumentSchema) }),
+  }),
+]);
+
+// Document entry in the manifest: the text lives in its own file
+// (transcriptIndexPath in bundles exported before the extent was renamed)
+type BundledDocument = {
+  contentPath?: string;
+  transcriptExtentPath?: string;
+  transcriptIndexPath?: string;
+} & Record<string, unknown>;
+
+// ============================================================================
+// Export
+// ============================================================================
+
+function safeFileName(value: string): string {
+  return value.replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'session';
+}
+
+export async function exportSessionBundle(tool: BundleTool, sessionId: string): Promise<{ blob: Blob; fileName: string }> {
+  const session = await readSession<PracticeSession | DepositionSession>(STORES[tool], sessionId);
+  if (!session) throw new Error('Session not found');
+
+  const zip = new JSZip();
+  const documents: BundledDocument[] = [];
+
+  for (const document of session.documents as Array<Document | DepositionDocument>) {
+    const bundled: BundledDocument = { ...document };
+    // Local to this browser: the case library is rebuilt on import
+    delete bundled.caseDocumentId;
+    delete bundled.content;
+    delete bundled.transcriptExtent;
+
+    if (document.content !== undefined) {
+      bundled.contentPath = `documents/${document.id}.txt`;
+      zip.file(bundled.contentPath, document.content);
+    }
+    if ('transcriptExtent' in document && document.transcriptExtent) {
+      bundled.transcriptExtentPath = `documents/${document.id}.transcript.json`;
+      zip.file(bundled.transcriptExtentPath, JSON.stringify(document.transcriptExtent));
+    }
+    documents.push(bundled);
+  }
+
+  const bundledSession: Record<string, unknown> = { ...session, documents };
+  delete bundledSession.caseId;
+  delete bundledSession.witnessId;
+
+  zip.file(
+    MANIFEST_PATH,
+    JSON.stringify(
+      {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        schemaVersion: SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        tool,
+        session: bundledSession,
+      },
+      null,
+      2
+    )
+  );
+
+  const name = 'witnessName' in session ? session.witnessName : session.deponentName;
+  return {
+    blob: await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' }),
+    fileName: `${safeFileName(`${session.caseName}-${name}`)}${BUNDLE_EXTENSION}`,
+  };
+}
+
+/**
+ * Export a session and save the bundle through the browser's download prompt
+ */
+export async function downloadSessionBundle(tool: BundleTool, sessionId: string): Promise<void> {
+  const { blob, fileName } = await exportSessionBundle(tool, sessionId);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Unzip and validate a bundle. Throws BundleFormatError when the file cannot be used.
+ */
+export async function readSessionBundle(file: Blob): Promise<SessionBundle> {
+  if (file.size > MAX_BUNDLE_BYTES) {
+    throw new BundleFormatError('The file is too large to be a session bundle.');
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new BundleFormatError('The file is not a session bundle (it is not a zip archive).');
+  }
+
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) throw new BundleFormatError('The bundle has no manifest.json.');
+
+  const budget = { remaining: MAX_UNZIPPED_BYTES };
+  const manifestText = await readEntry(manifestFile, budget);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(manifestText);
+  } catch {
+    throw new BundleFormatError('The bundle manifest is not valid JSON.');
+  }
+
+  const { version, schemaVersion } = (raw ?? {}) as { version?: unknown; schemaVersion?: unknown };
+  if (
+    (typeof version === 'number' && version > BUNDLE_VERSION) ||
+    (typeof schemaVersion === 'number' && schemaVersion > SCHEMA_VERSION)
+  ) {
+    throw new BundleFormatError('The bundle was exported by a newer version of the app. Update the app to import it.');
+  }
+
+  // Sessions exported before a schema change are upgraded like saved records
+  const manifest = raw as { tool?: unknown; schemaVersion?: unknown; session?: unknown } | null;
+  const session = manifest?.session;
+  if ((manifest?.tool === 'testimony' || manifest?.tool === 'deposition') && session && typeof session === 'object') {
+    const record = session as Record<string, unknown>;
+    record.schemaVersion = manifest.schemaVersion;
+    migrateRecord(record, STORES[manifest.tool]);
+    delete record.schemaVersion;
+  }
+
+  const parsed = manifestSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new BundleFormatError(`The bundle manifest is invalid: ${describeIssues(parsed.error)}`);
+  }
+
+  const warnings: string[] = [];
+  const documents = [];
+  for (const entry of parsed.data.session.documents as BundledDocument[]) {
+    const { contentPath, transcriptIndexPath, ...rest } = entry;
+    const { transcriptExtentPath = transcriptIndexPath, ...document } = rest;
+    const name = String(document.name);
+
+    let content: string | undefined;
+    if (contentPath) {
+      const contentFile = zip.file(contentPath);
+      content = contentFile ? await readEntry(contentFile, budget) : undefined;
+      if (content === undefined) {
+        warnings.push(`${name}: the document text is missing from the bundle.`);
+        document.status = 'error';
+      }
+    }
+
+    let transcriptExtent: TranscriptExtent | undefined;
+    if (transcriptExtentPath) {
+      const indexEntry = zip.file(transcriptExtentPath);
+      const indexFile = indexEntry ? await readEntry(indexEntry, budget) : undefined;
+      const index = indexFile ? transcriptExtentSchema.safeParse(safeJsonParse(indexFile)) : null;
+      // An unreadable index is rebuilt from the text
+      const rebuilt = index?.success ? null : content && parseTranscript(content);
+      transcriptExtent = index?.success ? index.data : rebuilt ? toTranscriptExtent(rebuilt) : undefined;
+    }
+
+    documents.push({ ...document, content, transcriptExtent });
+  }
+
+  const imported = { ...parsed.data.session, documents };
+  return parsed.data.tool === 'testimony'
+    ? { tool: 'testimony', session: imported as unknown as PracticeSession, exportedAt: parsed.data.exportedAt, warnings }
+    : { tool: 'deposition', session: imported as unknown as DepositionSession, exportedAt: parsed.data.exportedAt, warnings };
+}
+
+function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+// Not in JSZip's type definitions: reads the entry a chunk at a time as it is unzipped
+type StreamableZipObject = JSZip.JSZipObject & {
+  internalStream(type: 'uint8array'): JSZip.JSZipStreamHelper<Uint8Array>;
+};
+
+/**
+ * Read an entry as text, giving up once the entries read so far exceed `budget.remaining`
+ */
+function readEntry(file: JSZip.JSZipObject, budget: { remaining: number }): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const decoder = new TextDecoder();
+    let text = '';
+    const stream = (file as StreamableZipObject).internalStream('uint8array');
+    stream
+      .on('data', (chunk) => {
+        budget.remaining -= chunk.length;
+        if (budget.remaining < 0) {
+          stream.pause();
+          reject(new BundleFormatError('The bundle is too large to import once unzipped.'));
+          return;
+        }
+        text += decoder.decode(chunk, { stream: true });
+      })
+      .on('error', reject)
+      .on('end', () => resolve(text + decoder.decode()))
+      .resume();
+  });
+}
+
+/**
+ * The saved session the bundle would overwrite, if any
+ */
+export async function findBundleConflict(
+  bundle: SessionBundle
+): Promise<PracticeSession | DepositionSession | undefined> {
+  return readSession<PracticeSession | DepositionSession>(STORES[bundle.tool], bundle.session.id, false);
+}
+
+// Recordings are not bundled and stay in the browser that made them, so exchanges keep
+// only references to clips saved in this browser
+async function withLocalRecordings(history: PracticeExchange[]): Promise<PracticeExchange[]> {
+  return Promise.all(
+    history.map(async (exchange) =>
+      !exchange.recordingId || (await getRecording(exchange.recordingId))
+        ? exchange
+        : { ...exchange, recordingId: undefined }
+    )
+  );
+}
+
+/**
+ * Save a bundle's session in this browser. Document ids are always new (they are
+ * unique across sessions); the session keeps its id unless imported as a copy.
+ * The session is filed under the local case with its case name.
+ */
+export async function importSessionBundle(
+  bundle: SessionBundle,
+  resolution: ImportConflictResolution = 'copy'
+): Promise<BundleImportResult> {
+  const store = STORES[bundle.tool];
+  const conflict = await findBundleConflict(bundle);
+  if (conflict && resolution === 'skip') return { outcome: 'skipped', bundle };
+
+  const { session } = bundle;
+  const witnessName = bundle.tool === 'testimony' ? bundle.session.witnessName : bundle.session.deponentName;
+  const caseNumber = bundle.tool === 'deposition' ? bundle.session.caseNumber : undefined;
+  const { caseId, witnessId } = await linkSessionToCase(session.caseName, witnessName, caseNumber);
+  const practiceHistory =
+    bundle.tool === 'testimony' ? await withLocalRecordings(bundle.session.practiceHistory) : undefined;
+
+  const imported = {
+    ...session,
+    id: conflict && resolution === 'copy' ? uuidv4() : session.id,
+    caseId,
+    witnessId,
+    // Retention counts from the import, not from the last change on the other machine
+    updatedAt: new Date().toISOString(),
+    documents: session.documents.map((document) => ({ ...document, id: uuidv4() })),
+    ...(practiceHistory && { practiceHistory }),
+  } as PracticeSession | DepositionSession;
+
+  if (conflict && resolution === 'replace') {
+    await replaceSession(store, imported);
+    return { outcome: 'replaced', bundle, session: imported };
+  }
+
+  await putSession(store, imported);
+  return { outcome: 'imported', bundle, session: imported };
+}
@@ -1,195 +1,208 @@
-// localStorage-based session storage for Testimony Prep Tool
-// Replaces server-side in-memory storage with client-side persistence
+// Session storage for Testimony Prep Tool (IndexedDB, or the server backend when configured)
+// Sessions, documents and document text are stored as separate records (see ./db)
 
 import { v4 as uuidv4 } from 'uuid';
-import type { PracticeSession, Document, CrossExamQuestion, PracticeExchange } from '@/lib/types/testimony';
-
-const STORAGE_KEY = 'wtp_testimony_sessions_v1';
-const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-
-// SSR safety check
-function isBrowser(): boolean {
-  return typeof window !== 'undefined';
-}
-
-function loadSessions(): Map<string, PracticeSession> {
-  if (!isBrowser()) return new Map();
-
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return new Map();
-
-    const parsed = JSON.parse(stored) as Record<string, PracticeSession>;
-    return new Map(Object.entries(parsed));
-  } catch (error) {
-    console.error('Failed to load sessions from localStorage:', error);
-    return new Map();
-  }
-}
-
-function saveSessions(sessions: Map<string, PracticeSession>): void {
-  if (!isBrowser()) return;
-
-  try {
-    const obj = Object.fromEntries(sessions.entries());
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(obj));
-  } catch (error) {
-    console.error('Failed to save sessions to localStorage:', error);
-    // Handle quota exceeded
-    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-      // Remove oldest sessions and retry
-      cleanupOldSessions(sessions, true);
-      try {
-        const obj = Object.fromEntries(sessions.entries());
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(obj));
-      } catch {
-        console.error('Failed to save even after cleanup');
-      }
-    }
-  }
-}
-
-function cleanupOldSessions(sessions: Map<string, PracticeSession>, aggressive = false): void {
-  const now = Date.now();
-  const ttl = aggressive ? SESSION_TTL_MS / 2 : SESSION_TTL_MS;
-
-  for (const [id, session] of sessions.entries()) {
-    const createdAt = new Date(session.createdAt).getTime();
-    if (now - createdAt > ttl) {
-      sessions.delete(id);
-    }
-  }
-}
-
-export function createSession(witnessName: string, caseName: string): PracticeSession {
-  const sessions = loadSessions();
-  cleanupOldSessions(sessions);
+import type {
+  PracticeSession,
+  Document,
+  CrossExamQuestion,
+  PracticeExchange,
+  FallbackReason,
+  ExaminerProfile,
+} from '@/lib/types/testimony';
+import type { CaseDocument } from '@/lib/types/case';
+import {
+  deleteDocument,
+  deleteSessions,
+  estimateStorage,
+  insertDocument,
+  isStorageAvailable,
+  listSessionIds,
+  patchDocument,
+  putSession,
+  readAllSessions,
+  readSession,
+  updateSessionRecord,
+} from './db';
+import { purgeExpiredSessions } from './retention';
+import { addCaseDocument, linkSessionToCase } from './case-storage';
+
+const STORE = 'testimonySessions';
+
+export async function createSession(
+  witnessName: string,
+  caseName: string,
+  examinerProfile?: ExaminerProfile,
+  witnessEmail?: string
+): Promise<PracticeSession> {
+  // Sessions past their retention period are removed (see ./retention)
+  await purgeExpiredSessions(STORE);
+  const { caseId, witnessId } = await linkSessionToCase(caseName, witnessName);
+  const now = new Date().toISOString();
 
   const session: PracticeSession = {
     id: uuidv4(),
     witnessName,
     caseName,
-    createdAt: new Date().toISOString(),
+    caseId,
+    witnessId,
+    createdAt: now,
+    updatedAt: now,
     documents: [],
     questions: [],
     status: 'setup',
     practiceHistory: [],
     totalDuration: 0,
+    examinerProfile,
+    witnessEmail: witnessEmail || undefined,
   };
 
-  sessions.set(session.id, session);
-  saveSessions(sessions);
+  await putSession(STORE, session);
   return session;
 }
 
-export function getSession(sessionId: string): PracticeSession | undefined {
-  const sessions = loadSessions();
-  return sessions.get(sessionId);
-}
-
-export function getAllSessions(): PracticeSession[] {
-  const sessions = loadSessions();
-  return Array.from(sessions.values()).sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  );
-}
+/**
+ * Start a session for another witness in the same case: the documents and examiner
+ * settings are copied, questions and practice history start over
+ */
+export async function duplicateSession(sessionId: string, witnessName: string): Promise<PracticeSession | undefined> {
+  const source = await getSession(sessionId);
+  if (!source) return undefined;
 
-export function updateSession(sessionId: string, updates: Partial<PracticeSession>): PracticeSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session) return undefined;
-
-  const updated = { ...session, ...updates };
-  sessions.set(sessionId, updated);
-  saveSessions(sessions);
-  return updated;
-}
-
-export function addDocument(sessionId: string, document: Document): PracticeSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session) return undefined;
-
-  session.documents.push(document);
-  sessions.set(sessionId, session);
-  saveSessions(sessions);
+  const session = await createSession(witnessName, source.caseName, source.examinerProfile);
+  session.followUpDepth = source.followUpDepth;
+  session.documents = source.documents.map((doc) => ({ ...doc, id: uuidv4() }));
+  await putSession(STORE, session);
   return session;
 }
 
-export function updateDocument(sessionId: string, documentId: string, updates: Partial<Document>): PracticeSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session) return undefined;
-
-  const docIndex = session.documents.findIndex(d => d.id === documentId);
-  if (docIndex === -1) return undefined;
-
-  session.documents[docIndex] = { ...session.documents[docIndex], ...updates };
-  sessions.set(sessionId, session);
-  saveSessions(sessions);
+export async function getSession(sessionId: string): Promise<PracticeSession | undefined> {
+  if (!isStorageAvailable()) return undefined;
+  return readSession<PracticeSession>(STORE, sessionId);
+}
+
+// Newest first; documents are listed without their text (use getSession for that)
+export async function getAllSessions(): Promise<PracticeSession[]> {
+  if (!isStorageAvailable()) return [];
+  return readAllSessions<PracticeSession>(STORE);
+}
+
+export async function updateSession(
+  sessionId: string,
+  updates: Partial<Omit<PracticeSession, 'id' | 'documents'>>
+): Promise<PracticeSession | undefined> {
+  return updateSessionRecord<PracticeSession>(STORE, sessionId, (session) => {
+    Object.assign(session, updates);
+  });
+}
+
+export async function addDocument(sessionId: string, document: Document): Promise<PracticeSession | undefined> {
+  return insertDocument<PracticeSession>(STORE, sessionId, document);
+}
+
+export async function updateDocument(
+  sessionId: string,
+  documentId: string,
+  updates: Partial<Document>
+): Promise<PracticeSession | undefined> {
+  return patchDocument<PracticeSession>(STORE, sessionId, documentId, updates);
+}
+
+export async function removeDocument(sessionId: string, documentId: string): Promise<PracticeSession | undefined> {
+  return deleteDocument<PracticeSession>(STORE, sessionId, documentId);
+}
+
+/**
+ * Attach documents from the case library; each is copied into the session with its text
+ */
+export async function attachCaseDocuments(
+  sessionId: string,
+  documents: CaseDocument[]
+): Promise<PracticeSession | undefined> {
+  let session: PracticeSession | undefined;
+  for (const document of documents) {
+    session = await insertDocument<PracticeSession>(STORE, sessionId, {
+      id: uuidv4(),
+      name: document.name,
+      type: document.fileType,
+      size: document.size,
+      uploadedAt: document.uploadedAt,
+      objectId: document.objectId,
+      content: document.content,
+      status: document.status,
+      pageCount: document.pageCount,
+      pages: document.pages,
+      caseDocumentId: document.id,
+    });
+  }
   return session;
 }
 
-export function removeDocument(sessionId: string, documentId: string): PracticeSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session) return undefined;
-
-  session.documents = session.documents.filter(d => d.id !== documentId);
-  sessions.set(sessionId, session);
-  saveSessions(sessions);
-  return session;
+/**
+ * Add an uploaded document to the session's case library so other witnesses' sessions
+ * can attach it without uploading it again
+ */
+export async function shareDocumentWithCase(
+  sessionId: string,
+  documentId: string,
+  category?: CaseDocument['category']
+): Promise<PracticeSession | undefined> {
+  const session = await getSession(sessionId);
+  const document = session?.documents.find((d) => d.id === documentId);
+  if (!session?.caseId || !document || document.caseDocumentId || document.status !== 'ready') return session;
+
+  const caseDocument: CaseDocument = {
+    id: uuidv4(),
+    name: document.name,
+    fileType: document.type,
+    size: document.size,
+    uploadedAt: document.uploadedAt,
+    objectId: document.objectId,
+    content: document.content,
+    status: document.status,
+    pageCount: document.pageCount,
+    pages: document.pages,
+    category,
+  };
+  await addCaseDocument(session.caseId, caseDocument);
+  return updateDocument(sessionId, documentId, { caseDocumentId: caseDocument.id });
 }
 
-export function setQuestions(sessionId: string, questions: CrossExamQuestion[]): PracticeSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session) return undefined;
-
-  session.questions = questions;
-  session.status = 'ready';
-  sessions.set(sessionId, session);
-  saveSessions(sessions);
-  return session;
+export async function setQuestions(
+  sessionId: string,
+  questions: CrossExamQuestion[],
+  fallbackReason?: FallbackReason
+): Promise<PracticeSession | undefined> {
+  return updateSessionRecord<PracticeSession>(STORE, sessionId, (session) => {
+    session.questions = questions;
+    session.fallbackReason = fallbackReason;
+    session.status = 'ready';
+  });
 }
 
-export function addPracticeExchange(sessionId: string, exchange: PracticeExchange): PracticeSession | undefined {
-  const sessions = loadSessions();
-  const session = sessions.get(sessionId);
-  if (!session) return undefined;
-
-  session.practiceHistory.push(exchange);
-  session.totalDuration += exchange.duration;
-  sessions.set(sessionId, session);
-  saveSessions(sessions);
-  return session;
+export async function addPracticeExchange(
+  sessionId: string,
+  exchange: PracticeExchange
+): Promise<PracticeSession | undefined> {
+  return updateSessionRecord<PracticeSession>(STORE, sessionId, (session) => {
+    session.practiceHistory.push(exchange);
+    session.totalDuration += exchange.duration;
+  });
 }
 
-export function deleteSession(sessionId: string): boolean {
-  const sessions = loadSessions();
-  const deleted = sessions.delete(sessionId);
-  if (deleted) {
-    saveSessions(sessions);
-  }
-  return deleted;
+export async function deleteSession(sessionId: string): Promise<boolean> {
+  return (await deleteSessions(STORE, [sessionId])) > 0;
 }
 
-export function clearAllSessions(): void {
-  if (!isBrowser()) return;
-  localStorage.removeItem(STORAGE_KEY);
+export async function clearAllSessions(): Promise<void> {
+  if (!isStorageAvailable()) return;
+  await deleteSessions(STORE, await listSessionIds(STORE));
 }
 
-// Get storage usage stats
-export function getStorageStats(): { used: number; available: number; sessionCount: number } {
-  if (!isBrowser()) return { used: 0, available: 5 * 1024 * 1024, sessionCount: 0 };
+// Get storage usage stats (used/available cover everything this origin stores)
+export async function getStorageStats(): Promise<{ used: number; available: number; sessionCount: number }> {
+  if (!isStorageAvailable()) return { used: 0, available: 0, sessionCount: 0 };
 
-  const stored = localStorage.getItem(STORAGE_KEY) || '';
-  const used = new Blob([stored]).size;
-  const sessions = loadSessions();
-
-  return {
-    used,
-    available: 5 * 1024 * 1024, // Approximate localStorage limit
-    sessionCount: sessions.size,
-  };
+  const [{ used, available }, sessionIds] = await Promise.all([estimateStorage(), listSessionIds(STORE)]);
+  return { used, available, sessionCount: sessionIds.length };
 }
@@ -1,4 +1,5 @@
-// localStorage-based usage tracking (simplified for OSS version - no limits)
+// Anonymous browser and session ids, and price formatting
+// Rate limits, budgets and the cost of each request are handled on the server (lib/usage).
 
 import { v4 as uuidv4 } from 'uuid';
 
@@ -39,8 +40,3 @@ export function getSessionId(): string {
 export function formatPrice(price: number): string {
   return `$${price.toFixed(2)}`;
 }
-
-// Calculate cost (always returns 0 in OSS version)
-export function calculateCost(_charCount: number): number {
-  return 0;
-}
@@ -0,0 +1,312 @@
+/**
+ * Transcript parser for court-reporter deposition and hearing transcripts.
+ *
+ * Recognizes the standard reporter layout (a page number header followed by
+ * numbered lines, usually 25 per page), Q./A. markers and speaker colloquy
+ * ("MR. SMITH:", "THE WITNESS:"), and builds a page/line index so questions
+ * and contradictions can cite testimony as "12:4-13:2".
+ */
+
+import type { TranscriptExtent, TranscriptIndex, TranscriptLine, TranscriptCitation } from '@/lib/types/deposition';
+
+// Reporters use 25 lines per page; some jurisdictions allow up to 28
+const MAX_LINES_PER_PAGE = 28;
+
+// Minimum structure before we trust the numbering as a real transcript
+const MIN_NUMBERED_LINES = 20;
+const MIN_NUMBERED_RATIO = 0.5;
+
+const NUMBERED_LINE = /^\s*(\d{1,2})(?:\s+(.*?))?\s*$/;
+const BARE_NUMBER = /^\s*(\d{1,5})\s*$/;
+const PAGE_HEADER = /^\s*(?:-\s*(\d{1,5})\s*-|page\s+(\d{1,5})(?:\s+of\s+\d{1,5})?)\s*$/i;
+
+const QUESTION_MARKER = /^Q[.:]?(?:\s+|$)/;
+const ANSWER_MARKER = /^A[.:]?(?:\s+|$)/;
+const SPEAKER_MARKER =
+  /^(?:BY\s+)?((?:MR|MS|MRS|DR)\.?\s+[A-Z][A-Z'-]+|THE\s+(?:WITNESS|COURT|REPORTER|VIDEOGRAPHER|DEPONENT|INTERPRETER))\s*:/;
+
+interface ParseState {
+  page: number;
+  lastLine: number;
+  pendingPage: number | null;
+  pageBreak: boolean;
+  role?: TranscriptLine['role'];
+  speaker?: string;
+}
+
+// Classify a line of testimony and carry the current speaker forward
+function applySpeaker(state: ParseState, text: string): Pick<TranscriptLine, 'role' | 'speaker'> {
+  const trimmed = text.trim();
+
+  if (QUESTION_MARKER.test(trimmed)) {
+    state.role = 'question';
+  } else if (ANSWER_MARKER.test(trimmed)) {
+    state.role = 'answer';
+  } else {
+    const speakerMatch = trimmed.match(SPEAKER_MARKER);
+    if (speakerMatch) {
+      state.role = 'colloquy';
+      state.speaker = speakerMatch[1].replace(/\s+/g, ' ');
+      return { role: state.role, speaker: state.speaker };
+    }
+  }
+
+  return state.role === 'colloquy'
+    ? { role: state.role, speaker: state.speaker }
+    : { role: state.role };
+}
+
+// Line number of the next numbered line, skipping blank lines
+function peekNextLineNumber(rawLines: string[], from: number): number | null {
+  for (let i = from; i < rawLines.length; i++) {
+    const raw = rawLines[i].replace(/\f/g, '');
+    if (!raw.trim()) continue;
+    const match = raw.match(NUMBERED_LINE);
+    return match ? parseInt(match[1], 10) : null;
+  }
+  return null;
+}
+
+function startPage(state: ParseState): void {
+  state.page = state.pendingPage ?? state.page + 1;
+  state.pendingPage = null;
+  state.pageBreak = false;
+  state.lastLine = 0;
+}
+
+function parseNumberedTranscript(rawLines: string[]): { lines: TranscriptLine[]; nonEmpty: number } {
+  const lines: TranscriptLine[] = [];
+  const state: ParseState = { page: 0, lastLine: 0, pendingPage: null, pageBreak: false };
+  let nonEmpty = 0;
+
+  for (let i = 0; i < rawLines.length; i++) {
+    let raw = rawLines[i];
+    if (raw.includes('\f')) {
+      state.pageBreak = true;
+      raw = raw.replace(/\f/g, '');
+    }
+    if (!raw.trim()) continue;
+    nonEmpty++;
+
+    // Explicit "Page 12" or "- 12 -" headers
+    const header = raw.match(PAGE_HEADER);
+    if (header) {
+      state.pendingPage = parseInt(header[1] || header[2], 10);
+      continue;
+    }
+
+    // A bare number is either a page number header or a blank numbered line
+    const bare = raw.match(BARE_NUMBER);
+    if (bare) {
+      const n = parseInt(bare[1], 10);
+      const nextLine = peekNextLineNumber(rawLines, i + 1);
+      const continuesPage = state.page > 0 && n === state.lastLine + 1;
+
+      if (n > MAX_LINES_PER_PAGE || (nextLine === 1 && (!continuesPage || n === state.page + 1))) {
+        state.pendingPage = n;
+        continue;
+      }
+    }
+
+    const numbered = raw.match(NUMBERED_LINE);
+    if (numbered) {
+      const n = parseInt(numbered[1], 10);
+      const text = numbered[2] || '';
+
+      if (n === 1 && (state.page === 0 || state.lastLine > 1 || state.pageBreak || state.pendingPage !== null)) {
+        startPage(state);
+      }
+
+      if (state.page > 0 && n > state.lastLine && n <= MAX_LINES_PER_PAGE) {
+        lines.push({ page: state.page, line: n, text, ...applySpeaker(state, text) });
+        state.lastLine = n;
+        continue;
+      }
+    }
+
+    // Wrapped text from PDF extraction belongs to the previous numbered line
+    const previous = lines[lines.length - 1];
+    if (previous && previous.page === state.page && state.page > 0) {
+      previous.text = previous.text ? `${previous.text} ${raw.trim()}` : raw.trim();
+    }
+  }
+
+  return { lines, nonEmpty };
+}
+
+// Fallback for paginated text (e.g. PDF pages joined with form feeds) without line numbers
+function parsePaginatedText(text: string): TranscriptLine[] {
+  const lines: TranscriptLine[] = [];
+  const state: ParseState = { page: 0, lastLine: 0, pendingPage: null, pageBreak: false };
+
+  text.split('\f').forEach((pageText, pageIndex) => {
+    let lineNumber = 0;
+    for (const raw of pageText.split('\n')) {
+      if (!raw.trim()) continue;
+      lineNumber++;
+      lines.push({ page: pageIndex + 1, line: lineNumber, text: raw.trim(), ...applySpeaker(state, raw) });
+    }
+  });
+
+  return lines;
+}
+
+function buildIndex(format: TranscriptIndex['format'], lines: TranscriptLine[]): TranscriptIndex {
+  const pages = new Set(lines.map(l => l.page));
+  return {
+    format,
+    firstPage: lines[0].page,
+    lastPage: lines[lines.length - 1].page,
+    pageCount: pages.size,
+    linesPerPage: Math.max(...lines.map(l => l.line)),
+    lines,
+  };
+}
+
+/**
+ * Parse transcript text into a page/line index.
+ * Returns null when the text does not follow a recognizable transcript layout.
+ */
+export function parseTranscript(text: string): TranscriptIndex | null {
+  if (!text.trim()) return null;
+
+  const normalized = text.replace(/\r\n?/g, '\n');
+  const { lines, nonEmpty } = parseNumberedTranscript(normalized.split('\n'));
+
+  if (lines.length >= MIN_NUMBERED_LINES && lines.length / Math.max(nonEmpty, 1) >= MIN_NUMBERED_RATIO) {
+    return buildIndex('numbered', lines);
+  }
+
+  if (normalized.includes('\f')) {
+    const paginated = parsePaginatedText(normalized);
+    if (paginated.length > 0 && paginated[paginated.length - 1].page > 1) {
+      return buildIndex('paginated', paginated);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The page and line range of a transcript, as documents store it. Also drops the lines
+ * from indexes saved before documents stopped storing them.
+ */
+export function toTranscriptExtent(index: TranscriptExtent): TranscriptExtent {
+  const { format, firstPage, lastPage, pageCount, linesPerPage } = index;
+  return { format, firstPage, lastPage, pageCount, linesPerPage };
+}
+
+// ============================================================================
+// Citations
+// ============================================================================
+
+/**
+ * Format a citation the way it is read at the table: "12:4", "12:4-8" or "12:4-13:2"
+ */
+export function formatCitation(citation: TranscriptCitation): string {
+  const { startPage, startLine, endPage, endLine } = citation;
+  if (startPage === endPage && startLine === endLine) return `${startPage}:${startLine}`;
+  if (startPage === endPage) return `${startPage}:${startLine}-${endLine}`;
+  return `${startPage}:${startLine}-${endPage}:${endLine}`;
+}
+
+/**
+ * Parse "12:4", "12:4-8", "12:4-13:2" (optionally prefixed with "p." / "page")
+ */
+export function parseCitation(reference: string): TranscriptCitation | null {
+  const match = reference
+    .trim()
+    .match(/^(?:p(?:age|g)?\.?\s*)?(\d{1,5}):(\d{1,2})(?:\s*[-–]\s*(?:(\d{1,5}):)?(\d{1,2}))?$/i);
+  if (!match) return null;
+
+  const startPage = parseInt(match[1], 10);
+  const startLine = parseInt(match[2], 10);
+  const endPage = match[3] ? parseInt(match[3], 10) : startPage;
+  const endLine = match[4] ? parseInt(match[4], 10) : startLine;
+
+  if (endPage < startPage || (endPage === startPage && endLine < startLine)) return null;
+  return { startPage, startLine, endPage, endLine };
+}
+
+/**
+ * Check that both ends of a citation point at lines that exist in the transcript
+ */
+export function isCitationInIndex(index: TranscriptIndex, citation: TranscriptCitation): boolean {
+  const exists = (page: number, line: number) => index.lines.some(l => l.page === page && l.line === line);
+  return exists(citation.startPage, citation.startLine) && exists(citation.endPage, citation.endLine);
+}
+
+function normalizeForSearch(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function stripMarkers(text: string): string {
+  return text.trim().replace(QUESTION_MARKER, '').replace(ANSWER_MARKER, '');
+}
+
+/**
+ * Locate a quoted excerpt in the transcript and return the lines it spans.
+ * Matching ignores case, punctuation, line breaks and Q./A. markers.
+ */
+export function findCitation(index: TranscriptIndex, excerpt: string): TranscriptCitation | null {
+  const needle = normalizeForSearch(stripMarkers(excerpt).replace(/\b[QA][.:]\s+/g, ' '));
+  if (needle.length < 8) return null;
+
+  // Build a searchable stream with the offset at which each line starts
+  const offsets: number[] = [];
+  let haystack = '';
+  for (const line of index.lines) {
+    offsets.push(haystack.length);
+    const normalized = normalizeForSearch(stripMarkers(line.text));
+    haystack += normalized ? `${normalized} ` : '';
+  }
+
+  const lineAt = (offset: number): TranscriptLine => {
+    let i = offsets.length - 1;
+    while (i > 0 && offsets[i] > offset) i--;
+    return index.lines[i];
+  };
+
+  const toCitation = (start: number, end: number): TranscriptCitation => {
+    const first = lineAt(start);
+    const last = lineAt(Math.max(start, end - 1));
+    return { startPage: first.page, startLine: first.line, endPage: last.page, endLine: last.line };
+  };
+
+  const exact = haystack.indexOf(needle);
+  if (exact !== -1) return toCitation(exact, exact + needle.length);
+
+  // Paraphrased middles are common in model output: anchor on the opening and closing words
+  const words = needle.split(' ');
+  if (words.length < 6) return null;
+
+  const head = words.slice(0, 5).join(' ');
+  const tail = words.slice(-5).join(' ');
+  const maxSpan = needle.length * 2;
+
+  const starts: number[] = [];
+  for (let at = haystack.indexOf(head); at !== -1; at = haystack.indexOf(head, at + 1)) {
+    starts.push(at);
+  }
+
+  for (const start of starts) {
+    const end = haystack.indexOf(tail, start);
+    if (end !== -1 && end - start <= maxSpan) return toCitation(start, end + tail.length);
+  }
+
+  // Only trust the opening words alone when they are unambiguous
+  return starts.length === 1 ? toCitation(starts[0], starts[0] + head.length) : null;
+}
+
+/**
+ * Render the transcript with "page:line" prefixes so a model can cite it
+ */
+export function formatTranscriptForPrompt(index: TranscriptIndex): string {
+  return index.lines
+    .filter(l => l.text.trim())
+    .map(l => `[${l.page}:${l.line}] ${l.text}`)
+    .join('\n');
+}
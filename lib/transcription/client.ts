@@ -0,0 +1,94 @@
+// Client-side answer recording and transcription
+// Records the microphone with MediaRecorder and sends finished clips to /api/testimony/transcribe.
+
+import { toRequestError } from '@/lib/question-stream';
+
+// Preferred formats, best first; browsers record the first one they support
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus'];
+
+export interface RecordedClip {
+  audio: Blob;
+  mimeType: string;
+  startedAt: string;
+  endedAt: string;
+}
+
+export interface AnswerRecorder {
+  /** Stop recording and release the microphone */
+  stop(): Promise<RecordedClip>;
+  /** Stop without keeping the audio */
+  cancel(): void;
+}
+
+export function isRecordingSupported(): boolean {
+  return typeof window !== 'undefined' && typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+/**
+ * Ask for the microphone and start recording. Rejects with the browser's error
+ * (NotAllowedError when permission is refused).
+ */
+export async function startAnswerRecording(): Promise<AnswerRecorder> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const mimeType = RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  const startedAt = new Date().toISOString();
+
+  const release = () => stream.getTracks().forEach((track) => track.stop());
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start();
+
+  return {
+    stop() {
+      return new Promise((resolve, reject) => {
+        recorder.onstop = () => {
+          release();
+          const type = recorder.mimeType || mimeType || 'audio/webm';
+          resolve({ audio: new Blob(chunks, { type }), mimeType: type, startedAt, endedAt: new Date().toISOString() });
+        };
+        recorder.onerror = () => {
+          release();
+          reject(new Error('Recording failed'));
+        };
+        recorder.stop();
+      });
+    },
+
+    cancel() {
+      recorder.onstop = release;
+      if (recorder.state !== 'inactive') recorder.stop();
+      else release();
+    },
+  };
+}
+
+// File extension the transcription server uses to detect the format
+function extensionFor(mimeType: string): string {
+  if (mimeType.includes('mp4')) return 'm4a';
+  if (mimeType.includes('ogg')) return 'ogg';
+  return 'webm';
+}
+
+/**
+ * Transcribe a recorded answer. Rejects with a UsageLimitError when a rate limit is
+ * reached and a plain Error with the server's message otherwise.
+ */
+export async function transcribeRecording(
+  clip: Pick<RecordedClip, 'audio' | 'mimeType'>,
+  options: { caseId?: string; language?: string; signal?: AbortSignal } = {}
+): Promise<string> {
+  const formData = new FormData();
+  formData.append('audio', clip.audio, `answer.${extensionFor(clip.mimeType)}`);
+  if (options.caseId) formData.append('caseId', options.caseId);
+  if (options.language) formData.append('language', options.language);
+
+  const response = await fetch('/api/testimony/transcribe', { method: 'POST', body: formData, signal: options.signal });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw toRequestError(response.status, data, 'Failed to transcribe the recording');
+  }
+  return data.text ?? '';
+}
@@ -0,0 +1,115 @@
+// Transcription providers (server-side)
+// Spoken practice answers are transcribed by any server speaking the OpenAI audio
+// transcription API (OpenAI, a self-hosted Whisper server, ...). A stub provider returns
+// fixed text so recording can be exercised offline and in tests.
+
+export interface TranscriptionOptions {
+  /** ISO-639-1 language of the audio; detected when omitted */
+  language?: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  /** Seconds of audio, when the provider reports it */
+  duration?: number;
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(audio: Blob, filename: string, options?: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+// ============================================================================
+// OpenAI-compatible transcription server
+// ============================================================================
+
+export interface OpenAICompatibleTranscriptionConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+/**
+ * Provider for a server implementing the OpenAI transcription endpoint:
+ *   POST {baseUrl}/audio/transcriptions   multipart "file", "model" (+ optional "language") -> { text }
+ */
+export function createOpenAICompatibleTranscriptionProvider(config: OpenAICompatibleTranscriptionConfig): TranscriptionProvider {
+  const base = config.baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: 'openai-compatible',
+
+    async transcribe(audio, filename, options = {}) {
+      const formData = new FormData();
+      formData.append('file', audio, filename);
+      formData.append('model', config.model);
+      formData.append('response_format', 'verbose_json');
+      if (options.language) {
+        formData.append('language', options.language);
+      }
+
+      const response = await fetch(`${base}/audio/transcriptions`, {
+        method: 'POST',
+        headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : undefined,
+        body: formData,
+      });
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Transcription error: ${error}`);
+      }
+
+      const data: { text?: string; duration?: number } = await response.json();
+      return { text: (data.text ?? '').trim(), duration: data.duration };
+    },
+  };
+}
+
+// ============================================================================
+// Stub
+// ============================================================================
+
+export const DEFAULT_STUB_TRANSCRIPT = 'I do not recall the exact date, but it was in the spring.';
+
+/**
+ * Returns the same transcript for every clip, without sending the audio anywhere
+ */
+export function createStubTranscriptionProvider(text = DEFAULT_STUB_TRANSCRIPT): TranscriptionProvider {
+  return {
+    name: 'stub',
+    transcribe: async () => ({ text }),
+  };
+}
+
+/**
+ * Select the transcription provider from configuration, or null when transcription is off:
+ *   TRANSCRIPTION_PROVIDER=openai-compatible   TRANSCRIPTION_BASE_URL; TRANSCRIPTION_MODEL (default whisper-1)
+ *                                              and TRANSCRIPTION_API_KEY optional
+ *   TRANSCRIPTION_PROVIDER=stub                TRANSCRIPTION_STUB_TEXT optional
+ */
+export function getTranscriptionProvider(): TranscriptionProvider | null {
+  const provider = process.env.TRANSCRIPTION_PROVIDER;
+
+  switch (provider) {
+    case undefined:
+    case '':
+      return null;
+
+    case 'stub':
+      return createStubTranscriptionProvider(process.env.TRANSCRIPTION_STUB_TEXT || undefined);
+
+    case 'openai-compatible': {
+      const baseUrl = process.env.TRANSCRIPTION_BASE_URL;
+      if (!baseUrl) {
+        throw new Error('TRANSCRIPTION_BASE_URL environment variable is required for TRANSCRIPTION_PROVIDER=openai-compatible');
+      }
+      return createOpenAICompatibleTranscriptionProvider({
+        baseUrl,
+        model: process.env.TRANSCRIPTION_MODEL || 'whisper-1',
+        apiKey: process.env.TRANSCRIPTION_API_KEY,
+      });
+    }
+
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER "${provider}" (expected openai-compatible or stub)`);
+  }
+}
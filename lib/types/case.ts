@@ -0,0 +1,39 @@
+// Core types for cases (matters)
+// A case owns the documents and witnesses shared by its testimony and deposition sessions
+
+import type { DocumentPageInfo } from './testimony';
+import type { DepositionDocument, TranscriptExtent } from './deposition';
+
+export interface CaseWitness {
+  id: string;
+  name: string;
+  role?: string; // e.g., "Plaintiff", "Treating physician"
+  addedAt: string;
+}
+
+// A document in the case library; attaching it to a session copies it there
+export interface CaseDocument {
+  id: string;
+  name: string;
+  fileType: string; // MIME type
+  size: number;
+  uploadedAt: string;
+  objectId?: string;
+  content?: string;
+  status: 'uploading' | 'processing' | 'ready' | 'error';
+  pageCount?: number;
+  pages?: DocumentPageInfo[];
+  category?: DepositionDocument['type'];
+  transcriptExtent?: TranscriptExtent;
+}
+
+// Sessions link to their case through caseId and witnessId
+export interface Case {
+  id: string;
+  name: string;
+  caseNumber?: string;
+  createdAt: string;
+  updatedAt?: string;
+  documents: CaseDocument[];
+  witnesses: CaseWitness[];
+}
@@ -1,6 +1,8 @@
 // Core types for Deposition Prep Tool
 // For opposing counsel to prepare deposition questions
 
+import type { DocumentPageInfo, FallbackReason, RetentionPolicy } from './testimony';
+
 export interface DepositionDocument {
   id: string;
   name: string;
@@ -12,6 +14,9 @@ export interface DepositionDocument {
   content?: string;
   status: 'uploading' | 'processing' | 'ready' | 'error';
   pageCount?: number; // For OCR tracking
+  pages?: DocumentPageInfo[]; // Per-page extraction source and OCR confidence
+  transcriptExtent?: TranscriptExtent; // Page range, when the content parsed as a court-reporter transcript
+  caseDocumentId?: string; // Case library document this is a copy of
   metadata?: {
     witness?: string;
     date?: string;
@@ -20,6 +25,36 @@ export interface DepositionDocument {
   };
 }
 
+// Page/line index for court-reporter transcripts (e.g. "12:4-13:2" citations)
+export interface TranscriptLine {
+  page: number;
+  line: number;
+  text: string;
+  role?: 'question' | 'answer' | 'colloquy';
+  speaker?: string; // e.g. "MR. SMITH", "THE WITNESS"
+}
+
+export interface TranscriptIndex {
+  format: 'numbered' | 'paginated';
+  firstPage: number;
+  lastPage: number;
+  pageCount: number;
+  linesPerPage: number;
+  lines: TranscriptLine[];
+}
+
+// What a transcript document stores: its page and line range. The full page/line index
+// is rebuilt from the document's content (parseTranscript) when it is needed, so
+// citations are never checked against an index sent with a request.
+export type TranscriptExtent = Omit<TranscriptIndex, 'lines'>;
+
+export interface TranscriptCitation {
+  startPage: number;
+  startLine: number;
+  endPage: number;
+  endLine: number;
+}
+
 export interface TestimonyGap {
   id: string;
   description: string;
@@ -88,6 +123,11 @@ export interface DepositionSession {
   questions: DepositionQuestion[];
   outline: DepositionOutline | null;
   status: 'setup' | 'uploading' | 'analyzing' | 'ready' | 'completed';
+  fallbackReason?: FallbackReason; // Set when the analysis is templated
+  updatedAt?: string; // Last change; sessions saved before this was tracked fall back to createdAt
+  retention?: RetentionPolicy; // Unset: expires after the default retention period
+  caseId?: string;
+  witnessId?: string; // Entry in the case's witness roster
   analysis?: {
     keyThemes: string[];
     timelineEvents: Array<{
@@ -1,3 +1,4 @@
 // Re-export all types
 export * from './testimony';
 export * from './deposition';
+export * from './case';
@@ -10,6 +10,14 @@ export interface Document {
   content?: string;
   status: 'uploading' | 'processing' | 'ready' | 'error';
   pageCount?: number; // For OCR tracking
+  pages?: DocumentPageInfo[]; // Per-page extraction source and OCR confidence
+  caseDocumentId?: string; // Case library document this is a copy of
+}
+
+export interface DocumentPageInfo {
+  pageNumber: number;
+  source: 'text' | 'ocr' | 'blank';
+  confidence?: number; // 0-1, OCR pages only
 }
 
 export interface CrossExamQuestion {
@@ -33,24 +41,41 @@ export interface PracticeSession {
   status: 'setup' | 'generating' | 'ready' | 'practicing' | 'completed';
   practiceHistory: PracticeExchange[];
   totalDuration: number;
-  recordingUrl?: string;
+  examinerProfile?: ExaminerProfile; // Chosen at setup; unset: DEFAULT_EXAMINER_PROFILE
+  followUpDepth?: number; // Follow-ups the examiner presses after each question; unset: the profile's default
+  fallbackReason?: FallbackReason; // Set when the questions are (partly) templated
+  updatedAt?: string; // Last change; sessions saved before this was tracked fall back to createdAt
+  retention?: RetentionPolicy; // Unset: expires after the default retention period
+  caseId?: string;
+  witnessId?: string; // Entry in the case's witness roster
+  witnessEmail?: string; // Sign-in email of the witness's client account; with server storage they may open this session
 }
 
+// Practice history is threaded: an answer to a follow-up points at the exchange that asked it
 export interface PracticeExchange {
   id: string;
-  questionId: string;
-  question: string;
+  questionId: string; // Prepared question the thread started from
+  question: string; // As asked: the prepared question or the examiner's follow-up
+  parentId?: string; // Exchange whose follow-up this answers; unset for prepared questions
   witnessResponse: string;
   aiFollowUp?: string;
   feedback?: string;
+  fallbackReason?: FallbackReason; // Set when the feedback is templated
+  scores?: AnswerScores; // Unset when the feedback is templated
+  answerFlags?: AnswerFlag[]; // Local checks of the answer; unset for answers saved before they ran
+  runId?: string; // Practice run (each start of practice mode); unset for answers saved before runs were tracked
+  recordingId?: string; // Spoken answer, kept in this browser (see lib/storage/recording-storage.ts)
   timestamp: string; // ISO string for localStorage serialization
   duration: number;
 }
 
+// A spoken answer to one practice question
 export interface SessionRecording {
   id: string;
   sessionId: string;
-  audioUrl?: string;
+  questionId: string;
+  mimeType: string;
+  audioUrl?: string; // Object URL for playback; created when the clip is loaded, never stored
   transcription?: string;
   status: 'recording' | 'processing' | 'completed' | 'error';
   startedAt: string; // ISO string for localStorage serialization
@@ -70,8 +95,110 @@ export interface AIExaminerResponse {
   feedback?: string;
   weaknessIdentified?: string;
   suggestedImprovement?: string;
+  scores?: AnswerScores;
 }
 
+// Rubric the examiner scores each answer on, from 1 (poor) to SCORE_SCALE (excellent).
+// Higher is always better: "volunteering" scores how well the witness avoided it.
+export type ScoreCategory = 'responsiveness' | 'brevity' | 'volunteering' | 'consistency' | 'composure';
+
+export type AnswerScores = Record<ScoreCategory, number>;
+
+export const SCORE_SCALE = 5;
+
+export const SCORE_CATEGORIES: Record<ScoreCategory, { label: string; description: string }> = {
+  responsiveness: { label: 'Responsiveness', description: 'Answers the question that was asked' },
+  brevity: { label: 'Brevity', description: 'As short as the question allows' },
+  volunteering: { label: 'No volunteering', description: 'Offers nothing beyond the question' },
+  consistency: { label: 'Consistency', description: 'Matches the documents and earlier answers' },
+  composure: { label: 'Composure', description: 'Calm, even and not argumentative' },
+};
+
+export const MAX_FOLLOW_UP_DEPTH = 5;
+
+// Who examines the witness in practice mode (prompts are in app/api/testimony/practice)
+export type ExaminerProfile = 'direct' | 'friendly_cross' | 'hostile_cross' | 'daubert' | 'judge';
+
+export const DEFAULT_EXAMINER_PROFILE: ExaminerProfile = 'hostile_cross';
+
+// Examiner display metadata; followUpDepth sets the pacing unless the session overrides it
+export const EXAMINER_PROFILES: Record<
+  ExaminerProfile,
+  { label: string; description: string; followUpDepth: number }
+> = {
+  direct: {
+    label: 'Direct examination',
+    description: 'Your own counsel rehearses direct with open questions, at an easy pace.',
+    followUpDepth: 1,
+  },
+  friendly_cross: {
+    label: 'Friendly cross',
+    description: 'Courteous opposing counsel who probes gaps without pressure.',
+    followUpDepth: 1,
+  },
+  hostile_cross: {
+    label: 'Hostile cross',
+    description: 'Aggressive opposing counsel with tight leading questions who keeps pressing.',
+    followUpDepth: 2,
+  },
+  daubert: {
+    label: 'Daubert challenge',
+    description: "Attacks an expert's qualifications, methodology, error rates and fit to the facts.",
+    followUpDepth: 3,
+  },
+  judge: {
+    label: 'Judge interjections',
+    description: 'The judge breaks in to clarify answers and rein in non-responsive ones.',
+    followUpDepth: 1,
+  },
+};
+
+// A classic witness mistake found by the local answer checks (lib/answer-analysis.ts)
+export interface AnswerFlag {
+  kind: 'volunteering' | 'guessing' | 'absolute' | 'length' | 'contradiction';
+  message: string;
+  excerpt?: string; // The words in the answer that raised the flag
+}
+
+export const ANSWER_FLAG_KINDS: Record<AnswerFlag['kind'], { label: string }> = {
+  volunteering: { label: 'Volunteering' },
+  guessing: { label: 'Guessing' },
+  absolute: { label: 'Absolutes' },
+  length: { label: 'Answer length' },
+  contradiction: { label: 'Conflicts with documents' },
+};
+
+// Why a result was built from templates instead of (or in addition to) model output
+export type FallbackReason = 'api_error' | 'invalid_output' | 'merge_failed' | 'budget_exceeded';
+
+export const FALLBACK_REASONS: Record<FallbackReason, { label: string; description: string }> = {
+  api_error: {
+    label: 'AI service unavailable',
+    description: 'The AI service could not be reached.',
+  },
+  invalid_output: {
+    label: 'Unusable AI response',
+    description: 'The AI response did not match the expected format, even after asking the model to correct it.',
+  },
+  merge_failed: {
+    label: 'Merge pass failed',
+    description: 'The final ranking pass over the document excerpts failed.',
+  },
+  budget_exceeded: {
+    label: 'AI budget used up',
+    description: 'The monthly AI budget ran out partway through the documents, so only the excerpts reviewed before then were used.',
+  },
+};
+
+// How long a saved session is kept (see lib/storage/retention.ts)
+//   expire: deleted `days` after its last change (the default retention period when omitted)
+//   pinned: kept until deleted by hand
+//   archived: kept, and listed apart from active sessions
+export type RetentionPolicy =
+  | { mode: 'expire'; days?: number }
+  | { mode: 'pinned' }
+  | { mode: 'archived' };
+
 // Question category display metadata
 export const QUESTION_CATEGORIES: Record<CrossExamQuestion['category'], { label: string; color: string }> = {
   timeline: { label: 'Timeline', color: 'blue' },
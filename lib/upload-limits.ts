@@ -0,0 +1,13 @@
+// Request size limits, shared by the upload and storage routes and next.config.ts
+// The middleware runs on every API route, and Next hands a route only the first
+// experimental.proxyClientMaxBodySize bytes of a request body (10MB by default),
+// so that setting has to cover the largest upload any route accepts.
+
+/** Largest PDF /api/pdf/extract and /api/ocr accept */
+export const MAX_PDF_BYTES = 100 * 1024 * 1024; // 100MB
+
+/**
+ * Largest request body passed through the middleware: a PDF plus its form fields.
+ * Also the largest session or document the storage routes accept.
+ */
+export const MAX_REQUEST_BODY_BYTES = MAX_PDF_BYTES + 1024 * 1024;
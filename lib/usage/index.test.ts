@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Access } from '@/lib/auth/access';
+import { getSessionBackend } from '@/lib/persistence';
+import { hasBudgetLeft, recordUsage, resolveUsageScope } from './index';
+import type { UsageScope } from './index';
+
+const access: Access = {
+  userId: 'user-1',
+  name: 'Dana',
+  email: 'dana@example.com',
+  organizationId: 'org-1',
+  role: 'associate',
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('resolveUsageScope', () => {
+  it('rejects requests that name no case', async () => {
+    const response = await resolveUsageScope(access, 'testimony/practice', undefined);
+    expect(response).toBeInstanceOf(NextResponse);
+    expect((response as NextResponse).status).toBe(400);
+  });
+
+  it("counts requests against the organization's case when the server stores cases", async () => {
+    vi.stubEnv('SESSION_STORAGE', 'sqlite');
+    vi.stubEnv('SQLITE_PATH', ':memory:');
+    const now = new Date().toISOString();
+    const caseRecord = { id: 'case-1', name: 'Acme v. Widget', createdAt: now, witnesses: [], documents: [] };
+    await getSessionBackend()!.forOrganization('org-1').putSession('cases', caseRecord);
+
+    expect(await resolveUsageScope(access, 'testimony/practice', 'case-1')).toEqual({
+      organizationId: 'org-1',
+      userId: 'user-1',
+      matter: 'case-1',
+      route: 'testimony/practice',
+    });
+    const missing = await resolveUsageScope(access, 'testimony/practice', 'Acme v. Widget');
+    expect((missing as NextResponse).status).toBe(404);
+    const otherOrganization = await resolveUsageScope({ ...access, organizationId: 'org-2' }, 'testimony/practice', 'case-1');
+    expect((otherOrganization as NextResponse).status).toBe(404);
+  });
+});
+
+describe('hasBudgetLeft', () => {
+  it("adds the request's usage so far to the month's ledger", () => {
+    vi.stubEnv('USAGE_DATABASE_PATH', ':memory:');
+    vi.stubEnv('BUDGET_MATTER_MONTHLY_TOKENS', '10000');
+    const scope: UsageScope = { organizationId: 'org-1', userId: 'user-1', matter: 'case-9', route: 'testimony/generate-questions' };
+    recordUsage(scope, { chars: 0, promptTokens: 6000, completionTokens: 0, cost: 0 });
+
+    expect(hasBudgetLeft(scope, { chars: 0, promptTokens: 3000, completionTokens: 500, cost: 0 })).toBe(true);
+    expect(hasBudgetLeft(scope, { chars: 0, promptTokens: 3500, completionTokens: 500, cost: 0 })).toBe(false);
+    expect(hasBudgetLeft({ ...scope, matter: 'case-10' }, { chars: 0, promptTokens: 3500, completionTokens: 500, cost: 0 })).toBe(true);
+  });
+});
@@ -0,0 +1,221 @@
+// Rate limits and monthly budgets for the LLM routes (server-side)
+// Each member is limited per minute, and so is each matter (case) across its members.
+// Requests name their matter by case id, which the server checks when it stores the cases.
+// Monthly token and cost budgets are checked against the usage ledger before a request
+// runs (and between the calls of long requests); the request's usage is recorded once it
+// finishes. Limits set to 0 are off.
+
+import { NextResponse } from 'next/server';
+import type { Access } from '@/lib/auth/access';
+import type { UsageTotals } from '@/lib/llm';
+import { getSessionBackend } from '@/lib/persistence';
+import { createUsageLedger } from './ledger';
+import type { UsageLedger, UsageSum } from './ledger';
+import { createRateLimiter } from './rate-limit';
+
+export const DEFAULT_USAGE_DATABASE_PATH = 'data/usage.sqlite';
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+export interface UsageLimits {
+  userRequestsPerMinute: number;
+  matterRequestsPerMinute: number;
+  userMonthlyTokens: number;
+  /** Dollars */
+  userMonthlyCost: number;
+  matterMonthlyTokens: number;
+  /** Dollars */
+  matterMonthlyCost: number;
+}
+
+/**
+ * Limits from configuration:
+ *   RATE_LIMIT_USER_PER_MINUTE (default 20)      RATE_LIMIT_MATTER_PER_MINUTE (default 60)
+ *   BUDGET_USER_MONTHLY_TOKENS, BUDGET_USER_MONTHLY_COST (dollars)
+ *   BUDGET_MATTER_MONTHLY_TOKENS, BUDGET_MATTER_MONTHLY_COST (dollars; budgets default to off)
+ */
+export function getUsageLimits(): UsageLimits {
+  const read = (name: string, fallback = 0) => {
+    const value = Number(process.env[name] ?? fallback);
+    return Number.isFinite(value) && value > 0 ? value : 0;
+  };
+
+  return {
+    userRequestsPerMinute: read('RATE_LIMIT_USER_PER_MINUTE', 20),
+    matterRequestsPerMinute: read('RATE_LIMIT_MATTER_PER_MINUTE', 60),
+    userMonthlyTokens: read('BUDGET_USER_MONTHLY_TOKENS'),
+    userMonthlyCost: read('BUDGET_USER_MONTHLY_COST'),
+    matterMonthlyTokens: read('BUDGET_MATTER_MONTHLY_TOKENS'),
+    matterMonthlyCost: read('BUDGET_MATTER_MONTHLY_COST'),
+  };
+}
+
+/** Who is making an LLM request, and for which matter */
+export interface UsageScope {
+  organizationId: string;
+  userId: string;
+  /** Case id */
+  matter: string;
+  route: string;
+}
+
+/**
+ * The scope of a request for the case `caseId`, or the response to send when it names
+ * no case or one the organization does not have. With browser storage the server keeps
+ * no cases, so the id is counted as sent: a client can avoid the matter limits by
+ * sending a new one each time, and only the member limits hold (see the README).
+ */
+export async function resolveUsageScope(
+  access: Access,
+  route: string,
+  caseId: unknown
+): Promise<UsageScope | NextResponse> {
+  if (typeof caseId !== 'string' || !caseId) {
+    return NextResponse.json(
+      { error: 'This session is not filed under a case. Reload the page and try again.' },
+      { status: 400 }
+    );
+  }
+
+  // The tool routes only let members of an organization through
+  const organizationId = access.organizationId!;
+  const backend = getSessionBackend();
+  if (backend && !(await backend.forOrganization(organizationId).getSession('cases', caseId, false))) {
+    return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+  }
+
+  return { organizationId, userId: access.userId, matter: caseId, route };
+}
+
+// One limiter and ledger connection per server process
+const rateLimiter = createRateLimiter(RATE_WINDOW_MS);
+let ledger: UsageLedger | null = null;
+
+function getLedger(): UsageLedger {
+  if (!ledger) {
+    ledger = createUsageLedger(process.env.USAGE_DATABASE_PATH || DEFAULT_USAGE_DATABASE_PATH);
+  }
+  return ledger;
+}
+
+function startOfMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function startOfNextMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+function limitResponse(error: string, limit: 'rate' | 'budget', retryAfterMs: number): NextResponse {
+  const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  return NextResponse.json(
+    { error, limit, retryAfter },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  );
+}
+
+function formatWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 60 ? `${seconds} second${seconds === 1 ? '' : 's'}` : `${Math.ceil(seconds / 60)} minutes`;
+}
+
+// The first budget `used` has reached, described for the user
+function exceededBudget(who: string, used: UsageSum, tokens: number, cost: number): string | null {
+  if (tokens > 0 && used.tokens >= tokens) {
+    return `${who} monthly allowance of ${tokens.toLocaleString('en-US')} AI tokens is used up`;
+  }
+  if (cost > 0 && used.cost >= cost) {
+    return `${who} monthly AI budget of $${cost.toFixed(2)} is used up`;
+  }
+  return null;
+}
+
+// The first monthly budget the ledger, plus `pending` usage not yet recorded, has reached
+function findExceededBudget(scope: UsageScope, limits: UsageLimits, pending: UsageSum, now: Date): string | null {
+  const since = startOfMonth(now);
+  const withPending = (used: UsageSum): UsageSum => ({
+    tokens: used.tokens + pending.tokens,
+    cost: used.cost + pending.cost,
+  });
+  try {
+    if (limits.userMonthlyTokens || limits.userMonthlyCost) {
+      const used = withPending(getLedger().sumForUser(scope.organizationId, scope.userId, since));
+      const exceeded = exceededBudget('Your', used, limits.userMonthlyTokens, limits.userMonthlyCost);
+      if (exceeded) return exceeded;
+    }
+    if (limits.matterMonthlyTokens || limits.matterMonthlyCost) {
+      const used = withPending(getLedger().sumForMatter(scope.organizationId, scope.matter, since));
+      return exceededBudget("This matter's", used, limits.matterMonthlyTokens, limits.matterMonthlyCost);
+    }
+  } catch (error) {
+    // An unreadable ledger does not stop the tools; the rate limits still apply
+    console.error('Error reading usage ledger:', error);
+  }
+  return null;
+}
+
+/**
+ * The 429 response to send when the request would go over a rate limit or budget;
+ * null when it may run (and it is then counted against the rate limits)
+ */
+export function checkUsageLimits(scope: UsageScope, now = new Date()): NextResponse | null {
+  const limits = getUsageLimits();
+  const userKey = `${scope.organizationId}:user:${scope.userId}`;
+  const matterKey = `${scope.organizationId}:matter:${scope.matter}`;
+
+  const userWait = limits.userRequestsPerMinute
+    ? rateLimiter.retryAfter(userKey, limits.userRequestsPerMinute, now.getTime())
+    : 0;
+  if (userWait > 0) {
+    return limitResponse(`Too many requests. Please wait ${formatWait(userWait)} and try again.`, 'rate', userWait);
+  }
+  const matterWait = limits.matterRequestsPerMinute
+    ? rateLimiter.retryAfter(matterKey, limits.matterRequestsPerMinute, now.getTime())
+    : 0;
+  if (matterWait > 0) {
+    return limitResponse(
+      `Too many requests for this matter. Please wait ${formatWait(matterWait)} and try again.`,
+      'rate',
+      matterWait
+    );
+  }
+
+  const resetsAt = startOfNextMonth(now);
+  const exceeded = findExceededBudget(scope, limits, { tokens: 0, cost: 0 }, now);
+  if (exceeded) {
+    const resetDate = resetsAt.toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' });
+    return limitResponse(`${exceeded}. It resets on ${resetDate}.`, 'budget', resetsAt.getTime() - now.getTime());
+  }
+
+  rateLimiter.hit(userKey, now.getTime());
+  rateLimiter.hit(matterKey, now.getTime());
+  return null;
+}
+
+/**
+ * Whether a request that has used `usage` so far may make further model calls.
+ * Budgets are checked when a request starts; requests that make many calls (the map
+ * step of question generation) also check between calls, so one request cannot run
+ * far past a budget.
+ */
+export function hasBudgetLeft(scope: UsageScope, usage: UsageTotals, now = new Date()): boolean {
+  const pending = { tokens: usage.promptTokens + usage.completionTokens, cost: usage.cost };
+  return !findExceededBudget(scope, getUsageLimits(), pending, now);
+}
+
+/**
+ * Add a finished request's usage to the ledger
+ */
+export function recordUsage(scope: UsageScope, usage: UsageTotals): void {
+  if (usage.promptTokens + usage.completionTokens === 0) return;
+  try {
+    getLedger().record({
+      ...scope,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cost: usage.cost,
+    });
+  } catch (error) {
+    console.error('Error recording usage:', error);
+  }
+}
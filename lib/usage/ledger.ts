@@ -0,0 +1,87 @@
+// Usage ledger (server-side): one row per LLM request, summed for the monthly budgets
+
+import { openSQLiteDatabase } from '@/lib/persistence/sqlite';
+
+// Applied in order; PRAGMA user_version is the number applied so far
+const SCHEMA_MIGRATIONS = [
+  `CREATE TABLE usage (
+     id INTEGER PRIMARY KEY,
+     organization_id TEXT NOT NULL,
+     user_id TEXT NOT NULL,
+     matter TEXT NOT NULL,
+     route TEXT NOT NULL,
+     prompt_tokens INTEGER NOT NULL,
+     completion_tokens INTEGER NOT NULL,
+     cost REAL NOT NULL,
+     created_at TEXT NOT NULL
+   );
+   CREATE INDEX usage_user ON usage (organization_id, user_id, created_at);
+   CREATE INDEX usage_matter ON usage (organization_id, matter, created_at);`,
+];
+
+export interface UsageEntry {
+  organizationId: string;
+  userId: string;
+  /** Case id */
+  matter: string;
+  /** API route that made the calls */
+  route: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface UsageSum {
+  tokens: number;
+  cost: number;
+}
+
+export interface UsageLedger {
+  record(entry: UsageEntry): void;
+  /** A member's usage in an organization since `since` */
+  sumForUser(organizationId: string, userId: string, since: Date): UsageSum;
+  /** Everyone's usage on a matter since `since` */
+  sumForMatter(organizationId: string, matter: string, since: Date): UsageSum;
+}
+
+export function createUsageLedger(path: string): UsageLedger {
+  const db = openSQLiteDatabase(path, SCHEMA_MIGRATIONS);
+
+  const statements = {
+    insert: db.prepare<[string, string, string, string, number, number, number, string]>(
+      `INSERT INTO usage (organization_id, user_id, matter, route, prompt_tokens, completion_tokens, cost, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ),
+    sumForUser: db.prepare<[string, string, string], UsageSum>(
+      `SELECT COALESCE(SUM(prompt_tokens + completion_tokens), 0) AS tokens, COALESCE(SUM(cost), 0) AS cost
+       FROM usage WHERE organization_id = ? AND user_id = ? AND created_at >= ?`
+    ),
+    sumForMatter: db.prepare<[string, string, string], UsageSum>(
+      `SELECT COALESCE(SUM(prompt_tokens + completion_tokens), 0) AS tokens, COALESCE(SUM(cost), 0) AS cost
+       FROM usage WHERE organization_id = ? AND matter = ? AND created_at >= ?`
+    ),
+  };
+
+  return {
+    record(entry) {
+      statements.insert.run(
+        entry.organizationId,
+        entry.userId,
+        entry.matter,
+        entry.route,
+        entry.promptTokens,
+        entry.completionTokens,
+        entry.cost,
+        new Date().toISOString()
+      );
+    },
+
+    sumForUser(organizationId, userId, since) {
+      return statements.sumForUser.get(organizationId, userId, since.toISOString())!;
+    },
+
+    sumForMatter(organizationId, matter, since) {
+      return statements.sumForMatter.get(organizationId, matter, since.toISOString())!;
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rate-limit';
+
+describe('createRateLimiter', () => {
+  it('waits until the oldest counted request leaves the window', () => {
+    const limiter = createRateLimiter(60_000);
+    limiter.hit('user', 0);
+    limiter.hit('user', 10_000);
+    expect(limiter.retryAfter('user', 2, 20_000)).toBe(40_000);
+    expect(limiter.retryAfter('user', 2, 60_000)).toBe(0);
+  });
+
+  it('forgets keys that made no request in the window', () => {
+    const limiter = createRateLimiter(60_000);
+    for (let i = 0; i < 100; i++) limiter.hit(`user-${i}`, 0);
+    expect(limiter.size).toBe(100);
+
+    limiter.hit('later', 60_000);
+    expect(limiter.size).toBe(1);
+  });
+});
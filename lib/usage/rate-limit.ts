@@ -0,0 +1,53 @@
+// Sliding-window request counter, kept in memory by each server process
+
+export interface RateLimiter {
+  /** Milliseconds until `key` may make another request under `limit`; 0 when it may now */
+  retryAfter(key: string, limit: number, now?: number): number;
+  /** Count a request for `key` */
+  hit(key: string, now?: number): void;
+  /** Keys with requests in the window */
+  readonly size: number;
+}
+
+export function createRateLimiter(windowMs: number): RateLimiter {
+  // Request times per key, oldest first
+  const hits = new Map<string, number[]>();
+  let sweptAt = 0;
+
+  // Forget keys that made no request in the window, at most once per window
+  const sweep = (now: number) => {
+    if (now - sweptAt < windowMs) return;
+    sweptAt = now;
+    for (const [key, times] of hits) {
+      if (times[times.length - 1] <= now - windowMs) hits.delete(key);
+    }
+  };
+
+  const recent = (key: string, now: number): number[] => {
+    const times = (hits.get(key) ?? []).filter((time) => time > now - windowMs);
+    if (times.length > 0) {
+      hits.set(key, times);
+    } else {
+      hits.delete(key);
+    }
+    return times;
+  };
+
+  return {
+    retryAfter(key, limit, now = Date.now()) {
+      const times = recent(key, now);
+      if (times.length < limit) return 0;
+      // Room opens when the request `limit` places back leaves the window
+      return times[times.length - limit] + windowMs - now;
+    },
+
+    hit(key, now = Date.now()) {
+      sweep(now);
+      hits.set(key, [...recent(key, now), now]);
+    },
+
+    get size() {
+      return hits.size;
+    },
+  };
+}
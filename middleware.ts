@@ -1,16 +1,53 @@
 /**
  * Next.js Middleware
  *
- * In the OSS version, authentication is handled client-side via localStorage.
- * This middleware is a pass-through that allows all routes.
- * Authentication checks happen in individual page components.
+ * Turns away requests without a Better Auth session cookie before they reach a page
+ * or API route: API routes answer 401, pages redirect to /login and come back after
+ * signing in. Only the sign-in flow itself is public (see PUBLIC_PATHS).
+ *
+ * The middleware runs before the auth database is available, so it only checks that
+ * the cookie is present. The session, organization and role are verified by the page
+ * and by every route (lib/auth/access).
  */
 
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import { getSessionCookie } from "better-auth/cookies";
+
+/**
+ * Paths reachable without signing in (each also covers the paths below it)
+ */
+const PUBLIC_PATHS = [
+  "/login",
+  // Invitation links send signed-out users to /login and back
+  "/accept-invite",
+  // Better Auth: sign in, sign up, sessions and organizations
+  "/api/auth",
+  // API key step of the login page
+  "/api/verify-key",
+  // Clears the API key cookie, also after the session has ended
+  "/api/logout",
+];
+
+function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`));
+}
 
 export function middleware(request: NextRequest) {
-  return NextResponse.next();
+  const { pathname, search } = request.nextUrl;
+  if (isPublicPath(pathname) || getSessionCookie(request)) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Please sign in to continue." }, { status: 401 });
+  }
+
+  const loginUrl = new URL("/login", request.url);
+  if (pathname !== "/") {
+    loginUrl.searchParams.set("next", `${pathname}${search}`);
+  }
+  return NextResponse.redirect(loginUrl);
 }
 
 /**
@@ -20,10 +57,11 @@ export function middleware(request: NextRequest) {
  * - _next/static (static files)
  * - _next/image (image optimization)
  * - favicon.ico
+ * - pdfjs (PDF.js worker, CMaps and fonts copied into public/)
  * - public files (svg, png, jpg, etc.)
  */
 export const config = {
   matcher: [
-    "/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)",
+    "/((?!_next/static|_next/image|favicon.ico|pdfjs/|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)",
   ],
 };
@@ -1,7 +1,18 @@
 import type { NextConfig } from "next";
+import { MAX_REQUEST_BODY_BYTES } from "./lib/upload-limits";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Loaded from node_modules at runtime by /api/pdf/extract (legacy build + data files)
+  serverExternalPackages: ["pdfjs-dist", "better-sqlite3"],
+  experimental: {
+    // The middleware sees every /api request; without this, bodies over 10MB reach the
+    // upload routes cut off (see lib/upload-limits.ts)
+    proxyClientMaxBodySize: MAX_REQUEST_BODY_BYTES,
+  },
+  // Tells the client storage layer whether sessions live in the browser or on the server
+  env: {
+    NEXT_PUBLIC_SESSION_STORAGE: process.env.SESSION_STORAGE || "browser",
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+
+// Copies the PDF.js worker, CMaps and standard fonts from pdfjs-dist into
+// public/pdfjs so the browser loads them from this app instead of a CDN.
+// Runs on postinstall and before dev/build, so the worker always matches
+// the installed pdfjs-dist version.
+
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { fileURLToPath } from "url";
+
+const require = createRequire(import.meta.url);
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const sourceDir = path.dirname(require.resolve("pdfjs-dist/package.json"));
+const targetDir = path.resolve(__dirname, "..", "public", "pdfjs");
+
+const assets = [
+  "build/pdf.worker.min.mjs",
+  "cmaps",
+  "standard_fonts",
+];
+
+fs.rmSync(targetDir, { recursive: true, force: true });
+fs.mkdirSync(targetDir, { recursive: true });
+
+for (const asset of assets) {
+  const from = path.join(sourceDir, asset);
+  const to = path.join(targetDir, path.basename(asset));
+  fs.cpSync(from, to, { recursive: true });
+}
+
+const { version } = require("pdfjs-dist/package.json");
+console.log(`Copied PDF.js ${version} assets to public/pdfjs`);
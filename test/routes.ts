@@ -0,0 +1,111 @@
+/**
+ * Shared setup for API route tests
+ *
+ * Route tests replace lib/auth/access with this module, so a request runs as the
+ * member passed to signInAs instead of looking up a Better Auth session. Roles are
+ * still checked against the real permissions.
+ *
+ *   vi.mock('@/lib/auth/access', () => import('@/test/routes'));
+ *   setUpRouteTests({ LLM_PROVIDER: 'mock' });
+ */
+
+import type { IncomingMessage } from 'node:http';
+import { Readable } from 'node:stream';
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloneableBody } from 'next/dist/server/body-streams';
+import { afterEach, beforeEach, vi } from 'vitest';
+import nextConfig from '@/next.config';
+import type { Access } from '@/lib/auth/access';
+import { appPermissions, roleHasPermissions } from '@/lib/auth/permissions';
+import type { AppPermission, Permissions } from '@/lib/auth/permissions';
+
+let currentAccess: Access | null = null;
+
+/**
+ * A member of org-1
+ */
+export function member(userId = 'user-1', role = 'associate'): Access {
+  return {
+    userId,
+    name: userId,
+    email: `${userId}@example.com`,
+    organizationId: 'org-1',
+    role,
+  };
+}
+
+/**
+ * Make the following requests as `access`; null makes them signed out
+ */
+export function signInAs(access: Access | null): void {
+  currentAccess = access;
+}
+
+/**
+ * Before each test, sign in as `access` and set the environment variables `env`;
+ * afterwards, undo them along with any stubbed globals and spies
+ */
+export function setUpRouteTests(env: Record<string, string> = {}, access: Access = member()): void {
+  beforeEach(() => {
+    signInAs(access);
+    for (const [name, value] of Object.entries(env)) {
+      vi.stubEnv(name, value);
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+}
+
+/**
+ * `request` as a route receives it behind the middleware: the body arrives in 64KB
+ * chunks, as from a socket, and Next passes on no more than
+ * experimental.proxyClientMaxBodySize bytes of it (next.config.ts, or `sizeLimit`)
+ */
+export async function throughMiddleware(
+  request: Request,
+  sizeLimit = Number(nextConfig.experimental?.proxyClientMaxBodySize ?? 10 * 1024 * 1024)
+): Promise<NextRequest> {
+  const body = new Uint8Array(await request.arrayBuffer());
+  const chunks = Readable.from(
+    (function* () {
+      for (let offset = 0; offset < body.length; offset += 64 * 1024) {
+        yield body.subarray(offset, offset + 64 * 1024);
+      }
+    })()
+  );
+  const received: Uint8Array[] = [];
+  for await (const chunk of getCloneableBody(chunks as IncomingMessage, sizeLimit).cloneBodyStream()) {
+    received.push(chunk);
+  }
+
+  return new NextRequest(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: Buffer.concat(received),
+  });
+}
+
+// Stand-ins for lib/auth/access
+
+export function can(access: Access | null, permission: AppPermission | Permissions): boolean {
+  if (!access?.organizationId) return false;
+  const permissions = typeof permission === 'string' ? appPermissions[permission] : permission;
+  return roleHasPermissions(access.role, permissions);
+}
+
+export async function requireAccess(
+  _request: Request,
+  permission: AppPermission | Permissions
+): Promise<Access | NextResponse> {
+  if (!currentAccess) {
+    return NextResponse.json({ error: 'Please sign in to continue.' }, { status: 401 });
+  }
+  if (!can(currentAccess, permission)) {
+    return NextResponse.json({ error: 'Your role in this organization does not allow this.' }, { status: 403 });
+  }
+  return currentAccess;
+}